@@ -0,0 +1,143 @@
+import { TestTags } from '../fixtures/test-tags.fixture';
+
+/**
+ * Schema for the environment profiles in config/environments/*.json
+ * EnvironmentManager validates the selected profile (after environment variable overrides)
+ * against it at startup, so a typo in a profile fails the run before any test starts.
+ *
+ * @author XWP Platform Team
+ */
+
+type FieldRule =
+  | { type: 'string'; required?: boolean; format?: 'url' | 'path'; enum?: readonly string[] }
+  | { type: 'string[]'; required?: boolean; enum: readonly string[] }
+  | { type: 'number'; required?: boolean; min: number; max?: number }
+  | { type: 'boolean'; required?: boolean }
+  | { type: 'object'; required?: boolean; properties: Record<string, FieldRule> };
+
+export const environmentProfileSchema: Record<string, FieldRule> = {
+  name: { type: 'string', required: true },
+  description: { type: 'string' },
+  baseUrl: { type: 'string', required: true, format: 'url' },
+  apiUrl: { type: 'string', format: 'url' },
+  loginPath: { type: 'string', format: 'path' },
+  timeouts: {
+    type: 'object',
+    required: true,
+    properties: {
+      element: { type: 'number', required: true, min: 1000, max: 300000 },
+      action: { type: 'number', required: true, min: 1000, max: 300000 },
+      navigation: { type: 'number', required: true, min: 1000, max: 300000 }
+    }
+  },
+  retries: {
+    type: 'object',
+    required: true,
+    properties: {
+      element: { type: 'number', required: true, min: 1, max: 10 },
+      test: { type: 'number', required: true, min: 0, max: 5 },
+      testOnCi: { type: 'number', required: true, min: 0, max: 5 }
+    }
+  },
+  headless: { type: 'boolean' },
+  editor: { type: 'string', enum: ['auto', 'classic', 'block'] },
+  tagPolicy: {
+    type: 'object',
+    required: true,
+    properties: {
+      satisfies: { type: 'string[]', required: true, enum: ['@local-only', '@dev-only', '@staging-only', '@local-stand-in'] },
+      requireProdSafe: { type: 'boolean', required: true },
+      onViolation: { type: 'string', required: true, enum: ['skip', 'fail'] }
+    }
+  }
+};
+
+/**
+ * Check that a value is an absolute http(s) URL
+ */
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a profile against the schema
+ * @param value - Parsed profile JSON
+ * @param schema - Rules to check (nested objects recurse with their own properties)
+ * @param prefix - Dotted path of the parent object, used in messages
+ * @returns Problems found; empty when the profile is valid
+ */
+export function validateEnvironmentProfile(
+  value: unknown,
+  schema: Record<string, FieldRule> = environmentProfileSchema,
+  prefix: string = ''
+): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${prefix || 'profile'} must be an object`];
+  }
+
+  const record = value as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const key of Object.keys(record)) {
+    if (!(key in schema)) {
+      problems.push(`${prefix}${key} is not a known profile field`);
+    }
+  }
+
+  for (const [key, rule] of Object.entries(schema)) {
+    const field = `${prefix}${key}`;
+    const fieldValue = record[key];
+
+    if (fieldValue === undefined) {
+      if (rule.required) {
+        problems.push(`${field} is required`);
+      }
+      continue;
+    }
+
+    switch (rule.type) {
+      case 'string':
+        if (typeof fieldValue !== 'string' || fieldValue.trim() === '') {
+          problems.push(`${field} must be a non-empty string`);
+        } else if (rule.format === 'url' && !isHttpUrl(fieldValue)) {
+          problems.push(`${field} must be an absolute http(s) URL, got "${fieldValue}"`);
+        } else if (rule.format === 'path' && !fieldValue.startsWith('/')) {
+          problems.push(`${field} must start with "/", got "${fieldValue}"`);
+        } else if (rule.enum && !rule.enum.includes(fieldValue)) {
+          problems.push(`${field} must be one of ${rule.enum.join(', ')}, got "${fieldValue}"`);
+        }
+        break;
+      case 'string[]':
+        if (!Array.isArray(fieldValue)) {
+          problems.push(`${field} must be an array`);
+        } else {
+          fieldValue
+            .filter(item => typeof item !== 'string' || !rule.enum.includes(item))
+            .forEach(item => problems.push(`${field} entries must be one of ${rule.enum.join(', ')}, got ${JSON.stringify(item)}`));
+        }
+        break;
+      case 'number':
+        if (typeof fieldValue !== 'number' || !Number.isInteger(fieldValue)) {
+          problems.push(`${field} must be an integer, got ${String(fieldValue)}`);
+        } else if (fieldValue < rule.min || (rule.max !== undefined && fieldValue > rule.max)) {
+          problems.push(`${field} must be between ${rule.min} and ${rule.max ?? 'unbounded'}, got ${fieldValue}`);
+        }
+        break;
+      case 'boolean':
+        if (typeof fieldValue !== 'boolean') {
+          problems.push(`${field} must be true or false`);
+        }
+        break;
+      case 'object':
+        problems.push(...validateEnvironmentProfile(fieldValue, rule.properties, `${field}.`));
+        break;
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,46 @@
+/**
+ * Block Editor Test Data Fixture
+ * Contains test data for block editor (Gutenberg) tests
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+
+export const blockEditorTestData = {
+  // Same title pattern as the classic editor specs, so TestDataRegistry sweeps leftovers
+  dynamicTitle: () => `Draft Post ${TestUtils.generateRandomString(8)}`,
+
+  paragraphs: [
+    'First paragraph written in the block editor.',
+    'Second paragraph written in the block editor.',
+    'Third paragraph written in the block editor.'
+  ],
+
+  heading: { text: 'Block editor section heading', level: 3 },
+
+  listItems: ['First list item', 'Second list item', 'Third list item'],
+
+  tags: 'block-editor, automation',
+
+  excerpt: 'Excerpt written in the block editor document sidebar.'
+};
+
+// Test scenarios configuration
+export const blockEditorTestScenarios = {
+  // Serialized block names as stored in post_content and reported by getBlocks()
+  blockNames: {
+    paragraph: 'core/paragraph',
+    heading: 'core/heading',
+    list: 'core/list',
+    image: 'core/image'
+  },
+
+  // Row labels of the pre-publish panel
+  prePublishChecks: ['Visibility', 'Publish'],
+
+  timeouts: {
+    upload: 60000
+  }
+};
@@ -0,0 +1,39 @@
+/**
+ * Comments Test Data Fixture
+ * Contains test data for posting, moderating, replying to and editing comments
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+import { CommentFormData } from '../pages/single-post.page';
+
+export const commentsTestData = {
+  dynamicComment: () => `Automation comment ${TestUtils.generateRandomString(10)}`,
+
+  // A first-time commenter, so WordPress holds the comment for moderation
+  visitor: (): CommentFormData => {
+    const name = `automation_visitor_${TestUtils.generateRandomString(6).toLowerCase()}`;
+    return {
+      content: `Automation comment ${TestUtils.generateRandomString(10)}`,
+      author: name,
+      email: `${name}@xwp.test`,
+      website: 'https://example.com'
+    };
+  },
+
+  // Values written over a comment with Quick Edit
+  quickEdit: {
+    author: 'Edited Automation Visitor',
+    authorUrl: 'https://example.org'
+  },
+
+  dynamicPostTitle: () => `Comments Post ${TestUtils.generateRandomString(8)}`
+};
+
+// Test scenarios configuration
+export const commentsTestScenarios = {
+  awaitingModeration: 'Your comment is awaiting moderation.',
+  duplicateCommentError: 'Duplicate comment detected; it looks as though you’ve already said that!'
+};
@@ -0,0 +1,44 @@
+/**
+ * Environment Guard Fixture
+ * Extends Playwright's test so environment tags actually gate execution against the TEST_ENV profile
+ *
+ * - Before each test: @local-only, @dev-only and @staging-only tests are skipped (or failed, per the
+ *   profile's tagPolicy.onViolation) on targets that satisfy none of their environment tags
+ *   (@local-stand-in opts a @staging-only test into the local stand-in); protected targets (prod)
+ *   only admit @prod-safe tests
+ * - During a @prod-safe test: ElementHelper refuses trash, delete and publish interactions
+ *
+ * The test data registry fixture (and so the role fixture) builds on this one.
+ *
+ * @author XWP Platform Team
+ */
+
+import { test as base } from '@playwright/test';
+import { EnvironmentManager } from '../utils/environment.utils';
+import { EnvironmentGuard } from '../utils/environment-guard.utils';
+import { SmartLogger } from '../utils/smart-logger.utils';
+
+type EnvironmentGuardFixtures = {
+  environmentGuard: EnvironmentGuard;
+};
+
+export const test = base.extend<EnvironmentGuardFixtures>({
+  environmentGuard: [async ({}, use, testInfo) => {
+    const guard = EnvironmentGuard.getInstance();
+    const decision = guard.evaluate(testInfo.tags);
+
+    if (!decision.allowed) {
+      if (EnvironmentManager.getInstance().getTagPolicy().onViolation === 'fail') {
+        throw new Error(`Environment guard: ${decision.reason}`);
+      }
+      SmartLogger.log('INFO', `Environment guard skipped "${testInfo.title}": ${decision.reason}`);
+      testInfo.skip(true, decision.reason);
+    }
+
+    guard.beginTest(testInfo.title, testInfo.tags);
+    await use(guard);
+    guard.endTest();
+  }, { auto: true }]
+});
+
+export { expect } from '@playwright/test';
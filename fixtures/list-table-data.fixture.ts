@@ -0,0 +1,36 @@
+/**
+ * List Table Test Data Fixture
+ * Contains test data for pagination, sorting and Screen Options of the posts and categories lists
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+import { categoryTestData } from './categories-data.fixture';
+
+export const listTableTestData = {
+  // LEFTOVER_PATTERNS.post - the posts are published, which the sweep lists as well
+  dynamicTitle: () => `Draft Post ${TestUtils.generateRandomString(8)}`,
+
+  // Shared by every post (content) or category (slug) of one test, so a search lists exactly that set
+  dynamicMarker: () => `listtable${TestUtils.generateRandomString(8).toLowerCase()}`,
+
+  // Past dates a day apart, oldest first, so date order does not depend on creation speed
+  postDates: ['2023-03-01T09:00:00', '2023-03-02T09:00:00', '2023-03-03T09:00:00'],
+
+  // Named and described like categoryTestData.dynamicCategory() so leftovers are swept; the term search matches slugs too
+  dynamicCategory: (marker: string, index: number) => ({
+    ...categoryTestData.dynamicCategory(),
+    slug: `${marker}-${index}`
+  })
+};
+
+// Test scenarios configuration
+export const listTableTestScenarios = {
+  // Small enough that three items span two pages
+  itemsPerPage: 2,
+  // WordPress' default, restored after each test since Screen Options are saved per user
+  defaultItemsPerPage: 20,
+  expectedPages: 2
+};
@@ -0,0 +1,72 @@
+/**
+ * Media Test Data Fixture
+ * Contains test data for WordPress media library tests; the files themselves live in fixtures/media
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { test } from '@playwright/test';
+import { TestUtils } from '../utils/test.utils';
+
+/** Bundled upload files */
+export const MEDIA_FIXTURES_DIR = path.join(__dirname, 'media');
+
+const mediaFiles = {
+  image: { fileName: 'sample-image.png', mimeType: 'image/png', type: 'image' },
+  document: { fileName: 'sample-document.pdf', mimeType: 'application/pdf', type: 'document' },
+  // Unknown extension - WordPress refuses it for every role
+  unsupported: { fileName: 'unsupported-file.xyz', mimeType: 'application/octet-stream', type: 'unsupported' }
+};
+
+export type MediaFixture = keyof typeof mediaFiles;
+
+export const mediaTestData = {
+  files: mediaFiles,
+
+  /**
+   * Copy a bundled file under a unique name, so the attachment title (WordPress uses the file
+   * name) can be searched for and matched by the leftover sweep. The copy goes into the running
+   * test's output directory, which Playwright empties at the start of every run.
+   * @returns Path of the copy and the title WordPress will give it
+   */
+  uniqueFile: (fixture: MediaFixture) => {
+    const source = mediaFiles[fixture].fileName;
+    const title = `automation-media-${TestUtils.generateRandomString(6).toLowerCase()}`;
+    const filePath = test.info().outputPath(`${title}${path.extname(source)}`);
+    fs.copyFileSync(path.join(MEDIA_FIXTURES_DIR, source), filePath);
+    return { filePath, title };
+  },
+
+  // Attachment details modal fields
+  details: () => ({
+    altText: `Automation alt text ${TestUtils.generateRandomString(6)}`,
+    caption: `Automation caption ${TestUtils.generateRandomString(6)}`,
+    description: `Automation description created at ${new Date().toISOString()}`
+  }),
+
+  /**
+   * Month label the date filters show for an upload date, e.g. "October 2026"
+   */
+  monthLabel: (date: string) => new Date(date).toLocaleString('en-US', { month: 'long', year: 'numeric' }),
+
+  searchTerms: {
+    nonExisting: 'NonExistentMedia12345'
+  }
+};
+
+// Test scenarios configuration
+export const mediaTestScenarios = {
+  // Timeouts for different operations
+  timeouts: {
+    upload: 60000,
+    save: 10000
+  },
+
+  // Expected error scenarios
+  errorScenarios: {
+    unsupportedType: 'Sorry, you are not allowed to upload this file type.'
+  }
+};
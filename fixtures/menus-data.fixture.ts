@@ -0,0 +1,35 @@
+/**
+ * Menus Test Data Fixture
+ * Contains menus, the content added to them and custom links for the nav-menus.php tests
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+
+export const menusTestData = {
+  dynamicMenuName: () => `Automation Menu ${TestUtils.generateRandomString(8)}`,
+
+  // Content the menu links to - created through the REST API for each test
+  content: () => {
+    const suffix = TestUtils.generateRandomString(6);
+    return {
+      pageTitle: `Menu Page ${suffix}`,
+      postTitle: `Menu Post ${suffix}`,
+      categoryName: `Menu Category ${suffix}`
+    };
+  },
+
+  customLink: {
+    url: 'https://example.com/',
+    label: 'Automation Link'
+  }
+};
+
+// Test scenarios configuration
+export const menusTestScenarios = {
+  created: (name: string) => `${name} has been created.`,
+  deleted: 'The menu has been successfully deleted.',
+  duplicateNameError: (name: string) => `The menu name ${name} conflicts with another menu name. Please try another.`
+};
@@ -0,0 +1,45 @@
+/**
+ * Pages Test Data Fixture
+ * Contains test data for WordPress page (post_type=page) management tests
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+
+export const pagesTestData = {
+  // Dynamic page data - the title pattern is swept by TestDataRegistry when a run is aborted
+  dynamicPage: () => ({
+    title: `Automation Page ${TestUtils.generateRandomString(6)}`,
+    content: `Test page created by automation at ${new Date().toISOString()}`
+  }),
+
+  // Menu order used for child pages
+  menuOrder: 5,
+
+  // Template every theme offers
+  defaultTemplate: 'Default template',
+
+  // Search terms
+  searchTerms: {
+    partial: 'Automation Page',
+    nonExisting: 'NonExistentPage12345'
+  }
+};
+
+// Test scenarios configuration
+export const pageTestScenarios = {
+  // Timeouts for different operations
+  timeouts: {
+    create: 15000,
+    hierarchy: 10000
+  },
+
+  // Expected success messages (WordPress standard)
+  successMessages: {
+    published: 'Page published.',
+    updated: 'Page updated.',
+    draftUpdated: 'Page draft updated.'
+  }
+};
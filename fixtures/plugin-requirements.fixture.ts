@@ -0,0 +1,61 @@
+/**
+ * Plugin Requirements Fixture
+ * Extends the test data registry fixture so tests can declare the plugins they need, by slug (directory name):
+ *
+ *   test.use({ requiredPlugins: ['jetpack'] });
+ *
+ * - Before each test that declares plugins: every one must be installed and active on the target, checked
+ *   through wp/v2/plugins with the admin session - otherwise the test is skipped with the missing plugins as reason
+ * - Tests tagged @plugin-dependent must declare their plugins and tests that declare plugins must carry the tag;
+ *   either mistake fails the test
+ *
+ * The role fixture builds on this one.
+ *
+ * @author XWP Platform Team
+ */
+
+import { test as base } from './test-data-registry.fixture';
+import { TestTags } from './test-tags.fixture';
+import { EnvironmentGuard, GuardDecision } from '../utils/environment-guard.utils';
+import { SmartLogger } from '../utils/smart-logger.utils';
+
+type PluginRequirementFixtures = {
+  requiredPlugins: string[];
+  pluginRequirements: void;
+};
+
+export const test = base.extend<PluginRequirementFixtures>({
+  requiredPlugins: [[], { option: true }],
+
+  pluginRequirements: [async ({ requiredPlugins, cleanupApi }, use, testInfo) => {
+    const isDependent = testInfo.tags.includes(TestTags.PLUGIN_DEPENDENT);
+    if (isDependent && requiredPlugins.length === 0) {
+      throw new Error(`"${testInfo.title}" is tagged ${TestTags.PLUGIN_DEPENDENT} but declares no plugins - add test.use({ requiredPlugins: [...] })`);
+    }
+    if (!isDependent && requiredPlugins.length > 0) {
+      throw new Error(`"${testInfo.title}" requires ${requiredPlugins.join(', ')} but is not tagged ${TestTags.PLUGIN_DEPENDENT}`);
+    }
+
+    if (isDependent) {
+      let decision: GuardDecision;
+      if (!cleanupApi) {
+        decision = { allowed: false, reason: 'No admin session saved - cannot check the required plugins' };
+      } else {
+        try {
+          decision = EnvironmentGuard.getInstance().evaluatePlugins(requiredPlugins, await cleanupApi.listPlugins());
+        } catch (error) {
+          decision = { allowed: false, reason: `Could not list the installed plugins: ${(error as Error).message}` };
+        }
+      }
+
+      if (!decision.allowed) {
+        SmartLogger.log('INFO', `Plugin requirements skipped "${testInfo.title}": ${decision.reason}`);
+        testInfo.skip(true, decision.reason);
+      }
+    }
+
+    await use();
+  }, { auto: true }]
+});
+
+export { expect } from './test-data-registry.fixture';
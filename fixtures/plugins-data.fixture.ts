@@ -0,0 +1,12 @@
+/**
+ * Plugins Test Data Fixture
+ * Contains the plugins the plugins.php tests may switch on and off
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+export const pluginsTestData = {
+  // Plugins without side effects on the site, by slug in order of preference - the first one installed is used
+  toggleCandidates: ['hello-dolly', 'hello', 'akismet']
+};
@@ -0,0 +1,35 @@
+/**
+ * Post List Actions Test Data Fixture
+ * Contains test data for Quick Edit, Bulk Edit and the Trash bulk actions of the posts list (edit.php)
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+import { testUsers } from './test-data.fixture';
+
+export const postListActionsTestData = {
+  // LEFTOVER_PATTERNS.post - Quick Edit renames to another dynamicTitle(), so a renamed leftover is swept too
+  dynamicTitle: () => `Draft Post ${TestUtils.generateRandomString(8)}`,
+
+  content: 'Post created by the posts list automation.',
+
+  quickEdit: {
+    slug: () => `quick-edit-${TestUtils.generateRandomString(6).toLowerCase()}`,
+    // A past date at a round time, so a published post stays published
+    date: new Date(2024, 0, 2, 10, 5)
+  },
+
+  // Bulk Edit reassigns posts to this account (login name, as listed in the Author dropdown)
+  bulkAuthor: testUsers.editor.username
+};
+
+// Test scenarios configuration
+export const postListActionsTestScenarios = {
+  // wp/v2 value of quickEdit.date, in the site's timezone
+  restDate: '2024-01-02T10:05',
+
+  // Posts changed at once by the bulk specs
+  bulkSize: 2
+};
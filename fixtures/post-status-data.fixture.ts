@@ -0,0 +1,43 @@
+/**
+ * Post Status Test Data Fixture
+ * Contains test data for scheduling, visibility, sticky and pending review tests of the classic editor
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+
+export const postStatusTestData = {
+  // LEFTOVER_PATTERNS.post - a scheduled, private or pending post a crashed run leaves is still swept
+  dynamicTitle: () => `Draft Post ${TestUtils.generateRandomString(8)}`,
+
+  content: 'Post created by the post status automation.',
+
+  // A week ahead at a round time - far enough that WordPress cannot publish it during the run
+  scheduledDate: () => {
+    const date = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    date.setHours(10, 30, 0, 0);
+    return date;
+  },
+
+  password: `pass-${TestUtils.generateRandomString(6)}`
+};
+
+// Test scenarios configuration
+export const postStatusTestScenarios = {
+  // wp/v2 statuses each editor state is saved as
+  restStatuses: {
+    scheduled: 'future',
+    private: 'private',
+    pending: 'pending',
+    published: 'publish'
+  },
+
+  // Expected success messages (WordPress standard)
+  successMessages: {
+    scheduled: 'Post scheduled',
+    published: 'Post published.',
+    updated: 'Post updated.'
+  }
+};
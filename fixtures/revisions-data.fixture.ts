@@ -0,0 +1,30 @@
+/**
+ * Revisions Test Data Fixture
+ * Contains test data for browsing, comparing and restoring post revisions
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+
+export const revisionsTestData = {
+  // Same title pattern as the other post specs, so TestDataRegistry sweeps leftovers
+  dynamicTitle: () => `Draft Post ${TestUtils.generateRandomString(8)}`,
+
+  // Content of the post as created, then after each of the two edits - one revision each
+  versions: [
+    'First version of the post, written when it was created.',
+    'Second version of the post, after the first edit.',
+    'Third version of the post, after the second edit.'
+  ]
+};
+
+// Test scenarios configuration
+export const revisionsTestScenarios = {
+  // Creating the post and editing it twice
+  expectedRevisions: 3,
+
+  // Restoring saves the post again, which adds a revision
+  expectedRevisionsAfterRestore: 4
+};
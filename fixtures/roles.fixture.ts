@@ -0,0 +1,51 @@
+/**
+ * Role-Aware Test Fixture
+ * Extends Playwright's test with an asRole() helper that returns a PageFactory
+ * bound to a browser context logged in as the requested UserRole
+ *
+ * Sessions come from the per-role storage states written by tests/auth.setup.ts.
+ * Roles without a saved session skip the test instead of failing it.
+ * Content created in role contexts is cleaned up by the test data registry fixture.
+ *
+ * @author XWP Platform Team
+ */
+
+import { BrowserContext } from '@playwright/test';
+import { test as base } from './plugin-requirements.fixture';
+import PageFactory from '../pages/page.factory';
+import { UserRole } from '../types/base.types';
+import { AuthManager } from '../utils/auth.utils';
+
+type RoleFixtures = {
+  asRole: (role: UserRole | `${UserRole}`) => Promise<PageFactory>;
+};
+
+export const test = base.extend<RoleFixtures>({
+  asRole: async ({ browser }, use) => {
+    const contexts: BrowserContext[] = [];
+
+    await use(async (role) => {
+      const userRole = role as UserRole;
+
+      base.skip(
+        !AuthManager.hasStorageState(userRole),
+        `No saved session for ${userRole} - run the setup project with a working ${userRole} account`
+      );
+
+      const context = await browser.newContext({
+        storageState: AuthManager.getStorageStatePath(userRole)
+      });
+      contexts.push(context);
+      AuthManager.setContextRole(context, userRole);
+
+      const page = await context.newPage();
+      return new PageFactory(page);
+    });
+
+    for (const context of contexts) {
+      await context.close();
+    }
+  }
+});
+
+export { expect } from './plugin-requirements.fixture';
@@ -0,0 +1,47 @@
+/**
+ * Settings Test Data Fixture
+ * Contains values written to the Settings screens; the settings fixture puts the originals back
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+import { GeneralSettings } from '../pages/general-settings.page';
+import { MediaSettings } from '../pages/media-settings.page';
+
+export const settingsTestData = {
+  general: (): Omit<GeneralSettings, 'weekStartsOn'> => ({
+    siteTitle: `Automation Site ${TestUtils.generateRandomString(6)}`,
+    tagline: 'Settings changed by the automation suite',
+    timezone: 'America/New_York',
+    // No preset radio has this one, so it goes through the Custom field
+    dateFormat: 'j F Y',
+    timeFormat: 'H:i'
+  }),
+
+  media: {
+    thumbnailWidth: 120,
+    thumbnailHeight: 120,
+    cropThumbnails: false,
+    mediumWidth: 320,
+    mediumHeight: 320
+  } as Partial<MediaSettings>,
+
+  postsPerPage: 7,
+
+  permalinks: {
+    preset: '/%postname%/',
+    custom: '/news/%post_id%/',
+    // No structure tag - WordPress refuses it
+    invalid: '/automation-archive/'
+  },
+
+  dynamicCategoryName: () => `Default Category ${TestUtils.generateRandomString(6)}`,
+  dynamicPostTitle: () => `Settings Post ${TestUtils.generateRandomString(8)}`
+};
+
+// Test scenarios configuration
+export const settingsTestScenarios = {
+  structureTagRequired: 'A structure tag is required when using custom permalinks.'
+};
@@ -0,0 +1,52 @@
+/**
+ * Settings Snapshot Fixture
+ * Extends the role-aware test with snapshotSettings(), which records a Settings screen's values
+ * and writes them back after the test - pass or fail
+ *
+ * Settings are site-wide, so every test that saves a Settings screen takes a snapshot of it first.
+ * Restores run in reverse order through the same page objects, with the admin session of the test's
+ * own page - pass settings page objects from `new PageFactory(page)`, not from asRole() contexts.
+ * Every snapshot is restored even when an earlier one fails; a restore that throws or does not save
+ * fails the test once they have all been tried, so a changed site never goes unnoticed.
+ *
+ * @author XWP Platform Team
+ */
+
+import { test as base } from './roles.fixture';
+import { SettingsPage } from '../pages/settings.page';
+import { SmartLogger } from '../utils/smart-logger.utils';
+
+type SettingsFixtures = {
+  snapshotSettings: <TSettings extends object>(settingsPage: SettingsPage<TSettings>) => Promise<TSettings>;
+};
+
+export const test = base.extend<SettingsFixtures>({
+  // Depends on page so the admin page is still open when the snapshots are restored
+  snapshotSettings: async ({ page: _page }, use) => {
+    const restores: Array<{ screen: string; restore: () => Promise<boolean> }> = [];
+
+    await use(async (settingsPage) => {
+      const snapshot = await settingsPage.snapshot();
+      restores.push({ screen: settingsPage.screenPath, restore: () => settingsPage.restore(snapshot) });
+      return snapshot;
+    });
+
+    const failed: string[] = [];
+    for (const { screen, restore } of restores.reverse()) {
+      try {
+        if (!(await restore())) {
+          failed.push(screen);
+        }
+      } catch (error) {
+        SmartLogger.log('ERROR', `Restoring the settings of ${screen} threw: ${(error as Error).message}`);
+        failed.push(screen);
+      }
+    }
+    if (failed.length) {
+      SmartLogger.log('ERROR', `Settings not restored: ${failed.join(', ')}`);
+      throw new Error(`Could not restore the settings of ${failed.join(', ')} - check the site by hand`);
+    }
+  }
+});
+
+export { expect } from './roles.fixture';
@@ -0,0 +1,86 @@
+/**
+ * Tag Test Data Fixture
+ * Contains test data for WordPress tag (post_tag) management tests
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+
+export const tagsTestData = {
+  // Dynamic tag data with unique identifiers
+  dynamicTag: () => ({
+    name: `Automation Tag ${TestUtils.generateRandomString(6)}`,
+    slug: `auto-tag-${TestUtils.generateRandomString(6).toLowerCase()}`,
+    description: `Test tag created by automation at ${new Date().toISOString()}`
+  }),
+
+  // Tags for bulk operations
+  bulkTags: () => [
+    {
+      name: `Automation Tag ${TestUtils.generateRandomString(6)}`,
+      slug: `bulk-tag-1-${TestUtils.generateRandomString(6).toLowerCase()}`,
+      description: `First tag for bulk operations testing at ${new Date().toISOString()}`
+    },
+    {
+      name: `Automation Tag ${TestUtils.generateRandomString(6)}`,
+      slug: `bulk-tag-2-${TestUtils.generateRandomString(6).toLowerCase()}`,
+      description: `Second tag for bulk operations testing at ${new Date().toISOString()}`
+    }
+  ],
+
+  // Tags with special characters
+  specialCharTag: () => ({
+    name: `Special Chars Tag àáâãäå ${TestUtils.generateRandomString(6)}`,
+    slug: `special-chars-tag-${TestUtils.generateRandomString(6).toLowerCase()}`,
+    description: 'Tag with special characters: àáâãäå çñü ñ & @#$%'
+  }),
+
+  // Update data for edit and quick edit tests - suffixed so parallel runs do not collide
+  updateData: () => ({
+    newName: `Updated Tag ${TestUtils.generateRandomString(6)}`,
+    newSlug: `updated-tag-${TestUtils.generateRandomString(6).toLowerCase()}`,
+    newDescription: 'This tag has been updated by automation testing'
+  }),
+
+  // Search terms
+  searchTerms: {
+    partial: 'Automation Tag',
+    nonExisting: 'NonExistentTag12345'
+  }
+};
+
+// Tag validation rules (WordPress limits and constraints)
+export const tagValidation = {
+  nameMaxLength: 200,
+  slugMaxLength: 200,
+  descriptionMaxLength: 2000
+};
+
+// Test scenarios configuration
+export const tagTestScenarios = {
+  // Timeouts for different operations
+  timeouts: {
+    create: 10000,
+    edit: 10000,
+    quickEdit: 10000,
+    delete: 5000,
+    search: 5000,
+    bulkAction: 15000
+  },
+
+  // Expected success messages (WordPress standard)
+  successMessages: {
+    created: 'Tag added.',
+    updated: 'Tag updated.',
+    deleted: 'Tag deleted.',
+    bulkDeleted: 'Tags deleted.'
+  },
+
+  // Expected error scenarios
+  errorScenarios: {
+    duplicateName: 'A term with the name provided already exists in this taxonomy.',
+    emptyName: 'A name is required for this term.'
+  }
+};
@@ -0,0 +1,30 @@
+/**
+ * Taxonomy Test Data Fixture
+ * Contains test data for term management on taxonomies other than categories and tags,
+ * e.g. ones registered by the site's plugins
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+
+export const taxonomyTestData = {
+  // Dynamic term data with unique identifiers
+  dynamicTerm: () => ({
+    name: `Automation Term ${TestUtils.generateRandomString(6)}`,
+    slug: `auto-term-${TestUtils.generateRandomString(6).toLowerCase()}`,
+    description: `Test term created by automation at ${new Date().toISOString()}`
+  }),
+
+  // Quick edit rename target
+  renamedTerm: () => ({
+    name: `Renamed Term ${TestUtils.generateRandomString(6)}`,
+    slug: `renamed-term-${TestUtils.generateRandomString(6).toLowerCase()}`
+  }),
+
+  // Core taxonomies - anything else wp/v2/taxonomies returns was registered by a plugin or theme.
+  // Menus, link categories, post formats and block editor internals have no term list screen to test.
+  builtInTaxonomies: ['category', 'post_tag', 'nav_menu', 'link_category', 'post_format'],
+  internalTaxonomyPrefix: 'wp_'
+};
@@ -0,0 +1,81 @@
+/**
+ * Test Data Registry Fixture
+ * Extends Playwright's test so every post, category, tag, media item and user created
+ * through the page objects or WordPressApiClient is deleted after the test - pass or fail
+ *
+ * - Worker start: sweeps leftovers from crashed runs (fixture naming + older than LEFTOVER_MAX_AGE_MINUTES),
+ *   except on protected targets such as prod
+ * - After each test: deletes whatever that test created and did not delete itself
+ * - Worker end: deletes anything still pending (e.g. created in beforeAll hooks)
+ *
+ * Cleanup runs through the REST API with the admin session from tests/auth.setup.ts.
+ * The plugin requirements fixture (and so the role fixture) builds on this one.
+ *
+ * @author XWP Platform Team
+ */
+
+import { test as base } from './environment-guard.fixture';
+import { UserRole } from '../types/base.types';
+import { AuthManager } from '../utils/auth.utils';
+import { EnvironmentGuard } from '../utils/environment-guard.utils';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { TestDataRegistry } from '../utils/test-data-registry.utils';
+import { WordPressApiClient } from '../utils/wordpress-api.helper';
+
+type RegistryTestFixtures = {
+  testDataRegistry: TestDataRegistry;
+};
+
+type RegistryWorkerFixtures = {
+  cleanupApi: WordPressApiClient | undefined;
+};
+
+export const test = base.extend<RegistryTestFixtures, RegistryWorkerFixtures>({
+  cleanupApi: [async ({ browser }, use) => {
+    const registry = TestDataRegistry.getInstance();
+
+    if (!AuthManager.hasStorageState(UserRole.ADMIN)) {
+      SmartLogger.log('WARN', 'No admin session saved - created test data will not be cleaned up');
+      await use(undefined);
+      return;
+    }
+
+    const context = await browser.newContext({
+      storageState: AuthManager.getStorageStatePath(UserRole.ADMIN)
+    });
+
+    let api: WordPressApiClient | undefined;
+    try {
+      api = await WordPressApiClient.fromBrowserContext(context);
+      // Protected targets (prod) never get bulk deletes - only what this run created is removed
+      if (!EnvironmentGuard.getInstance().isProtectedTarget()) {
+        await registry.sweepLeftovers(api, Number(process.env.LEFTOVER_MAX_AGE_MINUTES) || 60);
+      }
+    } catch (error) {
+      SmartLogger.log('WARN', `Test data cleanup unavailable: ${(error as Error).message}`);
+    }
+
+    await use(api);
+
+    if (api) {
+      await registry.cleanup(api);
+    }
+    registry.clear();
+    await context.close();
+  }, { scope: 'worker' }],
+
+  testDataRegistry: [async ({ cleanupApi }, use, testInfo) => {
+    const registry = TestDataRegistry.getInstance();
+    registry.beginTest(testInfo.testId);
+
+    await use(registry);
+
+    // Fixture teardown runs even when the test body throws
+    if (cleanupApi) {
+      await registry.cleanup(cleanupApi, testInfo.testId);
+    }
+    registry.beginTest('worker');
+  }, { auto: true }]
+});
+
+export { expect } from './environment-guard.fixture';
@@ -38,6 +38,40 @@ export const TestTags = {
   FORMS: '@forms',
   SEARCH: '@search',
   ADMIN: '@admin',
+  SIDEBAR: '@sidebar',
+  POSTS: '@posts',
+  ALL_POSTS: '@all-posts',
+  LIST_TABLE: '@list-table',
+  POST_EDITOR: '@post-editor',
+  BLOCK_EDITOR: '@block-editor',
+  POST_STATUS: '@post-status',
+  REVISIONS: '@revisions',
+  CATEGORIES: '@categories',
+  TAGS: '@tags',
+  TAXONOMIES: '@taxonomies',
+  MEDIA: '@media',
+  PAGES: '@pages',
+  PLUGINS: '@plugins',
+  ROLES: '@roles',
+  USERS: '@users',
+  COMMENTS: '@comments',
+  MODERATION: '@moderation',
+  SETTINGS: '@settings',
+  MENUS: '@menus',
+  API_SEEDING: '@api-seeding',
+  CLEANUP: '@cleanup',
+  ENVIRONMENT: '@environment',
+  
+  // ===== ACTIONS =====
+  LOAD: '@load',
+  CREATE: '@create',
+  EDIT: '@edit',
+  DELETE: '@delete',
+  BULK: '@bulk',
+  FILTER: '@filter',
+  DRAFT: '@draft',
+  PUBLISH: '@publish',
+  VALIDATION: '@validation',
   
   // ===== PRIORITIES (Allure Compatible) =====
   CRITICAL: '@critical',
@@ -51,6 +85,8 @@ export const TestTags = {
   DEV_ONLY: '@dev-only',
   STAGING_ONLY: '@staging-only',
   LOCAL_ONLY: '@local-only',
+  // Not a restriction of its own: lets a restricted spec also run on the local stand-in (scripts/local-wp)
+  LOCAL_STAND_IN: '@local-stand-in',
   
   // ===== BROWSERS =====
   CHROME_ONLY: '@chrome-only',
@@ -111,6 +147,29 @@ export const TagCombinations = {
   DEV_EXPERIMENTAL: [TestTags.DEV_ONLY, TestTags.LOW, TestTags.EDGE_CASE]
 } as const;
 
+/**
+ * Priority tags - every test needs exactly one (checked by npm run validate-tags)
+ */
+export const PriorityTags = [TestTags.CRITICAL, TestTags.HIGH, TestTags.MEDIUM, TestTags.LOW, TestTags.TRIVIAL] as const;
+
+/**
+ * Tag pairs that cannot apply to the same test, with the reason reported by the tag linter
+ */
+export const TagConflicts: ReadonlyArray<readonly [string, string, string]> = [
+  [TestTags.PROD_SAFE, TestTags.REQUIRES_CLEANUP, 'prod-safe tests must not leave data that needs cleaning up'],
+  [TestTags.PROD_SAFE, TestTags.STAGING_ONLY, 'a test cannot be safe for production and restricted to staging'],
+  [TestTags.PROD_SAFE, TestTags.DEV_ONLY, 'a test cannot be safe for production and restricted to dev'],
+  [TestTags.PROD_SAFE, TestTags.LOCAL_ONLY, 'a test cannot be safe for production and restricted to the local stand-in'],
+  [TestTags.STAGING_ONLY, TestTags.DEV_ONLY, 'a test can only be restricted to one environment'],
+  [TestTags.STAGING_ONLY, TestTags.LOCAL_ONLY, 'a test can only be restricted to one environment'],
+  [TestTags.DEV_ONLY, TestTags.LOCAL_ONLY, 'a test can only be restricted to one environment'],
+  [TestTags.SERIAL_ONLY, TestTags.PARALLEL_SAFE, 'serial-only tests are not parallel-safe'],
+  [TestTags.SLOW, TestTags.FAST, 'a test cannot be both slow and fast'],
+  [TestTags.POSITIVE, TestTags.NEGATIVE, 'pick positive or negative for one scenario'],
+  [TestTags.NO_DATA_REQUIRED, TestTags.REQUIRES_SETUP, 'tests that need setup data are not data-free'],
+  [TestTags.NO_DATA_REQUIRED, TestTags.REQUIRES_CLEANUP, 'tests that leave data behind are not data-free']
+];
+
 /**
  * Helper function to create test tags
  * @param primary - Primary tag (feature/type)
@@ -127,6 +186,15 @@ export function createTestTags(primary: string, secondary: string[] = []): strin
  * @returns boolean indicating if all tags are valid
  */
 export function validateTags(tags: string[]): boolean {
-  const allTags = Object.values(TestTags);
-  return tags.every(tag => allTags.includes(tag as any));
+  return findUnknownTags(tags).length === 0;
+}
+
+/**
+ * Find tags that are not part of TestTags
+ * @param tags - Array of tags to check
+ * @returns The unknown tags, in input order without duplicates
+ */
+export function findUnknownTags(tags: string[]): string[] {
+  const allTags: string[] = Object.values(TestTags);
+  return [...new Set(tags.filter(tag => !allTags.includes(tag)))];
 }
\ No newline at end of file
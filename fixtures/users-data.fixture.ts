@@ -0,0 +1,49 @@
+/**
+ * Users Test Data Fixture
+ * Contains test data for adding, editing, re-roling and deleting users
+ * Following AI_AGENT_INSTRUCTIONS patterns for test data organization
+ *
+ * @author XWP Platform Team
+ */
+
+import { TestUtils } from '../utils/test.utils';
+import { NewUserData } from '../pages/users.page';
+import { UserRole } from '../types/base.types';
+
+export const usersTestData = {
+  // Lowercase login, so the users list shows it exactly as entered
+  dynamicUser: (role: UserRole = UserRole.SUBSCRIBER): NewUserData => {
+    const username = `automation_user_${TestUtils.generateRandomString(6).toLowerCase()}`;
+    return {
+      username,
+      email: `${username}@xwp.test`,
+      password: `Automation-${TestUtils.generateRandomString(12)}-9`,
+      role,
+      firstName: 'Automation',
+      lastName: 'User',
+      website: 'https://example.com'
+    };
+  },
+
+  // Profile values written over the account's first and last name
+  profile: {
+    firstName: 'Updated',
+    lastName: 'Automation',
+    nickname: 'automation-nickname',
+    website: 'https://example.org',
+    bio: 'Profile edited by the users automation.'
+  },
+
+  // Long with three kinds of characters - WordPress rates it strong, so no weak password confirmation
+  strongPassword: () => `Str0ng-${TestUtils.generateRandomString(16)}!`,
+
+  dynamicPostTitle: () => `Draft Post ${TestUtils.generateRandomString(8)}`
+};
+
+// Test scenarios configuration
+export const usersTestScenarios = {
+  // "Display name publicly as" offers the saved first and last name together
+  expectedDisplayName: 'Updated Automation',
+  duplicateUsernameError: 'This username is already registered.',
+  resetLinkNotice: 'A password reset link was emailed to'
+};
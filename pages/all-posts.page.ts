@@ -1,8 +1,60 @@
-import { Page, Locator } from '@playwright/test';
-import { BasePage } from './base.page';
+import { Locator, Page } from '@playwright/test';
+import { ListTablePage, ListTableRawRow } from './list-table.page';
 import elementHelper from '../utils/element.helper';
 import { SmartLogger } from '../utils/smart-logger.utils';
-import { EnvironmentManager } from '../utils/environment.utils';
+import { TestDataRegistry, TrackedEntityType } from '../utils/test-data-registry.utils';
+
+export type PostListStatus = 'published' | 'draft' | 'scheduled' | 'pending' | 'private' | 'trash';
+
+/**
+ * Columns of the posts list; the sortable ones are title, comments and date
+ */
+export type PostListColumn = 'title' | 'author' | 'categories' | 'tags' | 'comments' | 'date';
+
+/**
+ * A post as listed on edit.php
+ */
+export interface PostListRow {
+  id: number;
+  /** Title without the "— " child page prefix and post states */
+  title: string;
+  /** Author display name */
+  author: string;
+  categories: string[];
+  tags: string[];
+  status: PostListStatus;
+  /** Date column text, e.g. "Published 2024/01/02 at 10:05 am" */
+  date: string;
+}
+
+/**
+ * Fields Quick Edit can change; anything left out keeps its current value
+ */
+export interface QuickEditChanges {
+  title?: string;
+  /** An empty slug makes WordPress generate it again from the title */
+  slug?: string;
+  /** Entered as the local date and time, like the editor's Publish box; a future date schedules a published post */
+  date?: Date;
+  /** 'private' ticks the Private checkbox rather than picking a status */
+  status?: 'publish' | 'pending' | 'draft' | 'private';
+  /** Category names - replaces the post's categories */
+  categories?: string[];
+  /** Comma-separated tag names - replaces the post's tags */
+  tags?: string;
+}
+
+/**
+ * Fields Bulk Edit can change; anything left out stays at "— No Change —"
+ */
+export interface BulkEditChanges {
+  status?: 'publish' | 'pending' | 'draft' | 'private';
+  /** Category names - added to each post's categories, as core's Bulk Edit does */
+  categories?: string[];
+  /** Login name of the new author */
+  author?: string;
+  comments?: 'open' | 'closed';
+}
 
 /**
  * WordPress All Posts Page Object Model
@@ -10,12 +62,16 @@ import { EnvironmentManager } from '../utils/environment.utils';
  * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
  * 
  * Based on live site inspection of staging.go.ione.nyc/wp-admin/edit.php
+ * Other post types share the list table at edit.php?post_type=<slug>; PagesPage extends this class.
+ * Pagination, sorting and Screen Options come from ListTablePage; getRows()/getAllRows() return PostListRow objects.
  */
-export class AllPostsPage extends BasePage {
-  private envManager = EnvironmentManager.getInstance();
+export class AllPostsPage extends ListTablePage<PostListRow, PostListColumn> {
+  protected dataRegistry = TestDataRegistry.getInstance();
+  readonly postType: string;
 
-  constructor(page: Page) {
+  constructor(page: Page, postType: string = 'post') {
     super(page, '.wrap h1'); // Posts list page has main heading as identifier
+    this.postType = postType;
   }
 
   // ===== SELECTORS (Based on live site inspection) =====
@@ -88,6 +144,18 @@ export class AllPostsPage extends BasePage {
     return '.subsubsub a[href*="trash"]';
   }
 
+  get viewScheduledFilter(): string {
+    return '.subsubsub a[href*="future"]';
+  }
+
+  get viewPendingFilter(): string {
+    return '.subsubsub a[href*="pending"]';
+  }
+
+  get viewPrivateFilter(): string {
+    return '.subsubsub a[href*="private"]';
+  }
+
   // Post row elements (for individual posts)
   get postTitleLinks(): string {
     return '.row-title';
@@ -118,21 +186,109 @@ export class AllPostsPage extends BasePage {
     return '.status-publish';
   }
 
-  // Pagination
-  get paginationInfo(): string {
-    return '.displaying-num';
+  // Individual post rows (dynamic selectors)
+  // Rows are matched on WordPress' hidden inline data, which holds the title without the "— " child page prefix
+  getPostRow(title: string): Locator {
+    return this.getRowByCellText('[id^="inline_"] .post_title', title);
+  }
+
+  getPostCheckbox(title: string): Locator {
+    return this.getPostRow(title).locator('.check-column input[type="checkbox"]');
+  }
+
+  getPostQuickEditButton(title: string): Locator {
+    return this.getPostRow(title).locator('.row-actions .editinline');
+  }
+
+  getPostColumn(title: string, column: 'author' | 'categories' | 'tags' | 'date'): Locator {
+    return this.getPostRow(title).locator(`td.column-${column}`);
+  }
+
+  // Quick Edit row (cloned under the post's row)
+  get quickEditRow(): string {
+    return '#the-list tr.quick-edit-row';
+  }
+
+  get quickEditTitleField(): string {
+    return `${this.quickEditRow} input[name="post_title"]`;
+  }
+
+  get quickEditSlugField(): string {
+    return `${this.quickEditRow} input[name="post_name"]`;
+  }
+
+  get quickEditMonthSelect(): string {
+    return `${this.quickEditRow} select[name="mm"]`;
+  }
+
+  get quickEditDayField(): string {
+    return `${this.quickEditRow} input[name="jj"]`;
+  }
+
+  get quickEditYearField(): string {
+    return `${this.quickEditRow} input[name="aa"]`;
+  }
+
+  get quickEditHourField(): string {
+    return `${this.quickEditRow} input[name="hh"]`;
+  }
+
+  get quickEditMinuteField(): string {
+    return `${this.quickEditRow} input[name="mn"]`;
+  }
+
+  get quickEditPrivateCheckbox(): string {
+    return `${this.quickEditRow} input[name="keep_private"]`;
+  }
+
+  get quickEditStatusSelect(): string {
+    return `${this.quickEditRow} select[name="_status"]`;
   }
 
-  get paginationLinks(): string {
-    return '.tablenav-pages a';
+  get quickEditTagsField(): string {
+    return `${this.quickEditRow} textarea[name="tax_input[post_tag]"]`;
   }
 
-  get nextPageLink(): string {
-    return '.next-page';
+  get quickEditSaveButton(): string {
+    return `${this.quickEditRow} .inline-edit-save .save`;
   }
 
-  get prevPageLink(): string {
-    return '.prev-page';
+  get quickEditError(): string {
+    return `${this.quickEditRow} .inline-edit-save .notice-error:not(.hidden) .error`;
+  }
+
+  // Bulk Edit row (moved to the top of the list by Bulk actions > Edit)
+  get bulkEditRow(): string {
+    return '#the-list tr.bulk-edit-row';
+  }
+
+  get bulkEditTitles(): string {
+    return `${this.bulkEditRow} #bulk-titles-list .ntdeltitle`;
+  }
+
+  get bulkEditStatusSelect(): string {
+    return `${this.bulkEditRow} select[name="_status"]`;
+  }
+
+  get bulkEditAuthorSelect(): string {
+    return `${this.bulkEditRow} select[name="post_author"]`;
+  }
+
+  get bulkEditCommentsSelect(): string {
+    return `${this.bulkEditRow} select[name="comment_status"]`;
+  }
+
+  get bulkEditUpdateButton(): string {
+    return '#bulk_edit';
+  }
+
+  // Notice shown after bulk edit, trash, restore and delete
+  get successMessage(): string {
+    return '#message.updated, #message.notice-success';
+  }
+
+  get listPath(): string {
+    return this.postType === 'post' ? 'edit.php' : `edit.php?post_type=${this.postType}`;
   }
 
   // ===== NAVIGATION METHODS =====
@@ -143,9 +299,9 @@ export class AllPostsPage extends BasePage {
   async navigate(): Promise<void> {
     try {
       const baseUrl = this.envManager.getBaseUrl();
-      await this.page.goto(`${baseUrl}/wp-admin/edit.php`);
+      await this.page.goto(`${baseUrl}/wp-admin/${this.listPath}`);
       await this.waitForPageShown();
-      SmartLogger.logUserAction('navigated to all posts page', 'edit.php');
+      SmartLogger.logUserAction('navigated to all posts page', this.listPath);
     } catch (error) {
       await SmartLogger.logError(error as Error, this.page, true);
       throw error;
@@ -201,7 +357,7 @@ export class AllPostsPage extends BasePage {
   // ===== POST MANAGEMENT METHODS =====
 
   /**
-   * Get all post titles from the current page
+   * Get all post titles from the current page - getAllRows() covers every page
    */
   async getAllPostTitles(): Promise<string[]> {
     try {
@@ -238,9 +394,10 @@ export class AllPostsPage extends BasePage {
   }
 
   /**
-   * Filter posts by status (all, published, draft, trash)
+   * Filter posts by status (all, published, draft, scheduled, pending, private, trash).
+   * Core only links the views of statuses that have posts.
    */
-  async filterByStatus(status: 'all' | 'published' | 'draft' | 'trash'): Promise<void> {
+  async filterByStatus(status: 'all' | 'published' | 'draft' | 'scheduled' | 'pending' | 'private' | 'trash'): Promise<void> {
     try {
       // Handle 'all' status specially - navigate to base posts page without query params
       if (status === 'all') {
@@ -259,6 +416,15 @@ export class AllPostsPage extends BasePage {
         case 'draft':
           filterSelector = this.viewDraftFilter;
           break;
+        case 'scheduled':
+          filterSelector = this.viewScheduledFilter;
+          break;
+        case 'pending':
+          filterSelector = this.viewPendingFilter;
+          break;
+        case 'private':
+          filterSelector = this.viewPrivateFilter;
+          break;
         case 'trash':
           filterSelector = this.viewTrashFilter;
           break;
@@ -267,23 +433,23 @@ export class AllPostsPage extends BasePage {
       }
       
       // Wait for the filter links to be available
-      await this.page.locator('.subsubsub').waitFor({ state: 'visible', timeout: 10000 });
+      await this.page.locator('.subsubsub').waitFor({ state: 'visible', timeout: this.envManager.getTimeout() });
       
       // Check if the filter link exists and is clickable
       const filterLink = this.page.locator(filterSelector);
-      await filterLink.waitFor({ state: 'visible', timeout: 5000 });
+      await filterLink.waitFor({ state: 'visible', timeout: this.envManager.getTimeout() });
       
       // Get current URL to detect if navigation occurs
       const currentUrl = this.page.url();
       
-      await filterLink.click({ timeout: 5000 });
+      await filterLink.click({ timeout: this.envManager.getActionTimeout() });
       
       // Wait for URL to change or network to settle
       try {
-        await this.page.waitForURL(url => url.toString() !== currentUrl, { timeout: 10000 });
+        await this.page.waitForURL(url => url.toString() !== currentUrl, { timeout: this.envManager.getNavigationTimeout() });
       } catch {
         // Fallback to network idle if URL doesn't change
-        await this.page.waitForLoadState('networkidle', { timeout: 15000 });
+        await this.page.waitForLoadState('networkidle', { timeout: this.envManager.getNavigationTimeout() });
       }
       
       // Additional wait for posts table to update
@@ -306,24 +472,24 @@ export class AllPostsPage extends BasePage {
       
       // Ensure the row is visible and scroll into view
       await postRow.scrollIntoViewIfNeeded();
-      await postRow.waitFor({ state: 'visible', timeout: 10000 });
+      await postRow.waitFor({ state: 'visible', timeout: this.envManager.getTimeout() });
       
       // Hover over the row to reveal the edit links
       await postRow.hover();
       await this.page.waitForTimeout(500); // Wait for hover effects
       
       const editLink = postRow.locator(this.editLinks);
-      await editLink.waitFor({ state: 'visible', timeout: 5000 });
+      await editLink.waitFor({ state: 'visible', timeout: this.envManager.getTimeout() });
       
       // Try clicking with force if normal click fails
       try {
-        await editLink.click({ timeout: 5000 });
+        await editLink.click({ timeout: this.envManager.getActionTimeout() });
       } catch (clickError) {
         // Force click if element is stubborn
         await editLink.click({ force: true });
       }
       
-      await this.page.waitForURL(/.*post\.php.*action=edit/, { timeout: 10000 });
+      await this.page.waitForURL(/.*post\.php.*action=edit/, { timeout: this.envManager.getNavigationTimeout() });
       SmartLogger.logUserAction('clicked edit link for post', 'edit link', title);
     } catch (error) {
       await SmartLogger.logError(error as Error, this.page, true);
@@ -350,7 +516,8 @@ export class AllPostsPage extends BasePage {
   async getPostIdByTitle(title: string): Promise<string | null> {
     try {
       const postRow = this.page.locator(`tr:has(.row-title:text("${title}"))`);
-      const editLink = postRow.locator('a[href*="post.php"][href*="action=edit"]');
+      // The row title and the "Edit" row action both link to post.php?action=edit
+      const editLink = postRow.locator('a[href*="post.php"][href*="action=edit"]').first();
       
       if (await editLink.count() === 0) {
         return null;
@@ -370,12 +537,12 @@ export class AllPostsPage extends BasePage {
   /**
    * Get post status for a specific post by title
    */
-  async getPostStatus(title: string): Promise<'published' | 'draft' | 'unknown'> {
+  async getPostStatus(title: string): Promise<'published' | 'draft' | 'scheduled' | 'pending' | 'private' | 'unknown'> {
     try {
       const postRow = this.page.locator(`tr:has(.row-title:text("${title}"))`);
       
       // Wait for the post row to be visible
-      await postRow.waitFor({ state: 'visible', timeout: 5000 });
+      await postRow.waitFor({ state: 'visible', timeout: this.envManager.getTimeout() });
       
       // Check for draft status first (more specific)
       const draftState = await postRow.locator('.post-state:text("Draft")').count();
@@ -383,6 +550,15 @@ export class AllPostsPage extends BasePage {
         SmartLogger.logUserAction('retrieved post status', 'post status', 'draft');
         return 'draft';
       }
+
+      // Scheduled, pending and private posts also have a date, so they are told apart by their state label
+      const stateLabels = { scheduled: 'Scheduled', pending: 'Pending', private: 'Private' } as const;
+      for (const [status, label] of Object.entries(stateLabels) as Array<[keyof typeof stateLabels, string]>) {
+        if (await postRow.locator(`.post-state:text("${label}")`).count() > 0) {
+          SmartLogger.logUserAction('retrieved post status', 'post status', status);
+          return status;
+        }
+      }
       
       // Check for published status using multiple selectors
       const publishedSelectors = [
@@ -418,7 +594,7 @@ export class AllPostsPage extends BasePage {
   }
 
   /**
-   * Get total number of posts displayed
+   * Get number of posts listed on the current page - getTotalItems() counts every page
    */
   async getTotalPostCount(): Promise<number> {
     try {
@@ -430,6 +606,175 @@ export class AllPostsPage extends BasePage {
     }
   }
 
+  /**
+   * Text of a list-table column for a post, e.g. the author's display name or "Published 2024/01/02 at 10:05 am"
+   */
+  async getPostColumnText(title: string, column: 'author' | 'categories' | 'tags' | 'date'): Promise<string> {
+    try {
+      const text = (await this.getPostColumn(title, column).innerText()).replace(/\s+/g, ' ').trim();
+      SmartLogger.logUserAction(`retrieved post ${column}`, this.getPostColumn(title, column).toString(), text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  // ===== QUICK EDIT AND BULK ACTIONS =====
+
+  /**
+   * Change a post from its Quick Edit row and save over admin-ajax, without leaving the list
+   * @param title - Current title of the post
+   * @param changes - Fields to change
+   * @returns Promise<boolean> - True if the inline row closed and the updated row is listed
+   */
+  async quickEditPost(title: string, changes: QuickEditChanges): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('quick editing post', 'quick edit', title);
+
+      if (!await this.verifyPostExists(title)) {
+        SmartLogger.logUserAction('post not found for quick edit', 'error', title);
+        return false;
+      }
+
+      await elementHelper.scrollToElementIfNeeded(this.page, this.getPostRow(title));
+      await elementHelper.hoverElement(this.page, this.getPostRow(title));
+      await elementHelper.clickElement(this.page, this.getPostQuickEditButton(title));
+      await elementHelper.waitForDisplayed(this.page, this.quickEditRow, this.envManager.getTimeout());
+
+      if (changes.title !== undefined) {
+        await elementHelper.clearAndEnterValue(this.page, this.quickEditTitleField, changes.title);
+      }
+      if (changes.slug !== undefined) {
+        await elementHelper.clearAndEnterValue(this.page, this.quickEditSlugField, changes.slug);
+      }
+      if (changes.date) {
+        await this.fillQuickEditDate(changes.date);
+      }
+      if (changes.status) {
+        const isPrivate = changes.status === 'private';
+        if (await elementHelper.isElementChecked(this.page, this.quickEditPrivateCheckbox) !== isPrivate) {
+          await elementHelper.toggleCheckbox(this.page, this.quickEditPrivateCheckbox);
+        }
+        if (!isPrivate) {
+          await elementHelper.selectOptionValue(this.page, this.quickEditStatusSelect, changes.status);
+        }
+      }
+      if (changes.categories) {
+        await this.checkCategories(this.quickEditRow, changes.categories, true);
+      }
+      if (changes.tags !== undefined) {
+        await elementHelper.clearAndEnterValue(this.page, this.quickEditTagsField, changes.tags);
+      }
+      SmartLogger.logUserAction('filled quick edit', this.quickEditRow, Object.keys(changes).join(', '));
+
+      await elementHelper.clickElement(this.page, this.quickEditSaveButton);
+      SmartLogger.logUserAction('clicked quick edit update', this.quickEditSaveButton);
+
+      // The inline row is replaced by the updated row on success and stays open with an error otherwise
+      const saved = await elementHelper.waitForElementRemoved(this.page, this.quickEditRow, this.envManager.getActionTimeout());
+      if (!saved) {
+        const errorText = await this.page.locator(this.quickEditError).textContent().catch(() => '');
+        SmartLogger.logUserAction('quick edit rejected', this.quickEditError, errorText || 'no error shown');
+        return false;
+      }
+
+      const newTitle = changes.title ?? title;
+      const success = await this.getPostRow(newTitle).count() > 0;
+      SmartLogger.logUserAction('quick edit result', 'success', success.toString());
+      if (success && newTitle !== title) {
+        this.dataRegistry.rename(this.entityType, title, newTitle);
+      }
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Change several posts at once through Bulk actions > Edit
+   * @param titles - Titles of posts listed on the current page
+   * @param changes - Fields to change; categories are added, not replaced
+   * @returns Promise<boolean> - True if the "N posts updated." notice covers every post
+   */
+  async bulkEdit(titles: string[], changes: BulkEditChanges): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('bulk editing posts', 'bulk edit', titles.join(', '));
+
+      await this.selectPosts(titles);
+      await elementHelper.selectOptionValue(this.page, this.bulkActionSelect, 'edit');
+      await elementHelper.clickElement(this.page, this.bulkActionButton);
+      await elementHelper.waitForDisplayed(this.page, this.bulkEditRow, this.envManager.getTimeout());
+
+      const listed = (await this.page.locator(this.bulkEditTitles).allTextContents()).map(text => text.trim());
+      if (titles.some(title => !listed.includes(title))) {
+        throw new Error(`Bulk Edit lists ${listed.join(', ')} instead of ${titles.join(', ')}`);
+      }
+
+      if (changes.status) {
+        await elementHelper.selectOptionValue(this.page, this.bulkEditStatusSelect, changes.status);
+      }
+      if (changes.categories) {
+        await this.checkCategories(this.bulkEditRow, changes.categories, false);
+      }
+      if (changes.author) {
+        // Authors are listed as "Display Name (login)" with the user ID as value
+        const value = await this.page.locator(`${this.bulkEditAuthorSelect} option`, { hasText: `(${changes.author})` }).first().getAttribute('value');
+        if (!value) {
+          throw new Error(`No author "${changes.author}" in Bulk Edit`);
+        }
+        await elementHelper.selectOptionValue(this.page, this.bulkEditAuthorSelect, value);
+      }
+      if (changes.comments) {
+        await elementHelper.selectOptionValue(this.page, this.bulkEditCommentsSelect, changes.comments);
+      }
+      SmartLogger.logUserAction('filled bulk edit', this.bulkEditRow, Object.keys(changes).join(', '));
+
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.bulkEditUpdateButton));
+
+      const success = await this.isBulkNoticeShown(titles.length, 'updated');
+      SmartLogger.logUserAction('bulk edit result', 'success', success.toString());
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Move posts listed on the current page to the Trash with Bulk actions > Move to Trash
+   * @returns Promise<boolean> - True if the notice shows and the posts left the list
+   */
+  async bulkTrash(titles: string[]): Promise<boolean> {
+    return this.applyBulkAction('trash', titles, 'moved to the Trash');
+  }
+
+  /**
+   * Restore posts from the Trash view with Bulk actions > Restore
+   * @returns Promise<boolean> - True if the notice shows and the posts left the Trash
+   */
+  async restoreFromTrash(titles: string[]): Promise<boolean> {
+    await this.filterByStatus('trash');
+    return this.applyBulkAction('untrash', titles, 'restored from the Trash');
+  }
+
+  /**
+   * Delete posts for good from the Trash view with Bulk actions > Delete permanently
+   * @returns Promise<boolean> - True if the notice shows and the posts left the Trash
+   */
+  async deletePermanently(titles: string[]): Promise<boolean> {
+    await this.filterByStatus('trash');
+    const ids = await Promise.all(titles.map(title => this.getRowPostId(title)));
+    const success = await this.applyBulkAction('delete', titles, 'permanently deleted');
+    if (success) {
+      ids.forEach(id => id && this.dataRegistry.markDeleted(this.entityType, id));
+    }
+    return success;
+  }
+
   /**
    * Wait for posts table to be fully loaded
    */
@@ -442,6 +787,156 @@ export class AllPostsPage extends BasePage {
       await SmartLogger.logError(error as Error, this.page, true);      throw error;
     }
   }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * Post row from the list table; the title comes from the inline data, the status from the row's status-<status> class
+   */
+  protected toRow(raw: ListTableRawRow): PostListRow {
+    const statuses: Record<string, PostListStatus> = {
+      publish: 'published',
+      future: 'scheduled',
+      draft: 'draft',
+      pending: 'pending',
+      private: 'private',
+      trash: 'trash'
+    };
+    const statusClass = raw.classes.find(name => name.startsWith('status-')) || '';
+    return {
+      id: Number(raw.checkbox || raw.id.replace('post-', '')),
+      title: raw.inline.post_title ?? raw.cells.title,
+      author: raw.cells.author || '',
+      categories: raw.links.categories || [],
+      tags: raw.links.tags || [],
+      status: statuses[statusClass.replace('status-', '')] || 'draft',
+      date: raw.cells.date || ''
+    };
+  }
+
+  /**
+   * Registry type of the listed post type
+   */
+  protected get entityType(): TrackedEntityType {
+    return this.postType === 'page' ? 'page' : 'post';
+  }
+
+  /**
+   * Tick the row checkboxes of the given posts
+   * @private
+   */
+  private async selectPosts(titles: string[]): Promise<void> {
+    for (const title of titles) {
+      if (!await this.verifyPostExists(title)) {
+        throw new Error(`Post "${title}" is not in the list`);
+      }
+      if (!await elementHelper.isElementChecked(this.page, this.getPostCheckbox(title))) {
+        await elementHelper.toggleCheckbox(this.page, this.getPostCheckbox(title));
+      }
+      SmartLogger.logUserAction('selected post checkbox', this.getPostCheckbox(title).toString(), title);
+    }
+  }
+
+  /**
+   * Run a bulk action that reloads the list and confirm it from the notice and the rows
+   * @private
+   */
+  private async applyBulkAction(action: 'trash' | 'untrash' | 'delete', titles: string[], noticeText: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('performing bulk action', 'bulk actions', `${action} on ${titles.length} posts`);
+
+      await this.selectPosts(titles);
+      await elementHelper.selectOptionValue(this.page, this.bulkActionSelect, action);
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.bulkActionButton));
+
+      const noticeShown = await this.isBulkNoticeShown(titles.length, noticeText);
+      const remaining: string[] = [];
+      for (const title of titles) {
+        if (await this.getPostRow(title).count() > 0) {
+          remaining.push(title);
+        }
+      }
+      const success = noticeShown && remaining.length === 0;
+      SmartLogger.logUserAction('bulk action result', action, remaining.length ? `still listed: ${remaining.join(', ')}` : success.toString());
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check the notice reads e.g. "2 posts updated." - core words it per post type and may append an Undo link
+   * @private
+   */
+  private async isBulkNoticeShown(count: number, text: string): Promise<boolean> {
+    const notice = this.page.locator(this.successMessage).first();
+    if (!await elementHelper.isElementDisplayed(notice, this.envManager.getActionTimeout())) {
+      return false;
+    }
+    const message = (await notice.textContent() || '').trim();
+    SmartLogger.logUserAction('read bulk notice', this.successMessage, message);
+    return message.startsWith(`${count} `) && message.includes(text);
+  }
+
+  /**
+   * Submit the list form and wait for the reloaded list
+   * @private
+   */
+  private async submittingList(action: () => Promise<void>): Promise<void> {
+    const previousUrl = this.page.url();
+    await action();
+    await this.page.waitForURL(url => url.toString() !== previousUrl, { timeout: this.envManager.getNavigationTimeout() });
+    await this.waitForPostsTableLoad();
+  }
+
+  /**
+   * Set the category checklist of an inline edit row; `exclusive` also unticks the categories not named
+   * @private
+   */
+  private async checkCategories(row: string, names: string[], exclusive: boolean): Promise<void> {
+    const labels = await this.page.locator(`${row} .cat-checklist label`).all();
+    const found: string[] = [];
+    for (const label of labels) {
+      const name = (await label.textContent() || '').trim();
+      const checkbox = label.locator('input[type="checkbox"]');
+      const wanted = names.includes(name);
+      if (wanted) {
+        found.push(name);
+      }
+      if ((wanted || exclusive) && await elementHelper.isElementChecked(this.page, checkbox) !== wanted) {
+        await elementHelper.toggleCheckbox(this.page, checkbox);
+      }
+    }
+    const missing = names.filter(name => !found.includes(name));
+    if (missing.length) {
+      throw new Error(`Categories not in the checklist: ${missing.join(', ')}`);
+    }
+    SmartLogger.logUserAction('checked categories', `${row} .cat-checklist`, names.join(', '));
+  }
+
+  /**
+   * Fill Quick Edit's date fields from a date's local components
+   * @private
+   */
+  private async fillQuickEditDate(date: Date): Promise<void> {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    await elementHelper.selectOptionValue(this.page, this.quickEditMonthSelect, pad(date.getMonth() + 1));
+    await elementHelper.clearAndEnterValue(this.page, this.quickEditDayField, pad(date.getDate()));
+    await elementHelper.clearAndEnterValue(this.page, this.quickEditYearField, String(date.getFullYear()));
+    await elementHelper.clearAndEnterValue(this.page, this.quickEditHourField, pad(date.getHours()));
+    await elementHelper.clearAndEnterValue(this.page, this.quickEditMinuteField, pad(date.getMinutes()));
+  }
+
+  /**
+   * Post ID of a listed row, from its checkbox (trashed rows have no edit link)
+   * @private
+   */
+  private async getRowPostId(title: string): Promise<number | null> {
+    const value = await this.getPostCheckbox(title).getAttribute('value');
+    return value ? Number(value) : null;
+  }
 }
 
 export default AllPostsPage;
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { Page } from '@playwright/test';
 import { SmartLogger } from '../utils/smart-logger.utils';
 import { ErrorInspector } from '../utils/error-inspector.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+import { SessionRecovery } from '../utils/session-recovery.utils';
 
 export class BasePage {
   protected page: Page;
@@ -19,16 +21,19 @@ export class BasePage {
   }
 
   /**
-   * Navigates to the base URL (from process.env.URL) plus an optional path.
+   * Navigates to the profile's base URL (see EnvironmentManager) plus an optional path.
    * This gives flexibility if you want to navigate to different endpoints.
-   * @param path - An optional path to append to the base URL.
+   * @param path - An optional path to append to the base URL, e.g. '/wp-admin/'.
    */
   async navigate(path: string = ''): Promise<void> {
-    const baseURL = process.env.LOGIN_URL || '';
-    if (!baseURL) {
-      throw new Error('Base URL is not defined in the environment variables.');
+    const baseURL = EnvironmentManager.getInstance().getBaseUrl();
+    const url = `${baseURL}${path}`;
+    await this.page.goto(url);
+
+    // Retry once if the saved session expired and WordPress bounced us to wp-login.php
+    if (await this.recoverExpiredSession(url)) {
+      await this.page.goto(url);
     }
-    await this.page.goto(`${baseURL}${path}`);
   }
 
   /**
@@ -38,15 +43,16 @@ export class BasePage {
    * @throws Will throw an error if the load state or the visibility check times out.
    */
   async waitForPageShown(): Promise<void> {
+    const envManager = EnvironmentManager.getInstance();
     try {
       // Wait for the "load" state first
-      await this.page.waitForLoadState('load', { timeout: 30000 });
+      await this.page.waitForLoadState('load', { timeout: envManager.getNavigationTimeout() });
 
       // Select the primary element that indicates the page is ready.
       const element = this.page.locator(this.selector).first();
 
-      // Wait for it to become visible. Adjust the timeout as needed.
-      await element.waitFor({ state: 'visible', timeout: 10000 });
+      // Wait for it to become visible, using the profile's element timeout.
+      await element.waitFor({ state: 'visible', timeout: envManager.getTimeout() });
     } catch (err: unknown) {
       // Forward the original error details to help with debugging.
       throw new Error(
@@ -83,6 +89,11 @@ export class BasePage {
     try {
       SmartLogger.log('INFO', `Navigating to ${url}`);
       await this.page.goto(url, options);
+
+      // Retry once if the saved session expired and WordPress bounced us to wp-login.php
+      if (await this.recoverExpiredSession(url)) {
+        await this.page.goto(url, options);
+      }
       
       const loadTime = Date.now() - startTime;
       SmartLogger.logNavigation(currentUrl, url, loadTime);
@@ -93,6 +104,27 @@ export class BasePage {
     }
   }
 
+  /**
+   * Check if a navigation to targetUrl ended on the login screen instead
+   */
+  protected isLoginRedirect(targetUrl: string): boolean {
+    return this.page.url().includes('wp-login.php') && !targetUrl.includes('wp-login.php');
+  }
+
+  /**
+   * Re-authenticate when the saved session has expired.
+   * Logs in again as the role the context belongs to and refreshes that role's storage state (see SessionRecovery).
+   * @param targetUrl - The URL the caller was trying to open
+   * @returns Promise<boolean> - True if a re-login happened and the navigation should be retried
+   * @throws Error if the re-login fails
+   */
+  protected async recoverExpiredSession(targetUrl: string): Promise<boolean> {
+    if (!this.isLoginRedirect(targetUrl)) {
+      return false;
+    }
+    return SessionRecovery.recover(this.page, targetUrl);
+  }
+
   /**
    * Smart assertion with detailed logging
    */
@@ -103,7 +135,7 @@ export class BasePage {
 
       switch (condition) {
         case 'toBeVisible':
-          await element.waitFor({ state: 'visible', timeout: 10000 });
+          await element.waitFor({ state: 'visible', timeout: EnvironmentManager.getInstance().getTimeout() });
           SmartLogger.logAssertion(`Element ${selector} should be visible`, true, true, true);
           break;
         case 'toHaveText':
@@ -125,6 +157,22 @@ export class BasePage {
     }
   }
 
+  /**
+   * Check if WordPress refused access to the current screen.
+   * wp_die() renders a bare error page (body#error-page) with messages such as
+   * "Sorry, you are not allowed to access this page."
+   */
+  async isAccessDenied(): Promise<boolean> {
+    try {
+      const errorPage = this.page.locator('body#error-page, .wp-die-message');
+      const denied = await errorPage.count() > 0;
+      SmartLogger.log('INFO', `Access denied check: ${denied}`, { url: this.page.url() });
+      return denied;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Get diagnostic information when tests fail
    */
@@ -0,0 +1,1124 @@
+import { Locator, Page } from '@playwright/test';
+import path from 'path';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+import { TestDataRegistry } from '../utils/test-data-registry.utils';
+import { BlockType, EditorBlock, EditorMode, EditorPostStatus, FeaturedImageSource, PostEditor } from '../types/editor.types';
+import { CoreEditorSelectors } from '../types/wordpress-globals.types';
+
+/**
+ * WordPress Block Editor (Gutenberg) Page Object Model
+ * Handles all interactions with post-new.php/post.php when the site runs the block editor
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Implements the same PostEditor contract as PostPage. The post title and blocks live in the
+ * editor canvas, which WordPress 6.3+ renders inside iframe[name="editor-canvas"]; the toolbar,
+ * document sidebar, publish panel and media modal stay in the admin document.
+ * Save state is read from the editor's data store (wp.data) - the UI gives no reliable signal.
+ */
+export class BlockEditorPage extends BasePage implements PostEditor {
+  readonly editorMode: EditorMode = 'block';
+  private envManager = EnvironmentManager.getInstance();
+  private dataRegistry = TestDataRegistry.getInstance();
+
+  constructor(page: Page) {
+    super(page, 'body.block-editor-page');
+  }
+
+  // ===== SELECTORS =====
+
+  // Editor canvas (iframe on WordPress 6.3+, inline before)
+  get editorCanvasIframe(): string {
+    return 'iframe[name="editor-canvas"]';
+  }
+
+  get titleField(): string {
+    return '.editor-post-title__input';
+  }
+
+  get rootBlocks(): string {
+    return '.is-root-container > [data-block]';
+  }
+
+  get welcomeGuideCloseButton(): string {
+    return '.components-modal__screen-overlay:has(.edit-post-welcome-guide, .editor-welcome-guide) button[aria-label="Close"]';
+  }
+
+  // Header toolbar
+  get inserterToggle(): string {
+    return '.editor-document-tools__inserter-toggle, .edit-post-header-toolbar__inserter-toggle';
+  }
+
+  get inserterSearch(): string {
+    return '.block-editor-inserter__search input';
+  }
+
+  getInserterItem(type: BlockType): string {
+    return `.block-editor-block-types-list__item.editor-block-list-item-${type}`;
+  }
+
+  get saveDraftButton(): string {
+    return '.editor-post-save-draft';
+  }
+
+  get publishPanelToggle(): string {
+    return '.editor-post-publish-panel__toggle';
+  }
+
+  get publishButton(): string {
+    return '.editor-post-publish-button';
+  }
+
+  get optionsMenuButton(): string {
+    return '.editor-more-menu button[aria-label="Options"], .edit-post-more-menu button[aria-label="Options"]';
+  }
+
+  get codeEditorTextarea(): string {
+    return '.editor-post-text-editor';
+  }
+
+  get snackbar(): string {
+    return '.components-snackbar';
+  }
+
+  // Block toolbar (shown for the selected block)
+  get blockToolbar(): string {
+    return '.block-editor-block-toolbar';
+  }
+
+  get moveUpButton(): string {
+    return '.block-editor-block-toolbar .block-editor-block-mover-button.is-up-button';
+  }
+
+  get moveDownButton(): string {
+    return '.block-editor-block-toolbar .block-editor-block-mover-button.is-down-button';
+  }
+
+  get blockOptionsButton(): string {
+    return '.block-editor-block-toolbar button[aria-label="Options"]';
+  }
+
+  get headingLevelButton(): string {
+    return '.block-editor-block-toolbar button[aria-label="Change level"]';
+  }
+
+  // Document sidebar
+  get settingsButton(): string {
+    return '.editor-header__settings button[aria-label="Settings"], .edit-post-header__settings button[aria-label="Settings"]';
+  }
+
+  get documentSidebar(): string {
+    return '.interface-complementary-area';
+  }
+
+  get documentTab(): string {
+    return '.interface-complementary-area [role="tab"]:has-text("Post"), .interface-complementary-area [role="tab"]:has-text("Document")';
+  }
+
+  get sidebarPanelToggles(): string {
+    return '.interface-complementary-area .components-panel__body-toggle';
+  }
+
+  get categoriesList(): string {
+    return '.editor-post-taxonomies__hierarchical-terms-list';
+  }
+
+  get tagsInput(): string {
+    return '.interface-complementary-area .components-form-token-field__input';
+  }
+
+  get tagTokens(): string {
+    return '.interface-complementary-area .components-form-token-field__token-text span[aria-hidden="true"]';
+  }
+
+  get tagRemoveButtons(): string {
+    return '.interface-complementary-area .components-form-token-field__remove-token';
+  }
+
+  get excerptTrigger(): string {
+    return '.editor-post-excerpt__dropdown__trigger';
+  }
+
+  get excerptField(): string {
+    return '.editor-post-excerpt textarea';
+  }
+
+  get setFeaturedImageButton(): string {
+    return '.editor-post-featured-image__toggle';
+  }
+
+  get featuredImagePreview(): string {
+    return '.editor-post-featured-image__preview img';
+  }
+
+  get removeFeaturedImageButton(): string {
+    return '.editor-post-featured-image button:has-text("Remove")';
+  }
+
+  // Pre-publish panel
+  get prePublishPanel(): string {
+    return '.editor-post-publish-panel__prepublish';
+  }
+
+  get prePublishChecks(): string {
+    return '.editor-post-publish-panel__prepublish .components-panel__body-title';
+  }
+
+  get prePublishConfirmButton(): string {
+    return '.editor-post-publish-panel__header-publish-button button';
+  }
+
+  get postPublishPanel(): string {
+    return '.post-publish-panel__postpublish';
+  }
+
+  get publishPanelCloseButton(): string {
+    return '.editor-post-publish-panel__header button[aria-label="Close panel"]';
+  }
+
+  // Media modal (featured image and image block "Media Library")
+  get mediaModal(): string {
+    return '.media-modal';
+  }
+
+  get mediaModalFileInput(): string {
+    return '.media-modal input[type="file"]';
+  }
+
+  get mediaModalSearch(): string {
+    return '.media-modal #media-search-input';
+  }
+
+  get mediaModalSelectedAttachment(): string {
+    return '.media-modal .attachments .attachment.selected[data-id]';
+  }
+
+  get mediaModalUploading(): string {
+    return '.media-modal .attachment.uploading';
+  }
+
+  get mediaModalSelectButton(): string {
+    return '.media-modal .media-button-select';
+  }
+
+  getMediaModalAttachment(attachmentId: number): string {
+    return `.media-modal .attachments .attachment[data-id="${attachmentId}"]`;
+  }
+
+  // ===== NAVIGATION =====
+
+  /**
+   * Navigate directly to new post page
+   */
+  async navigateToNewPostDirectly(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/post-new.php`);
+      await this.waitForEditorReady();
+      SmartLogger.logUserAction('navigated directly to block editor', 'post-new.php');
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Navigate to edit an existing post by ID
+   * @param postId - WordPress post ID
+   */
+  async navigateToEditPost(postId: string): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/post.php?post=${postId}&action=edit`);
+      await this.waitForEditorReady();
+      SmartLogger.logUserAction('navigated to edit post in block editor', 'post.php', postId);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether the current page is the block editor
+   * Waits for either editor to render: the classic editor has #title, the block editor marks the body
+   */
+  async isBlockEditorActive(): Promise<boolean> {
+    try {
+      await this.page.locator(`${this.selector}, #title`).first().waitFor({ timeout: this.envManager.getNavigationTimeout() });
+      const isBlockEditor = await this.page.locator(this.selector).count() > 0;
+      SmartLogger.logUserAction('detected editor mode', this.selector, isBlockEditor ? 'block' : 'classic');
+      return isBlockEditor;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Open post-new.php and tell which editor the site serves
+   * Navigates through BasePage.navigate (so an expired session is recovered) and waits for either editor
+   * to render before deciding - a slow load throws instead of being taken for the classic editor.
+   */
+  async detectEditorMode(): Promise<EditorMode> {
+    try {
+      await this.navigate('/wp-admin/post-new.php');
+      await this.page.locator(`${this.selector}, #title`).first().waitFor({ timeout: this.envManager.getNavigationTimeout() });
+      const mode: EditorMode = await this.page.locator(this.selector).count() > 0 ? 'block' : 'classic';
+      SmartLogger.logUserAction('detected editor mode', 'post-new.php', mode);
+      return mode;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for the canvas title and close the welcome guide shown on a user's first visit
+   * @private
+   */
+  private async waitForEditorReady(): Promise<void> {
+    await this.waitForPageShown();
+    const canvas = await this.canvas();
+    await canvas.locator(this.titleField).waitFor({ timeout: this.envManager.getNavigationTimeout() });
+
+    const closeGuide = this.page.locator(this.welcomeGuideCloseButton);
+    if (await elementHelper.isElementDisplayed(closeGuide, 2000)) {
+      await closeGuide.click();
+      SmartLogger.logUserAction('closed block editor welcome guide', this.welcomeGuideCloseButton);
+    }
+  }
+
+  /**
+   * Root of the editor canvas - the iframe body when WordPress renders one
+   * @private
+   */
+  private async canvas(): Promise<Locator> {
+    if (await this.page.locator(this.editorCanvasIframe).count() > 0) {
+      return this.page.frameLocator(this.editorCanvasIframe).locator('body');
+    }
+    return this.page.locator('body');
+  }
+
+  // ===== TITLE AND CONTENT =====
+
+  /**
+   * Fill post title field
+   * @param title - The title to enter
+   */
+  async fillPostTitle(title: string): Promise<void> {
+    try {
+      const titleField = (await this.canvas()).locator(this.titleField);
+      await titleField.click();
+      await titleField.fill(title);
+      SmartLogger.logUserAction('filled post title', this.titleField, title);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current post title
+   */
+  async getPostTitle(): Promise<string> {
+    try {
+      const title = (await (await this.canvas()).locator(this.titleField).innerText()).trim();
+      SmartLogger.logUserAction('retrieved post title', this.titleField, title);
+      return title;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the post content through the code editor, then return to the visual editor.
+   * HTML without block comments becomes a Classic block and is saved unchanged.
+   * @param content - Raw post content
+   */
+  async fillPostContentInTextEditor(content: string): Promise<void> {
+    try {
+      await this.switchEditorView('Code editor');
+      await elementHelper.enterValue(this.page, this.codeEditorTextarea, content);
+      await elementHelper.blurElement(this.page, this.codeEditorTextarea);
+      await this.switchEditorView('Visual editor');
+      SmartLogger.logUserAction('filled post content in code editor', this.codeEditorTextarea, content.substring(0, 50));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the raw post content from the code editor
+   */
+  async getPostContentFromTextEditor(): Promise<string> {
+    try {
+      await this.switchEditorView('Code editor');
+      const content = await this.page.locator(this.codeEditorTextarea).inputValue();
+      await this.switchEditorView('Visual editor');
+      SmartLogger.logUserAction('retrieved post content', this.codeEditorTextarea, content.substring(0, 50));
+      return content;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Switch between the visual and code editor through the Options menu.
+   * The choice is a user preference, so callers switch back when done.
+   * @private
+   */
+  private async switchEditorView(view: 'Visual editor' | 'Code editor'): Promise<void> {
+    const inCodeEditor = await this.page.locator(this.codeEditorTextarea).count() > 0;
+    if (inCodeEditor === (view === 'Code editor')) {
+      return;
+    }
+
+    await elementHelper.clickElement(this.page, this.optionsMenuButton);
+    await this.page.getByRole('menuitemradio', { name: view }).click();
+    if (view === 'Code editor') {
+      await elementHelper.waitForDisplayed(this.page, this.codeEditorTextarea, this.envManager.getTimeout());
+    } else {
+      await elementHelper.waitForElementRemoved(this.page, this.codeEditorTextarea, this.envManager.getTimeout());
+      await (await this.canvas()).locator(this.titleField).waitFor();
+    }
+    await this.page.keyboard.press('Escape'); // Options menu stays open after picking an item
+    SmartLogger.logUserAction('switched block editor view', this.optionsMenuButton, view);
+  }
+
+  // ===== BLOCKS =====
+
+  /**
+   * Insert a block through the inserter, after the last block.
+   * The new block is selected and focused, ready for typing.
+   */
+  async insertBlock(type: BlockType): Promise<void> {
+    try {
+      const blocks = (await this.canvas()).locator(this.rootBlocks);
+      const count = await blocks.count();
+      if (count > 0) {
+        await blocks.nth(count - 1).click(); // the inserter adds after the selected block
+      }
+
+      await elementHelper.clickElement(this.page, this.inserterToggle);
+      await elementHelper.enterValue(this.page, this.inserterSearch, type);
+      await elementHelper.clickElement(this.page, this.getInserterItem(type));
+      await blocks.nth(count).waitFor();
+
+      // The inserter stays open on newer WordPress versions
+      const toggle = this.page.locator(this.inserterToggle).first();
+      if (await toggle.getAttribute('aria-pressed') === 'true' || await toggle.getAttribute('aria-expanded') === 'true') {
+        await toggle.click();
+        await blocks.nth(count).click();
+      }
+      SmartLogger.logUserAction('inserted block', this.getInserterItem(type), type);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a paragraph block at the end of the post
+   */
+  async addParagraphBlock(text: string): Promise<void> {
+    await this.insertBlock('paragraph');
+    await this.page.keyboard.type(text);
+    SmartLogger.logUserAction('typed paragraph block', 'core/paragraph', text.substring(0, 50));
+  }
+
+  /**
+   * Add a heading block at the end of the post
+   * @param level - Heading level 1-6, WordPress inserts h2
+   */
+  async addHeadingBlock(text: string, level: number = 2): Promise<void> {
+    await this.insertBlock('heading');
+    try {
+      if (level !== 2) {
+        await elementHelper.clickElement(this.page, this.headingLevelButton);
+        await this.page.getByRole('menuitemradio', { name: `Heading ${level}` }).click();
+        await (await this.canvas()).locator(this.rootBlocks).last().click();
+      }
+      await this.page.keyboard.type(text);
+      SmartLogger.logUserAction('typed heading block', `h${level}`, text);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a list block at the end of the post, one list item per entry
+   */
+  async addListBlock(items: string[]): Promise<void> {
+    await this.insertBlock('list');
+    try {
+      for (const [index, item] of items.entries()) {
+        if (index > 0) {
+          await this.page.keyboard.press('Enter');
+        }
+        await this.page.keyboard.type(item);
+      }
+      SmartLogger.logUserAction('typed list block', 'core/list', items.join(', '));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Add an image block at the end of the post, uploading a file or picking a library attachment
+   * @returns Promise<number | null> - Attachment ID shown by the block, or null if the image did not load
+   */
+  async addImageBlock(source: FeaturedImageSource): Promise<number | null> {
+    try {
+      await this.insertBlock('image');
+      const imageBlock = (await this.canvas()).locator(this.rootBlocks).last();
+
+      if ('filePath' in source) {
+        await elementHelper.uploadFile(this.page, imageBlock.locator('input[type="file"]'), source.filePath);
+        SmartLogger.logUserAction('uploaded image block file', 'core/image', path.basename(source.filePath));
+      } else {
+        await imageBlock.locator('button', { hasText: 'Media Library' }).click();
+        await this.pickFromMediaModal(source.attachmentId, source.title);
+      }
+
+      const image = imageBlock.locator('img[class*="wp-image-"]');
+      await image.waitFor({ timeout: 60000 });
+      const idMatch = ((await image.getAttribute('class')) || '').match(/wp-image-(\d+)/);
+      const attachmentId = idMatch ? Number(idMatch[1]) : null;
+
+      if (attachmentId !== null && 'filePath' in source) {
+        this.dataRegistry.register('media', path.parse(source.filePath).name, 'ui', attachmentId);
+      }
+      SmartLogger.logUserAction('added image block', 'core/image', String(attachmentId));
+      return attachmentId;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return null;
+    }
+  }
+
+  /**
+   * Get the top-level blocks in document order
+   */
+  async getBlocks(): Promise<EditorBlock[]> {
+    try {
+      const blocks: EditorBlock[] = [];
+      for (const block of await (await this.canvas()).locator(this.rootBlocks).all()) {
+        blocks.push({
+          name: (await block.getAttribute('data-type')) || '',
+          text: (await block.innerText()).trim()
+        });
+      }
+      SmartLogger.logUserAction('retrieved blocks', this.rootBlocks, blocks.map(block => block.name).join(', '));
+      return blocks;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return [];
+    }
+  }
+
+  /**
+   * Remove the block at a position through its Options menu
+   * @param index - Zero-based position among top-level blocks
+   */
+  async removeBlock(index: number): Promise<boolean> {
+    try {
+      const blocks = (await this.canvas()).locator(this.rootBlocks);
+      const countBefore = await blocks.count();
+      await this.selectBlock(index);
+      await elementHelper.clickElement(this.page, this.blockOptionsButton);
+      // "Delete" on WordPress 6.4+, "Remove <block>" before
+      await this.page.getByRole('menuitem', { name: /^(Delete|Remove)/ }).click();
+
+      await blocks.nth(countBefore - 1).waitFor({ state: 'detached', timeout: this.envManager.getActionTimeout() });
+      SmartLogger.logUserAction('removed block', this.blockOptionsButton, String(index));
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Move the block at a position one step up or down with the block mover
+   * @param index - Zero-based position among top-level blocks
+   */
+  async moveBlock(index: number, direction: 'up' | 'down'): Promise<boolean> {
+    try {
+      const block = (await this.canvas()).locator(this.rootBlocks).nth(index);
+      const clientId = await block.getAttribute('data-block');
+      await this.selectBlock(index);
+      await elementHelper.clickElement(this.page, direction === 'up' ? this.moveUpButton : this.moveDownButton);
+
+      const target = direction === 'up' ? index - 1 : index + 1;
+      const moved = (await this.canvas()).locator(this.rootBlocks).nth(target);
+      await moved.and((await this.canvas()).locator(`[data-block="${clientId}"]`)).waitFor({ timeout: this.envManager.getActionTimeout() });
+      SmartLogger.logUserAction('moved block', direction === 'up' ? this.moveUpButton : this.moveDownButton, `${index} -> ${target}`);
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Select a block so its toolbar shows
+   * @private
+   */
+  private async selectBlock(index: number): Promise<void> {
+    await (await this.canvas()).locator(this.rootBlocks).nth(index).click();
+    await elementHelper.waitForDisplayed(this.page, this.blockToolbar, this.envManager.getTimeout());
+  }
+
+  // ===== DOCUMENT SIDEBAR =====
+
+  /**
+   * Open the Settings sidebar on its post (document) tab and expand a panel.
+   * Panels WordPress shows without a toggle (e.g. Featured image on 6.6+) are left as they are.
+   * @private
+   */
+  private async openSidebarPanel(title: string): Promise<void> {
+    if (!await elementHelper.isElementDisplayed(this.page.locator(this.documentSidebar), 1000)) {
+      await elementHelper.clickElement(this.page, this.settingsButton);
+    }
+    const documentTab = this.page.locator(this.documentTab).first();
+    if (await documentTab.count() > 0 && await documentTab.getAttribute('aria-selected') !== 'true') {
+      await documentTab.click();
+    }
+
+    const toggle = this.page.locator(this.sidebarPanelToggles, { hasText: title }).first();
+    if (await toggle.count() > 0 && await toggle.getAttribute('aria-expanded') === 'false') {
+      await toggle.click();
+    }
+    SmartLogger.logUserAction('opened document sidebar panel', this.sidebarPanelToggles, title);
+  }
+
+  /**
+   * Add tags to the post
+   * @param tags - Comma-separated tags to add
+   */
+  async addTags(tags: string): Promise<void> {
+    try {
+      await this.openSidebarPanel('Tags');
+      for (const tag of tags.split(',').map(name => name.trim()).filter(Boolean)) {
+        await elementHelper.enterValue(this.page, this.tagsInput, tag);
+        await this.page.locator(this.tagsInput).press('Enter');
+      }
+      SmartLogger.logUserAction('added tags', this.tagsInput, tags);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Clear all existing tags
+   */
+  async clearAllTags(): Promise<void> {
+    try {
+      await this.openSidebarPanel('Tags');
+      const removeButtons = this.page.locator(this.tagRemoveButtons);
+      const count = await removeButtons.count();
+      for (let i = 0; i < count; i++) {
+        await removeButtons.first().click();
+      }
+      SmartLogger.logUserAction(`Cleared ${count} existing tags`);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current tags as comma-separated string
+   */
+  async getTagsValue(): Promise<string> {
+    try {
+      await this.openSidebarPanel('Tags');
+      const tags = (await this.page.locator(this.tagTokens).allTextContents()).map(tag => tag.trim());
+      SmartLogger.logUserAction(`Retrieved tags: ${tags.join(', ')}`);
+      return tags.join(', ');
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return '';
+    }
+  }
+
+  /**
+   * Select a category for the post
+   * @param categoryName - Name of the category to select
+   */
+  async selectCategory(categoryName: string): Promise<void> {
+    try {
+      await this.openSidebarPanel('Categories');
+      await this.page.locator(this.categoriesList).getByLabel(categoryName, { exact: true }).check();
+      SmartLogger.logUserAction('selected category', this.categoriesList, categoryName);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Fill excerpt field - a panel before WordPress 6.6, a popover from the post summary after
+   * @param excerpt - The excerpt text to enter
+   */
+  async fillExcerpt(excerpt: string): Promise<void> {
+    try {
+      await this.openSidebarPanel('Excerpt');
+      if (await this.page.locator(this.excerptField).count() === 0 && await this.page.locator(this.excerptTrigger).count() > 0) {
+        await elementHelper.clickElement(this.page, this.excerptTrigger);
+      }
+      await elementHelper.enterValue(this.page, this.excerptField, excerpt);
+      SmartLogger.logUserAction('filled excerpt', this.excerptField, excerpt.substring(0, 50));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the featured image through the media modal, uploading a new file or picking an existing attachment.
+   * Unlike the classic editor the choice is only an edit until the post is saved.
+   * @returns Promise<number | null> - Attachment ID now set as featured image, or null if none was set
+   */
+  async setFeaturedImage(source: FeaturedImageSource): Promise<number | null> {
+    try {
+      await this.openSidebarPanel('Featured image');
+      const replaceButton = this.page.locator('.editor-post-featured-image button', { hasText: 'Replace' });
+      await (await replaceButton.count() > 0 ? replaceButton.first() : this.page.locator(this.setFeaturedImageButton)).click();
+      await elementHelper.waitForDisplayed(this.page, this.mediaModal, this.envManager.getTimeout());
+
+      let attachmentId: number | null;
+      if ('filePath' in source) {
+        await elementHelper.uploadFile(this.page, this.mediaModalFileInput, source.filePath);
+        SmartLogger.logUserAction('uploaded featured image', this.mediaModalFileInput, path.basename(source.filePath));
+        await elementHelper.waitForDisplayed(this.page, this.mediaModalSelectedAttachment, this.envManager.getTimeout());
+        await elementHelper.waitForElementRemoved(this.page, this.mediaModalUploading, 60000);
+        const selectedId = await this.page.locator(this.mediaModalSelectedAttachment).first().getAttribute('data-id');
+        attachmentId = selectedId ? Number(selectedId) : null;
+        if (attachmentId !== null) {
+          this.dataRegistry.register('media', path.parse(source.filePath).name, 'ui', attachmentId);
+        }
+        await elementHelper.clickElement(this.page, this.mediaModalSelectButton);
+        await elementHelper.waitForElementRemoved(this.page, this.mediaModal, this.envManager.getActionTimeout());
+      } else {
+        await this.pickFromMediaModal(source.attachmentId, source.title);
+        attachmentId = source.attachmentId;
+      }
+
+      await elementHelper.waitForDisplayed(this.page, this.featuredImagePreview, this.envManager.getTimeout());
+      const featuredImageId = await this.getFeaturedImageId();
+      SmartLogger.logUserAction('set featured image', this.setFeaturedImageButton, String(featuredImageId));
+      return featuredImageId === attachmentId ? featuredImageId : null;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the featured image from the post
+   * @returns Promise<boolean> - True if the sidebar is back to "Set featured image"
+   */
+  async removeFeaturedImage(): Promise<boolean> {
+    try {
+      await this.openSidebarPanel('Featured image');
+      await elementHelper.clickElement(this.page, this.removeFeaturedImageButton);
+      const removed = await elementHelper.waitForElementRemoved(this.page, this.featuredImagePreview, this.envManager.getActionTimeout());
+      SmartLogger.logUserAction('removed featured image', this.removeFeaturedImageButton, removed.toString());
+      return removed && await this.getFeaturedImageId() === null;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Get the attachment ID set as featured image (saved or not)
+   * @returns Promise<number | null> - Attachment ID, or null when the post has none
+   */
+  async getFeaturedImageId(): Promise<number | null> {
+    try {
+      const attachmentId = Number(await this.getEditedPostAttribute('featured_media')) || 0;
+      SmartLogger.logUserAction('retrieved featured image ID', 'featured_media', String(attachmentId));
+      return attachmentId > 0 ? attachmentId : null;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return null;
+    }
+  }
+
+  /**
+   * Verify the sidebar shows a featured image preview for the expected attachment
+   * @param expectedId - Attachment ID expected as featured image
+   */
+  async verifyFeaturedImage(expectedId: number): Promise<boolean> {
+    try {
+      await this.openSidebarPanel('Featured image');
+      const previewVisible = await elementHelper.isElementDisplayed(this.page.locator(this.featuredImagePreview));
+      const actualId = await this.getFeaturedImageId();
+      const result = previewVisible && actualId === expectedId;
+      SmartLogger.logAssertion('Featured image verification', String(expectedId), `${actualId}, preview visible: ${previewVisible}`, result);
+      return result;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Search the media modal for an attachment, select it and confirm
+   * @private
+   */
+  private async pickFromMediaModal(attachmentId: number, title: string): Promise<void> {
+    await elementHelper.waitForDisplayed(this.page, this.mediaModal, this.envManager.getTimeout());
+    await elementHelper.clearAndEnterValue(this.page, this.mediaModalSearch, title);
+    await elementHelper.clickElement(this.page, this.getMediaModalAttachment(attachmentId));
+    await elementHelper.clickElement(this.page, this.mediaModalSelectButton);
+    await elementHelper.waitForElementRemoved(this.page, this.mediaModal, this.envManager.getActionTimeout());
+    SmartLogger.logUserAction('picked attachment from media modal', this.getMediaModalAttachment(attachmentId), title);
+  }
+
+  // ===== PUBLISHING =====
+
+  /**
+   * Open the pre-publish panel ("Are you ready to publish?")
+   * @returns Promise<boolean> - False when the user turned pre-publish checks off
+   */
+  async openPrePublishPanel(): Promise<boolean> {
+    try {
+      if (await this.page.locator(this.publishPanelToggle).count() === 0) {
+        SmartLogger.logUserAction('pre-publish checks disabled', this.publishPanelToggle);
+        return false;
+      }
+      await elementHelper.clickElement(this.page, this.publishPanelToggle);
+      await elementHelper.waitForDisplayed(this.page, this.prePublishPanel, this.envManager.getTimeout());
+      SmartLogger.logUserAction('opened pre-publish panel', this.publishPanelToggle);
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Get the pre-publish check rows, e.g. "Visibility: Public", "Publish: Immediately"
+   */
+  async getPrePublishChecks(): Promise<string[]> {
+    try {
+      const checks = (await this.page.locator(this.prePublishChecks).allInnerTexts())
+        .map(text => text.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+      SmartLogger.logUserAction('retrieved pre-publish checks', this.prePublishChecks, checks.join(' | '));
+      return checks;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return [];
+    }
+  }
+
+  /**
+   * Close the pre- or post-publish panel
+   */
+  async closePublishPanel(): Promise<void> {
+    try {
+      if (await this.page.locator(this.publishPanelCloseButton).count() > 0) {
+        await elementHelper.clickElement(this.page, this.publishPanelCloseButton);
+        SmartLogger.logUserAction('closed publish panel', this.publishPanelCloseButton);
+      }
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish the post through the pre-publish panel, or update it when already published
+   */
+  async publishPost(): Promise<void> {
+    try {
+      if (await this.openPrePublishPanel()) {
+        await elementHelper.clickElement(this.page, this.prePublishConfirmButton);
+        await elementHelper.waitForDisplayed(this.page, this.postPublishPanel, this.envManager.getNavigationTimeout());
+        await this.closePublishPanel();
+      } else {
+        await elementHelper.clickElement(this.page, this.publishButton);
+      }
+
+      await this.waitForSaveToFinish();
+      if (!await this.readCoreEditor('isCurrentPostPublished')) {
+        throw new Error('Post publish verification failed - editor does not report the post as published');
+      }
+
+      SmartLogger.logUserAction('published post', this.publishButton);
+      await this.trackSavedPost();
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Save post as draft
+   */
+  async saveDraft(): Promise<void> {
+    try {
+      await elementHelper.clickElement(this.page, this.saveDraftButton);
+      await this.waitForSaveToFinish();
+      SmartLogger.logUserAction('saved post as draft', this.saveDraftButton);
+      await this.trackSavedPost();
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Number of revisions of the saved post
+   * @returns Promise<number> - 0 for a post that was never saved
+   */
+  async getRevisionsCount(): Promise<number> {
+    try {
+      const count = await this.readCoreEditor('getCurrentPostRevisionsCount');
+      SmartLogger.logUserAction('read revisions count', 'core/editor', String(count));
+      return Number(count) || 0;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return 0;
+    }
+  }
+
+  /**
+   * Open the revisions screen at the newest revision - the URL behind the document sidebar's Revisions
+   * button, which moved between panels across WordPress releases
+   */
+  async openRevisions(): Promise<void> {
+    try {
+      const revisionId = await this.readCoreEditor('getCurrentPostLastRevisionId');
+      if (!revisionId) {
+        throw new Error('The post has no revisions yet');
+      }
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/revision.php?revision=${revisionId}`);
+      SmartLogger.logUserAction('opened revisions', 'revision.php', String(revisionId));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait until the editor has no save request running and no unsaved edits
+   * @private
+   */
+  private async waitForSaveToFinish(): Promise<void> {
+    await this.page.waitForFunction(() => {
+      const editor = window.wp.data.select('core/editor');
+      return !editor.isSavingPost() && !editor.isEditedPostDirty();
+    }, undefined, { timeout: this.envManager.getNavigationTimeout() });
+  }
+
+  /**
+   * Read an attribute of the post being edited, including unsaved edits
+   * @private
+   */
+  private async getEditedPostAttribute(attribute: string): Promise<unknown> {
+    return this.readCoreEditor('getEditedPostAttribute', attribute);
+  }
+
+  /**
+   * Call a selector of the editor's core/editor data store in the page
+   * @private
+   */
+  private async readCoreEditor<K extends keyof CoreEditorSelectors>(
+    selector: K, ...args: Parameters<CoreEditorSelectors[K]>
+  ): Promise<ReturnType<CoreEditorSelectors[K]>> {
+    return this.page.evaluate(({ selector, args }) => {
+      const editor = window.wp.data.select('core/editor');
+      const read = editor[selector] as (...values: unknown[]) => ReturnType<CoreEditorSelectors[K]>;
+      return read.apply(editor, args);
+    }, { selector, args });
+  }
+
+  /**
+   * Record the post that was just saved so teardown can delete it
+   * @private
+   */
+  private async trackSavedPost(): Promise<void> {
+    const postId = await this.getCurrentPostId();
+    if (postId) {
+      const title = await this.getPostTitle().catch(() => '');
+      this.dataRegistry.register('post', title, 'ui', Number(postId));
+    }
+  }
+
+  /**
+   * Get the current post ID - from the URL once saved, from the editor for a new auto-draft
+   * @returns Promise<string | null> - Post ID or null if not found
+   */
+  async getCurrentPostId(): Promise<string | null> {
+    try {
+      const postIdMatch = this.page.url().match(/[?&]post=(\d+)/);
+      const postId = postIdMatch
+        ? postIdMatch[1]
+        : String(await this.readCoreEditor('getCurrentPostId') || '');
+      SmartLogger.logUserAction(`Retrieved current post ID: ${postId || 'null'}`);
+      return postId || null;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return null;
+    }
+  }
+
+  // ===== VERIFICATIONS =====
+
+  /**
+   * Verify block editor has loaded
+   */
+  async verifyPostEditorLoaded(): Promise<boolean> {
+    try {
+      await this.waitForPageShown();
+      await (await this.canvas()).locator(this.titleField).waitFor();
+      await this.page.locator(this.inserterToggle).first().waitFor();
+      SmartLogger.logUserAction('verified block editor loaded');
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Verify the editor chrome and the document sidebar panels are visible
+   */
+  async verifyAllPostEditorElementsVisible(): Promise<boolean> {
+    try {
+      const canvas = await this.canvas();
+      const coreElements: Locator[] = [
+        canvas.locator(this.titleField),
+        this.page.locator(this.inserterToggle).first(),
+        this.page.locator(`${this.publishPanelToggle}, ${this.publishButton}`).first(),
+        this.page.locator(this.settingsButton).first()
+      ];
+
+      for (const element of coreElements) {
+        if (!await elementHelper.isElementDisplayed(element)) {
+          SmartLogger.logUserAction('element not visible', element.toString());
+          return false;
+        }
+      }
+
+      await this.openSidebarPanel('Categories');
+      await this.openSidebarPanel('Tags');
+      const sidebarElements = [this.categoriesList, this.tagsInput];
+      for (const element of sidebarElements) {
+        if (!await elementHelper.isElementDisplayed(this.page.locator(element).first())) {
+          SmartLogger.logUserAction('element not visible', element);
+          return false;
+        }
+      }
+
+      SmartLogger.logUserAction('verified all block editor elements visible');
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Verify title field has specific value
+   */
+  async verifyTitleValue(expectedValue: string): Promise<boolean> {
+    try {
+      const actualValue = await this.getPostTitle();
+      SmartLogger.logUserAction('verified title value', this.titleField, `Expected: ${expectedValue}, Actual: ${actualValue}`);
+      return actualValue === expectedValue;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Verify the last save succeeded - snackbar notice, or a clean editor after a successful request
+   */
+  async verifySuccessMessageVisible(): Promise<boolean> {
+    try {
+      if (await elementHelper.isElementDisplayed(this.page.locator(this.snackbar).first(), 3000)) {
+        SmartLogger.logUserAction('verified success message', this.snackbar, 'true');
+        return true;
+      }
+      const saved = await this.page.evaluate(() => {
+        const editor = window.wp.data.select('core/editor');
+        return editor.didPostSaveRequestSucceed() && !editor.isEditedPostDirty();
+      });
+      SmartLogger.logUserAction('verified success via editor save state', 'core/editor', String(saved));
+      return saved;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Verify post title, content and tags
+   * Content is compared after decoding HTML entities and normalizing line endings, like PostPage
+   */
+  async verifyPostDetails(expectedTitle: string, expectedContent?: string, expectedTags?: string): Promise<boolean> {
+    try {
+      const normalize = (value: string) => value
+        .replace(/\r\n|\r/g, '\n')
+        .replace(/&#0*39;/g, "'")
+        .replace(/&quot;/g, '"')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+        .trim();
+
+      const actualTitle = await this.getPostTitle();
+      const titleMatches = actualTitle.replace(/\s+/g, ' ') === expectedTitle.replace(/\s+/g, ' ').trim();
+
+      let contentMatches = true;
+      if (expectedContent) {
+        contentMatches = normalize(await this.getPostContentFromTextEditor()) === normalize(expectedContent);
+      }
+
+      let tagsMatch = true;
+      if (expectedTags) {
+        const sortTags = (tags: string) => tags.split(',').map(tag => tag.trim()).filter(Boolean).sort();
+        tagsMatch = JSON.stringify(sortTags(await this.getTagsValue())) === JSON.stringify(sortTags(expectedTags));
+      }
+
+      const allMatch = titleMatches && contentMatches && tagsMatch;
+      SmartLogger.logUserAction(`Post details verification result: ${allMatch}`, undefined, `title: ${titleMatches}, content: ${contentMatches}, tags: ${tagsMatch}`);
+      return allMatch;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+
+  /**
+   * Verify the saved post status
+   * @param expectedStatus - Expected post status
+   */
+  async verifyPostStatus(expectedStatus: EditorPostStatus): Promise<boolean> {
+    try {
+      const labels: Record<string, EditorPostStatus> = { publish: 'Published', draft: 'Draft', pending: 'Pending', future: 'Scheduled', private: 'Private' };
+      const status = String(await this.readCoreEditor('getCurrentPostAttribute', 'status'));
+      const result = labels[status] === expectedStatus;
+      SmartLogger.logAssertion('post status verification', expectedStatus, status, result);
+      return result;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+}
+
+export default BlockEditorPage;
@@ -0,0 +1,621 @@
+import { Page } from '@playwright/test';
+import { ListTablePage, ListTableRawRow } from './list-table.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { TestDataRegistry } from '../utils/test-data-registry.utils';
+
+/**
+ * Columns of the comments list; the sortable ones are author, response and date
+ */
+export type CommentListColumn = 'author' | 'comment' | 'response' | 'date';
+
+/**
+ * Moderation status of a comment; 'pending' is core's "unapproved" and the Pending view
+ */
+export type CommentListStatus = 'approved' | 'pending' | 'spam' | 'trash';
+
+/**
+ * Bulk actions of the comments list - which ones are offered depends on the view
+ */
+export type CommentBulkAction = 'approve' | 'unapprove' | 'spam' | 'unspam' | 'trash' | 'untrash' | 'delete';
+
+/**
+ * A comment as listed on edit-comments.php
+ */
+export interface CommentListRow {
+  id: number;
+  /** Author name as entered, without the URL and email shown under it */
+  author: string;
+  authorEmail: string;
+  authorUrl: string;
+  /** Comment text as saved (the raw text Quick Edit starts from) */
+  content: string;
+  status: CommentListStatus;
+  /** Name of the author of the comment this one replies to; empty for top-level comments */
+  inReplyTo: string;
+  /** Title of the post the comment is on */
+  postTitle: string;
+  /** Submitted on column text, e.g. "2024/01/02 at 10:05 am" */
+  date: string;
+}
+
+/**
+ * Fields Quick Edit can change; anything left out keeps its current value
+ */
+export interface CommentQuickEditChanges {
+  content?: string;
+  author?: string;
+  authorEmail?: string;
+  authorUrl?: string;
+}
+
+/** Row class WordPress gives each status (comment_class()) */
+const STATUS_CLASSES: Record<CommentListStatus, string> = {
+  approved: 'approved',
+  pending: 'unapproved',
+  spam: 'spam',
+  trash: 'trash'
+};
+
+/** View (?comment_status=) listing each status */
+const STATUS_VIEWS: Record<CommentListStatus | 'all', string> = {
+  all: 'all',
+  approved: 'approved',
+  pending: 'moderated',
+  spam: 'spam',
+  trash: 'trash'
+};
+
+/**
+ * Start of the notice each bulk action redirects with, after the count - unapproving shows none
+ */
+const BULK_NOTICES: Record<CommentBulkAction, [string, string] | null> = {
+  approve: ['comment approved.', 'comments approved.'],
+  unapprove: null,
+  spam: ['comment marked as spam.', 'comments marked as spam.'],
+  unspam: ['comment restored from the spam.', 'comments restored from the spam.'],
+  trash: ['comment moved to the Trash.', 'comments moved to the Trash.'],
+  untrash: ['comment restored from the Trash.', 'comments restored from the Trash.'],
+  delete: ['comment permanently deleted.', 'comments permanently deleted.']
+};
+
+/** Status a comment has after each bulk action; undefined when it returns to whatever it was before */
+const BULK_RESULTS: Record<CommentBulkAction, CommentListStatus | undefined> = {
+  approve: 'approved',
+  unapprove: 'pending',
+  spam: 'spam',
+  unspam: undefined,
+  trash: 'trash',
+  untrash: undefined,
+  delete: undefined
+};
+
+/**
+ * WordPress Comments Page Object Model
+ * Handles the comments list (edit-comments.php): status views, search, row actions, Reply, Quick Edit and bulk moderation
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/edit-comments.php
+ * Comments are addressed by ID (the row is tr#comment-N). Core runs Approve, Unapprove, Spam and Trash
+ * over admin-ajax and updates the row in place; without JavaScript the same links reload the list, so
+ * row actions wait for the row to lose its old status rather than for a navigation. Reply and Quick Edit
+ * share the #replyrow editor. Pagination, sorting and Screen Options come from ListTablePage.
+ */
+export class CommentsPage extends ListTablePage<CommentListRow, CommentListColumn> {
+  private dataRegistry = TestDataRegistry.getInstance();
+
+  constructor(page: Page) {
+    super(page, '#comments-form'); // Comments list form as identifier
+  }
+
+  // ===== SELECTORS (Based on live site inspection) =====
+
+  get listPath(): string {
+    return 'edit-comments.php';
+  }
+
+  // Core's comments table body is #the-comment-list rather than #the-list
+  get listTable(): string {
+    return '#the-comment-list';
+  }
+
+  get listTableRows(): string {
+    return '#the-comment-list > tr';
+  }
+
+  get pageTitle(): string {
+    return '.wrap h1';
+  }
+
+  get searchBox(): string {
+    return '#comment-search-input';
+  }
+
+  get searchButton(): string {
+    return '#search-submit';
+  }
+
+  getStatusView(status: CommentListStatus | 'all'): string {
+    return `.subsubsub li.${STATUS_VIEWS[status]} a`;
+  }
+
+  // Bulk actions
+  get bulkActionSelect(): string {
+    return '#bulk-action-selector-top';
+  }
+
+  get bulkActionButton(): string {
+    return '#doaction';
+  }
+
+  // Rows
+  getCommentRow(id: number): string {
+    return `#the-comment-list tr#comment-${id}`;
+  }
+
+  getCommentCheckbox(id: number): string {
+    return `${this.getCommentRow(id)} .check-column input[type="checkbox"]`;
+  }
+
+  /**
+   * Row action link or button, by its span class: approve, unapprove, reply, quickedit, spam, trash, unspam, untrash or delete
+   */
+  getRowAction(id: number, action: string): string {
+    return `${this.getCommentRow(id)} .row-actions .${action} a, ${this.getCommentRow(id)} .row-actions .${action} button`;
+  }
+
+  // Reply / Quick Edit editor
+  get replyRow(): string {
+    return '#replyrow';
+  }
+
+  get replyContentField(): string {
+    return '#replycontent';
+  }
+
+  get replyAuthorNameField(): string {
+    return '#author-name';
+  }
+
+  get replyAuthorEmailField(): string {
+    return '#author-email';
+  }
+
+  get replyAuthorUrlField(): string {
+    return '#author-url';
+  }
+
+  get replySubmitButton(): string {
+    return '#replysubmit .save';
+  }
+
+  get replyCancelButton(): string {
+    return '#replysubmit .cancel';
+  }
+
+  get replyError(): string {
+    return '#replysubmit .notice-error .error';
+  }
+
+  // Messages
+  get moderationNotice(): string {
+    return '#moderated, #message';
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Navigate directly to the comments list
+   */
+  async navigate(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/${this.listPath}`);
+      await this.waitForPageShown();
+      SmartLogger.logUserAction('navigated to comments page', this.listPath);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Check if the comments list is loaded
+   */
+  async isCommentsPageLoaded(): Promise<boolean> {
+    try {
+      const titleVisible = await elementHelper.isElementDisplayed(this.page.locator(this.pageTitle));
+      const tableVisible = await elementHelper.isElementDisplayed(this.page.locator(this.listTable));
+      const isLoaded = titleVisible && tableVisible;
+      SmartLogger.logAssertion('comments page loaded verification', true, isLoaded, isLoaded);
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a comment is shown on the current page of the list
+   */
+  async commentExists(id: number): Promise<boolean> {
+    try {
+      const exists = await this.page.locator(this.getCommentRow(id)).isVisible();
+      SmartLogger.logUserAction('checked comment exists', this.getCommentRow(id), `${id}: ${exists}`);
+      return exists;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Status of a listed comment, or null when it is not shown on the current page
+   */
+  async getCommentStatus(id: number): Promise<CommentListStatus | null> {
+    try {
+      const status = await this.getRowStatus(id);
+      SmartLogger.logUserAction('retrieved comment status', this.getCommentRow(id), `${id}: ${status}`);
+      return status;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return null;
+    }
+  }
+
+  /**
+   * Text of the moderation notice, or an empty string when none is shown
+   */
+  async getNoticeText(): Promise<string> {
+    try {
+      const notice = this.page.locator(this.moderationNotice).first();
+      const text = await notice.count() > 0 ? (await notice.textContent() || '').trim() : '';
+      SmartLogger.logUserAction('read comments notice', this.moderationNotice, text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  // ===== COMMENT MANAGEMENT METHODS =====
+
+  /**
+   * Search comments by author, email, URL or text
+   */
+  async searchComments(searchTerm: string): Promise<void> {
+    try {
+      await elementHelper.enterValue(this.page, this.searchBox, searchTerm);
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.searchButton));
+      SmartLogger.logUserAction('searched for comments', this.searchBox, searchTerm);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Show one status view: All (approved and pending), Pending, Approved, Spam or Trash
+   */
+  async filterByStatus(status: CommentListStatus | 'all'): Promise<void> {
+    try {
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.getStatusView(status)));
+      SmartLogger.logUserAction('filtered comments by status', this.getStatusView(status), status);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a pending comment with its Approve row action
+   * @returns Promise<boolean> - True if the comment is approved or left the current view
+   */
+  async approveComment(id: number): Promise<boolean> {
+    return this.moderate(id, 'approve', 'approved');
+  }
+
+  /**
+   * Send an approved comment back to moderation with its Unapprove row action
+   * @returns Promise<boolean> - True if the comment is pending or left the current view
+   */
+  async unapproveComment(id: number): Promise<boolean> {
+    return this.moderate(id, 'unapprove', 'pending');
+  }
+
+  /**
+   * Mark a comment as spam with its Spam row action
+   * @returns Promise<boolean> - True if the comment left the current view
+   */
+  async spamComment(id: number): Promise<boolean> {
+    return this.moderate(id, 'spam', 'spam');
+  }
+
+  /**
+   * Move a comment to the Trash with its Trash row action
+   * @returns Promise<boolean> - True if the comment left the current view
+   */
+  async trashComment(id: number): Promise<boolean> {
+    return this.moderate(id, 'trash', 'trash');
+  }
+
+  /**
+   * Take a comment out of the Spam (Not Spam) or the Trash (Restore) - it returns to its earlier status.
+   * Open the Spam or Trash view first.
+   * @returns Promise<boolean> - True if the comment left the Spam / Trash view
+   */
+  async restoreComment(id: number): Promise<boolean> {
+    try {
+      const action = await this.getRowStatus(id) === 'spam' ? 'unspam' : 'untrash';
+      return await this.moderate(id, action, null);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a spam or trashed comment with Delete Permanently. Open the Spam or Trash view first.
+   * @returns Promise<boolean> - True if the comment left the list
+   */
+  async deleteCommentPermanently(id: number): Promise<boolean> {
+    const success = await this.moderate(id, 'delete', null);
+    if (success) {
+      this.dataRegistry.markDeleted('comment', id);
+    }
+    return success;
+  }
+
+  /**
+   * Reply to a listed comment from the list; replying to a pending comment ("Approve and Reply") approves it too
+   * @returns Promise<number | null> - ID of the reply, or null when WordPress refused it
+   */
+  async replyToComment(id: number, content: string): Promise<number | null> {
+    try {
+      SmartLogger.logUserAction('replying to comment', this.getRowAction(id, 'reply'), String(id));
+
+      const before = await this.getListedIds();
+      await this.openReplyRow(id, 'reply');
+      await elementHelper.enterValue(this.page, this.replyContentField, content);
+      if (!await this.savingReplyRow()) {
+        return null;
+      }
+
+      await this.page.waitForFunction(
+        ({ selector, count }) => document.querySelectorAll(selector).length > count,
+        { selector: `${this.listTableRows}[id^="comment-"]`, count: before.length },
+        { timeout: this.envManager.getActionTimeout() }
+      );
+      const replyId = (await this.getListedIds()).find(listed => !before.includes(listed)) ?? null;
+      if (replyId) {
+        this.dataRegistry.register('comment', content, 'ui', replyId);
+      }
+      SmartLogger.logUserAction('reply result', this.replySubmitButton, String(replyId));
+      return replyId;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return null;
+    }
+  }
+
+  /**
+   * Change a comment's text or author fields with Quick Edit
+   * @returns Promise<boolean> - True if the updated row shows the changes
+   */
+  async quickEditComment(id: number, changes: CommentQuickEditChanges): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('quick editing comment', this.getRowAction(id, 'quickedit'), Object.keys(changes).join(', '));
+
+      await this.openReplyRow(id, 'quickedit');
+      const fields: Array<[string | undefined, string]> = [
+        [changes.content, this.replyContentField],
+        [changes.author, this.replyAuthorNameField],
+        [changes.authorEmail, this.replyAuthorEmailField],
+        [changes.authorUrl, this.replyAuthorUrlField]
+      ];
+      for (const [value, field] of fields) {
+        if (value !== undefined) {
+          await elementHelper.clearAndEnterValue(this.page, field, value);
+        }
+      }
+      if (!await this.savingReplyRow()) {
+        return false;
+      }
+
+      await elementHelper.waitForDisplayed(this.page, this.getCommentRow(id), this.envManager.getActionTimeout());
+      const row = (await this.getRows()).find(listed => listed.id === id);
+      const success = row !== undefined &&
+        (changes.content === undefined || row.content === changes.content.trim()) &&
+        (changes.author === undefined || row.author === changes.author.trim()) &&
+        (changes.authorEmail === undefined || row.authorEmail === changes.authorEmail.trim()) &&
+        (changes.authorUrl === undefined || row.authorUrl === changes.authorUrl.trim());
+      SmartLogger.logUserAction('quick edit result', this.replySubmitButton, success.toString());
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Error shown in the Reply / Quick Edit editor after a refused save, or an empty string
+   */
+  async getReplyError(): Promise<string> {
+    try {
+      const error = this.page.locator(this.replyError);
+      const text = await error.isVisible() ? (await error.textContent() || '').trim() : '';
+      SmartLogger.logUserAction('read reply error', this.replyError, text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  /**
+   * Apply a bulk action to listed comments. The actions offered depend on the view: Spam and Trash
+   * offer 'unspam' / 'untrash' and 'delete', the others approve, unapprove, spam and trash.
+   * @returns Promise<boolean> - True if the notice counts every comment and none is left with the wrong status
+   */
+  async bulkAction(ids: number[], action: CommentBulkAction): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('applying comment bulk action', this.bulkActionSelect, `${action} on ${ids.join(', ')}`);
+
+      for (const id of ids) {
+        if (await this.page.locator(this.getCommentRow(id)).count() === 0) {
+          throw new Error(`Comment ${id} is not in the list`);
+        }
+        if (!await elementHelper.isElementChecked(this.page, this.getCommentCheckbox(id))) {
+          await elementHelper.toggleCheckbox(this.page, this.getCommentCheckbox(id));
+        }
+      }
+      await elementHelper.selectOptionValue(this.page, this.bulkActionSelect, action);
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.bulkActionButton));
+
+      const notice = BULK_NOTICES[action];
+      const noticeShown = !notice || (await this.getNoticeText()).includes(`${ids.length} ${ids.length === 1 ? notice[0] : notice[1]}`);
+      const expected = BULK_RESULTS[action];
+      const wrong: number[] = [];
+      for (const id of ids) {
+        const status = await this.getRowStatus(id);
+        if (status !== null && status !== expected) {
+          wrong.push(id);
+        }
+      }
+      const success = noticeShown && wrong.length === 0;
+      if (success && action === 'delete') {
+        ids.forEach(id => this.dataRegistry.markDeleted('comment', id));
+      }
+      SmartLogger.logUserAction('comment bulk action result', action, wrong.length ? `unchanged: ${wrong.join(', ')}` : success.toString());
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * Comment row from the list table; the author, email, URL and text come from the row's #inline-N data
+   */
+  protected toRow(raw: ListTableRawRow): CommentListRow {
+    const status = (Object.keys(STATUS_CLASSES) as CommentListStatus[])
+      .find(candidate => raw.classes.includes(STATUS_CLASSES[candidate])) ?? 'pending';
+    const reply = (raw.cells.comment || '').match(/^In reply to (.+?)\.(\s|$)/);
+    return {
+      id: Number(raw.checkbox || raw.id.replace('comment-', '')),
+      author: (raw.inline.author || '').trim(),
+      authorEmail: (raw.inline['author-email'] || '').trim(),
+      authorUrl: (raw.inline['author-url'] || '').trim(),
+      content: raw.inline.comment ?? '',
+      status,
+      inReplyTo: reply ? reply[1] : '',
+      postTitle: (raw.links.response || [])[0] || '',
+      date: raw.cells.date || ''
+    };
+  }
+
+  /**
+   * Run a row action and wait until the row no longer shows its old status - updated in place by
+   * admin-ajax, hidden, or gone from the reloaded list - then check where the comment ended up
+   * @param expected - Status the comment should have if it is still listed; null when it should leave the list
+   * @private
+   */
+  private async moderate(id: number, action: string, expected: CommentListStatus | null): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction(`${action} comment`, this.getRowAction(id, action), String(id));
+
+      const before = await this.getRowStatus(id);
+      if (!before) {
+        throw new Error(`Comment ${id} is not in the list`);
+      }
+      await elementHelper.hoverElement(this.page, this.getCommentRow(id));
+      await elementHelper.clickElement(this.page, this.getRowAction(id, action));
+      await this.page.locator(`${this.getCommentRow(id)}.${STATUS_CLASSES[before]}:visible`)
+        .waitFor({ state: 'hidden', timeout: this.envManager.getActionTimeout() });
+      await this.page.waitForLoadState('load');
+
+      const after = await this.getRowStatus(id);
+      const success = after === null || after === expected;
+      SmartLogger.logUserAction(`${action} comment result`, this.getCommentRow(id), `${before} -> ${after ?? 'not listed'}`);
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Status of a visible row, from its class
+   * @private
+   */
+  private async getRowStatus(id: number): Promise<CommentListStatus | null> {
+    const row = this.page.locator(this.getCommentRow(id));
+    if (await row.count() === 0 || !await row.isVisible()) {
+      return null;
+    }
+    const classes = (await row.getAttribute('class') || '').split(/\s+/);
+    return (Object.keys(STATUS_CLASSES) as CommentListStatus[]).find(status => classes.includes(STATUS_CLASSES[status])) ?? null;
+  }
+
+  /**
+   * IDs of the comment rows on the current page
+   * @private
+   */
+  private async getListedIds(): Promise<number[]> {
+    return this.page.locator(`${this.listTableRows}[id^="comment-"]`).evaluateAll(rows =>
+      rows.map(row => Number(row.id.replace('comment-', ''))));
+  }
+
+  /**
+   * Open #replyrow under a comment with its Reply or Quick Edit button
+   * @private
+   */
+  private async openReplyRow(id: number, action: 'reply' | 'quickedit'): Promise<void> {
+    await elementHelper.hoverElement(this.page, this.getCommentRow(id));
+    await elementHelper.clickElement(this.page, this.getRowAction(id, action));
+    await elementHelper.waitForDisplayed(this.page, this.replyContentField, this.envManager.getTimeout());
+  }
+
+  /**
+   * Save #replyrow and wait for it to close (saved) or show an error (refused)
+   * @private
+   */
+  private async savingReplyRow(): Promise<boolean> {
+    await elementHelper.clickElement(this.page, this.replySubmitButton);
+    await this.page.waitForFunction(
+      ({ row, error }) => {
+        const replyRow = document.querySelector<HTMLElement>(row);
+        const notice = document.querySelector(error)?.closest('.notice-error');
+        return replyRow?.style.display === 'none' || (!!notice && !notice.classList.contains('hidden'));
+      },
+      { row: this.replyRow, error: this.replyError },
+      { timeout: this.envManager.getActionTimeout() }
+    );
+    const error = await this.getReplyError();
+    if (error) {
+      SmartLogger.log('WARN', `WordPress refused the comment: ${error}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Submit the list form (search, views, bulk actions) and wait for the reloaded list
+   * @private
+   */
+  private async submittingList(action: () => Promise<void>): Promise<void> {
+    const previousUrl = this.page.url();
+    await action();
+    await this.page.waitForURL(url => url.toString() !== previousUrl, { timeout: this.envManager.getNavigationTimeout() });
+    await this.waitForListTable();
+  }
+}
+
+export default CommentsPage;
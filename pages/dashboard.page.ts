@@ -290,6 +290,13 @@ class DashboardPage extends BasePage {
     await this.clickSidebarMenuItem(this.pagesMenuItem);
   }
 
+  /**
+   * Navigate to Users page via sidebar
+   */
+  async navigateToUsers(): Promise<void> {
+    await this.clickSidebarMenuItem(this.usersMenuItem);
+  }
+
   /**
    * Navigate to Settings page via sidebar
    */
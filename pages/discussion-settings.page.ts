@@ -0,0 +1,64 @@
+import { Page } from '@playwright/test';
+import { SettingsPage, SettingsField } from './settings.page';
+
+/**
+ * Discussion Settings (options-discussion.php)
+ */
+export interface DiscussionSettings {
+  /** "Allow people to submit comments on new posts" - existing posts keep their own setting */
+  allowComments: boolean;
+  requireNameEmail: boolean;
+  threadComments: boolean;
+  threadDepth: number;
+  /** "Comment must be manually approved" - every comment waits for moderation */
+  commentModeration: boolean;
+  /** "Comment author must have a previously approved comment" */
+  previouslyApproved: boolean;
+}
+
+/**
+ * WordPress Discussion Settings Page Object Model
+ * Handles options-discussion.php: comments on new posts, what commenters must provide, threading and moderation
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/options-discussion.php
+ * Moderators and a post's own author are never held for moderation, whatever these settings say.
+ */
+export class DiscussionSettingsPage extends SettingsPage<DiscussionSettings> {
+  constructor(page: Page) {
+    super(page);
+  }
+
+  get screenPath(): string {
+    return 'options-discussion.php';
+  }
+
+  protected get fields(): Record<keyof DiscussionSettings, SettingsField> {
+    return {
+      allowComments: { kind: 'checkbox', selector: '#default_comment_status' },
+      requireNameEmail: { kind: 'checkbox', selector: '#require_name_email' },
+      threadComments: { kind: 'checkbox', selector: '#thread_comments' },
+      threadDepth: { kind: 'select', selector: '#thread_comments_depth', numeric: true },
+      commentModeration: { kind: 'checkbox', selector: '#comment_moderation' },
+      previouslyApproved: { kind: 'checkbox', selector: '#comment_previously_approved' }
+    };
+  }
+
+  // ===== SETTINGS METHODS =====
+
+  /**
+   * Check if every comment must be manually approved
+   */
+  async isCommentModerationEnabled(): Promise<boolean> {
+    return this.getSetting('commentModeration');
+  }
+
+  /**
+   * Turn "Comment must be manually approved" on or off and save
+   */
+  async setCommentModeration(enabled: boolean): Promise<boolean> {
+    return this.setSetting('commentModeration', enabled);
+  }
+}
+
+export default DiscussionSettingsPage;
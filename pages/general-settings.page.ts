@@ -0,0 +1,106 @@
+import { Page } from '@playwright/test';
+import { SettingsPage, SettingsField } from './settings.page';
+
+/**
+ * General Settings (options-general.php)
+ */
+export interface GeneralSettings {
+  siteTitle: string;
+  tagline: string;
+  /** City (e.g. 'America/New_York') or manual offset (e.g. 'UTC+2') */
+  timezone: string;
+  /** PHP date format, e.g. 'F j, Y'; formats without a preset radio use the Custom field */
+  dateFormat: string;
+  timeFormat: string;
+  /** 0 = Sunday ... 6 = Saturday */
+  weekStartsOn: number;
+}
+
+/**
+ * WordPress General Settings Page Object Model
+ * Handles options-general.php: site title, tagline, timezone, date and time formats and the first day of the week
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/options-general.php
+ * The administration email is left alone - WordPress only switches it after the new address confirms by email.
+ */
+export class GeneralSettingsPage extends SettingsPage<GeneralSettings> {
+  constructor(page: Page) {
+    super(page);
+  }
+
+  get screenPath(): string {
+    return 'options-general.php';
+  }
+
+  protected get fields(): Record<keyof GeneralSettings, SettingsField> {
+    return {
+      siteTitle: { kind: 'text', selector: '#blogname' },
+      tagline: { kind: 'text', selector: '#blogdescription' },
+      timezone: { kind: 'select', selector: '#timezone_string' },
+      dateFormat: { kind: 'radio', selector: 'input[name="date_format"]', custom: { radio: '#date_format_custom_radio', input: '#date_format_custom' } },
+      timeFormat: { kind: 'radio', selector: 'input[name="time_format"]', custom: { radio: '#time_format_custom_radio', input: '#time_format_custom' } },
+      weekStartsOn: { kind: 'select', selector: '#start_of_week', numeric: true }
+    };
+  }
+
+  // ===== SETTINGS METHODS =====
+
+  /**
+   * Site Title of the open screen
+   */
+  async getSiteTitle(): Promise<string> {
+    return this.getSetting('siteTitle');
+  }
+
+  /**
+   * Change the Site Title and save
+   */
+  async setSiteTitle(title: string): Promise<boolean> {
+    return this.setSetting('siteTitle', title);
+  }
+
+  /**
+   * Tagline of the open screen
+   */
+  async getTagline(): Promise<string> {
+    return this.getSetting('tagline');
+  }
+
+  /**
+   * Change the Tagline and save
+   */
+  async setTagline(tagline: string): Promise<boolean> {
+    return this.setSetting('tagline', tagline);
+  }
+
+  /**
+   * Selected timezone
+   */
+  async getTimezone(): Promise<string> {
+    return this.getSetting('timezone');
+  }
+
+  /**
+   * Change the timezone and save
+   */
+  async setTimezone(timezone: string): Promise<boolean> {
+    return this.setSetting('timezone', timezone);
+  }
+
+  /**
+   * Date format, from the checked preset or the Custom field
+   */
+  async getDateFormat(): Promise<string> {
+    return this.getSetting('dateFormat');
+  }
+
+  /**
+   * Change the date format and save - a preset radio when one matches, Custom otherwise
+   */
+  async setDateFormat(format: string): Promise<boolean> {
+    return this.setSetting('dateFormat', format);
+  }
+}
+
+export default GeneralSettingsPage;
@@ -0,0 +1,473 @@
+import { Locator, Page } from '@playwright/test';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Column a list table is sorted by, as marked on its header (th.sorted.asc / th.sorted.desc)
+ */
+export interface ListTableSortState<TColumn extends string = string> {
+  column: TColumn;
+  order: SortOrder;
+}
+
+/**
+ * A list-table row as read from the DOM, before a screen turns it into its typed row
+ */
+export interface ListTableRawRow {
+  /** The row's id attribute, e.g. "post-12" or "tag-4" */
+  id: string;
+  classes: string[];
+  /** Value of the row checkbox; empty for rows that cannot be selected (the default category) */
+  checkbox: string;
+  /** Text of each cell keyed by column, without row actions and screen reader text - hidden columns included */
+  cells: Record<string, string>;
+  /** Link texts of each cell keyed by column, e.g. the category names of a post */
+  links: Record<string, string[]>;
+  /** WordPress' hidden inline data (get_inline_data(), or the #inline-N block of a comment row), keyed by field class */
+  inline: Record<string, string>;
+}
+
+/**
+ * WordPress List Table Page Object Model
+ * Shared base of the screens built on WP_List_Table (edit.php, edit-tags.php, users.php, edit-comments.php)
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Handles what every list table has: pagination (.tablenav-pages), sortable column headers and the
+ * Screen Options panel (column checkboxes and items per page, both saved per user). Screens turn raw
+ * rows into typed ones through toRow(); getAllRows() walks every page, so results do not depend on
+ * the items-per-page setting. Pagination is read from the top tablenav - core repeats it below the table.
+ */
+export abstract class ListTablePage<TRow, TColumn extends string = string> extends BasePage {
+  protected envManager = EnvironmentManager.getInstance();
+
+  constructor(page: Page, selector: string) {
+    super(page, selector);
+  }
+
+  /**
+   * Path of the list screen under wp-admin/, e.g. 'edit.php' or 'edit-tags.php?taxonomy=category'
+   */
+  abstract get listPath(): string;
+
+  /**
+   * Turn a raw row into the screen's typed row
+   */
+  protected abstract toRow(raw: ListTableRawRow): TRow;
+
+  // ===== SELECTORS =====
+
+  get listTable(): string {
+    return '#the-list';
+  }
+
+  get listTableRows(): string {
+    return '#the-list > tr';
+  }
+
+  /**
+   * Row with a cell whose whole text is `text` - matched as text, never built into a selector,
+   * so quotes and backslashes in titles and names are safe
+   */
+  getRowByCellText(cellSelector: string, text: string): Locator {
+    const exactText = new RegExp(`^\\s*${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+    return this.page.locator(this.listTableRows).filter({ has: this.page.locator(cellSelector, { hasText: exactText }) });
+  }
+
+  // Pagination
+  get paginationInfo(): string {
+    return '.tablenav.top .displaying-num'; // "1,234 items"
+  }
+
+  get paginationLinks(): string {
+    return '.tablenav.top .pagination-links a';
+  }
+
+  get firstPageLink(): string {
+    return '.tablenav.top a.first-page';
+  }
+
+  get prevPageLink(): string {
+    return '.tablenav.top a.prev-page';
+  }
+
+  get nextPageLink(): string {
+    return '.tablenav.top a.next-page';
+  }
+
+  get currentPageField(): string {
+    return '#current-page-selector';
+  }
+
+  get totalPages(): string {
+    return '.tablenav.top .total-pages';
+  }
+
+  // Sorting
+  getColumnHeader(column: TColumn): string {
+    return `.wp-list-table thead th#${column}`;
+  }
+
+  getSortLink(column: TColumn): string {
+    return `${this.getColumnHeader(column)} a`;
+  }
+
+  get sortedColumnHeader(): string {
+    return '.wp-list-table thead th.sorted';
+  }
+
+  // Screen Options
+  get screenOptionsButton(): string {
+    return '#show-settings-link';
+  }
+
+  get screenOptionsPanel(): string {
+    return '#screen-options-wrap';
+  }
+
+  getColumnToggle(column: TColumn): string {
+    return `#screen-options-wrap #${column}-hide`;
+  }
+
+  get itemsPerPageField(): string {
+    return '#screen-options-wrap .screen-per-page';
+  }
+
+  get screenOptionsApplyButton(): string {
+    return '#screen-options-apply';
+  }
+
+  // ===== ROW METHODS =====
+
+  /**
+   * Typed rows of the current page
+   */
+  async getRows(): Promise<TRow[]> {
+    try {
+      const rows = (await this.readRawRows()).map(raw => this.toRow(raw));
+      SmartLogger.logUserAction('read list table rows', this.listTableRows, String(rows.length));
+      return rows;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return [];
+    }
+  }
+
+  /**
+   * Typed rows of every page, from the first one on, keeping the current view, search and sort order.
+   * Leaves the list on its last page.
+   */
+  async getAllRows(): Promise<TRow[]> {
+    try {
+      await this.goToPage(1);
+      const pageCount = await this.getPageCount();
+      const rows = (await this.readRawRows()).map(raw => this.toRow(raw));
+
+      // Bounded by the page count read up front, in case rows are added while walking
+      for (let visited = 1; visited < pageCount && await this.page.locator(this.nextPageLink).count() > 0; visited++) {
+        await this.reloadingList(() => elementHelper.clickElement(this.page, this.nextPageLink));
+        rows.push(...(await this.readRawRows()).map(raw => this.toRow(raw)));
+      }
+
+      SmartLogger.logUserAction('read all list table rows', this.listTableRows, `${rows.length} rows on ${pageCount} pages`);
+      return rows;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== PAGINATION METHODS =====
+
+  /**
+   * Number of items across all pages, from "N items" above the table
+   */
+  async getTotalItems(): Promise<number> {
+    try {
+      const text = await this.page.locator(this.paginationInfo).textContent() || '';
+      const total = Number(text.replace(/\D/g, '')) || 0;
+      SmartLogger.logUserAction('retrieved total items', this.paginationInfo, String(total));
+      return total;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return 0;
+    }
+  }
+
+  /**
+   * Number of pages; 1 when everything fits on one page
+   */
+  async getPageCount(): Promise<number> {
+    try {
+      const total = this.page.locator(this.totalPages);
+      const count = await total.count() > 0 ? Number(await total.textContent()) || 1 : 1;
+      SmartLogger.logUserAction('retrieved page count', this.totalPages, String(count));
+      return count;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return 1;
+    }
+  }
+
+  /**
+   * Number of the page shown
+   */
+  async getCurrentPageNumber(): Promise<number> {
+    try {
+      const field = this.page.locator(this.currentPageField);
+      const current = await field.count() > 0 ? Number(await field.inputValue()) || 1 : 1;
+      SmartLogger.logUserAction('retrieved current page', this.currentPageField, String(current));
+      return current;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return 1;
+    }
+  }
+
+  /**
+   * Open a page of the list, keeping the current view, search and sort order
+   * @param pageNumber - 1-based; WordPress shows the last page for numbers past the end
+   */
+  async goToPage(pageNumber: number): Promise<void> {
+    try {
+      const url = new URL(this.page.url());
+      if (pageNumber > 1) {
+        url.searchParams.set('paged', String(pageNumber));
+      } else {
+        url.searchParams.delete('paged');
+      }
+      await this.page.goto(url.toString());
+      await this.waitForListTable();
+      SmartLogger.logUserAction('opened list page', this.listPath, String(pageNumber));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Go to the next page with the "›" link
+   * @returns Promise<boolean> - False on the last page
+   */
+  async goToNextPage(): Promise<boolean> {
+    try {
+      if (await this.page.locator(this.nextPageLink).count() === 0) {
+        SmartLogger.logUserAction('no next page', this.nextPageLink);
+        return false;
+      }
+      await this.reloadingList(() => elementHelper.clickElement(this.page, this.nextPageLink));
+      SmartLogger.logUserAction('went to next page', this.nextPageLink);
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  // ===== SORTING METHODS =====
+
+  /**
+   * Sort the list by a column through its header link, which flips the order when the column is already sorted
+   * @param column - Column id, e.g. 'title' or 'date'
+   * @param order - Wanted order
+   */
+  async sortBy(column: TColumn, order: SortOrder): Promise<void> {
+    try {
+      // An unsorted column opens in its own first order (titles A-Z, dates newest first), so it may take two clicks
+      for (let clicks = 0; clicks < 2; clicks++) {
+        const state = await this.getSortState();
+        if (state?.column === column && state.order === order) {
+          break;
+        }
+        await this.reloadingList(() => elementHelper.clickElement(this.page, this.getSortLink(column)));
+      }
+
+      const state = await this.getSortState();
+      if (state?.column !== column || state.order !== order) {
+        throw new Error(`List is sorted by ${state ? `${state.column} ${state.order}` : 'nothing'} instead of ${column} ${order}`);
+      }
+      SmartLogger.logUserAction('sorted list', this.getSortLink(column), `${column} ${order}`);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Column the list is sorted by, or null when no header is marked sorted (e.g. the terms hierarchy)
+   */
+  async getSortState(): Promise<ListTableSortState<TColumn> | null> {
+    try {
+      const header = this.page.locator(this.sortedColumnHeader).first();
+      if (await header.count() === 0) {
+        return null;
+      }
+      const [id, classes] = await Promise.all([header.getAttribute('id'), header.getAttribute('class')]);
+      const state = { column: id as TColumn, order: (classes || '').split(/\s+/).includes('asc') ? 'asc' : 'desc' } as const;
+      SmartLogger.logUserAction('retrieved sort state', this.sortedColumnHeader, `${state.column} ${state.order}`);
+      return state;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return null;
+    }
+  }
+
+  // ===== SCREEN OPTIONS METHODS =====
+
+  /**
+   * Open the Screen Options panel if it is closed
+   */
+  async openScreenOptions(): Promise<void> {
+    try {
+      if (!await this.page.locator(this.screenOptionsPanel).isVisible()) {
+        await elementHelper.clickElement(this.page, this.screenOptionsButton);
+        await elementHelper.waitForDisplayed(this.page, this.screenOptionsPanel, this.envManager.getTimeout());
+      }
+      SmartLogger.logUserAction('opened screen options', this.screenOptionsButton);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Show or hide a column with its Screen Options checkbox; WordPress saves the choice for the user over admin-ajax
+   * @returns Promise<boolean> - True if the column header ends up in the wanted state
+   */
+  async setColumnVisible(column: TColumn, visible: boolean): Promise<boolean> {
+    try {
+      await this.openScreenOptions();
+      const toggle = this.getColumnToggle(column);
+      if (await elementHelper.isElementChecked(this.page, toggle) !== visible) {
+        const saved = this.page.waitForResponse(
+          response => response.url().includes('admin-ajax.php') && (response.request().postData() || '').includes('action=hidden-columns'),
+          { timeout: this.envManager.getActionTimeout() }
+        );
+        await elementHelper.toggleCheckbox(this.page, toggle);
+        await saved;
+      }
+
+      const success = await this.isColumnVisible(column) === visible;
+      SmartLogger.logUserAction('set column visibility', toggle, `${column}: ${visible} (${success ? 'applied' : 'not applied'})`);
+      return success;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a column is shown - hidden columns stay in the DOM with the `hidden` class
+   */
+  async isColumnVisible(column: TColumn): Promise<boolean> {
+    try {
+      const visible = await this.page.locator(this.getColumnHeader(column)).isVisible();
+      SmartLogger.logUserAction('checked column visibility', this.getColumnHeader(column), `${column}: ${visible}`);
+      return visible;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Change "Number of items per page" and apply it; the screen reloads from its first page
+   * @returns Promise<boolean> - True if the saved setting matches
+   */
+  async setItemsPerPage(count: number): Promise<boolean> {
+    try {
+      await this.openScreenOptions();
+      await elementHelper.clearAndEnterValue(this.page, this.itemsPerPageField, String(count));
+      // The form posts back to the same screen and redirects to it, so wait for the load rather than a new URL
+      const loaded = this.page.waitForEvent('load', { timeout: this.envManager.getNavigationTimeout() });
+      await elementHelper.clickElement(this.page, this.screenOptionsApplyButton);
+      await loaded;
+      await this.waitForListTable();
+
+      const success = await this.getItemsPerPage() === count;
+      SmartLogger.logUserAction('set items per page', this.itemsPerPageField, `${count} (${success ? 'saved' : 'not saved'})`);
+      return success;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Saved "Number of items per page"
+   */
+  async getItemsPerPage(): Promise<number> {
+    try {
+      const perPage = Number(await this.page.locator(this.itemsPerPageField).inputValue());
+      SmartLogger.logUserAction('retrieved items per page', this.itemsPerPageField, String(perPage));
+      return perPage;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return 0;
+    }
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * Wait for the list table body after a (re)load
+   */
+  protected async waitForListTable(): Promise<void> {
+    await elementHelper.waitForDisplayed(this.page, this.listTable, this.envManager.getTimeout());
+  }
+
+  /**
+   * Run an action that loads another page or order of the list and wait for it
+   * @private
+   */
+  private async reloadingList(action: () => Promise<void>): Promise<void> {
+    const previousUrl = this.page.url();
+    await action();
+    await this.page.waitForURL(url => url.toString() !== previousUrl, { timeout: this.envManager.getNavigationTimeout() });
+    await this.waitForListTable();
+  }
+
+  /**
+   * Read the rows of the current page in one pass; the "No items found" row and open inline edit rows are skipped
+   * @private
+   */
+  private async readRawRows(): Promise<ListTableRawRow[]> {
+    return this.page.locator(this.listTableRows).evaluateAll(rows => rows
+      .filter(row => row.querySelector(':scope > .check-column'))
+      .map(row => {
+        const cells: Record<string, string> = {};
+        const links: Record<string, string[]> = {};
+        row.querySelectorAll(':scope > td, :scope > th').forEach(cell => {
+          const column = Array.from(cell.classList).find(name => name.startsWith('column-') && name !== 'column-primary');
+          if (!column) {
+            return;
+          }
+          const key = column.slice('column-'.length);
+          const copy = cell.cloneNode(true) as HTMLElement;
+          copy.querySelectorAll('.row-actions, .hidden, .screen-reader-text').forEach(node => node.remove());
+          copy.querySelectorAll('br').forEach(node => node.replaceWith(' '));
+          cells[key] = (copy.textContent || '').replace(/\s+/g, ' ').trim();
+          links[key] = Array.from(copy.querySelectorAll('a')).map(link => (link.textContent || '').trim()).filter(Boolean);
+        });
+
+        const inline: Record<string, string> = {};
+        row.querySelectorAll('[id^="inline_"] > div, [id^="inline-"] > div, [id^="inline-"] > textarea').forEach(field => {
+          inline[field.className] = field.textContent || '';
+        });
+
+        return {
+          id: row.id,
+          classes: Array.from(row.classList),
+          checkbox: (row.querySelector('.check-column input[type="checkbox"]') as HTMLInputElement | null)?.value || '',
+          cells,
+          links,
+          inline
+        };
+      }));
+  }
+}
+
+export default ListTablePage;
@@ -2,8 +2,11 @@ import { Page } from '@playwright/test';
 
 import { BasePage } from './base.page';
 import elementHelper from '../utils/element.helper';
+import { EnvironmentManager } from '../utils/environment.utils';
 /* /wp-login.php */
 class LoginPage extends BasePage {
+  private envManager = EnvironmentManager.getInstance();
+
   constructor(page: Page) {
     const element = '#loginform';
     super(page, element);
@@ -29,6 +32,15 @@ class LoginPage extends BasePage {
     return element;
   }
 
+  /**
+   * Navigate to the WordPress login screen.
+   * Prefers STAGING_LOGIN_URL (which may carry ?skip_sso) and falls back to wp-login.php on the base URL.
+   */
+  async navigateToLoginPage(): Promise<void> {
+    await this.page.goto(this.envManager.getLoginUrl());
+    await this.page.waitForLoadState('domcontentloaded');
+  }
+
   async clickLoginWithUsername(): Promise<void> {
     try {
       // Try multiple approaches to find and click the login with username button
@@ -0,0 +1,577 @@
+import { Dialog, Page } from '@playwright/test';
+import path from 'path';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+import { TestDataRegistry } from '../utils/test-data-registry.utils';
+
+/** upload.php layouts - the Backbone grid and the classic list table */
+export type MediaLibraryMode = 'grid' | 'list';
+
+/** Type filter labels; grid and list mode share them but not the option values */
+export type MediaTypeFilter =
+  | 'All media items'
+  | 'Images'
+  | 'Audio'
+  | 'Video'
+  | 'Documents'
+  | 'Spreadsheets'
+  | 'Archives'
+  | 'Unattached'
+  | 'Mine';
+
+/**
+ * Editable fields of the attachment details modal
+ */
+export interface AttachmentDetails {
+  title: string;
+  altText: string;
+  caption: string;
+  description: string;
+}
+
+/**
+ * WordPress Media Library Page Object Model
+ * Handles all interactions with the media library (upload.php) in grid and list mode
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Uploads go through the grid's inline uploader; attachment details are edited in the modal that
+ * upload.php?item=<id> opens. Attachments are addressed by ID - titles come from file names and repeat.
+ */
+export class MediaLibraryPage extends BasePage {
+  private envManager = EnvironmentManager.getInstance();
+  private dataRegistry = TestDataRegistry.getInstance();
+
+  constructor(page: Page) {
+    super(page, '.wrap h1'); // Media Library page has main heading as identifier
+  }
+
+  // ===== SELECTORS (Based on WordPress standard structure) =====
+
+  // Page structure elements
+  get pageTitle(): string {
+    return '.wrap h1'; // "Media Library" page title
+  }
+
+  get gridModeButton(): string {
+    return '.view-switch .view-grid';
+  }
+
+  get listModeButton(): string {
+    return '.view-switch .view-list';
+  }
+
+  get currentModeButton(): string {
+    return '.view-switch .current';
+  }
+
+  // Grid mode elements
+  get attachmentsBrowser(): string {
+    return '.attachments-browser';
+  }
+
+  get gridAttachments(): string {
+    return '.attachments-browser .attachments .attachment[data-id]';
+  }
+
+  get gridSpinner(): string {
+    return '.attachments-browser .media-toolbar .spinner.is-active';
+  }
+
+  get addNewButton(): string {
+    return '.wrap .page-title-action';
+  }
+
+  get fileInput(): string {
+    return '#wpbody input[type="file"]'; // plupload's hidden input behind "Select Files"
+  }
+
+  get uploadingAttachment(): string {
+    return '.attachments .attachment.uploading';
+  }
+
+  get uploadErrors(): string {
+    return '.upload-errors .upload-error';
+  }
+
+  get uploadErrorMessage(): string {
+    return '.upload-errors .upload-error-message';
+  }
+
+  get gridTypeFilter(): string {
+    return '#media-attachment-filters';
+  }
+
+  get gridDateFilter(): string {
+    return '#media-attachment-date-filters';
+  }
+
+  // List mode elements
+  get listTableRows(): string {
+    return '#the-list tr[id^="post-"]';
+  }
+
+  get listTypeFilter(): string {
+    return '#attachment-filter';
+  }
+
+  get listDateFilter(): string {
+    return '#filter-by-date';
+  }
+
+  get listFilterButton(): string {
+    return '#post-query-submit';
+  }
+
+  get listSearchButton(): string {
+    return '#search-submit';
+  }
+
+  // Shared elements
+  get searchBox(): string {
+    return '#media-search-input';
+  }
+
+  // Attachment details modal elements
+  get detailsModal(): string {
+    return '.media-modal .attachment-details';
+  }
+
+  get detailsTitleField(): string {
+    return '#attachment-details-two-column-title';
+  }
+
+  get detailsAltTextField(): string {
+    return '#attachment-details-two-column-alt-text';
+  }
+
+  get detailsCaptionField(): string {
+    return '#attachment-details-two-column-caption';
+  }
+
+  get detailsDescriptionField(): string {
+    return '#attachment-details-two-column-description';
+  }
+
+  get detailsSaveComplete(): string {
+    return '.media-modal .attachment-details.save-complete';
+  }
+
+  get detailsDeleteButton(): string {
+    return '.media-modal .attachment-details .delete-attachment';
+  }
+
+  get modalCloseButton(): string {
+    return '.media-modal .media-modal-close';
+  }
+
+  // Individual attachment selectors (dynamic)
+  getGridAttachment(id: number): string {
+    return `.attachments-browser .attachments .attachment[data-id="${id}"]`;
+  }
+
+  getListRow(id: number): string {
+    return `#the-list tr#post-${id}`;
+  }
+
+  getListDeleteLink(id: number): string {
+    return `${this.getListRow(id)} .row-actions .delete a`;
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Navigate to the media library in the given mode (WordPress remembers the last mode per user)
+   */
+  async navigate(mode: MediaLibraryMode = 'grid'): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/upload.php?mode=${mode}`);
+      await this.waitForLoad();
+      SmartLogger.logUserAction('navigated to media library', 'upload.php', mode);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for the media library to load - the grid renders its attachments browser after page load
+   */
+  async waitForLoad(): Promise<void> {
+    try {
+      await elementHelper.waitForDisplayed(this.page, this.pageTitle, this.envManager.getTimeout());
+      const mode = await this.getCurrentMode();
+      const content = mode === 'grid' ? this.attachmentsBrowser : '#the-list';
+      await elementHelper.waitForDisplayed(this.page, content, this.envManager.getTimeout());
+      await this.waitForGridIdle();
+      SmartLogger.logUserAction('waited for media library to load', content, mode);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if media library is loaded
+   */
+  async isMediaLibraryLoaded(): Promise<boolean> {
+    try {
+      const titleExists = await elementHelper.isElementDisplayed(this.page.locator(this.pageTitle));
+      const modeSwitchExists = await elementHelper.isElementDisplayed(this.page.locator(this.currentModeButton));
+      const isLoaded = titleExists && modeSwitchExists;
+      SmartLogger.logUserAction('verified media library loaded', this.pageTitle, isLoaded.toString());
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Get the active mode from the view switch
+   */
+  async getCurrentMode(): Promise<MediaLibraryMode> {
+    const className = await this.page.locator(this.currentModeButton).getAttribute('class') || '';
+    return className.includes('view-list') ? 'list' : 'grid';
+  }
+
+  /**
+   * Switch between grid and list mode through the view switch
+   */
+  async switchToMode(mode: MediaLibraryMode): Promise<void> {
+    try {
+      if (await this.getCurrentMode() === mode) {
+        return;
+      }
+      await elementHelper.clickElement(this.page, mode === 'grid' ? this.gridModeButton : this.listModeButton);
+      await this.page.waitForLoadState('domcontentloaded');
+      await this.waitForLoad();
+      SmartLogger.logUserAction('switched media library mode', this.currentModeButton, mode);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== UPLOAD METHODS =====
+
+  /**
+   * Upload a file through the grid's inline uploader and wait for WordPress to process it
+   * @param filePath - File to upload, e.g. from mediaTestData.uniqueFile()
+   * @returns Promise<number | null> - ID of the new attachment, or null if the upload failed
+   */
+  async uploadFile(filePath: string): Promise<number | null> {
+    try {
+      SmartLogger.logUserAction('uploading media file', this.fileInput, path.basename(filePath));
+      await this.switchToMode('grid');
+
+      const existingIds = new Set(await this.getVisibleAttachmentIds());
+
+      // "Add New Media File" reveals the inline uploader; its file input is already attached
+      await elementHelper.clickElement(this.page, this.addNewButton);
+      await elementHelper.uploadFile(this.page, this.fileInput, filePath);
+
+      if (!await this.waitForUploadsToFinish()) {
+        SmartLogger.logUserAction('media upload failed', this.uploadErrorMessage, await this.getUploadErrorText());
+        return null;
+      }
+
+      const newIds = (await this.getVisibleAttachmentIds()).filter(id => !existingIds.has(id));
+      const attachmentId = newIds[0] ?? null;
+      SmartLogger.logUserAction('media upload result', 'attachment id', String(attachmentId));
+      if (attachmentId !== null) {
+        // WordPress titles attachments after the file name
+        this.dataRegistry.register('media', path.parse(filePath).name, 'ui', attachmentId);
+      }
+      return attachmentId;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return null;
+    }
+  }
+
+  /**
+   * Wait until no attachment is still uploading or being processed (thumbnails, metadata)
+   * @returns Promise<boolean> - True if every upload finished without an error
+   */
+  async waitForUploadsToFinish(timeout: number = 60000): Promise<boolean> {
+    try {
+      // The placeholder appears as soon as plupload queues the file, unless it is rejected up front
+      await elementHelper.waitForDisplayed(this.page, this.page.locator(`${this.uploadingAttachment}, ${this.uploadErrors}`).first(), this.envManager.getActionTimeout());
+      await elementHelper.waitForElementRemoved(this.page, this.uploadingAttachment, timeout);
+
+      const failed = await this.page.locator(this.uploadErrors).count() > 0;
+      SmartLogger.logUserAction('waited for uploads to finish', this.uploadingAttachment, failed ? 'failed' : 'done');
+      return !failed;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Get the upload error shown by the uploader, e.g. "Sorry, you are not allowed to upload this file type."
+   */
+  async getUploadErrorText(): Promise<string> {
+    try {
+      const errorText = await this.page.locator(this.uploadErrorMessage).allTextContents();
+      return errorText.map(text => text.trim()).join(' ');
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  // ===== ATTACHMENT DETAILS METHODS =====
+
+  /**
+   * Open the attachment details modal for an attachment - only the grid routes ?item=<id>, so this switches to grid mode
+   */
+  async openAttachmentDetails(id: number): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/upload.php?mode=grid&item=${id}`);
+      await elementHelper.waitForDisplayed(this.page, this.detailsModal, this.envManager.getTimeout());
+      SmartLogger.logUserAction('opened attachment details', this.detailsModal, String(id));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Close the attachment details modal
+   */
+  async closeAttachmentDetails(): Promise<void> {
+    try {
+      await elementHelper.clickElement(this.page, this.modalCloseButton);
+      await elementHelper.waitForElementRemoved(this.page, this.detailsModal, this.envManager.getActionTimeout());
+      SmartLogger.logUserAction('closed attachment details', this.modalCloseButton);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit title, alt text, caption and/or description in the attachment details modal.
+   * Each field saves over admin-ajax when it loses focus.
+   * @returns Promise<boolean> - True if WordPress confirmed every save
+   */
+  async updateAttachmentDetails(id: number, details: Partial<AttachmentDetails>): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('updating attachment details', this.detailsModal, String(id));
+      await this.openAttachmentDetails(id);
+
+      const fields: Array<[string, string | undefined]> = [
+        [this.detailsTitleField, details.title],
+        [this.detailsAltTextField, details.altText],
+        [this.detailsCaptionField, details.caption],
+        [this.detailsDescriptionField, details.description]
+      ];
+
+      for (const [field, value] of fields) {
+        if (value === undefined) {
+          continue;
+        }
+        await elementHelper.clearAndEnterValue(this.page, field, value);
+        await elementHelper.blurElement(this.page, field);
+        if (!await elementHelper.waitForDisplayed(this.page, this.detailsSaveComplete, this.envManager.getActionTimeout())) {
+          SmartLogger.logUserAction('attachment field was not saved', field, value);
+          return false;
+        }
+        SmartLogger.logUserAction('saved attachment field', field, value);
+      }
+
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Read the editable fields of an attachment from the details modal
+   */
+  async getAttachmentDetails(id: number): Promise<AttachmentDetails> {
+    try {
+      await this.openAttachmentDetails(id);
+      const details = {
+        title: await elementHelper.getInputValue(this.page, this.detailsTitleField),
+        altText: await elementHelper.getInputValue(this.page, this.detailsAltTextField),
+        caption: await elementHelper.getInputValue(this.page, this.detailsCaptionField),
+        description: await elementHelper.getInputValue(this.page, this.detailsDescriptionField)
+      };
+      SmartLogger.logUserAction('retrieved attachment details', this.detailsModal, JSON.stringify(details));
+      return details;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return { title: '', altText: '', caption: '', description: '' };
+    }
+  }
+
+  // ===== SEARCH & FILTER METHODS =====
+
+  /**
+   * Search the library - the grid searches as you type, the list table submits the form
+   */
+  async searchMedia(searchTerm: string): Promise<void> {
+    try {
+      SmartLogger.logUserAction('searching media', this.searchBox, searchTerm);
+      await elementHelper.clearAndEnterValue(this.page, this.searchBox, searchTerm);
+
+      if (await this.getCurrentMode() === 'list') {
+        await elementHelper.clickElement(this.page, this.listSearchButton);
+        await this.page.waitForLoadState('domcontentloaded');
+      }
+      await this.waitForLoad();
+
+      SmartLogger.logUserAction('completed media search', this.searchBox, searchTerm);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Filter the library by attachment type
+   */
+  async filterByType(type: MediaTypeFilter): Promise<void> {
+    await this.applyFilter(this.gridTypeFilter, this.listTypeFilter, type);
+  }
+
+  /**
+   * Filter the library by upload month
+   * @param month - Label as WordPress shows it, e.g. "October 2026", or "All dates"
+   */
+  async filterByDate(month: string): Promise<void> {
+    await this.applyFilter(this.gridDateFilter, this.listDateFilter, month);
+  }
+
+  // ===== ATTACHMENT QUERY METHODS =====
+
+  /**
+   * IDs of the attachments currently shown, in display order
+   */
+  async getVisibleAttachmentIds(): Promise<number[]> {
+    try {
+      const ids = await this.getCurrentMode() === 'grid'
+        ? await this.page.locator(this.gridAttachments).evaluateAll(items => items.map(item => item.getAttribute('data-id') || ''))
+        : await this.page.locator(this.listTableRows).evaluateAll(rows => rows.map(row => row.id.replace('post-', '')));
+      return ids.map(Number).filter(id => id > 0);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return [];
+    }
+  }
+
+  /**
+   * Number of attachments currently shown
+   */
+  async getAttachmentCount(): Promise<number> {
+    const count = (await this.getVisibleAttachmentIds()).length;
+    SmartLogger.logUserAction('retrieved attachment count', 'media library', count.toString());
+    return count;
+  }
+
+  /**
+   * Check if an attachment is currently shown
+   */
+  async attachmentExists(id: number): Promise<boolean> {
+    const exists = (await this.getVisibleAttachmentIds()).includes(id);
+    SmartLogger.logUserAction('checked attachment exists', 'media library', `${id}: ${exists}`);
+    return exists;
+  }
+
+  // ===== DELETE METHODS =====
+
+  /**
+   * Delete an attachment permanently - media has no trash unless MEDIA_TRASH is enabled.
+   * Uses the details modal in grid mode and the row action in list mode.
+   * @returns Promise<boolean> - True if the attachment is gone from the library
+   */
+  async deleteAttachmentPermanently(id: number): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('deleting attachment permanently', 'media library', String(id));
+      const mode = await this.getCurrentMode();
+
+      let removed: boolean;
+      if (mode === 'grid') {
+        await this.openAttachmentDetails(id);
+        await this.acceptingConfirmation(async () => {
+          await elementHelper.clickElement(this.page, this.detailsDeleteButton);
+          SmartLogger.logUserAction('clicked delete permanently', this.detailsDeleteButton, String(id));
+          await elementHelper.waitForElementRemoved(this.page, this.detailsModal, this.envManager.getActionTimeout());
+        });
+        removed = await elementHelper.waitForElementRemoved(this.page, this.getGridAttachment(id), this.envManager.getActionTimeout());
+      } else {
+        await elementHelper.hoverElement(this.page, this.getListRow(id));
+        await this.acceptingConfirmation(async () => {
+          await elementHelper.clickElement(this.page, this.getListDeleteLink(id));
+          SmartLogger.logUserAction('clicked delete permanently', this.getListDeleteLink(id), String(id));
+          await this.page.waitForLoadState('domcontentloaded');
+        });
+        await this.waitForLoad();
+        removed = !await this.attachmentExists(id);
+      }
+
+      SmartLogger.logUserAction('attachment deletion result', 'success', removed.toString());
+      if (removed) {
+        this.dataRegistry.markDeleted('media', id);
+      }
+      return removed;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * Select a filter option by label; the grid refreshes by itself, the list table needs "Filter"
+   * @private
+   */
+  private async applyFilter(gridSelect: string, listSelect: string, label: string): Promise<void> {
+    try {
+      if (await this.getCurrentMode() === 'grid') {
+        await elementHelper.selectOptionValue(this.page, gridSelect, label);
+      } else {
+        await elementHelper.selectOptionValue(this.page, listSelect, label);
+        await elementHelper.clickElement(this.page, this.listFilterButton);
+        await this.page.waitForLoadState('domcontentloaded');
+      }
+      await this.waitForLoad();
+      SmartLogger.logUserAction('filtered media library', gridSelect, label);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * The grid queries attachments over admin-ajax after load, search and filter changes
+   * @private
+   */
+  private async waitForGridIdle(): Promise<void> {
+    await elementHelper.waitForElementRemoved(this.page, this.gridSpinner, this.envManager.getActionTimeout());
+  }
+
+  /**
+   * Core asks "You are about to permanently delete..." before deleting attachments; accept it for this action only
+   * @private
+   */
+  private async acceptingConfirmation(action: () => Promise<void>): Promise<void> {
+    const accept = (dialog: Dialog) => dialog.accept();
+    this.page.on('dialog', accept);
+    try {
+      await action();
+    } finally {
+      this.page.off('dialog', accept);
+    }
+  }
+}
+
+export default MediaLibraryPage;
@@ -0,0 +1,50 @@
+import { Page } from '@playwright/test';
+import { SettingsPage, SettingsField } from './settings.page';
+
+/**
+ * Media Settings (options-media.php) - image sizes in pixels
+ */
+export interface MediaSettings {
+  thumbnailWidth: number;
+  thumbnailHeight: number;
+  cropThumbnails: boolean;
+  mediumWidth: number;
+  mediumHeight: number;
+  largeWidth: number;
+  largeHeight: number;
+  /** "Organize my uploads into month- and year-based folders" */
+  yearMonthFolders: boolean;
+}
+
+/**
+ * WordPress Media Settings Page Object Model
+ * Handles options-media.php: image sizes and the uploads folder layout
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/options-media.php
+ * New sizes only apply to images uploaded afterwards.
+ */
+export class MediaSettingsPage extends SettingsPage<MediaSettings> {
+  constructor(page: Page) {
+    super(page);
+  }
+
+  get screenPath(): string {
+    return 'options-media.php';
+  }
+
+  protected get fields(): Record<keyof MediaSettings, SettingsField> {
+    return {
+      thumbnailWidth: { kind: 'number', selector: '#thumbnail_size_w' },
+      thumbnailHeight: { kind: 'number', selector: '#thumbnail_size_h' },
+      cropThumbnails: { kind: 'checkbox', selector: '#thumbnail_crop' },
+      mediumWidth: { kind: 'number', selector: '#medium_size_w' },
+      mediumHeight: { kind: 'number', selector: '#medium_size_h' },
+      largeWidth: { kind: 'number', selector: '#large_size_w' },
+      largeHeight: { kind: 'number', selector: '#large_size_h' },
+      yearMonthFolders: { kind: 'checkbox', selector: '#uploads_use_yearmonth_folders' }
+    };
+  }
+}
+
+export default MediaSettingsPage;
@@ -0,0 +1,692 @@
+import { Dialog, Page } from '@playwright/test';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+import { TestDataRegistry } from '../utils/test-data-registry.utils';
+
+/**
+ * Slug of a theme location a menu can be displayed in ("Display location" on nav-menus.php).
+ * Locations are registered by the active theme - read them with api.listMenuLocations().
+ */
+export type MenuLocation = string;
+
+/**
+ * Where a dragged item lands relative to another item:
+ * - before / after: above or below it at the same level (after its sub-items, if it has any)
+ * - under: as its first sub-item
+ */
+export type MenuItemPlacement = 'before' | 'after' | 'under';
+
+/**
+ * An item of the menu structure as the edit screen shows it
+ */
+export interface MenuStructureItem {
+  id: number;
+  /** Navigation label */
+  title: string;
+  /** Type as shown, e.g. "Page", "Post", "Category", "Custom Link" */
+  type: string;
+  /** 0 for top-level items, 1 for their sub-items, ... */
+  depth: number;
+  /** ID of the item it is nested under, 0 at the top level */
+  parentId: number;
+}
+
+/**
+ * An item of a menu as the theme renders it on the front end
+ */
+export interface RenderedMenuItem {
+  title: string;
+  url: string;
+  children: RenderedMenuItem[];
+}
+
+/** Indentation of one menu level on nav-menus.php, in pixels */
+const MENU_INDENT = 30;
+
+/**
+ * "Add menu items" sections: accordion section, checklist panel, "Add to Menu" button and, where the default tab
+ * does not list everything, the "View All" tab
+ */
+const ITEM_SECTIONS: Record<'page' | 'post' | 'category', { section: string; panel: string; submit: string; viewAll?: string }> = {
+  page: { section: '#add-post-type-page', panel: '#posttype-page .tabs-panel-active', submit: '#submit-posttype-page' },
+  post: { section: '#add-post-type-post', panel: '#posttype-post .tabs-panel-active', submit: '#submit-posttype-post' },
+  // Categories open on "Most Used", which leaves out unused ones
+  category: {
+    section: '#add-category',
+    panel: '#taxonomy-category .tabs-panel-active',
+    submit: '#submit-taxonomy-category',
+    viewAll: '#taxonomy-category-tabs a[data-type="tabs-panel-category-all"]'
+  }
+};
+
+/**
+ * WordPress Menus Page Object Model
+ * Handles Appearance > Menus (nav-menus.php): creating and deleting menus, adding pages, posts, categories and
+ * custom links, arranging items and assigning the menu to theme locations - plus reading the rendered menu on the front end
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/nav-menus.php
+ * The screen edits one menu at a time. "Add to Menu" adds items straight away, but additions, removals, the order
+ * and nesting of items (set by dragging, one level per 30px of indentation) and display locations are only stored
+ * by Save Menu. Items are addressed by navigation label.
+ */
+export class MenusPage extends BasePage {
+  private envManager = EnvironmentManager.getInstance();
+  private dataRegistry = TestDataRegistry.getInstance();
+
+  constructor(page: Page) {
+    super(page, '#menu-management'); // Menu edit form as identifier
+  }
+
+  // ===== SELECTORS (Based on live site inspection) =====
+
+  get pageTitle(): string {
+    return '.wrap h1';
+  }
+
+  get menuSelect(): string {
+    return '#select-menu-to-edit';
+  }
+
+  get selectMenuButton(): string {
+    return '.manage-menus input[type="submit"]';
+  }
+
+  get menuNameField(): string {
+    return '#menu-name';
+  }
+
+  get menuIdField(): string {
+    return '#update-nav-menu input#menu';
+  }
+
+  // Create Menu on a new menu, Save Menu otherwise
+  get saveMenuButton(): string {
+    return '#save_menu_header';
+  }
+
+  get deleteMenuLink(): string {
+    return '#nav-menu-footer .menu-delete';
+  }
+
+  get locationCheckboxes(): string {
+    return '.menu-theme-locations input[type="checkbox"]';
+  }
+
+  getLocationCheckbox(location: MenuLocation): string {
+    return `#locations-${location}`;
+  }
+
+  // Front end - core's nav menu walker gives every rendered item this id, whatever the theme
+  getRenderedMenuItem(itemId: number): string {
+    return `li#menu-item-${itemId}`;
+  }
+
+  // Menu structure
+  get menuItems(): string {
+    return '#menu-to-edit > li.menu-item';
+  }
+
+  get menuStructure(): string {
+    return '#menu-to-edit';
+  }
+
+  getMenuItem(id: number): string {
+    return `#menu-to-edit > li#menu-item-${id}`;
+  }
+
+  // Custom Links section
+  get customLinksSection(): string {
+    return '#add-custom-links';
+  }
+
+  get customLinkUrlField(): string {
+    return '#custom-menu-item-url';
+  }
+
+  get customLinkTextField(): string {
+    return '#custom-menu-item-name';
+  }
+
+  get addCustomLinkButton(): string {
+    return '#submit-customlinkdiv';
+  }
+
+  // Messages
+  get successNotice(): string {
+    return '#message.updated';
+  }
+
+  get notice(): string {
+    return '.wrap > #message';
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Navigate directly to the Menus screen - it opens the menu edited last
+   */
+  async navigate(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/nav-menus.php`);
+      await this.waitForPageShown();
+      SmartLogger.logUserAction('navigated to menus', 'nav-menus.php');
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Open a menu for editing with "Select a menu to edit"
+   */
+  async navigateToMenu(name: string): Promise<void> {
+    try {
+      await this.navigate();
+      const menuId = await this.findMenuId(name);
+      if (menuId === null) {
+        throw new Error(`No menu named "${name}"`);
+      }
+      await elementHelper.selectOptionValue(this.page, this.menuSelect, String(menuId));
+      await this.submitAndWait(this.selectMenuButton);
+      SmartLogger.logUserAction('opened menu', this.menuSelect, name);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Check if the Menus screen is loaded
+   */
+  async isMenusPageLoaded(): Promise<boolean> {
+    try {
+      const onScreen = new URL(this.page.url()).pathname.endsWith('/nav-menus.php');
+      const formVisible = await elementHelper.isElementDisplayed(this.page.locator(this.menuNameField));
+      const isLoaded = onScreen && formVisible;
+      SmartLogger.logAssertion('Menus page loaded verification', true, isLoaded, isLoaded);
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a menu is listed in "Select a menu to edit"
+   */
+  async menuExists(name: string): Promise<boolean> {
+    try {
+      const exists = await this.findMenuId(name) !== null;
+      SmartLogger.logUserAction('checked menu exists', this.menuSelect, `${name}: ${exists}`);
+      return exists;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Text of the notice shown after creating, saving or deleting a menu, or an empty string
+   */
+  async getNoticeText(): Promise<string> {
+    try {
+      const notice = this.page.locator(this.notice);
+      const text = await notice.count() > 0 ? (await notice.textContent() || '').trim() : '';
+      SmartLogger.logUserAction('read menus notice', this.notice, text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  /**
+   * Theme locations the open menu is assigned to
+   */
+  async getMenuLocations(): Promise<MenuLocation[]> {
+    try {
+      const locations: MenuLocation[] = [];
+      for (const location of await this.listLocations()) {
+        if (await elementHelper.isElementChecked(this.page, this.getLocationCheckbox(location))) {
+          locations.push(location);
+        }
+      }
+      SmartLogger.logUserAction('read menu locations', '.menu-theme-locations', locations.join(', '));
+      return locations;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== MENU METHODS =====
+
+  /**
+   * Create a menu, optionally displayed in theme locations; it stays open for editing
+   * @returns Promise<number | null> - ID of the new menu, or null when WordPress refused the name
+   */
+  async createMenu(name: string, locations: MenuLocation[] = []): Promise<number | null> {
+    try {
+      SmartLogger.logUserAction('creating menu', this.menuNameField, name);
+
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/nav-menus.php?action=edit&menu=0`);
+      await this.waitForPageShown();
+      await elementHelper.clearAndEnterValue(this.page, this.menuNameField, name);
+      for (const location of locations) {
+        await this.setLocationChecked(location, true);
+      }
+      await this.submitAndWait(this.saveMenuButton);
+
+      const menuId = Number(await this.page.locator(this.menuIdField).inputValue()) || null;
+      if (menuId && await this.page.locator(this.successNotice).isVisible()) {
+        this.dataRegistry.register('menu', name, 'ui', menuId);
+        SmartLogger.logUserAction('menu created', this.menuIdField, String(menuId));
+        return menuId;
+      }
+      SmartLogger.log('WARN', `Menu not created: ${await this.getNoticeText()}`);
+      return null;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return null;
+    }
+  }
+
+  /**
+   * Save the open menu - items added, removed and rearranged since the last save, and its locations
+   * @returns Promise<boolean> - True if WordPress reports the menu updated
+   */
+  async saveMenu(): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('saving menu', this.saveMenuButton);
+
+      await this.submitAndWait(this.saveMenuButton);
+      const saved = await this.page.locator(this.successNotice).isVisible();
+      SmartLogger.logUserAction('menu save result', this.notice, await this.getNoticeText());
+      return saved;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Display the open menu in exactly these theme locations and save it
+   */
+  async setMenuLocations(locations: MenuLocation[]): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('setting menu locations', '.menu-theme-locations', locations.join(', '));
+
+      for (const location of await this.listLocations()) {
+        await this.setLocationChecked(location, locations.includes(location));
+      }
+      return await this.saveMenu();
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a menu with "Delete Menu", accepting core's confirmation
+   * @returns Promise<boolean> - True if WordPress reports the menu deleted
+   */
+  async deleteMenu(name: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('deleting menu', this.deleteMenuLink, name);
+
+      await this.navigateToMenu(name);
+      await this.acceptingConfirmation(() => this.submitAndWait(this.deleteMenuLink));
+
+      const deleted = await this.page.locator(this.successNotice).isVisible() && !await this.menuExists(name);
+      if (deleted) {
+        this.dataRegistry.markDeleted('menu', name);
+      }
+      SmartLogger.logUserAction('menu delete result', this.notice, deleted.toString());
+      return deleted;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  // ===== MENU ITEM METHODS =====
+
+  /**
+   * Add published pages to the open menu by title (not saved until saveMenu())
+   */
+  async addPages(titles: string[]): Promise<boolean> {
+    return this.addFromChecklist('page', titles);
+  }
+
+  /**
+   * Add published posts to the open menu by title (not saved until saveMenu())
+   */
+  async addPosts(titles: string[]): Promise<boolean> {
+    return this.addFromChecklist('post', titles);
+  }
+
+  /**
+   * Add categories to the open menu by name (not saved until saveMenu())
+   */
+  async addCategories(names: string[]): Promise<boolean> {
+    return this.addFromChecklist('category', names);
+  }
+
+  /**
+   * Add a custom link to the open menu (not saved until saveMenu())
+   */
+  async addCustomLink(url: string, label: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('adding custom link', this.addCustomLinkButton, `${label} -> ${url}`);
+
+      await this.openItemsSection(this.customLinksSection);
+      await elementHelper.clearAndEnterValue(this.page, this.customLinkUrlField, url);
+      await elementHelper.clearAndEnterValue(this.page, this.customLinkTextField, label);
+      const added = await this.addingItems(() => elementHelper.clickElement(this.page, this.addCustomLinkButton));
+      return added.some(item => item.title === label);
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Items of the open menu in order, with their nesting
+   */
+  async getMenuStructure(): Promise<MenuStructureItem[]> {
+    try {
+      const items = await this.page.locator(this.menuItems).evaluateAll(elements =>
+        elements.map(item => ({
+          id: Number((item.querySelector('.menu-item-data-db-id') as HTMLInputElement).value),
+          title: (item.querySelector('.menu-item-title')?.textContent || '').trim(),
+          type: (item.querySelector('.item-type')?.textContent || '').trim(),
+          depth: Number((item.className.match(/menu-item-depth-(\d+)/) || [])[1] || 0),
+          parentId: Number((item.querySelector('.menu-item-data-parent-id') as HTMLInputElement).value)
+        })));
+      SmartLogger.logUserAction('read menu structure', this.menuItems, String(items.length));
+      return items;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Drag an item (with its sub-items) above or below another item, at that item's level (not saved until saveMenu())
+   */
+  async moveMenuItem(title: string, targetTitle: string, placement: 'before' | 'after'): Promise<boolean> {
+    return this.dragMenuItem(title, targetTitle, placement);
+  }
+
+  /**
+   * Drag an item (with its sub-items) under another item, as its first sub-item (not saved until saveMenu())
+   */
+  async nestMenuItem(title: string, parentTitle: string): Promise<boolean> {
+    return this.dragMenuItem(title, parentTitle, 'under');
+  }
+
+  /**
+   * Remove an item from the open menu; its sub-items move up a level (not saved until saveMenu())
+   */
+  async removeMenuItem(title: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('removing menu item', this.menuItems, title);
+
+      const item = await this.findItem(await this.getMenuStructure(), title);
+      const row = this.getMenuItem(item.id);
+      await elementHelper.clickElement(this.page, `${row} .item-edit`);
+      await elementHelper.clickElement(this.page, `${row} .item-delete`);
+      await this.page.locator(row).waitFor({ state: 'detached', timeout: this.envManager.getActionTimeout() });
+
+      const removed = !(await this.getMenuStructure()).some(listed => listed.id === item.id);
+      SmartLogger.logUserAction('menu item remove result', row, removed.toString());
+      return removed;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  // ===== FRONT END METHODS =====
+
+  /**
+   * Open the front page and read the rendered menu that holds a top-level item, found by the item's ID
+   * rather than theme markup; empty when the theme does not show the menu
+   */
+  async getRenderedMenu(itemId: number): Promise<RenderedMenuItem[]> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/`);
+      const menuItem = this.page.locator(this.getRenderedMenuItem(itemId));
+      if (await menuItem.count() === 0) {
+        SmartLogger.logUserAction('read rendered menu', this.getRenderedMenuItem(itemId), 'no menu');
+        return [];
+      }
+
+      const items = await menuItem.first().evaluate(topLevelItem => {
+        const list = topLevelItem.parentElement!;
+        const read = (parent: Element): RenderedMenuItem[] =>
+          Array.from(parent.children).filter(child => child.tagName === 'LI').map(item => {
+            const link = item.querySelector(':scope > a');
+            const subMenu = item.querySelector(':scope > ul.sub-menu');
+            return {
+              title: (link?.textContent || '').trim(),
+              url: link?.getAttribute('href') || '',
+              children: subMenu ? read(subMenu) : []
+            };
+          });
+        return read(list);
+      });
+      SmartLogger.logUserAction('read rendered menu', this.getRenderedMenuItem(itemId), String(items.length));
+      return items;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * ID of a menu in "Select a menu to edit"; options read "Name (Locations)" for assigned menus
+   * @private
+   */
+  private async findMenuId(name: string): Promise<number | null> {
+    const options = await this.page.locator(`${this.menuSelect} option`).evaluateAll(elements =>
+      elements.map(option => ({ value: (option as HTMLOptionElement).value, text: (option.textContent || '').trim() })));
+    const match = options.find(option => option.text === name || option.text.startsWith(`${name} (`));
+    return match ? Number(match.value) : null;
+  }
+
+  /**
+   * Locations the active theme offers, from the "Display location" checkboxes
+   * @private
+   */
+  private async listLocations(): Promise<MenuLocation[]> {
+    const ids = await this.page.locator(this.locationCheckboxes).evaluateAll(checkboxes => checkboxes.map(checkbox => checkbox.id));
+    return ids.map(id => id.replace(/^locations-/, ''));
+  }
+
+  /**
+   * Tick or untick a "Display location" checkbox
+   * @private
+   */
+  private async setLocationChecked(location: MenuLocation, checked: boolean): Promise<void> {
+    if (await elementHelper.isElementChecked(this.page, this.getLocationCheckbox(location)) !== checked) {
+      await elementHelper.toggleCheckbox(this.page, this.getLocationCheckbox(location));
+    }
+  }
+
+  /**
+   * Open an "Add menu items" accordion section; the others close
+   * @private
+   */
+  private async openItemsSection(section: string): Promise<void> {
+    if (!await elementHelper.hasClass(this.page, section, 'open')) {
+      await elementHelper.clickElement(this.page, `${section} .accordion-section-title`);
+    }
+  }
+
+  /**
+   * Tick entries of a Pages / Posts / Categories checklist by label and add them
+   * @private
+   */
+  private async addFromChecklist(kind: keyof typeof ITEM_SECTIONS, titles: string[]): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction(`adding ${kind} menu items`, ITEM_SECTIONS[kind].submit, titles.join(', '));
+
+      const { section, panel, submit, viewAll } = ITEM_SECTIONS[kind];
+      await this.openItemsSection(section);
+      if (viewAll && await this.page.locator(viewAll).count() > 0) {
+        await elementHelper.clickElement(this.page, viewAll);
+      }
+      for (const title of titles) {
+        const label = this.page.locator(`${panel} label.menu-item-title`)
+          .filter({ hasText: new RegExp(`^\\s*${title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`) });
+        await elementHelper.toggleCheckbox(this.page, label.locator('input.menu-item-checkbox'));
+      }
+      const added = await this.addingItems(() => elementHelper.clickElement(this.page, submit));
+      return titles.every(title => added.some(item => item.title === title));
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Run an "Add to Menu" click and return the items it appended to the menu structure
+   * @private
+   */
+  private async addingItems(add: () => Promise<void>): Promise<MenuStructureItem[]> {
+    const before = (await this.getMenuStructure()).map(item => item.id);
+    await add();
+    await this.page.waitForFunction(
+      ({ selector, count }) => document.querySelectorAll(selector).length > count,
+      { selector: this.menuItems, count: before.length },
+      { timeout: this.envManager.getActionTimeout() }
+    );
+    const added = (await this.getMenuStructure()).filter(item => !before.includes(item.id));
+    SmartLogger.logUserAction('menu items added', this.menuItems, added.map(item => item.title).join(', '));
+    return added;
+  }
+
+  /**
+   * @private
+   */
+  private async findItem(structure: MenuStructureItem[], title: string): Promise<MenuStructureItem> {
+    const item = structure.find(listed => listed.title === title);
+    if (!item) {
+      throw new Error(`No menu item labelled "${title}"`);
+    }
+    return item;
+  }
+
+  /**
+   * Items from `index` to the end of its sub-items
+   * @private
+   */
+  private subtree(structure: MenuStructureItem[], index: number): MenuStructureItem[] {
+    let end = index + 1;
+    while (end < structure.length && structure[end].depth > structure[index].depth) {
+      end++;
+    }
+    return structure.slice(index, end);
+  }
+
+  /**
+   * Drag an item's handle by its left edge and drop it on the menu structure where the placement puts it: over the
+   * top or bottom of the item it lands next to, lined up with the target's indentation (one level more for 'under')
+   * @private
+   */
+  private async dragMenuItem(title: string, targetTitle: string, placement: MenuItemPlacement): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction(`dragging menu item ${placement}`, this.menuStructure, `${title} -> ${targetTitle}`);
+
+      const structure = await this.getMenuStructure();
+      const item = await this.findItem(structure, title);
+      const moving = this.subtree(structure, structure.indexOf(item));
+      const others = structure.filter(listed => !moving.includes(listed));
+      const target = await this.findItem(others, targetTitle);
+      // 'after' lands below the target's last sub-item
+      const anchor = placement === 'after' ? this.subtree(others, others.indexOf(target)).pop() as MenuStructureItem : target;
+
+      const listBox = await elementHelper.getElementBoundingBox(this.page, this.menuStructure);
+      const targetBox = await elementHelper.getElementBoundingBox(this.page, `${this.getMenuItem(target.id)} > .menu-item-bar`);
+      const anchorBox = await elementHelper.getElementBoundingBox(this.page, `${this.getMenuItem(anchor.id)} > .menu-item-bar`);
+      const handleBox = await elementHelper.getElementBoundingBox(this.page, `${this.getMenuItem(item.id)} .menu-item-handle`);
+      if (!listBox || !targetBox || !anchorBox || !handleBox) {
+        throw new Error('Menu structure is not laid out');
+      }
+
+      const grip = 10;
+      await elementHelper.dragAndDrop(
+        this.page,
+        `${this.getMenuItem(item.id)} .menu-item-handle`,
+        this.menuStructure,
+        0,
+        0,
+        this.envManager.getActionTimeout(),
+        {
+          source: { x: grip, y: handleBox.height / 2 },
+          target: {
+            x: targetBox.x - listBox.x + grip + (placement === 'under' ? MENU_INDENT : 0),
+            y: anchorBox.y - listBox.y + anchorBox.height * (placement === 'before' ? 0.25 : 0.75)
+          }
+        }
+      );
+
+      const after = await this.getMenuStructure();
+      const moved = await this.findItem(after, title);
+      const landed = after.find(listed => listed.id === target.id) as MenuStructureItem;
+      const index = after.indexOf(moved);
+      const placed = placement === 'under'
+        ? moved.parentId === landed.id && after[after.indexOf(landed) + 1] === moved
+        : moved.parentId === landed.parentId && (placement === 'before'
+          ? after[index + moving.length] === landed
+          : index > after.indexOf(landed));
+      SmartLogger.logUserAction('menu item drag result', this.getMenuItem(item.id), `depth ${moved.depth}, parent ${moved.parentId}`);
+      return placed;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Click a control that reloads the screen and wait for the new page
+   * @private
+   */
+  private async submitAndWait(control: string): Promise<void> {
+    const loaded = this.page.waitForEvent('load', { timeout: this.envManager.getNavigationTimeout() });
+    await elementHelper.clickElement(this.page, control);
+    await loaded;
+  }
+
+  /**
+   * Core asks "You are about to permanently delete this menu." before deleting; accept it for this action only
+   * @private
+   */
+  private async acceptingConfirmation(action: () => Promise<void>): Promise<void> {
+    const accept = (dialog: Dialog) => dialog.accept();
+    this.page.on('dialog', accept);
+    try {
+      await action();
+    } finally {
+      this.page.off('dialog', accept);
+    }
+  }
+}
+
+export default MenusPage;
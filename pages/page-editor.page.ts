@@ -0,0 +1,204 @@
+import { Page } from '@playwright/test';
+import { PostPage } from './post.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { TrackedEntityType } from '../utils/test-data-registry.utils';
+
+/**
+ * Values of the Page Attributes box
+ */
+export interface PageAttributes {
+  /** Title of the parent page, '' for top-level pages */
+  parent: string;
+  /** Template label, e.g. "Default template" */
+  template: string;
+  menuOrder: number;
+}
+
+/**
+ * WordPress Page Editor Page Object Model
+ * Handles the classic editor for pages (post-new.php?post_type=page)
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Title, content, publishing and featured image come from PostPage; pages replace the
+ * categories and tags boxes with Page Attributes (parent, template, order).
+ */
+export class PageEditorPage extends PostPage {
+  constructor(page: Page) {
+    super(page);
+  }
+
+  protected get entityType(): TrackedEntityType {
+    return 'page';
+  }
+
+  // ===== SELECTORS =====
+
+  get pageAttributesPanel(): string {
+    return '#pageparentdiv';
+  }
+
+  get parentDropdown(): string {
+    return '#parent_id';
+  }
+
+  get templateDropdown(): string {
+    return '#page_template';
+  }
+
+  get menuOrderField(): string {
+    return '#menu_order';
+  }
+
+  // ===== ACTIONS =====
+
+  /**
+   * Navigate directly to the new page editor
+   */
+  async navigateToNewPageDirectly(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/post-new.php?post_type=page`);
+      await this.page.waitForLoadState('networkidle');
+      SmartLogger.logUserAction('navigated directly to page editor', 'post-new.php?post_type=page');
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Select the parent page by title
+   * Nested options are indented with non-breaking spaces, so options are matched on their trimmed label
+   * @param parentTitle - Title of the parent page, '' for no parent
+   */
+  async selectParentPage(parentTitle: string): Promise<void> {
+    try {
+      const options = this.page.locator(`${this.parentDropdown} option`);
+      let value: string | null = null;
+
+      for (const option of await options.all()) {
+        const label = ((await option.textContent()) || '').replace(/\u00a0/g, ' ').trim();
+        if (parentTitle ? label === parentTitle : (await option.getAttribute('value')) === '') {
+          value = (await option.getAttribute('value')) || '';
+          break;
+        }
+      }
+
+      if (value === null) {
+        throw new Error(`Parent page "${parentTitle}" is not offered in ${this.parentDropdown}`);
+      }
+
+      await this.page.locator(this.parentDropdown).selectOption({ value });
+      SmartLogger.logUserAction('selected parent page', this.parentDropdown, parentTitle || '(no parent)');
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Select a page template by its label or file name
+   */
+  async selectTemplate(template: string): Promise<void> {
+    try {
+      await elementHelper.selectOptionValue(this.page, this.templateDropdown, template);
+      SmartLogger.logUserAction('selected page template', this.templateDropdown, template);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the menu order of the page
+   */
+  async setMenuOrder(order: number): Promise<void> {
+    try {
+      await elementHelper.clearAndEnterValue(this.page, this.menuOrderField, String(order));
+      SmartLogger.logUserAction('set page menu order', this.menuOrderField, String(order));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  // ===== VERIFICATIONS =====
+
+  /**
+   * Get the template labels offered by the theme
+   * @returns Promise<string[]> - Labels including "Default template"; empty when the theme has no templates
+   */
+  async getAvailableTemplates(): Promise<string[]> {
+    try {
+      if (await this.page.locator(this.templateDropdown).count() === 0) {
+        return [];
+      }
+      const labels = await this.page.locator(`${this.templateDropdown} option`).allTextContents();
+      const templates = labels.map(label => label.trim());
+      SmartLogger.logUserAction('retrieved available page templates', this.templateDropdown, templates.join(', '));
+      return templates;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return [];
+    }
+  }
+
+  /**
+   * Read the current Page Attributes values
+   */
+  async getPageAttributes(): Promise<PageAttributes> {
+    try {
+      const selectedLabel = async (selector: string): Promise<string> => {
+        if (await this.page.locator(selector).count() === 0) return '';
+        const label = await this.page.locator(`${selector} option:checked`).textContent();
+        return (label || '').replace(/\u00a0/g, ' ').trim();
+      };
+
+      const parentValue = await this.page.locator(this.parentDropdown).inputValue().catch(() => '');
+      const attributes: PageAttributes = {
+        parent: parentValue ? await selectedLabel(this.parentDropdown) : '',
+        template: await selectedLabel(this.templateDropdown),
+        menuOrder: Number(await elementHelper.getInputValue(this.page, this.menuOrderField)) || 0
+      };
+
+      SmartLogger.logUserAction('retrieved page attributes', this.pageAttributesPanel, JSON.stringify(attributes));
+      return attributes;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify all page editor elements are visible
+   * @returns Promise<boolean> - True if all elements are visible
+   */
+  async verifyAllPageEditorElementsVisible(): Promise<boolean> {
+    try {
+      const coreElements = [
+        this.titleField,
+        this.publishButton,
+        this.saveDraftButton,
+        this.pageAttributesPanel,
+        this.menuOrderField,
+        this.featuredImagePanel
+      ];
+
+      for (const element of coreElements) {
+        const isVisible = await elementHelper.isElementDisplayed(this.page.locator(element));
+        if (!isVisible) {
+          SmartLogger.logUserAction('element not visible', element);
+          return false;
+        }
+      }
+
+      SmartLogger.logUserAction('verified all page editor elements visible');
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page);
+      return false;
+    }
+  }
+}
+
+export default PageEditorPage;
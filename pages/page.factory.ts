@@ -4,14 +4,55 @@ import DashboardPage from './dashboard.page';
 import PostPage from './post.page';
 import AllPostsPage from './all-posts.page';
 import CategoriesPage from './categories.page';
+import TagsPage from './tags.page';
+import TaxonomyPage, { TaxonomyPageOptions } from './taxonomy.page';
+import MediaLibraryPage from './media-library.page';
+import PagesPage from './pages.page';
+import PageEditorPage from './page-editor.page';
+import BlockEditorPage from './block-editor.page';
+import RevisionsPage from './revisions.page';
+import UsersPage from './users.page';
+import UserEditPage from './user-edit.page';
+import CommentsPage from './comments.page';
+import SinglePostPage from './single-post.page';
+import GeneralSettingsPage from './general-settings.page';
+import WritingSettingsPage from './writing-settings.page';
+import ReadingSettingsPage from './reading-settings.page';
+import DiscussionSettingsPage from './discussion-settings.page';
+import MediaSettingsPage from './media-settings.page';
+import PermalinkSettingsPage from './permalink-settings.page';
+import MenusPage from './menus.page';
+import PluginsPage from './plugins.page';
+import { EditorMode, PostEditor } from '../types/editor.types';
+import { EnvironmentManager } from '../utils/environment.utils';
 
 class PageFactory {
+    /** Editor detected on this worker's site - probed once, profiles with an `editor` setting skip it */
+    private static detectedEditorMode?: EditorMode;
     private page: Page;
     public loginPage: LoginPage;
     public dashboardPage: DashboardPage;
     public postPage: PostPage;
     public allPostsPage: AllPostsPage;
     public categoriesPage: CategoriesPage;
+    public tagsPage: TagsPage;
+    public mediaLibraryPage: MediaLibraryPage;
+    public pagesPage: PagesPage;
+    public pageEditorPage: PageEditorPage;
+    public blockEditorPage: BlockEditorPage;
+    public revisionsPage: RevisionsPage;
+    public usersPage: UsersPage;
+    public userEditPage: UserEditPage;
+    public commentsPage: CommentsPage;
+    public singlePostPage: SinglePostPage;
+    public generalSettingsPage: GeneralSettingsPage;
+    public writingSettingsPage: WritingSettingsPage;
+    public readingSettingsPage: ReadingSettingsPage;
+    public discussionSettingsPage: DiscussionSettingsPage;
+    public mediaSettingsPage: MediaSettingsPage;
+    public permalinkSettingsPage: PermalinkSettingsPage;
+    public menusPage: MenusPage;
+    public pluginsPage: PluginsPage;
     
     constructor(page: Page) {
         this.page = page;
@@ -20,6 +61,24 @@ class PageFactory {
         this.postPage = new PostPage(page);
         this.allPostsPage = new AllPostsPage(page);
         this.categoriesPage = new CategoriesPage(page);
+        this.tagsPage = new TagsPage(page);
+        this.mediaLibraryPage = new MediaLibraryPage(page);
+        this.pagesPage = new PagesPage(page);
+        this.pageEditorPage = new PageEditorPage(page);
+        this.blockEditorPage = new BlockEditorPage(page);
+        this.revisionsPage = new RevisionsPage(page);
+        this.usersPage = new UsersPage(page);
+        this.userEditPage = new UserEditPage(page);
+        this.commentsPage = new CommentsPage(page);
+        this.singlePostPage = new SinglePostPage(page);
+        this.generalSettingsPage = new GeneralSettingsPage(page);
+        this.writingSettingsPage = new WritingSettingsPage(page);
+        this.readingSettingsPage = new ReadingSettingsPage(page);
+        this.discussionSettingsPage = new DiscussionSettingsPage(page);
+        this.mediaSettingsPage = new MediaSettingsPage(page);
+        this.permalinkSettingsPage = new PermalinkSettingsPage(page);
+        this.menusPage = new MenusPage(page);
+        this.pluginsPage = new PluginsPage(page);
     }
 
     getPostPage(): PostPage {
@@ -33,5 +92,113 @@ class PageFactory {
     getCategoriesPage(): CategoriesPage {
         return this.categoriesPage;
     }
+
+    getTagsPage(): TagsPage {
+        return this.tagsPage;
+    }
+
+    getMediaLibraryPage(): MediaLibraryPage {
+        return this.mediaLibraryPage;
+    }
+
+    getPagesPage(): PagesPage {
+        return this.pagesPage;
+    }
+
+    getPageEditorPage(): PageEditorPage {
+        return this.pageEditorPage;
+    }
+
+    getBlockEditorPage(): BlockEditorPage {
+        return this.blockEditorPage;
+    }
+
+    getRevisionsPage(): RevisionsPage {
+        return this.revisionsPage;
+    }
+
+    getUsersPage(): UsersPage {
+        return this.usersPage;
+    }
+
+    getUserEditPage(): UserEditPage {
+        return this.userEditPage;
+    }
+
+    getCommentsPage(): CommentsPage {
+        return this.commentsPage;
+    }
+
+    getSinglePostPage(): SinglePostPage {
+        return this.singlePostPage;
+    }
+
+    getGeneralSettingsPage(): GeneralSettingsPage {
+        return this.generalSettingsPage;
+    }
+
+    getWritingSettingsPage(): WritingSettingsPage {
+        return this.writingSettingsPage;
+    }
+
+    getReadingSettingsPage(): ReadingSettingsPage {
+        return this.readingSettingsPage;
+    }
+
+    getDiscussionSettingsPage(): DiscussionSettingsPage {
+        return this.discussionSettingsPage;
+    }
+
+    getMediaSettingsPage(): MediaSettingsPage {
+        return this.mediaSettingsPage;
+    }
+
+    getPermalinkSettingsPage(): PermalinkSettingsPage {
+        return this.permalinkSettingsPage;
+    }
+
+    getMenusPage(): MenusPage {
+        return this.menusPage;
+    }
+
+    getPluginsPage(): PluginsPage {
+        return this.pluginsPage;
+    }
+
+    /**
+     * Editor the site serves: the profile's `editor` setting, or detected once per worker by opening post-new.php
+     * Detection navigates a separate tab of this page's context (BlockEditorPage.detectEditorMode), so this page
+     * stays where it is on every call. A failed detection throws and is retried by the next call.
+     */
+    async getEditorMode(): Promise<EditorMode> {
+        const configured = EnvironmentManager.getInstance().getEditorMode();
+        if (configured !== 'auto') return configured;
+
+        if (!PageFactory.detectedEditorMode) {
+            const probe = await this.page.context().newPage();
+            try {
+                PageFactory.detectedEditorMode = await new BlockEditorPage(probe).detectEditorMode();
+            } finally {
+                await probe.close();
+            }
+        }
+        return PageFactory.detectedEditorMode;
+    }
+
+    /**
+     * Post editor page object for the site's editor - specs written against PostEditor run on either
+     */
+    async getPostEditor(): Promise<PostEditor> {
+        return await this.getEditorMode() === 'block' ? this.blockEditorPage : this.postPage;
+    }
+
+    /**
+     * Term screens of any taxonomy - categories and tags get their dedicated page objects
+     */
+    getTaxonomyPage(taxonomy: string, options: TaxonomyPageOptions): TaxonomyPage {
+        if (taxonomy === 'category') return this.categoriesPage;
+        if (taxonomy === 'post_tag') return this.tagsPage;
+        return new TaxonomyPage(this.page, taxonomy, options);
+    }
 }
 export default PageFactory;
\ No newline at end of file
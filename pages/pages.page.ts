@@ -0,0 +1,139 @@
+import { Page } from '@playwright/test';
+import { AllPostsPage } from './all-posts.page';
+import { SmartLogger } from '../utils/smart-logger.utils';
+
+/**
+ * A row of the pages list table with its place in the hierarchy
+ */
+export interface PageListRow {
+  title: string;
+  /** 0 for top-level pages, +1 per ancestor (row class level-N) */
+  depth: number;
+}
+
+/**
+ * WordPress Pages Page Object Model
+ * Handles all interactions with the WordPress pages list page (edit.php?post_type=page)
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Same list table as posts; child pages follow their parent and their titles are prefixed
+ * with one "— " per level, which the title helpers strip.
+ */
+export class PagesPage extends AllPostsPage {
+  constructor(page: Page) {
+    super(page, 'page');
+  }
+
+  // ===== SELECTORS =====
+
+  getPageRow(title: string): string {
+    return `tr:has(.row-title:text("${title}"))`;
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Verify Pages page is loaded
+   */
+  async isPagesPageLoaded(): Promise<boolean> {
+    return this.isAllPostsPageLoaded();
+  }
+
+  // ===== PAGE MANAGEMENT METHODS =====
+
+  /**
+   * Search for pages by title
+   */
+  async searchPages(searchTerm: string): Promise<void> {
+    return this.searchPosts(searchTerm);
+  }
+
+  /**
+   * Get all page titles from the current list, without hierarchy prefixes
+   */
+  async getAllPageTitles(): Promise<string[]> {
+    const rows = await this.getPageHierarchy();
+    return rows.map(row => row.title);
+  }
+
+  /**
+   * Check if a page exists in the list by title
+   */
+  async pageExists(title: string): Promise<boolean> {
+    const titles = await this.getAllPageTitles();
+    const exists = titles.includes(title);
+    SmartLogger.logAssertion('page exists verification', true, exists, exists);
+    return exists;
+  }
+
+  /**
+   * Get the page ID for a specific page by title
+   */
+  async getPageIdByTitle(title: string): Promise<string | null> {
+    return this.getPostIdByTitle(title);
+  }
+
+  // ===== HIERARCHY METHODS =====
+
+  /**
+   * Read the listed pages in table order with their depth
+   */
+  async getPageHierarchy(): Promise<PageListRow[]> {
+    try {
+      await this.waitForPostsTableLoad();
+      const rows: PageListRow[] = [];
+
+      for (const row of await this.page.locator(this.postsTableRows).all()) {
+        const titleLink = row.locator(this.postTitleLinks);
+        if (await titleLink.count() === 0) continue; // "No pages found." row
+
+        const title = ((await titleLink.textContent()) || '').replace(/^(?:—\s*)+/, '').trim();
+        const levelClass = ((await row.getAttribute('class')) || '').match(/\blevel-(\d+)\b/);
+        rows.push({ title, depth: levelClass ? Number(levelClass[1]) : 0 });
+      }
+
+      SmartLogger.logUserAction('retrieved page hierarchy', this.postsTableRows, `Found ${rows.length} pages`);
+      return rows;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return [];
+    }
+  }
+
+  /**
+   * Get the indentation level of a page in the list
+   * @returns depth, or -1 when the page is not listed
+   */
+  async getPageDepth(title: string): Promise<number> {
+    const row = (await this.getPageHierarchy()).find(entry => entry.title === title);
+    const depth = row ? row.depth : -1;
+    SmartLogger.logUserAction('retrieved page depth', this.getPageRow(title), `${title}: ${depth}`);
+    return depth;
+  }
+
+  /**
+   * Verify a page is listed inside its parent's subtree, one level deeper than the parent
+   */
+  async isDisplayedUnder(childTitle: string, parentTitle: string): Promise<boolean> {
+    const rows = await this.getPageHierarchy();
+    const parentIndex = rows.findIndex(row => row.title === parentTitle);
+    let isUnder = false;
+
+    if (parentIndex >= 0) {
+      const parentDepth = rows[parentIndex].depth;
+      // The parent's subtree ends at the next row that is not deeper than the parent
+      for (const row of rows.slice(parentIndex + 1)) {
+        if (row.depth <= parentDepth) break;
+        if (row.title === childTitle) {
+          isUnder = row.depth === parentDepth + 1;
+          break;
+        }
+      }
+    }
+
+    SmartLogger.logAssertion(`"${childTitle}" listed under "${parentTitle}"`, true, isUnder, isUnder);
+    return isUnder;
+  }
+}
+
+export default PagesPage;
@@ -0,0 +1,58 @@
+import { Page } from '@playwright/test';
+import { SettingsPage, SettingsField } from './settings.page';
+
+/**
+ * Permalink Settings (options-permalink.php)
+ */
+export interface PermalinkSettings {
+  /** Structure tags, e.g. '/%postname%/'; '' is Plain (?p=123), anything without a preset uses Custom Structure */
+  structure: string;
+  /** Optional bases; '' keeps WordPress' "category" and "tag" */
+  categoryBase: string;
+  tagBase: string;
+}
+
+/**
+ * WordPress Permalink Settings Page Object Model
+ * Handles options-permalink.php: the permalink structure and the category and tag bases
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/options-permalink.php
+ * The form posts to the screen itself and confirms with "Permalink structure updated."; a custom structure
+ * without a structure tag is refused.
+ */
+export class PermalinkSettingsPage extends SettingsPage<PermalinkSettings> {
+  constructor(page: Page) {
+    super(page);
+  }
+
+  get screenPath(): string {
+    return 'options-permalink.php';
+  }
+
+  protected get fields(): Record<keyof PermalinkSettings, SettingsField> {
+    return {
+      structure: { kind: 'radio', selector: 'input[name="selection"]', custom: { radio: '#custom_selection', input: '#permalink_structure' } },
+      categoryBase: { kind: 'text', selector: '#category_base' },
+      tagBase: { kind: 'text', selector: '#tag_base' }
+    };
+  }
+
+  // ===== SETTINGS METHODS =====
+
+  /**
+   * Permalink structure, from the checked Common Settings radio or Custom Structure
+   */
+  async getPermalinkStructure(): Promise<string> {
+    return this.getSetting('structure');
+  }
+
+  /**
+   * Change the permalink structure and save
+   */
+  async setPermalinkStructure(structure: string): Promise<boolean> {
+    return this.setSetting('structure', structure);
+  }
+}
+
+export default PermalinkSettingsPage;
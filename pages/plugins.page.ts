@@ -0,0 +1,260 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+import { EnvironmentGuard } from '../utils/environment-guard.utils';
+
+/**
+ * Views of the plugins list ("All", "Active", "Inactive")
+ */
+export type PluginStatusView = 'all' | 'active' | 'inactive';
+
+/**
+ * A plugin as listed on plugins.php
+ */
+export interface InstalledPlugin {
+  /** Directory of the plugin (file name without .php for single-file plugins), e.g. 'jetpack' */
+  slug: string;
+  /** Plugin file relative to wp-content/plugins, e.g. 'jetpack/jetpack.php' */
+  file: string;
+  name: string;
+  version: string;
+  active: boolean;
+}
+
+/**
+ * WordPress Plugins Page Object Model
+ * Handles the plugins list (plugins.php): installed plugins with their version and active state, and activating
+ * or deactivating them
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/plugins.php
+ * Plugins are addressed by slug, their directory name - the same slugs tests declare with requiredPlugins.
+ * Activating and deactivating change the whole site, so both are refused on protected targets (prod).
+ */
+export class PluginsPage extends BasePage {
+  private envManager = EnvironmentManager.getInstance();
+
+  constructor(page: Page) {
+    super(page, '.wrap h1'); // Plugins page has main heading as identifier
+  }
+
+  // ===== SELECTORS (Based on live site inspection) =====
+
+  get pageTitle(): string {
+    return '.wrap h1';
+  }
+
+  get pluginsTable(): string {
+    return '.wp-list-table.plugins';
+  }
+
+  // Update notices share the table body, so plugin rows are the ones carrying data-plugin
+  get pluginRows(): string {
+    return '#the-list > tr[data-plugin]';
+  }
+
+  getPluginRow(file: string): string {
+    return `#the-list > tr[data-plugin="${file}"]`;
+  }
+
+  getActivateLink(file: string): string {
+    return `${this.getPluginRow(file)} .row-actions .activate a`;
+  }
+
+  getDeactivateLink(file: string): string {
+    return `${this.getPluginRow(file)} .row-actions .deactivate a`;
+  }
+
+  getStatusView(status: PluginStatusView): string {
+    return `.subsubsub li.${status} a`;
+  }
+
+  // Messages
+  get notice(): string {
+    return '.wrap > #message';
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Navigate directly to the plugins list, optionally to the Active or Inactive view
+   */
+  async navigate(status: PluginStatusView = 'all'): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/plugins.php?plugin_status=${status}`);
+      await this.waitForPageShown();
+      SmartLogger.logUserAction('navigated to plugins', 'plugins.php', status);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Check if the plugins list is loaded
+   */
+  async isPluginsPageLoaded(): Promise<boolean> {
+    try {
+      const onScreen = new URL(this.page.url()).pathname.endsWith('/plugins.php');
+      const tableVisible = await elementHelper.isElementDisplayed(this.page.locator(this.pluginsTable));
+      const isLoaded = onScreen && tableVisible;
+      SmartLogger.logAssertion('Plugins page loaded verification', true, isLoaded, isLoaded);
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a plugin is installed, active or not
+   */
+  async isPluginInstalled(slug: string): Promise<boolean> {
+    try {
+      const installed = await this.getPlugin(slug) !== undefined;
+      SmartLogger.logUserAction('checked plugin installed', this.pluginRows, `${slug}: ${installed}`);
+      return installed;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a plugin is installed and active
+   */
+  async isPluginActive(slug: string): Promise<boolean> {
+    try {
+      const active = !!(await this.getPlugin(slug))?.active;
+      SmartLogger.logUserAction('checked plugin active', this.pluginRows, `${slug}: ${active}`);
+      return active;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Text of the notice shown after activating or deactivating, or an empty string
+   */
+  async getNoticeText(): Promise<string> {
+    try {
+      const notice = this.page.locator(this.notice);
+      const text = await notice.count() > 0 ? (await notice.textContent() || '').trim() : '';
+      SmartLogger.logUserAction('read plugins notice', this.notice, text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  // ===== PLUGIN METHODS =====
+
+  /**
+   * Plugins of the open view, in list order
+   */
+  async getPlugins(): Promise<InstalledPlugin[]> {
+    try {
+      const plugins = await this.page.locator(this.pluginRows).evaluateAll(rows =>
+        rows.map(row => {
+          const file = row.getAttribute('data-plugin') || '';
+          const versionLine = row.querySelector('.plugin-version-author-uri')?.textContent || '';
+          return {
+            slug: file.replace(/\.php$/, '').split('/')[0],
+            file,
+            name: (row.querySelector('.plugin-title strong')?.textContent || '').trim(),
+            version: (versionLine.match(/Version\s+([^\s|]+)/) || [])[1] || '',
+            active: row.classList.contains('active')
+          };
+        }));
+      SmartLogger.logUserAction('read plugins', this.pluginRows, String(plugins.length));
+      return plugins;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * A plugin of the open view by slug
+   */
+  async getPlugin(slug: string): Promise<InstalledPlugin | undefined> {
+    return (await this.getPlugins()).find(plugin => plugin.slug === slug);
+  }
+
+  /**
+   * Activate an installed plugin with its Activate link
+   * @returns Promise<boolean> - True if the list shows the plugin active afterwards
+   * @throws Error on protected targets (prod)
+   */
+  async activatePlugin(slug: string): Promise<boolean> {
+    this.assertPluginChangesAllowed('activate', slug);
+    return this.changePluginState(slug, true);
+  }
+
+  /**
+   * Deactivate an active plugin with its Deactivate link
+   * @returns Promise<boolean> - True if the list shows the plugin inactive afterwards
+   * @throws Error on protected targets (prod)
+   */
+  async deactivatePlugin(slug: string): Promise<boolean> {
+    this.assertPluginChangesAllowed('deactivate', slug);
+    return this.changePluginState(slug, false);
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * Plugins are site-wide, so protected targets never get them switched on or off
+   * @private
+   */
+  private assertPluginChangesAllowed(action: string, slug: string): void {
+    if (EnvironmentGuard.getInstance().isProtectedTarget()) {
+      const message = `Refused to ${action} ${slug}: plugins are not changed on the "${this.envManager.getTestEnvironment()}" environment`;
+      SmartLogger.log('ERROR', message);
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Click a plugin's Activate or Deactivate link and read its state back from the list
+   * @private
+   */
+  private async changePluginState(slug: string, activate: boolean): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction(activate ? 'activating plugin' : 'deactivating plugin', this.pluginRows, slug);
+
+      await this.navigate();
+      const plugin = await this.getPlugin(slug);
+      if (!plugin) {
+        throw new Error(`Plugin ${slug} is not installed`);
+      }
+      if (plugin.active === activate) {
+        SmartLogger.logUserAction('plugin already in state', this.getPluginRow(plugin.file), activate ? 'active' : 'inactive');
+        return true;
+      }
+
+      const loaded = this.page.waitForEvent('load', { timeout: this.envManager.getNavigationTimeout() });
+      await elementHelper.clickElement(this.page, activate ? this.getActivateLink(plugin.file) : this.getDeactivateLink(plugin.file));
+      await loaded;
+      SmartLogger.logUserAction('plugin state notice', this.notice, await this.getNoticeText());
+
+      // Some plugins open their own welcome screen after activation, so check the list itself
+      await this.navigate();
+      const changed = (await this.getPlugin(slug))?.active === activate;
+      SmartLogger.logUserAction('plugin state result', this.getPluginRow(plugin.file), changed.toString());
+      return changed;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+}
+
+export default PluginsPage;
@@ -0,0 +1,61 @@
+import { Page } from '@playwright/test';
+import { SettingsPage, SettingsField } from './settings.page';
+
+/**
+ * Reading Settings (options-reading.php)
+ */
+export interface ReadingSettings {
+  /** 'posts' for the latest posts, 'page' for a static homepage */
+  showOnFront: 'posts' | 'page';
+  /** Page IDs; 0 when none is selected */
+  pageOnFront: number;
+  pageForPosts: number;
+  postsPerPage: number;
+  /** "Discourage search engines from indexing this site" */
+  discourageSearchEngines: boolean;
+}
+
+/**
+ * WordPress Reading Settings Page Object Model
+ * Handles options-reading.php: what the homepage shows, posts per page and search engine visibility
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/options-reading.php
+ */
+export class ReadingSettingsPage extends SettingsPage<ReadingSettings> {
+  constructor(page: Page) {
+    super(page);
+  }
+
+  get screenPath(): string {
+    return 'options-reading.php';
+  }
+
+  protected get fields(): Record<keyof ReadingSettings, SettingsField> {
+    return {
+      showOnFront: { kind: 'radio', selector: 'input[name="show_on_front"]' },
+      pageOnFront: { kind: 'select', selector: '#page_on_front', numeric: true },
+      pageForPosts: { kind: 'select', selector: '#page_for_posts', numeric: true },
+      postsPerPage: { kind: 'number', selector: '#posts_per_page' },
+      discourageSearchEngines: { kind: 'checkbox', selector: '#blog_public' }
+    };
+  }
+
+  // ===== SETTINGS METHODS =====
+
+  /**
+   * Blog pages show at most ... posts
+   */
+  async getPostsPerPage(): Promise<number> {
+    return this.getSetting('postsPerPage');
+  }
+
+  /**
+   * Change how many posts blog pages show and save
+   */
+  async setPostsPerPage(count: number): Promise<boolean> {
+    return this.setSetting('postsPerPage', count);
+  }
+}
+
+export default ReadingSettingsPage;
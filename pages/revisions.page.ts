@@ -0,0 +1,370 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+
+/**
+ * Revision as listed by the revisions screen (_wpRevisionsSettings.revisionData), oldest first
+ */
+export interface RevisionSummary {
+  id: number;
+  author: string;
+  /** Short date as shown in the slider tooltip */
+  date: string;
+  /** e.g. "5 mins ago" */
+  timeAgo: string;
+  /** The newest revision, mirroring the post as saved */
+  current: boolean;
+  autosave: boolean;
+}
+
+/**
+ * Revisions shown on either side of the diff; `from` is null for a post's first revision
+ */
+export interface RevisionSelection {
+  from: number | null;
+  to: number;
+}
+
+/**
+ * Changed lines of the diff across title, content and excerpt
+ */
+export interface RevisionDiff {
+  deleted: string[];
+  added: string[];
+}
+
+/**
+ * WordPress Revisions Page Object Model
+ * Handles the revisions screen (revision.php) reached from the editor's Revisions link
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * The screen is a Backbone app: moving the slider or toggling compare mode rewrites the URL
+ * (?revision=<to>, or ?from=<from>&to=<to> when comparing two) and loads the diff over admin-ajax.
+ * Revisions are addressed by ID; the slider is driven with the keyboard, one step per key press.
+ */
+export class RevisionsPage extends BasePage {
+  private envManager = EnvironmentManager.getInstance();
+
+  constructor(page: Page) {
+    super(page, '.revisions'); // Revisions app container as identifier
+  }
+
+  // ===== SELECTORS =====
+
+  get pageTitle(): string {
+    return 'h1.long-header';
+  }
+
+  get revisionsFrame(): string {
+    return '.revisions';
+  }
+
+  get loadingFrame(): string {
+    return '.revisions.loading';
+  }
+
+  get compareTwoCheckbox(): string {
+    return '.compare-two-revisions';
+  }
+
+  get previousButton(): string {
+    return '.revisions-previous .button';
+  }
+
+  get nextButton(): string {
+    return '.revisions-next .button';
+  }
+
+  get sliderHandle(): string {
+    return '.wp-slider .ui-slider-handle';
+  }
+
+  get fromHandle(): string {
+    return '.wp-slider .ui-slider-handle.from-handle';
+  }
+
+  get toHandle(): string {
+    return '.wp-slider .ui-slider-handle.to-handle';
+  }
+
+  get fromMeta(): string {
+    return '.diff-meta-from .diff-title';
+  }
+
+  get toMeta(): string {
+    return '.diff-meta-to .diff-title';
+  }
+
+  get restoreButton(): string {
+    return '.diff-meta-to .restore-revision';
+  }
+
+  get deletedLines(): string {
+    return '.revisions-diff td.diff-deletedline';
+  }
+
+  get addedLines(): string {
+    return '.revisions-diff td.diff-addedline';
+  }
+
+  get goToEditorLink(): string {
+    return 'h1.long-header a';
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Open a revision directly (the editor's Revisions link points at the newest one)
+   * @param revisionId - Revision to show against the one before it
+   */
+  async navigateToRevision(revisionId: number): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/revision.php?revision=${revisionId}`);
+      await this.waitForLoad();
+      SmartLogger.logUserAction('navigated to revisions', 'revision.php', String(revisionId));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for the revisions app to render and finish loading its diff
+   */
+  async waitForLoad(): Promise<void> {
+    try {
+      await elementHelper.waitForDisplayed(this.page, this.revisionsFrame, this.envManager.getTimeout());
+      await elementHelper.waitForElementRemoved(this.page, this.loadingFrame, this.envManager.getActionTimeout());
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if the revisions screen is loaded
+   */
+  async isRevisionsPageLoaded(): Promise<boolean> {
+    try {
+      const titleExists = await elementHelper.isElementDisplayed(this.page.locator(this.pageTitle));
+      const sliderExists = await elementHelper.isElementDisplayed(this.page.locator(this.sliderHandle).first());
+      const isLoaded = titleExists && sliderExists;
+      SmartLogger.logUserAction('verified revisions page loaded', this.pageTitle, isLoaded.toString());
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Go back to the editor of the post whose revisions are shown
+   */
+  async goToEditor(): Promise<void> {
+    try {
+      await elementHelper.clickElement(this.page, this.goToEditorLink);
+      await this.page.waitForURL(/post\.php.*action=edit/, { timeout: this.envManager.getNavigationTimeout() });
+      SmartLogger.logUserAction('went back to the editor', this.goToEditorLink);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== READ METHODS =====
+
+  /**
+   * All revisions of the post, oldest first
+   */
+  async getRevisions(): Promise<RevisionSummary[]> {
+    try {
+      const revisions = await this.page.evaluate(() => {
+        return window._wpRevisionsSettings.revisionData.map(revision => ({
+          id: Number(revision.id),
+          author: revision.author ? revision.author.name : '',
+          date: String(revision.dateShort),
+          timeAgo: String(revision.timeAgo),
+          current: Boolean(revision.current),
+          autosave: Boolean(revision.autosave)
+        }));
+      });
+      SmartLogger.logUserAction('read revisions', 'revisionData', String(revisions.length));
+      return revisions;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return [];
+    }
+  }
+
+  /**
+   * Revisions on either side of the diff, read from the URL the revisions router keeps up to date
+   */
+  async getSelectedRevisions(): Promise<RevisionSelection> {
+    const params = new URL(this.page.url()).searchParams;
+    if (params.has('from')) {
+      return { from: Number(params.get('from')), to: Number(params.get('to')) };
+    }
+
+    // One revision is always compared with the one before it
+    const to = Number(params.get('revision'));
+    const ids = (await this.getRevisions()).map(revision => revision.id);
+    const index = ids.indexOf(to);
+    return { from: index > 0 ? ids[index - 1] : null, to };
+  }
+
+  /**
+   * Check if "Compare any two revisions" is on
+   */
+  async isCompareTwoMode(): Promise<boolean> {
+    return elementHelper.isElementChecked(this.page, this.compareTwoCheckbox);
+  }
+
+  /**
+   * Changed lines of the current diff, without the "Deleted:"/"Added:" screen reader prefixes
+   */
+  async getDiff(): Promise<RevisionDiff> {
+    try {
+      const clean = (lines: string[]) => lines.map(line => line.replace(/^\s*(Deleted|Added):\s*/, '').trim()).filter(Boolean);
+      const diff = {
+        deleted: clean(await this.page.locator(this.deletedLines).allTextContents()),
+        added: clean(await this.page.locator(this.addedLines).allTextContents())
+      };
+      SmartLogger.logUserAction('read revisions diff', '.revisions-diff', `-${diff.deleted.length} +${diff.added.length}`);
+      return diff;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return { deleted: [], added: [] };
+    }
+  }
+
+  // ===== ACTIONS =====
+
+  /**
+   * Show one revision against the one before it, stepping with Previous/Next
+   * @param revisionId - Revision to show
+   */
+  async selectRevision(revisionId: number): Promise<void> {
+    try {
+      if (await this.isCompareTwoMode()) {
+        await this.setCompareTwoMode(false);
+      }
+
+      const ids = (await this.getRevisions()).map(revision => revision.id);
+      const target = ids.indexOf(revisionId);
+      if (target === -1) {
+        throw new Error(`Revision ${revisionId} does not belong to this post`);
+      }
+
+      let current = ids.indexOf((await this.getSelectedRevisions()).to);
+      while (current !== target) {
+        const button = current < target ? this.nextButton : this.previousButton;
+        await this.changingSelection(() => elementHelper.clickElement(this.page, button));
+        current += current < target ? 1 : -1;
+      }
+      SmartLogger.logUserAction('selected revision', this.sliderHandle, String(revisionId));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Compare any two revisions: turn on compare mode and move both slider handles
+   * @param fromId - Older revision (left handle)
+   * @param toId - Newer revision (right handle)
+   */
+  async compareRevisions(fromId: number, toId: number): Promise<void> {
+    try {
+      const ids = (await this.getRevisions()).map(revision => revision.id);
+      const fromIndex = ids.indexOf(fromId);
+      const toIndex = ids.indexOf(toId);
+      if (fromIndex === -1 || toIndex === -1 || fromIndex >= toIndex) {
+        throw new Error(`Cannot compare revision ${fromId} with ${toId}: pick an older and a newer revision of this post`);
+      }
+
+      if (!await this.isCompareTwoMode()) {
+        await this.setCompareTwoMode(true);
+      }
+
+      // Handles cannot cross: pull the left one back first, then place the right one, then the left one
+      const selection = await this.getSelectedRevisions();
+      const currentFrom = ids.indexOf(selection.from!);
+      if (fromIndex < currentFrom) {
+        await this.moveHandle(this.fromHandle, currentFrom, fromIndex);
+      }
+      await this.moveHandle(this.toHandle, ids.indexOf(selection.to), toIndex);
+      await this.moveHandle(this.fromHandle, Math.min(currentFrom, fromIndex), fromIndex);
+
+      SmartLogger.logUserAction('compared revisions', this.compareTwoCheckbox, `${fromId} -> ${toId}`);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn "Compare any two revisions" on or off
+   */
+  async setCompareTwoMode(enabled: boolean): Promise<void> {
+    try {
+      if (await this.isCompareTwoMode() !== enabled) {
+        await this.changingSelection(() => elementHelper.toggleCheckbox(this.page, this.compareTwoCheckbox));
+      }
+      SmartLogger.logUserAction('set compare two revisions', this.compareTwoCheckbox, String(enabled));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore the revision on the right of the diff and wait for the editor it sends you back to
+   * @returns Promise<boolean> - False when the shown revision is the current one (nothing to restore)
+   */
+  async restoreRevision(): Promise<boolean> {
+    try {
+      const restore = this.page.locator(this.restoreButton);
+      if (await restore.isDisabled()) {
+        SmartLogger.logUserAction('restore skipped - current revision selected', this.restoreButton);
+        return false;
+      }
+
+      const { to } = await this.getSelectedRevisions();
+      await elementHelper.clickElement(this.page, restore);
+      await this.page.waitForURL(/post\.php.*action=edit/, { timeout: this.envManager.getNavigationTimeout() });
+      SmartLogger.logUserAction('restored revision', this.restoreButton, String(to));
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * Move a slider handle one key press per step; the router updates the URL after each move
+   * @private
+   */
+  private async moveHandle(handle: string, fromIndex: number, toIndex: number): Promise<void> {
+    const key = toIndex > fromIndex ? 'ArrowRight' : 'ArrowLeft';
+    for (let step = 0; step < Math.abs(toIndex - fromIndex); step++) {
+      await this.changingSelection(() => this.page.locator(handle).press(key));
+    }
+  }
+
+  /**
+   * Run an action that changes the shown revisions and wait for the new URL and diff
+   * @private
+   */
+  private async changingSelection(action: () => Promise<void>): Promise<void> {
+    const previousUrl = this.page.url();
+    await action();
+    await this.page.waitForURL(url => url.toString() !== previousUrl, { timeout: this.envManager.getNavigationTimeout() });
+    await this.waitForLoad();
+  }
+}
+
+export default RevisionsPage;
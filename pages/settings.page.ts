@@ -0,0 +1,291 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+
+/**
+ * How a setting's control is read and written:
+ * - text / number: an input; number fields read back as numbers
+ * - checkbox: ticked or not
+ * - select: the selected option's value; `numeric` selects (IDs) read back as numbers
+ * - radio: the checked radio of a group; with `custom`, values that match no radio go to the Custom field
+ */
+export interface SettingsField {
+  kind: 'text' | 'number' | 'checkbox' | 'select' | 'radio';
+  /** Control selector; for radios, the whole group (e.g. input[name="date_format"]) */
+  selector: string;
+  numeric?: boolean;
+  /** "Custom" radio and its text field (Date Format, Time Format, Custom Structure) */
+  custom?: { radio: string; input: string };
+}
+
+/**
+ * WordPress Settings Page Object Model
+ * Shared base of the Settings screens (options-general.php, options-writing.php, options-reading.php,
+ * options-discussion.php, options-media.php and options-permalink.php)
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/options-general.php
+ * Every screen is one form with a Save Changes button; saving reloads the screen with "Settings saved."
+ * ("Permalink structure updated." on Permalinks) or with one error per rejected value - the other values are
+ * saved regardless. Screens describe their fields once (`fields`), and getSettings() / updateSettings() read and
+ * write them as a typed object. Settings are site-wide, so a test that changes them takes a snapshot() first
+ * and restore()s it afterwards - the settings fixture does both.
+ */
+export abstract class SettingsPage<TSettings extends object> extends BasePage {
+  protected envManager = EnvironmentManager.getInstance();
+
+  constructor(page: Page) {
+    super(page, 'form[action="options.php"], form[action="options-permalink.php"]'); // Settings form as identifier
+  }
+
+  /**
+   * Path of the screen under wp-admin/, e.g. 'options-general.php'
+   */
+  abstract get screenPath(): string;
+
+  /**
+   * Controls of the screen's settings
+   */
+  protected abstract get fields(): Record<keyof TSettings, SettingsField>;
+
+  // ===== SELECTORS (Based on live site inspection) =====
+
+  get pageTitle(): string {
+    return '.wrap h1';
+  }
+
+  get settingsForm(): string {
+    return '.wrap form[method="post"]';
+  }
+
+  get saveButton(): string {
+    return '.wrap form #submit';
+  }
+
+  // Messages
+  get successNotice(): string {
+    return '#setting-error-settings_updated';
+  }
+
+  get errorNotices(): string {
+    return '.settings-error.notice-error';
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Navigate directly to the settings screen
+   */
+  async navigate(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/${this.screenPath}`);
+      await this.waitForPageShown();
+      SmartLogger.logUserAction('navigated to settings screen', this.screenPath);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Check if the settings screen is loaded
+   */
+  async isSettingsPageLoaded(): Promise<boolean> {
+    try {
+      const onScreen = new URL(this.page.url()).pathname.endsWith(`/${this.screenPath}`);
+      const formVisible = await elementHelper.isElementDisplayed(this.page.locator(this.settingsForm));
+      const isLoaded = onScreen && formVisible;
+      SmartLogger.logAssertion(`${this.screenPath} loaded verification`, true, isLoaded, isLoaded);
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Messages of the errors shown after saving, one per rejected value
+   */
+  async getErrors(): Promise<string[]> {
+    try {
+      const errors = (await this.page.locator(this.errorNotices).allTextContents()).map(text => text.trim());
+      SmartLogger.logUserAction('read settings errors', this.errorNotices, errors.join(' | '));
+      return errors;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return [];
+    }
+  }
+
+  // ===== SETTINGS METHODS =====
+
+  /**
+   * Read every setting of the screen
+   */
+  async getSettings(): Promise<TSettings> {
+    try {
+      const settings: Record<string, string | number | boolean> = {};
+      for (const [key, field] of Object.entries(this.fields) as Array<[string, SettingsField]>) {
+        settings[key] = await this.readField(field);
+      }
+      SmartLogger.logUserAction('read settings', this.screenPath, Object.keys(settings).join(', '));
+      return settings as TSettings;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Change settings on the open screen and save them
+   * @returns Promise<boolean> - True if the screen reloads with its success notice and no errors
+   */
+  async updateSettings(changes: Partial<TSettings>): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('updating settings', this.screenPath, Object.keys(changes).join(', '));
+
+      const fields = this.fields;
+      for (const [key, value] of Object.entries(changes) as Array<[keyof TSettings, string | number | boolean | undefined]>) {
+        if (value !== undefined) {
+          await this.writeField(fields[key], value);
+        }
+      }
+      return await this.save();
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Open the screen and record its current settings, to hand to restore() later
+   */
+  async snapshot(): Promise<TSettings> {
+    await this.navigate();
+    const settings = await this.getSettings();
+    SmartLogger.log('INFO', `Settings snapshot of ${this.screenPath}`, settings);
+    return settings;
+  }
+
+  /**
+   * Open the screen and write a snapshot back
+   * @returns Promise<boolean> - True if every value was saved
+   */
+  async restore(snapshot: TSettings): Promise<boolean> {
+    await this.navigate();
+    const restored = await this.updateSettings(snapshot);
+    SmartLogger.logUserAction('restored settings', this.screenPath, restored.toString());
+    return restored;
+  }
+
+  // ===== PROTECTED HELPERS =====
+
+  /**
+   * One setting of the open screen
+   */
+  protected async getSetting<K extends keyof TSettings>(key: K): Promise<TSettings[K]> {
+    try {
+      const value = await this.readField(this.fields[key]) as TSettings[K];
+      SmartLogger.logUserAction('read setting', String(key), String(value));
+      return value;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Change one setting of the open screen and save it
+   */
+  protected async setSetting<K extends keyof TSettings>(key: K, value: TSettings[K]): Promise<boolean> {
+    const changes: Partial<TSettings> = {};
+    changes[key] = value;
+    return this.updateSettings(changes);
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * @private
+   */
+  private async readField(field: SettingsField): Promise<string | number | boolean> {
+    const control = this.page.locator(field.selector);
+    switch (field.kind) {
+      case 'checkbox':
+        return control.isChecked();
+      case 'number':
+        return Number(await control.inputValue());
+      case 'select': {
+        const value = await control.inputValue();
+        return field.numeric ? Number(value) : value;
+      }
+      case 'radio': {
+        if (field.custom && await this.page.locator(field.custom.radio).isChecked()) {
+          return this.page.locator(field.custom.input).inputValue();
+        }
+        const checked = await control.evaluateAll(radios =>
+          (radios as HTMLInputElement[]).find(radio => radio.checked)?.value);
+        return checked ?? '';
+      }
+      default:
+        return control.inputValue();
+    }
+  }
+
+  /**
+   * @private
+   */
+  private async writeField(field: SettingsField, value: string | number | boolean): Promise<void> {
+    switch (field.kind) {
+      case 'checkbox':
+        if (await elementHelper.isElementChecked(this.page, field.selector) !== value) {
+          await elementHelper.toggleCheckbox(this.page, field.selector);
+        }
+        return;
+      case 'select':
+        await elementHelper.selectOptionValue(this.page, field.selector, String(value));
+        return;
+      case 'radio': {
+        const values = await this.page.locator(field.selector).evaluateAll(radios =>
+          radios.map(radio => (radio as HTMLInputElement).value));
+        const index = values.indexOf(String(value));
+        const customIndex = field.custom ? values.indexOf(await this.page.locator(field.custom.radio).inputValue()) : -1;
+        if (index !== -1 && index !== customIndex) {
+          await elementHelper.clickElement(this.page, field.selector, index);
+          return;
+        }
+        if (!field.custom) {
+          throw new Error(`No "${value}" choice for ${field.selector}`);
+        }
+        await elementHelper.clickElement(this.page, field.custom.radio);
+        await elementHelper.clearAndEnterValue(this.page, field.custom.input, String(value));
+        return;
+      }
+      default:
+        await elementHelper.clearAndEnterValue(this.page, field.selector, String(value));
+    }
+  }
+
+  /**
+   * Submit the form and check the notices of the reloaded screen
+   * @private
+   */
+  private async save(): Promise<boolean> {
+    // options.php redirects back to the screen, with the settings errors if any
+    const loaded = this.page.waitForEvent('load', { timeout: this.envManager.getNavigationTimeout() });
+    await elementHelper.clickElement(this.page, this.saveButton);
+    await loaded;
+
+    const errors = await this.getErrors();
+    const saved = errors.length === 0 && await this.page.locator(this.successNotice).isVisible();
+    SmartLogger.logUserAction('settings save result', this.saveButton, saved ? 'saved' : errors.join(' | ') || 'no notice');
+    return saved;
+  }
+}
+
+export default SettingsPage;
@@ -0,0 +1,239 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+import { TestDataRegistry } from '../utils/test-data-registry.utils';
+
+/**
+ * Comment form values; name and email are only asked of visitors who are not logged in
+ */
+export interface CommentFormData {
+  content: string;
+  author?: string;
+  email?: string;
+  website?: string;
+}
+
+/**
+ * A comment of the post's thread as the visitor sees it
+ */
+export interface PostComment {
+  id: number;
+  author: string;
+  content: string;
+  /** Shown to the comment's author while it waits for moderation */
+  awaitingModeration: boolean;
+}
+
+/**
+ * WordPress Single Post Page Object Model
+ * Handles a post on the front end (/?p=N): its comment thread and the comment form
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc single posts
+ * The form posts to wp-comments-post.php, which redirects back to the post at #comment-N - with
+ * ?unapproved=N&moderation-hash=... when the comment waits for moderation, so its author still sees it -
+ * or shows a wp_die() error screen when the comment is refused.
+ */
+export class SinglePostPage extends BasePage {
+  private envManager = EnvironmentManager.getInstance();
+  private dataRegistry = TestDataRegistry.getInstance();
+
+  constructor(page: Page) {
+    super(page, 'article[id^="post-"]'); // Post article as identifier
+  }
+
+  // ===== SELECTORS (Based on live site inspection) =====
+
+  get postTitle(): string {
+    return 'article[id^="post-"] .entry-title';
+  }
+
+  get commentList(): string {
+    return '#comments .comment-list';
+  }
+
+  getComment(id: number): string {
+    return `#comments li#comment-${id}`;
+  }
+
+  get commentsClosedNotice(): string {
+    return '#comments .no-comments';
+  }
+
+  // Comment form
+  get commentForm(): string {
+    return '#commentform';
+  }
+
+  get commentField(): string {
+    return '#commentform #comment';
+  }
+
+  get authorField(): string {
+    return '#commentform #author';
+  }
+
+  get emailField(): string {
+    return '#commentform #email';
+  }
+
+  get websiteField(): string {
+    return '#commentform #url';
+  }
+
+  get submitButton(): string {
+    return '#commentform #submit';
+  }
+
+  // wp_die() screen of a refused comment
+  get errorMessage(): string {
+    return '#error-page .wp-die-message';
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Open a post on the front end by ID
+   */
+  async navigateToPost(postId: number): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/?p=${postId}`);
+      await this.waitForPageShown();
+      SmartLogger.logUserAction('navigated to post', '/?p=', String(postId));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Check if the post takes comments (the comment form is shown)
+   */
+  async areCommentsOpen(): Promise<boolean> {
+    try {
+      const open = await elementHelper.isElementDisplayed(this.page.locator(this.commentForm), 3000);
+      SmartLogger.logUserAction('checked comments open', this.commentForm, open.toString());
+      return open;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a comment is shown in the thread
+   */
+  async isCommentVisible(id: number): Promise<boolean> {
+    try {
+      const visible = await this.page.locator(this.getComment(id)).isVisible();
+      SmartLogger.logUserAction('checked comment visible', this.getComment(id), visible.toString());
+      return visible;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a comment carries "Your comment is awaiting moderation."
+   */
+  async isCommentAwaitingModeration(id: number): Promise<boolean> {
+    try {
+      const note = this.page.locator(`${this.getComment(id)} > article .comment-awaiting-moderation`);
+      const awaiting = await note.isVisible();
+      SmartLogger.logUserAction('checked comment awaiting moderation', this.getComment(id), awaiting.toString());
+      return awaiting;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Message of the error screen WordPress shows for a refused comment, or an empty string
+   */
+  async getErrorMessage(): Promise<string> {
+    try {
+      const message = this.page.locator(this.errorMessage);
+      const text = await message.count() > 0 ? (await message.locator('p').first().textContent() || '').trim() : '';
+      SmartLogger.logUserAction('read comment error', this.errorMessage, text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  // ===== COMMENT METHODS =====
+
+  /**
+   * Comments of the thread in page order, replies after their parent
+   */
+  async getComments(): Promise<PostComment[]> {
+    try {
+      const comments = await this.page.locator(`${this.commentList} li[id^="comment-"]`).evaluateAll(items =>
+        items.map(item => {
+          const body = item.querySelector(':scope > article');
+          return {
+            id: Number(item.id.replace('comment-', '')),
+            author: (body?.querySelector('.fn')?.textContent || '').trim(),
+            content: (body?.querySelector('.comment-content')?.textContent || '').trim(),
+            awaitingModeration: !!body?.querySelector('.comment-awaiting-moderation')
+          };
+        }));
+      SmartLogger.logUserAction('retrieved post comments', this.commentList, String(comments.length));
+      return comments;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Fill in and submit the comment form of the open post
+   * @returns Promise<number | null> - ID of the new comment, or null when WordPress refused it
+   */
+  async submitComment(data: CommentFormData): Promise<number | null> {
+    try {
+      SmartLogger.logUserAction('submitting comment', this.commentForm, data.author || 'current user');
+
+      await elementHelper.enterValue(this.page, this.commentField, data.content);
+      // Logged-in users comment under their account and get no author fields
+      const fields: Array<[string | undefined, string]> = [
+        [data.author, this.authorField],
+        [data.email, this.emailField],
+        [data.website, this.websiteField]
+      ];
+      for (const [value, field] of fields) {
+        if (value !== undefined && await this.page.locator(field).count() > 0) {
+          await elementHelper.enterValue(this.page, field, value);
+        }
+      }
+
+      // Both the redirect back to the post and the error screen are full page loads
+      const loaded = this.page.waitForEvent('load', { timeout: this.envManager.getNavigationTimeout() });
+      await elementHelper.clickElement(this.page, this.submitButton);
+      await loaded;
+
+      const match = new URL(this.page.url()).hash.match(/^#comment-(\d+)$/);
+      const commentId = match ? Number(match[1]) : null;
+      if (commentId) {
+        this.dataRegistry.register('comment', data.content, 'ui', commentId);
+      } else {
+        SmartLogger.log('WARN', `Comment refused: ${await this.getErrorMessage()}`);
+      }
+      SmartLogger.logUserAction('comment submit result', this.submitButton, String(commentId));
+      return commentId;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return null;
+    }
+  }
+}
+
+export default SinglePostPage;
@@ -0,0 +1,116 @@
+import { Page } from '@playwright/test';
+import { TaxonomyPage } from './taxonomy.page';
+
+/**
+ * WordPress Tags Page Object Model
+ * Handles all interactions with the WordPress tags management page (edit-tags.php?taxonomy=post_tag)
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Same screen as categories without the parent dropdown. The screen flows live in TaxonomyPage;
+ * this class keeps the tag-named API the specs use.
+ */
+export class TagsPage extends TaxonomyPage {
+  constructor(page: Page) {
+    super(page, 'post_tag', { hierarchical: false, label: 'tag' });
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Check if tags page is loaded
+   */
+  async isTagsPageLoaded(): Promise<boolean> {
+    return this.isTaxonomyPageLoaded();
+  }
+
+  /**
+   * Open the posts list filtered by a tag through its Count column link
+   */
+  async openTaggedPosts(tagName: string): Promise<void> {
+    return this.openTermPosts(tagName);
+  }
+
+  // ===== TAG MANAGEMENT METHODS =====
+
+  /**
+   * Create a new tag
+   * @returns Promise<boolean> - True if WordPress confirmed the tag and it is listed
+   */
+  async createTag(name: string, slug?: string, description?: string): Promise<boolean> {
+    return this.createTerm(name, slug, description);
+  }
+
+  /**
+   * Edit an existing tag on its edit screen (term.php)
+   */
+  async editTag(currentName: string, newName?: string, newSlug?: string, newDescription?: string): Promise<boolean> {
+    return this.editTerm(currentName, newName, newSlug, newDescription);
+  }
+
+  /**
+   * Rename a tag (and optionally change its slug) through Quick Edit
+   */
+  async quickEditTag(currentName: string, newName: string, newSlug?: string): Promise<boolean> {
+    return this.quickEditTerm(currentName, newName, newSlug);
+  }
+
+  /**
+   * Delete a tag from its row actions
+   */
+  async deleteTag(tagName: string): Promise<boolean> {
+    return this.deleteTerm(tagName);
+  }
+
+  /**
+   * Search for tags
+   */
+  async searchTags(searchTerm: string): Promise<void> {
+    return this.searchTerms(searchTerm);
+  }
+
+  /**
+   * Get all tag names from the table
+   */
+  async getAllTagNames(): Promise<string[]> {
+    return this.getAllTermNames();
+  }
+
+  /**
+   * Check if a tag exists in the table
+   */
+  async tagExists(tagName: string): Promise<boolean> {
+    return this.termExists(tagName);
+  }
+
+  /**
+   * Get number of tags listed in the table
+   */
+  async getTagCount(): Promise<number> {
+    return this.getTermCount();
+  }
+
+  /**
+   * Get the Count column of a tag - the number of published posts using it
+   */
+  async getTagPostCount(tagName: string): Promise<number> {
+    return this.getTermPostCount(tagName);
+  }
+
+  /**
+   * Get the slug column of a tag
+   */
+  async getTagSlug(tagName: string): Promise<string> {
+    return this.getTermSlug(tagName);
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Verify all tag form elements are visible
+   */
+  async verifyAllTagFormElementsVisible(): Promise<boolean> {
+    return this.verifyAllFormElementsVisible();
+  }
+}
+
+export default TagsPage;
@@ -0,0 +1,748 @@
+import { Dialog, Locator, Page } from '@playwright/test';
+import { ListTablePage, ListTableRawRow } from './list-table.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { TestDataRegistry, TrackedEntityType, termEntityType } from '../utils/test-data-registry.utils';
+
+export interface TaxonomyPageOptions {
+  /** Hierarchical taxonomies (like categories) have a Parent dropdown on the add and edit forms */
+  hierarchical: boolean;
+  /** Singular name used in logs, e.g. 'category'; defaults to the taxonomy slug */
+  label?: string;
+  /** Post type the screen belongs to when the taxonomy is not registered for posts */
+  postType?: string;
+}
+
+/**
+ * Columns of a term list; all but the name can be hidden, and all are sortable
+ */
+export type TermListColumn = 'name' | 'description' | 'slug' | 'posts';
+
+/**
+ * A term as listed on edit-tags.php
+ */
+export interface TermListRow {
+  id: number;
+  /** Name without the "— " child term prefix */
+  name: string;
+  slug: string;
+  description: string;
+  /** Count column - published posts using the term */
+  count: number;
+  /** Parent term ID, 0 at the top level */
+  parent: number;
+  /** Indentation level in the hierarchy; 0 when the list is searched or sorted by a column */
+  depth: number;
+}
+
+/**
+ * WordPress Taxonomy Page Object Model
+ * Handles the term management screens every taxonomy shares (edit-tags.php?taxonomy=<slug> and term.php)
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * CategoriesPage and TagsPage build on this class; taxonomies registered by plugins can use it
+ * directly through PageFactory.getTaxonomyPage(). Adding, quick editing and row deletes run over
+ * admin-ajax without a reload, so results are verified against the list table rather than only
+ * the notices. Pagination, sorting and Screen Options come from ListTablePage, with TermListRow rows.
+ */
+export class TaxonomyPage extends ListTablePage<TermListRow, TermListColumn> {
+  protected dataRegistry = TestDataRegistry.getInstance();
+  readonly taxonomy: string;
+  readonly hierarchical: boolean;
+  protected label: string;
+  private postType?: string;
+
+  constructor(page: Page, taxonomy: string, options: TaxonomyPageOptions) {
+    super(page, '.wrap h1'); // Term screens have main heading as identifier
+    this.taxonomy = taxonomy;
+    this.hierarchical = options.hierarchical;
+    this.label = options.label || taxonomy;
+    this.postType = options.postType;
+  }
+
+  // ===== SELECTORS (Based on WordPress standard structure) =====
+
+  // Page structure elements
+  get pageTitle(): string {
+    return '.wrap h1'; // Plural taxonomy name, e.g. "Categories"
+  }
+
+  get addNewTermForm(): string {
+    return '#col-left'; // Left column with add new term form
+  }
+
+  get termsTable(): string {
+    return '#the-list'; // Main terms table
+  }
+
+  get termsTableRows(): string {
+    return '#the-list tr[id^="tag-"]';
+  }
+
+  // Add new term form elements
+  get nameField(): string {
+    return '#tag-name';
+  }
+
+  get slugField(): string {
+    return '#tag-slug';
+  }
+
+  get descriptionField(): string {
+    return '#tag-description';
+  }
+
+  get parentDropdown(): string {
+    return '#parent'; // Hierarchical taxonomies only
+  }
+
+  get addTermButton(): string {
+    return '#submit';
+  }
+
+  // Edit term screen (term.php) elements
+  get editNameField(): string {
+    return '#edittag input[name="name"]';
+  }
+
+  get editSlugField(): string {
+    return '#edittag input[name="slug"]';
+  }
+
+  get editDescriptionField(): string {
+    return '#edittag textarea[name="description"]';
+  }
+
+  get updateTermButton(): string {
+    return '#edittag .edit-tag-actions input[type="submit"]';
+  }
+
+  // Quick edit row elements
+  get quickEditRow(): string {
+    return '#the-list tr.inline-edit-row';
+  }
+
+  get quickEditNameField(): string {
+    return `${this.quickEditRow} input[name="name"]`;
+  }
+
+  get quickEditSlugField(): string {
+    return `${this.quickEditRow} input[name="slug"]`;
+  }
+
+  get quickEditSaveButton(): string {
+    return `${this.quickEditRow} .inline-edit-save .save`;
+  }
+
+  get quickEditError(): string {
+    return `${this.quickEditRow} .inline-edit-save .notice-error:not(.hidden) .error`;
+  }
+
+  // Terms table elements
+  get searchBox(): string {
+    return '#tag-search-input';
+  }
+
+  get searchButton(): string {
+    return '#search-submit';
+  }
+
+  // Bulk actions
+  get bulkActionsDropdown(): string {
+    return '#bulk-action-selector-top';
+  }
+
+  get applyBulkActionButton(): string {
+    return '#doaction';
+  }
+
+  // Individual term actions (dynamic selectors)
+  // Rows are matched on WordPress' hidden inline data, which holds the name without the "— " child prefix
+  getTermRow(termName: string): Locator {
+    return this.getRowByCellText('[id^="inline_"] .name', termName);
+  }
+
+  getTermEditLink(termName: string): Locator {
+    return this.getTermRow(termName).locator('.row-actions .edit a');
+  }
+
+  getTermQuickEditButton(termName: string): Locator {
+    return this.getTermRow(termName).locator('.row-actions .editinline');
+  }
+
+  getTermDeleteLink(termName: string): Locator {
+    return this.getTermRow(termName).locator('.row-actions .delete a');
+  }
+
+  getTermCheckbox(termName: string): Locator {
+    return this.getTermRow(termName).locator('.check-column input[type="checkbox"]');
+  }
+
+  getTermCountLink(termName: string): Locator {
+    return this.getTermRow(termName).locator('.column-posts a');
+  }
+
+  // Success/error messages
+  get successMessage(): string {
+    return '.notice.notice-success:not(.hidden), .updated:not(.hidden)';
+  }
+
+  get errorMessage(): string {
+    return '.notice.notice-error:not(.hidden), .error:not(.hidden)';
+  }
+
+  /**
+   * Path of the term list screen for this taxonomy
+   */
+  get listPath(): string {
+    const postType = this.postType ? `&post_type=${this.postType}` : '';
+    return `edit-tags.php?taxonomy=${this.taxonomy}${postType}`;
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Navigate to the term list screen
+   */
+  async navigate(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/${this.listPath}`);
+      await this.waitForLoad();
+      SmartLogger.logUserAction(`navigated to ${this.label} page`, this.listPath);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for the term list screen to load
+   */
+  async waitForLoad(): Promise<void> {
+    try {
+      await elementHelper.waitForDisplayed(this.page, this.pageTitle, this.envManager.getTimeout());
+      await elementHelper.waitForDisplayed(this.page, this.addNewTermForm, this.envManager.getTimeout());
+      SmartLogger.logUserAction(`waited for ${this.label} page to load`, this.pageTitle);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if the term list screen is loaded
+   */
+  async isTaxonomyPageLoaded(): Promise<boolean> {
+    try {
+      const titleExists = await elementHelper.isElementDisplayed(this.page.locator(this.pageTitle));
+      const formExists = await elementHelper.isElementDisplayed(this.page.locator(this.addNewTermForm));
+      const isLoaded = titleExists && formExists;
+      SmartLogger.logUserAction(`verified ${this.label} page loaded`, this.pageTitle, isLoaded.toString());
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if the current user is allowed to manage terms of this taxonomy.
+   * Opens the screen without waiting for the form, since users lacking the
+   * taxonomy's manage_terms capability get a wp_die() page instead
+   */
+  async canManageTerms(): Promise<boolean> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/${this.listPath}`);
+      await this.page.waitForLoadState('domcontentloaded');
+
+      if (await this.isAccessDenied()) {
+        SmartLogger.logUserAction(`checked ${this.label} management capability`, this.listPath, 'false');
+        return false;
+      }
+
+      const formVisible = await elementHelper.isElementDisplayed(this.page.locator(this.addNewTermForm), 5000);
+      SmartLogger.logUserAction(`checked ${this.label} management capability`, this.addNewTermForm, formVisible.toString());
+      return formVisible;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Open the posts list filtered by a term through its Count column link
+   */
+  async openTermPosts(termName: string): Promise<void> {
+    try {
+      await elementHelper.clickElement(this.page, this.getTermCountLink(termName));
+      await this.page.waitForLoadState('domcontentloaded');
+      SmartLogger.logUserAction(`opened posts with ${this.label}`, this.getTermCountLink(termName).toString(), termName);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== TERM MANAGEMENT METHODS =====
+
+  /**
+   * Create a new term
+   * @param parent - Parent term name or ID, hierarchical taxonomies only
+   * @returns Promise<boolean> - True if WordPress confirmed the term and it is listed
+   */
+  async createTerm(name: string, slug?: string, description?: string, parent?: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction(`creating new ${this.label}`, `${this.label} form`, name);
+
+      // Fill term name (required)
+      await elementHelper.enterValue(this.page, this.nameField, name);
+      SmartLogger.logUserAction(`filled ${this.label} name`, this.nameField, name);
+
+      if (slug) {
+        await elementHelper.enterValue(this.page, this.slugField, slug);
+        SmartLogger.logUserAction(`filled ${this.label} slug`, this.slugField, slug);
+      }
+
+      if (description) {
+        await elementHelper.enterValue(this.page, this.descriptionField, description);
+        SmartLogger.logUserAction(`filled ${this.label} description`, this.descriptionField, description);
+      }
+
+      if (parent) {
+        if (!this.hierarchical) {
+          throw new Error(`Taxonomy "${this.taxonomy}" is not hierarchical - cannot set parent "${parent}"`);
+        }
+        await elementHelper.selectOptionValue(this.page, this.parentDropdown, parent);
+        SmartLogger.logUserAction(`selected parent ${this.label}`, this.parentDropdown, parent);
+      }
+
+      await elementHelper.clickElement(this.page, this.addTermButton);
+      SmartLogger.logUserAction(`clicked add ${this.label} button`, this.addTermButton);
+
+      // Core adds the row over admin-ajax (action=add-tag) - wait for the request and the list to settle
+      await this.page.waitForLoadState('networkidle');
+      await this.waitForLoad();
+
+      const success = await this.isSuccessMessageVisible() && await this.termExists(name);
+      SmartLogger.logUserAction(`${this.label} creation result`, 'success', success.toString());
+      if (success) {
+        this.dataRegistry.register(this.entityType, name, 'ui');
+      }
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Edit an existing term on its edit screen (term.php)
+   */
+  async editTerm(currentName: string, newName?: string, newSlug?: string, newDescription?: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction(`editing ${this.label}`, `${this.label} edit`, currentName);
+
+      if (!await this.termExists(currentName)) {
+        SmartLogger.logUserAction(`${this.label} not found for editing`, 'error', currentName);
+        return false;
+      }
+
+      await this.revealRowActions(currentName);
+      await elementHelper.clickElement(this.page, this.getTermEditLink(currentName));
+      SmartLogger.logUserAction(`clicked ${this.label} edit link`, this.getTermEditLink(currentName).toString(), currentName);
+
+      await this.page.waitForLoadState('domcontentloaded');
+      await elementHelper.waitForDisplayed(this.page, this.editNameField, this.envManager.getTimeout());
+
+      if (newName) {
+        await elementHelper.clearAndEnterValue(this.page, this.editNameField, newName);
+        SmartLogger.logUserAction(`updated ${this.label} name`, this.editNameField, newName);
+      }
+
+      if (newSlug) {
+        await elementHelper.clearAndEnterValue(this.page, this.editSlugField, newSlug);
+        SmartLogger.logUserAction(`updated ${this.label} slug`, this.editSlugField, newSlug);
+      }
+
+      if (newDescription) {
+        await elementHelper.clearAndEnterValue(this.page, this.editDescriptionField, newDescription);
+        SmartLogger.logUserAction(`updated ${this.label} description`, this.editDescriptionField, newDescription);
+      }
+
+      await elementHelper.clickElement(this.page, this.updateTermButton);
+      SmartLogger.logUserAction(`clicked update ${this.label} button`, this.updateTermButton);
+
+      await this.page.waitForLoadState('networkidle');
+
+      const success = await this.isSuccessMessageVisible();
+      SmartLogger.logUserAction(`${this.label} edit result`, 'success', success.toString());
+      if (success && newName) {
+        this.dataRegistry.rename(this.entityType, currentName, newName);
+      }
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Rename a term (and optionally change its slug) through the list table's Quick Edit row
+   * @returns Promise<boolean> - True if the row now shows the new name
+   */
+  async quickEditTerm(currentName: string, newName: string, newSlug?: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction(`quick editing ${this.label}`, 'quick edit', currentName);
+
+      if (!await this.termExists(currentName)) {
+        SmartLogger.logUserAction(`${this.label} not found for quick edit`, 'error', currentName);
+        return false;
+      }
+
+      await this.revealRowActions(currentName);
+      await elementHelper.clickElement(this.page, this.getTermQuickEditButton(currentName));
+      await elementHelper.waitForDisplayed(this.page, this.quickEditRow, this.envManager.getTimeout());
+
+      await elementHelper.clearAndEnterValue(this.page, this.quickEditNameField, newName);
+      SmartLogger.logUserAction('updated quick edit name', this.quickEditNameField, newName);
+
+      if (newSlug) {
+        await elementHelper.clearAndEnterValue(this.page, this.quickEditSlugField, newSlug);
+        SmartLogger.logUserAction('updated quick edit slug', this.quickEditSlugField, newSlug);
+      }
+
+      await elementHelper.clickElement(this.page, this.quickEditSaveButton);
+      SmartLogger.logUserAction('clicked quick edit save', this.quickEditSaveButton);
+
+      // The inline row is replaced by the updated row on success and stays open with an error otherwise
+      const saved = await elementHelper.waitForElementRemoved(this.page, this.quickEditRow, this.envManager.getActionTimeout());
+      if (!saved) {
+        const errorText = await this.page.locator(this.quickEditError).textContent().catch(() => '');
+        SmartLogger.logUserAction('quick edit rejected', this.quickEditError, errorText || 'no error shown');
+        return false;
+      }
+
+      const success = await this.termExists(newName);
+      SmartLogger.logUserAction(`${this.label} quick edit result`, 'success', success.toString());
+      if (success) {
+        this.dataRegistry.rename(this.entityType, currentName, newName);
+      }
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a term from its row actions
+   * @returns Promise<boolean> - True if the row is gone afterwards
+   */
+  async deleteTerm(termName: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction(`deleting ${this.label}`, `${this.label} delete`, termName);
+
+      if (!await this.termExists(termName)) {
+        SmartLogger.logUserAction(`${this.label} not found for deletion`, 'error', termName);
+        return false;
+      }
+
+      await this.revealRowActions(termName);
+      await this.acceptingConfirmation(async () => {
+        await elementHelper.clickElement(this.page, this.getTermDeleteLink(termName));
+        SmartLogger.logUserAction(`clicked ${this.label} delete link`, this.getTermDeleteLink(termName).toString(), termName);
+        await this.page.waitForLoadState('networkidle');
+      });
+
+      const success = await elementHelper.waitForElementRemoved(this.page, this.getTermRow(termName), this.envManager.getActionTimeout());
+      SmartLogger.logUserAction(`${this.label} deletion result`, 'success', success.toString());
+      if (success) {
+        this.dataRegistry.markDeleted(this.entityType, termName);
+      }
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Search the term list
+   */
+  async searchTerms(searchTerm: string): Promise<void> {
+    try {
+      SmartLogger.logUserAction(`searching ${this.label} terms`, this.searchBox, searchTerm);
+
+      await elementHelper.clearAndEnterValue(this.page, this.searchBox, searchTerm);
+      await elementHelper.clickElement(this.page, this.searchButton);
+
+      await this.page.waitForLoadState('networkidle');
+      await this.waitForLoad();
+
+      SmartLogger.logUserAction(`completed ${this.label} search`, this.searchButton, searchTerm);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all term names from the table
+   */
+  async getAllTermNames(): Promise<string[]> {
+    try {
+      const names = (await this.page.locator(`${this.termsTableRows} [id^="inline_"] .name`).allTextContents())
+        .map(name => name.trim())
+        .filter(Boolean);
+      SmartLogger.logUserAction(`retrieved ${this.label} names`, this.termsTableRows, names.join(', '));
+      return names;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return [];
+    }
+  }
+
+  /**
+   * Check if a term exists in the table
+   */
+  async termExists(termName: string): Promise<boolean> {
+    try {
+      const exists = await this.getTermRow(termName).count() > 0;
+      SmartLogger.logUserAction(`checked ${this.label} exists`, `${this.label} existence`, `${termName}: ${exists}`);
+      return exists;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Get number of terms listed in the table
+   */
+  async getTermCount(): Promise<number> {
+    try {
+      const count = await this.page.locator(this.termsTableRows).count();
+      SmartLogger.logUserAction(`retrieved ${this.label} count`, this.termsTableRows, count.toString());
+      return count;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the Count column of a term - the number of published posts using it
+   * @returns Promise<number> - Post count, or -1 if the term is not listed
+   */
+  async getTermPostCount(termName: string): Promise<number> {
+    try {
+      if (!await this.termExists(termName)) {
+        return -1;
+      }
+      const countText = await this.getTermCountLink(termName).textContent() || '';
+      const count = Number(countText.replace(/\D/g, '')) || 0;
+      SmartLogger.logUserAction(`retrieved ${this.label} post count`, this.getTermCountLink(termName).toString(), `${termName}: ${count}`);
+      return count;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return -1;
+    }
+  }
+
+  /**
+   * Get the slug column of a term
+   */
+  async getTermSlug(termName: string): Promise<string> {
+    try {
+      const slug = (await this.getTermRow(termName).locator('.column-slug').textContent() || '').trim();
+      SmartLogger.logUserAction(`retrieved ${this.label} slug`, this.getTermRow(termName).toString(), slug);
+      return slug;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  /**
+   * Perform bulk action on selected terms
+   */
+  async performBulkAction(action: 'delete', termNames: string[]): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('performing bulk action', 'bulk actions', `${action} on ${termNames.length} ${this.label} terms`);
+
+      for (const termName of termNames) {
+        await elementHelper.hoverElement(this.page, this.getTermRow(termName));
+        await elementHelper.clickElement(this.page, this.getTermCheckbox(termName));
+        SmartLogger.logUserAction(`selected ${this.label} checkbox`, this.getTermCheckbox(termName).toString(), termName);
+      }
+
+      await elementHelper.selectOptionValue(this.page, this.bulkActionsDropdown, action);
+      SmartLogger.logUserAction('selected bulk action', this.bulkActionsDropdown, action);
+
+      await this.acceptingConfirmation(async () => {
+        await elementHelper.clickElement(this.page, this.applyBulkActionButton);
+        SmartLogger.logUserAction('applied bulk action', this.applyBulkActionButton, action);
+        await this.page.waitForLoadState('networkidle');
+      });
+
+      const success = await this.isSuccessMessageVisible();
+      SmartLogger.logUserAction('bulk action result', 'success', success.toString());
+      if (success && action === 'delete') {
+        termNames.forEach(termName => this.dataRegistry.markDeleted(this.entityType, termName));
+      }
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Check if success message is visible
+   */
+  async isSuccessMessageVisible(): Promise<boolean> {
+    try {
+      const visible = await elementHelper.isElementDisplayed(this.page.locator(this.successMessage).first(), 2000);
+      SmartLogger.logUserAction('checked success message', this.successMessage, visible.toString());
+      return visible;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if error message is visible
+   */
+  async isErrorMessageVisible(): Promise<boolean> {
+    try {
+      const visible = await elementHelper.isElementDisplayed(this.page.locator(this.errorMessage).first(), 2000);
+      SmartLogger.logUserAction('checked error message', this.errorMessage, visible.toString());
+      return visible;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Get the text of the visible success or error notice, e.g. "Tag added."
+   */
+  async getNoticeText(): Promise<string> {
+    try {
+      const notice = this.page.locator(`${this.successMessage}, ${this.errorMessage}`).first();
+      const text = await elementHelper.isElementDisplayed(notice, 2000) ? (await notice.innerText()).trim() : '';
+      SmartLogger.logUserAction('retrieved notice text', 'notice', text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  /**
+   * Get page heading text
+   */
+  async getPageTitle(): Promise<string> {
+    try {
+      const title = await this.page.locator(this.pageTitle).textContent() || '';
+      SmartLogger.logUserAction('retrieved page title', this.pageTitle, title);
+      return title.trim();
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  /**
+   * Verify all add-term form elements are visible - including Parent for hierarchical taxonomies
+   * and, for flat ones, that there is no Parent dropdown
+   */
+  async verifyAllFormElementsVisible(): Promise<boolean> {
+    try {
+      const elements = [
+        this.nameField,
+        this.slugField,
+        this.descriptionField,
+        ...(this.hierarchical ? [this.parentDropdown] : []),
+        this.addTermButton
+      ];
+
+      for (const element of elements) {
+        if (!await elementHelper.isElementDisplayed(this.page.locator(element))) {
+          SmartLogger.logUserAction(`${this.label} form element not visible`, element, 'false');
+          return false;
+        }
+      }
+
+      if (!this.hierarchical && await this.page.locator(this.parentDropdown).count() > 0) {
+        SmartLogger.logUserAction(`unexpected parent dropdown on ${this.label} form`, this.parentDropdown, 'true');
+        return false;
+      }
+
+      SmartLogger.logUserAction(`verified all ${this.label} form elements visible`, 'form elements', 'true');
+      return true;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * Term row from the list table; name, slug and parent come from the inline data
+   */
+  protected toRow(raw: ListTableRawRow): TermListRow {
+    const level = raw.classes.find(name => name.startsWith('level-')) || 'level-0';
+    return {
+      id: Number(raw.id.replace('tag-', '')),
+      name: raw.inline.name ?? raw.cells.name,
+      slug: raw.inline.slug ?? raw.cells.slug,
+      description: raw.cells.description || '',
+      count: Number((raw.cells.posts || '').replace(/\D/g, '')) || 0,
+      parent: Number(raw.inline.parent) || 0,
+      depth: Number(level.replace('level-', '')) || 0
+    };
+  }
+
+  /**
+   * Registry type terms of this taxonomy are tracked under
+   * @private
+   */
+  private get entityType(): TrackedEntityType {
+    return termEntityType(this.taxonomy);
+  }
+
+  /**
+   * Row actions only show on hover
+   * @private
+   */
+  private async revealRowActions(termName: string): Promise<void> {
+    await elementHelper.scrollToElementIfNeeded(this.page, this.getTermRow(termName));
+    await elementHelper.hoverElement(this.page, this.getTermRow(termName));
+  }
+
+  /**
+   * Core asks "You are about to permanently delete..." before deleting terms; accept it for this action only
+   * @private
+   */
+  private async acceptingConfirmation(action: () => Promise<void>): Promise<void> {
+    const accept = (dialog: Dialog) => dialog.accept();
+    this.page.on('dialog', accept);
+    try {
+      await action();
+    } finally {
+      this.page.off('dialog', accept);
+    }
+  }
+}
+
+export default TaxonomyPage;
@@ -0,0 +1,391 @@
+import { Page } from '@playwright/test';
+import { BasePage } from './base.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '../utils/environment.utils';
+import { WP_ROLE_SLUGS } from '../utils/wordpress-api.helper';
+import { UserRole } from '../types/base.types';
+
+/**
+ * Profile fields as shown on the edit screen
+ */
+export interface UserProfile {
+  username: string;
+  /** WordPress role slug, e.g. 'editor'; empty on profile.php, which has no role field */
+  role: string;
+  firstName: string;
+  lastName: string;
+  nickname: string;
+  displayName: string;
+  email: string;
+  website: string;
+  bio: string;
+}
+
+/**
+ * Fields updateProfile() can change; anything left out keeps its current value
+ */
+export interface UserProfileChanges {
+  /** Ignored on profile.php - users cannot change their own role */
+  role?: UserRole;
+  firstName?: string;
+  lastName?: string;
+  nickname?: string;
+  /** One of the names offered by "Display name publicly as" - change the name fields first for new combinations */
+  displayName?: string;
+  email?: string;
+  website?: string;
+  bio?: string;
+}
+
+/**
+ * WordPress User Edit Page Object Model
+ * Handles a user's edit screen (user-edit.php?user_id=N) and the current user's profile (profile.php)
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/user-edit.php
+ * Both screens share the #your-profile form; profile.php has no role field and no Send Reset Link.
+ * The password field stays closed until "Set New Password", and a weak password must be confirmed
+ * before the form can be submitted.
+ */
+export class UserEditPage extends BasePage {
+  private envManager = EnvironmentManager.getInstance();
+
+  constructor(page: Page) {
+    super(page, '#your-profile'); // Profile form as identifier
+  }
+
+  // ===== SELECTORS (Based on live site inspection) =====
+
+  get pageTitle(): string {
+    return '.wrap h1';
+  }
+
+  get profileForm(): string {
+    return '#your-profile';
+  }
+
+  get userIdField(): string {
+    return '#your-profile #user_id';
+  }
+
+  get usernameField(): string {
+    return '#user_login';
+  }
+
+  get roleSelect(): string {
+    return '#your-profile #role';
+  }
+
+  get firstNameField(): string {
+    return '#first_name';
+  }
+
+  get lastNameField(): string {
+    return '#last_name';
+  }
+
+  get nicknameField(): string {
+    return '#nickname';
+  }
+
+  get displayNameSelect(): string {
+    return '#display_name';
+  }
+
+  get emailField(): string {
+    return '#email';
+  }
+
+  get websiteField(): string {
+    return '#url';
+  }
+
+  get bioField(): string {
+    return '#description';
+  }
+
+  // Account Management
+  get setNewPasswordButton(): string {
+    return '.wp-generate-pw';
+  }
+
+  get passwordField(): string {
+    return '#pass1';
+  }
+
+  get cancelPasswordButton(): string {
+    return '.wp-cancel-pw';
+  }
+
+  get passwordStrength(): string {
+    return '#pass-strength-result';
+  }
+
+  get weakPasswordRow(): string {
+    return '.pw-weak';
+  }
+
+  get weakPasswordCheckbox(): string {
+    return '#pw-weak';
+  }
+
+  get sendResetLinkButton(): string {
+    return '#generate-reset-link';
+  }
+
+  get resetLinkNotice(): string {
+    return '.generate-reset-link .notice';
+  }
+
+  get updateButton(): string {
+    return '#your-profile #submit';
+  }
+
+  // Messages
+  get successMessage(): string {
+    return '#message.updated, #message.notice-success';
+  }
+
+  get errorMessage(): string {
+    return '#message.notice-error, #message.error';
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Open a user's edit screen; WordPress sends the current user to profile.php instead
+   */
+  async navigateToUser(userId: number): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/user-edit.php?user_id=${userId}`);
+      await this.waitForPageShown();
+      SmartLogger.logUserAction('navigated to user edit', 'user-edit.php', String(userId));
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Open the current user's profile
+   */
+  async navigateToProfile(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/profile.php`);
+      await this.waitForPageShown();
+      SmartLogger.logUserAction('navigated to profile', 'profile.php');
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Check if the edit screen is loaded
+   */
+  async isUserEditPageLoaded(): Promise<boolean> {
+    try {
+      const formVisible = await elementHelper.isElementDisplayed(this.page.locator(this.profileForm));
+      const usernameVisible = await elementHelper.isElementDisplayed(this.page.locator(this.usernameField));
+      const isLoaded = formVisible && usernameVisible;
+      SmartLogger.logAssertion('user edit page loaded verification', true, isLoaded, isLoaded);
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if the screen is the current user's profile (no role field)
+   */
+  async isProfileScreen(): Promise<boolean> {
+    try {
+      const isProfile = new URL(this.page.url()).pathname.endsWith('/profile.php');
+      SmartLogger.logUserAction('checked profile screen', this.page.url(), isProfile.toString());
+      return isProfile;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Text of the success or error notice, or an empty string when none is shown
+   */
+  async getNoticeText(): Promise<string> {
+    try {
+      const notice = this.page.locator(`${this.successMessage}, ${this.errorMessage}`).first();
+      const text = await notice.count() > 0 ? (await notice.textContent() || '').trim() : '';
+      SmartLogger.logUserAction('read profile notice', '#message', text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  // ===== PROFILE METHODS =====
+
+  /**
+   * WordPress ID of the user being edited
+   */
+  async getUserId(): Promise<number> {
+    try {
+      const id = Number(await this.page.locator(this.userIdField).inputValue());
+      SmartLogger.logUserAction('retrieved user id', this.userIdField, String(id));
+      return id;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the profile fields
+   */
+  async getProfile(): Promise<UserProfile> {
+    try {
+      const role = this.page.locator(this.roleSelect);
+      const profile: UserProfile = {
+        username: await elementHelper.getInputValue(this.page, this.usernameField),
+        role: await role.count() > 0 ? await role.inputValue() : '',
+        firstName: await elementHelper.getInputValue(this.page, this.firstNameField),
+        lastName: await elementHelper.getInputValue(this.page, this.lastNameField),
+        nickname: await elementHelper.getInputValue(this.page, this.nicknameField),
+        displayName: await this.page.locator(this.displayNameSelect).inputValue(),
+        email: await elementHelper.getInputValue(this.page, this.emailField),
+        website: await elementHelper.getInputValue(this.page, this.websiteField),
+        bio: await this.page.locator(this.bioField).inputValue()
+      };
+      SmartLogger.logUserAction('read user profile', this.profileForm, profile.username);
+      return profile;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Change profile fields and submit the form
+   * @returns Promise<boolean> - True if "User updated." / "Profile updated." shows
+   */
+  async updateProfile(changes: UserProfileChanges): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('updating user profile', this.profileForm, Object.keys(changes).join(', '));
+
+      if (changes.role !== undefined) {
+        const roleSlug = WP_ROLE_SLUGS[changes.role];
+        if (!roleSlug) {
+          throw new Error(`Role "${changes.role}" cannot be given to a WordPress user`);
+        }
+        if (await this.page.locator(this.roleSelect).count() > 0) {
+          await elementHelper.selectOptionValue(this.page, this.roleSelect, roleSlug);
+        } else {
+          SmartLogger.log('WARN', 'No role field on this screen - the role is left unchanged');
+        }
+      }
+      const fields: Array<[string | undefined, string]> = [
+        [changes.firstName, this.firstNameField],
+        [changes.lastName, this.lastNameField],
+        [changes.nickname, this.nicknameField],
+        [changes.email, this.emailField],
+        [changes.website, this.websiteField],
+        [changes.bio, this.bioField]
+      ];
+      for (const [value, field] of fields) {
+        if (value !== undefined) {
+          await elementHelper.clearAndEnterValue(this.page, field, value);
+        }
+      }
+      // The choices are built from the saved names, so a new combination only shows up after saving
+      if (changes.displayName !== undefined) {
+        await elementHelper.selectOptionValue(this.page, this.displayNameSelect, changes.displayName);
+      }
+
+      return await this.submitProfile();
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Set a new password with "Set New Password", confirming it when WordPress rates it weak, and submit the form
+   * @returns Promise<boolean> - True if "User updated." / "Profile updated." shows
+   */
+  async setNewPassword(password: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('setting new password', this.setNewPasswordButton);
+
+      await elementHelper.clickElement(this.page, this.setNewPasswordButton);
+      await elementHelper.waitForDisplayed(this.page, this.passwordField, this.envManager.getTimeout());
+      // The field opens with a generated password
+      await elementHelper.clearAndEnterValue(this.page, this.passwordField, password);
+      if (await this.page.locator(this.weakPasswordRow).isVisible()) {
+        await elementHelper.toggleCheckbox(this.page, this.weakPasswordCheckbox);
+      }
+
+      return await this.submitProfile();
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Strength WordPress gives the entered password, e.g. "Strong" or "Weak"
+   */
+  async getPasswordStrength(): Promise<string> {
+    try {
+      const strength = (await this.page.locator(this.passwordStrength).textContent() || '').trim();
+      SmartLogger.logUserAction('retrieved password strength', this.passwordStrength, strength);
+      return strength;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  /**
+   * Mail the user a password reset link with "Send Reset Link" (user-edit.php only)
+   * @returns Promise<string> - Text of the inline notice, e.g. "A password reset link was emailed to ..."
+   */
+  async sendResetLink(): Promise<string> {
+    try {
+      await elementHelper.clickElement(this.page, this.sendResetLinkButton);
+      await elementHelper.waitForDisplayed(this.page, this.resetLinkNotice, this.envManager.getActionTimeout());
+      const text = (await this.page.locator(this.resetLinkNotice).textContent() || '').trim();
+      SmartLogger.logUserAction('sent password reset link', this.sendResetLinkButton, text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * Submit the profile form and check the notice of the reloaded screen
+   * @private
+   */
+  private async submitProfile(): Promise<boolean> {
+    // Success and validation errors both load the edit screen again
+    const loaded = this.page.waitForEvent('load', { timeout: this.envManager.getNavigationTimeout() });
+    await elementHelper.clickElement(this.page, this.updateButton);
+    await loaded;
+
+    const notice = await this.getNoticeText();
+    const success = notice.includes('User updated.') || notice.includes('Profile updated.');
+    SmartLogger.logUserAction('profile update result', this.updateButton, success ? 'updated' : notice);
+    return success;
+  }
+}
+
+export default UserEditPage;
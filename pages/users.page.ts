@@ -0,0 +1,535 @@
+import { Locator, Page } from '@playwright/test';
+import { ListTablePage, ListTableRawRow } from './list-table.page';
+import elementHelper from '../utils/element.helper';
+import { SmartLogger } from '../utils/smart-logger.utils';
+import { TestDataRegistry } from '../utils/test-data-registry.utils';
+import { WP_ROLE_SLUGS } from '../utils/wordpress-api.helper';
+import { TestUser, UserRole } from '../types/base.types';
+
+/**
+ * Columns of the users list; the sortable ones are username and email
+ */
+export type UserListColumn = 'username' | 'name' | 'email' | 'role' | 'posts';
+
+/**
+ * A user as listed on users.php
+ */
+export interface UserListRow {
+  id: number;
+  username: string;
+  /** First and last name; empty when neither is set */
+  name: string;
+  email: string;
+  /** Role name as shown, e.g. "Editor" */
+  role: string;
+  /** Published posts */
+  posts: number;
+}
+
+/**
+ * Fields of the Add New User form - a testUsers entry works as it is
+ */
+export interface NewUserData extends TestUser {
+  website?: string;
+}
+
+/**
+ * WordPress Users Page Object Model
+ * Handles the users list (users.php), the Add New User form (user-new.php) and the delete confirmation
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/users.php
+ * Users are addressed by login name. Pagination, sorting and Screen Options come from ListTablePage;
+ * getRows()/getAllRows() return UserListRow objects. Profile fields live on UserEditPage.
+ */
+export class UsersPage extends ListTablePage<UserListRow, UserListColumn> {
+  private dataRegistry = TestDataRegistry.getInstance();
+
+  constructor(page: Page) {
+    super(page, '.wrap h1'); // Users page has main heading as identifier
+  }
+
+  // ===== SELECTORS (Based on live site inspection) =====
+
+  get listPath(): string {
+    return 'users.php';
+  }
+
+  get pageTitle(): string {
+    return '.wrap h1';
+  }
+
+  get addNewButton(): string {
+    return '.page-title-action';
+  }
+
+  get searchBox(): string {
+    return '#user-search-input';
+  }
+
+  get searchButton(): string {
+    return '#search-submit';
+  }
+
+  getRoleView(role: UserRole): string {
+    return `.subsubsub li.${WP_ROLE_SLUGS[role]} a`;
+  }
+
+  // Bulk actions
+  get bulkActionSelect(): string {
+    return '#bulk-action-selector-top';
+  }
+
+  get bulkActionButton(): string {
+    return '#doaction';
+  }
+
+  get changeRoleSelect(): string {
+    return '#new_role';
+  }
+
+  get changeRoleButton(): string {
+    return '#changeit';
+  }
+
+  // Rows
+  getUserRow(username: string): Locator {
+    return this.getRowByCellText('td.column-username strong a', username);
+  }
+
+  getUserCheckbox(username: string): Locator {
+    return this.getUserRow(username).locator('.check-column input[type="checkbox"]');
+  }
+
+  getUserEditLink(username: string): Locator {
+    return this.getUserRow(username).locator('td.column-username strong a');
+  }
+
+  // Messages
+  get successMessage(): string {
+    return '#message.updated, #message.notice-success';
+  }
+
+  get errorMessage(): string {
+    return '#message.notice-error, #message.error';
+  }
+
+  // Add New User form (user-new.php)
+  get addUserForm(): string {
+    return '#createuser';
+  }
+
+  get newUsernameField(): string {
+    return '#createuser #user_login';
+  }
+
+  get newEmailField(): string {
+    return '#createuser #email';
+  }
+
+  get newFirstNameField(): string {
+    return '#createuser #first_name';
+  }
+
+  get newLastNameField(): string {
+    return '#createuser #last_name';
+  }
+
+  get newWebsiteField(): string {
+    return '#createuser #url';
+  }
+
+  get newPasswordField(): string {
+    return '#createuser #pass1';
+  }
+
+  get weakPasswordRow(): string {
+    return '.pw-weak';
+  }
+
+  get weakPasswordCheckbox(): string {
+    return '#pw-weak';
+  }
+
+  get newRoleSelect(): string {
+    return '#createuser #role';
+  }
+
+  get addUserButton(): string {
+    return '#createusersub';
+  }
+
+  // Delete confirmation (users.php?action=delete)
+  get deleteForm(): string {
+    return '#updateusers';
+  }
+
+  get deleteContentOption(): string {
+    return '#delete_option0';
+  }
+
+  get reassignContentOption(): string {
+    return '#delete_option1';
+  }
+
+  get reassignUserSelect(): string {
+    return '#reassign_user';
+  }
+
+  get confirmDeletionButton(): string {
+    return '#updateusers #submit';
+  }
+
+  // ===== NAVIGATION METHODS =====
+
+  /**
+   * Navigate directly to the users list
+   */
+  async navigate(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/${this.listPath}`);
+      await this.waitForPageShown();
+      SmartLogger.logUserAction('navigated to users page', this.listPath);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Navigate directly to the Add New User form
+   */
+  async navigateToAddNew(): Promise<void> {
+    try {
+      await this.page.goto(`${this.envManager.getBaseUrl()}/wp-admin/user-new.php`);
+      await elementHelper.waitForDisplayed(this.page, this.addUserForm, this.envManager.getTimeout());
+      SmartLogger.logUserAction('navigated to add new user', 'user-new.php');
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  // ===== VERIFICATION METHODS =====
+
+  /**
+   * Check if the users list is loaded
+   */
+  async isUsersPageLoaded(): Promise<boolean> {
+    try {
+      const titleVisible = await elementHelper.isElementDisplayed(this.page.locator(this.pageTitle));
+      const tableVisible = await elementHelper.isElementDisplayed(this.page.locator(this.listTable));
+      const isLoaded = titleVisible && tableVisible;
+      SmartLogger.logAssertion('users page loaded verification', true, isLoaded, isLoaded);
+      return isLoaded;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a user is listed on the current page
+   */
+  async userExists(username: string): Promise<boolean> {
+    try {
+      const exists = await this.getUserRow(username).count() > 0;
+      SmartLogger.logUserAction('checked user exists', this.getUserRow(username).toString(), `${username}: ${exists}`);
+      return exists;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Text of the success or error notice, or an empty string when none is shown
+   */
+  async getNoticeText(): Promise<string> {
+    try {
+      const notice = this.page.locator(`${this.successMessage}, ${this.errorMessage}`).first();
+      const text = await notice.count() > 0 ? (await notice.textContent() || '').trim() : '';
+      SmartLogger.logUserAction('read users notice', '#message', text);
+      return text;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return '';
+    }
+  }
+
+  // ===== USER MANAGEMENT METHODS =====
+
+  /**
+   * Search users by login, email or name
+   */
+  async searchUsers(searchTerm: string): Promise<void> {
+    try {
+      await elementHelper.enterValue(this.page, this.searchBox, searchTerm);
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.searchButton));
+      SmartLogger.logUserAction('searched for users', this.searchBox, searchTerm);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Show one role's view - core only links roles that have users
+   */
+  async filterByRole(role: UserRole): Promise<void> {
+    try {
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.getRoleView(role)));
+      SmartLogger.logUserAction('filtered users by role', this.getRoleView(role), role);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a user through the Add New User form. A weak password is confirmed with "Confirm use of weak password".
+   * @returns Promise<boolean> - True if the list shows "New user created."
+   */
+  async addUser(user: NewUserData): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('adding user', 'user-new.php', `${user.username} (${user.role})`);
+      const roleSlug = WP_ROLE_SLUGS[user.role];
+      if (!roleSlug) {
+        throw new Error(`Role "${user.role}" has no WordPress account to create`);
+      }
+
+      await this.navigateToAddNew();
+      await elementHelper.enterValue(this.page, this.newUsernameField, user.username);
+      await elementHelper.enterValue(this.page, this.newEmailField, user.email);
+      if (user.firstName) {
+        await elementHelper.enterValue(this.page, this.newFirstNameField, user.firstName);
+      }
+      if (user.lastName) {
+        await elementHelper.enterValue(this.page, this.newLastNameField, user.lastName);
+      }
+      if (user.website) {
+        await elementHelper.enterValue(this.page, this.newWebsiteField, user.website);
+      }
+      // The field opens with a generated password
+      await elementHelper.clearAndEnterValue(this.page, this.newPasswordField, user.password);
+      if (await this.page.locator(this.weakPasswordRow).isVisible()) {
+        await elementHelper.toggleCheckbox(this.page, this.weakPasswordCheckbox);
+      }
+      await elementHelper.selectOptionValue(this.page, this.newRoleSelect, roleSlug);
+
+      // Success redirects to users.php; an error renders the form again with the notice, so wait for either load
+      const loaded = this.page.waitForEvent('load', { timeout: this.envManager.getNavigationTimeout() });
+      await elementHelper.clickElement(this.page, this.addUserButton);
+      await loaded;
+
+      const notice = await this.getNoticeText();
+      const success = notice.includes('New user created.');
+      if (success) {
+        const id = Number(new URL(this.page.url()).searchParams.get('id')) || undefined;
+        this.dataRegistry.register('user', user.username, 'ui', id);
+      }
+      SmartLogger.logUserAction('add user result', this.addUserButton, success ? 'created' : notice);
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Open a listed user's edit screen (profile.php for the current user)
+   */
+  async editUser(username: string): Promise<void> {
+    try {
+      await elementHelper.clickElement(this.page, this.getUserEditLink(username));
+      await this.page.waitForURL(/(user-edit|profile)\.php/, { timeout: this.envManager.getNavigationTimeout() });
+      SmartLogger.logUserAction('opened user edit screen', this.getUserEditLink(username).toString(), username);
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Give listed users a new role with "Change role to…"
+   * @returns Promise<boolean> - True if "Changed roles." shows and every row has the new role
+   */
+  async changeRole(usernames: string[], role: UserRole): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('changing user roles', this.changeRoleSelect, `${usernames.join(', ')} to ${role}`);
+      const roleSlug = WP_ROLE_SLUGS[role];
+      if (!roleSlug) {
+        throw new Error(`Role "${role}" cannot be given to a WordPress user`);
+      }
+
+      await this.selectUsers(usernames);
+      await elementHelper.selectOptionValue(this.page, this.changeRoleSelect, roleSlug);
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.changeRoleButton));
+
+      const noticeShown = (await this.getNoticeText()).includes('Changed roles.');
+      const roleName = (await this.page.locator(`${this.changeRoleSelect} option[value="${roleSlug}"]`).textContent() || '').trim();
+      const rows = await this.getRows();
+      const unchanged = usernames.filter(username => rows.find(row => row.username === username)?.role !== roleName);
+      const success = noticeShown && unchanged.length === 0;
+      SmartLogger.logUserAction('change role result', role, unchanged.length ? `unchanged: ${unchanged.join(', ')}` : success.toString());
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Send listed users a password reset link with Bulk actions > Send password reset
+   * @returns Promise<boolean> - True if the notice counts every user
+   */
+  async sendPasswordReset(usernames: string[]): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('sending password reset', this.bulkActionSelect, usernames.join(', '));
+
+      await this.selectUsers(usernames);
+      await elementHelper.selectOptionValue(this.page, this.bulkActionSelect, 'resetpassword');
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.bulkActionButton));
+
+      // "Password reset link sent to 1 user." / "Password reset links sent to 2 users."
+      const count = usernames.length;
+      const expected = `sent to ${count} ${count === 1 ? 'user' : 'users'}.`;
+      const success = (await this.getNoticeText()).includes(expected);
+      SmartLogger.logUserAction('password reset result', 'resetpassword', success.toString());
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * Delete listed users with Bulk actions > Delete and the confirmation screen.
+   * When they own content it goes to `reassignTo` (a login name) or, without one, is deleted with them.
+   * @returns Promise<boolean> - True if the deletion notice shows and the users left the list
+   */
+  async deleteUsers(usernames: string[], reassignTo?: string): Promise<boolean> {
+    try {
+      SmartLogger.logUserAction('deleting users', this.bulkActionSelect, `${usernames.join(', ')}${reassignTo ? ` (content to ${reassignTo})` : ''}`);
+
+      const ids = await Promise.all(usernames.map(username => this.getRowUserId(username)));
+      await this.selectUsers(usernames);
+      await elementHelper.selectOptionValue(this.page, this.bulkActionSelect, 'delete');
+      await elementHelper.clickElement(this.page, this.bulkActionButton);
+      await elementHelper.waitForDisplayed(this.page, this.deleteForm, this.envManager.getTimeout());
+
+      // Core only asks about content when one of the users owns some
+      if (await this.page.locator(this.reassignContentOption).count() > 0) {
+        if (reassignTo) {
+          // Options read "Display Name (login)" with the user ID as value
+          const value = await this.page.locator(`${this.reassignUserSelect} option`, { hasText: `(${reassignTo})` }).first().getAttribute('value');
+          if (!value) {
+            throw new Error(`No user "${reassignTo}" to attribute the content to`);
+          }
+          await elementHelper.clickElement(this.page, this.reassignContentOption);
+          await elementHelper.selectOptionValue(this.page, this.reassignUserSelect, value);
+        } else {
+          await elementHelper.clickElement(this.page, this.deleteContentOption);
+        }
+      }
+
+      await elementHelper.waitForElementEnabled(this.page, this.confirmDeletionButton, this.envManager.getActionTimeout());
+      await this.submittingList(() => elementHelper.clickElement(this.page, this.confirmDeletionButton));
+
+      const count = usernames.length;
+      const noticeShown = (await this.getNoticeText()).includes(count === 1 ? 'User deleted.' : `${count} users deleted.`);
+      const remaining: string[] = [];
+      for (const username of usernames) {
+        if (await this.userExists(username)) {
+          remaining.push(username);
+        }
+      }
+      const success = noticeShown && remaining.length === 0;
+      if (success) {
+        ids.forEach(id => id && this.dataRegistry.markDeleted('user', id));
+      }
+      SmartLogger.logUserAction('delete users result', 'delete', remaining.length ? `still listed: ${remaining.join(', ')}` : success.toString());
+      return success;
+
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return false;
+    }
+  }
+
+  /**
+   * WordPress ID of a listed user, or null when the user is not on the current page
+   */
+  async getUserId(username: string): Promise<number | null> {
+    try {
+      const id = await this.getRowUserId(username);
+      SmartLogger.logUserAction('retrieved user id', this.getUserCheckbox(username).toString(), `${username}: ${id}`);
+      return id;
+    } catch (error) {
+      await SmartLogger.logError(error as Error, this.page, true);
+      return null;
+    }
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  /**
+   * User row from the list table; an unnamed user shows an em dash in the name column
+   */
+  protected toRow(raw: ListTableRawRow): UserListRow {
+    const name = raw.cells.name || '';
+    return {
+      id: Number(raw.checkbox || raw.id.replace('user-', '')),
+      username: raw.cells.username || '',
+      name: name === '—' ? '' : name,
+      email: raw.cells.email || '',
+      role: raw.cells.role || '',
+      posts: Number(raw.cells.posts) || 0
+    };
+  }
+
+  /**
+   * Tick the row checkboxes of the given users
+   * @private
+   */
+  private async selectUsers(usernames: string[]): Promise<void> {
+    for (const username of usernames) {
+      if (!await this.userExists(username)) {
+        throw new Error(`User "${username}" is not in the list`);
+      }
+      if (!await elementHelper.isElementChecked(this.page, this.getUserCheckbox(username))) {
+        await elementHelper.toggleCheckbox(this.page, this.getUserCheckbox(username));
+      }
+      SmartLogger.logUserAction('selected user checkbox', this.getUserCheckbox(username).toString(), username);
+    }
+  }
+
+  /**
+   * Submit the list form (or the delete confirmation) and wait for the reloaded list
+   * @private
+   */
+  private async submittingList(action: () => Promise<void>): Promise<void> {
+    const previousUrl = this.page.url();
+    await action();
+    await this.page.waitForURL(url => url.toString() !== previousUrl, { timeout: this.envManager.getNavigationTimeout() });
+    await this.waitForListTable();
+  }
+
+  /**
+   * User ID of a listed row, from its checkbox
+   * @private
+   */
+  private async getRowUserId(username: string): Promise<number | null> {
+    const checkbox = this.getUserCheckbox(username);
+    if (await checkbox.count() === 0) {
+      return null;
+    }
+    const value = await checkbox.getAttribute('value');
+    return value ? Number(value) : null;
+  }
+}
+
+export default UsersPage;
@@ -0,0 +1,55 @@
+import { Page } from '@playwright/test';
+import { SettingsPage, SettingsField } from './settings.page';
+
+/**
+ * Writing Settings (options-writing.php)
+ */
+export interface WritingSettings {
+  /** Category ID given to posts saved without one */
+  defaultCategory: number;
+  /** '0' for Standard, otherwise the format slug, e.g. 'aside' */
+  defaultPostFormat: string;
+}
+
+/**
+ * WordPress Writing Settings Page Object Model
+ * Handles options-writing.php: the default post category and post format
+ * Following AI_AGENT_INSTRUCTIONS patterns with SmartLogger and element.helper
+ *
+ * Based on live site inspection of staging.go.ione.nyc/wp-admin/options-writing.php
+ * The default category cannot be deleted while it is the default.
+ */
+export class WritingSettingsPage extends SettingsPage<WritingSettings> {
+  constructor(page: Page) {
+    super(page);
+  }
+
+  get screenPath(): string {
+    return 'options-writing.php';
+  }
+
+  protected get fields(): Record<keyof WritingSettings, SettingsField> {
+    return {
+      defaultCategory: { kind: 'select', selector: '#default_category', numeric: true },
+      defaultPostFormat: { kind: 'select', selector: '#default_post_format' }
+    };
+  }
+
+  // ===== SETTINGS METHODS =====
+
+  /**
+   * ID of the default post category
+   */
+  async getDefaultCategory(): Promise<number> {
+    return this.getSetting('defaultCategory');
+  }
+
+  /**
+   * Change the default post category and save
+   */
+  async setDefaultCategory(categoryId: number): Promise<boolean> {
+    return this.setSetting('defaultCategory', categoryId);
+  }
+}
+
+export default WritingSettingsPage;
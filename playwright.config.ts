@@ -1,9 +1,16 @@
 import { defineConfig, devices } from '@playwright/test';
 import * as dotenv from 'dotenv';
+import { EnvironmentManager } from './utils/environment.utils';
 
 // Load environment variables
 dotenv.config();
 
+/* Single source for URLs, timeouts and retries: the profile selected by TEST_ENV (config/environments) */
+const envManager = EnvironmentManager.getInstance();
+
+/* Run by the chromium-serial project only */
+const SERIAL_SPECS = [/list-table\.spec\.ts$/, /settings\.spec\.ts$/];
+
 /**
  * @see https://playwright.dev/docs/test-configuration
  */
@@ -13,8 +20,8 @@ export default defineConfig({
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
   forbidOnly: !!process.env.CI,
-  /* Retry on CI only */
-  retries: process.env.CI ? 2 : 0,
+  /* Retries come from the TEST_ENV profile (retries.test / retries.testOnCi) */
+  retries: envManager.getTestRetries(),
   /* Opt out of parallel tests on CI. */
   workers: process.env.CI ? 1 : undefined,
   
@@ -29,8 +36,8 @@ export default defineConfig({
   ],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
-    /* Base URL to use in actions like `await page.goto('/')`. */
-    baseURL: process.env.BASE_URL,
+    /* Base URL to use in actions like `await page.goto('/')`. Resolved from the TEST_ENV profile. */
+    baseURL: envManager.getBaseUrl(),
     
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
@@ -41,21 +48,42 @@ export default defineConfig({
     /* Record video on failure */
     video: 'retain-on-failure',
     
-    /* Global test timeout */
-    actionTimeout: 30000,
-    navigationTimeout: 30000,
+    /* Action and navigation timeouts from the TEST_ENV profile */
+    actionTimeout: envManager.getActionTimeout(),
+    navigationTimeout: envManager.getNavigationTimeout(),
     
-    headless: true
+    headless: envManager.isHeadless()
   },
 
   /* Configure projects for major browsers */
   projects: [
+    /* Logs in through LoginPage and writes the saved session used by the browser projects */
+    {
+      name: 'setup',
+      testMatch: /.*\.setup\.ts/,
+    },
+
     {
       name: 'chromium',
+      testIgnore: SERIAL_SPECS,
       use: { 
         ...devices['Desktop Chrome'],
         storageState: 'playwright/.auth/staging-ione.json'
       },
+      dependencies: ['setup'],
+    },
+
+    /* Specs that change per-user Screen Options or site settings other specs read - one at a time, after chromium */
+    {
+      name: 'chromium-serial',
+      testMatch: SERIAL_SPECS,
+      fullyParallel: false,
+      workers: 1,
+      use: {
+        ...devices['Desktop Chrome'],
+        storageState: 'playwright/.auth/staging-ione.json'
+      },
+      dependencies: ['chromium'],
     }
 
    /* {
@@ -95,10 +123,16 @@ export default defineConfig({
     },*/
   ],
 
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://127.0.0.1:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  /* TEST_ENV=local: start the WordPress admin stand-in (scripts/local-wp) before the tests */
+  webServer: envManager.isLocal() ? {
+    command: 'node scripts/local-wp/server.js',
+    url: envManager.getLoginUrl(),
+    /* Serve on the host and port of the local profile's baseUrl */
+    env: {
+      LOCAL_WP_HOST: new URL(envManager.getBaseUrl()).hostname,
+      LOCAL_WP_PORT: new URL(envManager.getBaseUrl()).port || '80',
+    },
+    reuseExistingServer: !process.env.CI,
+    timeout: 30000,
+  } : undefined,
 });
\ No newline at end of file
@@ -0,0 +1,253 @@
+// @ts-check
+/**
+ * wp-json subset for the local stand-in server
+ * Covers what WordPressApiClient and the test data registry use against this server:
+ * wp/v2/posts, wp/v2/categories, wp/v2/tags and wp/v2/users/me. Authentication is the
+ * logged-in cookie plus X-WP-Nonce, as with WordPressApiClient.fromBrowserContext().
+ */
+
+const { TermError } = require('./store');
+
+/**
+ * @typedef {{ status: number, body: unknown, headers?: Record<string, string> }} RestResponse
+ */
+
+/**
+ * @param {number} status
+ * @param {string} code
+ * @param {string} message
+ * @returns {RestResponse}
+ */
+function restError(status, code, message) {
+  return { status, body: { code, message, data: { status } } };
+}
+
+/**
+ * @param {Date} date
+ */
+function toLocalIso(date) {
+  return date.toISOString().slice(0, 19);
+}
+
+/**
+ * @param {import('./store').Store} store
+ * @param {import('./store').Post} post
+ * @param {string} origin
+ */
+function formatPost(store, post, origin) {
+  return {
+    id: post.id,
+    date: toLocalIso(post.date),
+    date_gmt: toLocalIso(post.date),
+    modified: toLocalIso(post.modified),
+    modified_gmt: toLocalIso(post.modified),
+    slug: post.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''),
+    status: post.status,
+    type: 'post',
+    link: `${origin}/?p=${post.id}`,
+    title: { raw: post.title, rendered: post.title },
+    content: { raw: post.content, rendered: post.content, protected: false },
+    excerpt: { raw: post.excerpt, rendered: post.excerpt, protected: false },
+    author: post.author,
+    featured_media: 0,
+    comment_status: 'open',
+    sticky: false,
+    categories: post.categories,
+    tags: post.tags
+  };
+}
+
+/**
+ * @param {import('./store').Store} store
+ * @param {import('./store').Term} term
+ * @param {string} origin
+ */
+function formatTerm(store, term, origin) {
+  return {
+    id: term.id,
+    count: store.countTermPosts(term),
+    description: term.description,
+    link: `${origin}/${term.taxonomy === 'category' ? 'category' : 'tag'}/${term.slug}/`,
+    name: term.name,
+    slug: term.slug,
+    taxonomy: term.taxonomy,
+    ...(term.taxonomy === 'category' ? { parent: term.parent } : {})
+  };
+}
+
+/**
+ * Route a wp-json request
+ * @param {import('./store').Store} store
+ * @param {{ method: string, route: string, query: URLSearchParams, body: Record<string, any>,
+ *   user: import('./store').User | undefined, nonce: string | undefined, origin: string }} request
+ * @returns {RestResponse}
+ */
+function handleRest(store, request) {
+  const { method, route, query, body, origin } = request;
+
+  if (route === '/' || route === '') {
+    return { status: 200, body: { name: 'XWP Local', namespaces: ['wp/v2'], routes: {} } };
+  }
+
+  // Cookie sessions only count when the nonce matches - same rule as core's rest_cookie_check_errors()
+  const user = request.user && store.verifyNonce(request.user, request.nonce) ? request.user : undefined;
+  if (request.user && request.nonce && !user) {
+    return restError(403, 'rest_cookie_invalid_nonce', 'Cookie check failed');
+  }
+  if (!user) {
+    return restError(401, 'rest_not_logged_in', 'You are not currently logged in.');
+  }
+
+  const match = route.match(/^\/wp\/v2\/(posts|categories|tags|users)(?:\/(\d+|me))?$/);
+  if (!match) {
+    return restError(404, 'rest_no_route', 'No route was found matching the URL and request method.');
+  }
+  const [, resource, idParam] = match;
+
+  if (resource === 'users') {
+    if (idParam === 'me' && method === 'GET') {
+      return { status: 200, body: { id: user.id, username: user.username, name: user.displayName, slug: user.username, email: user.email, roles: [user.role], link: `${origin}/author/${user.username}/` } };
+    }
+    return restError(404, 'rest_no_route', 'Only /wp/v2/users/me is available on the local stand-in.');
+  }
+
+  if (method !== 'GET' && !store.can(user, resource === 'posts' ? 'edit_posts' : 'manage_categories')) {
+    return restError(403, 'rest_cannot_create', 'Sorry, you are not allowed to do that.');
+  }
+
+  return resource === 'posts'
+    ? handlePosts(store, method, idParam ? Number(idParam) : undefined, query, body, user, origin)
+    : handleTerms(store, resource === 'categories' ? 'category' : 'post_tag', method, idParam ? Number(idParam) : undefined, query, body, origin);
+}
+
+/**
+ * @param {import('./store').Store} store
+ * @param {string} method
+ * @param {number | undefined} id
+ * @param {URLSearchParams} query
+ * @param {Record<string, any>} body
+ * @param {import('./store').User} user
+ * @param {string} origin
+ * @returns {RestResponse}
+ */
+function handlePosts(store, method, id, query, body, user, origin) {
+  if (id === undefined) {
+    if (method === 'GET') {
+      const posts = store.listPosts({ status: query.get('status') || 'publish', search: query.get('search') || undefined });
+      return paginate(posts.map(post => formatPost(store, post, origin)), query);
+    }
+    if (method === 'POST') {
+      const post = store.savePost({
+        title: body.title || '',
+        content: body.content || '',
+        excerpt: body.excerpt || '',
+        status: body.status || 'draft',
+        author: body.author || user.id,
+        ...(body.categories ? { categories: body.categories } : {}),
+        ...(body.tags ? { tags: body.tags } : {})
+      });
+      return { status: 201, body: formatPost(store, post, origin) };
+    }
+    return restError(404, 'rest_no_route', 'No route was found matching the URL and request method.');
+  }
+
+  const post = store.getPost(id);
+  if (!post) {
+    return restError(404, 'rest_post_invalid_id', 'Invalid post ID.');
+  }
+
+  if (method === 'GET') {
+    return { status: 200, body: formatPost(store, post, origin) };
+  }
+  if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
+    /** @type {Record<string, any>} */
+    const updates = {};
+    for (const field of ['title', 'content', 'excerpt', 'status', 'categories', 'tags']) {
+      if (body[field] !== undefined) {
+        updates[field] = body[field];
+      }
+    }
+    return { status: 200, body: formatPost(store, store.savePost({ ...updates, id, title: updates.title ?? post.title }), origin) };
+  }
+  if (method === 'DELETE') {
+    const previous = formatPost(store, post, origin);
+    if (query.get('force') === 'true') {
+      store.deletePost(id);
+      return { status: 200, body: { deleted: true, previous } };
+    }
+    return { status: 200, body: formatPost(store, /** @type {import('./store').Post} */ (store.trashPost(id)), origin) };
+  }
+  return restError(404, 'rest_no_route', 'No route was found matching the URL and request method.');
+}
+
+/**
+ * @param {import('./store').Store} store
+ * @param {import('./store').Taxonomy} taxonomy
+ * @param {string} method
+ * @param {number | undefined} id
+ * @param {URLSearchParams} query
+ * @param {Record<string, any>} body
+ * @param {string} origin
+ * @returns {RestResponse}
+ */
+function handleTerms(store, taxonomy, method, id, query, body, origin) {
+  try {
+    if (id === undefined) {
+      if (method === 'GET') {
+        const parent = query.get('parent');
+        const terms = store.listTerms(taxonomy, { search: query.get('search') || undefined, parent: parent === null ? undefined : Number(parent) });
+        return paginate(terms.map(term => formatTerm(store, term, origin)), query);
+      }
+      if (method === 'POST') {
+        const term = store.createTerm(taxonomy, { name: body.name, slug: body.slug, description: body.description, parent: body.parent });
+        return { status: 201, body: formatTerm(store, term, origin) };
+      }
+      return restError(404, 'rest_no_route', 'No route was found matching the URL and request method.');
+    }
+
+    const term = store.getTerm(id);
+    if (!term || term.taxonomy !== taxonomy) {
+      return restError(404, 'rest_term_invalid', 'Term does not exist.');
+    }
+
+    if (method === 'GET') {
+      return { status: 200, body: formatTerm(store, term, origin) };
+    }
+    if (method === 'POST' || method === 'PUT' || method === 'PATCH') {
+      return { status: 200, body: formatTerm(store, store.updateTerm(id, body), origin) };
+    }
+    if (method === 'DELETE') {
+      // Terms do not support trashing - core rejects deletes without force=true
+      if (query.get('force') !== 'true') {
+        return restError(501, 'rest_trash_not_supported', 'Terms do not support trashing. Set \'force=true\' to delete.');
+      }
+      const previous = formatTerm(store, term, origin);
+      store.deleteTerm(id);
+      return { status: 200, body: { deleted: true, previous } };
+    }
+    return restError(404, 'rest_no_route', 'No route was found matching the URL and request method.');
+  } catch (error) {
+    if (error instanceof TermError) {
+      return restError(error.code === 'cannot_delete' ? 403 : 400, error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply page/per_page and the X-WP-Total headers
+ * @param {unknown[]} items
+ * @param {URLSearchParams} query
+ * @returns {RestResponse}
+ */
+function paginate(items, query) {
+  const perPage = Math.min(Number(query.get('per_page')) || 10, 100);
+  const page = Number(query.get('page')) || 1;
+  return {
+    status: 200,
+    body: items.slice((page - 1) * perPage, page * perPage),
+    headers: { 'X-WP-Total': String(items.length), 'X-WP-TotalPages': String(Math.max(1, Math.ceil(items.length / perPage))) }
+  };
+}
+
+module.exports = { handleRest };
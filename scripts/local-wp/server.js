@@ -0,0 +1,564 @@
+#!/usr/bin/env node
+// @ts-check
+/**
+ * Local WordPress admin stand-in server
+ * Serves stateful copies of wp-login.php, the dashboard, edit.php, post-new.php/post.php and
+ * edit-tags.php (categories and tags) backed by an in-memory store, plus a small wp-json subset.
+ * Lets page-object changes be checked without network access to staging.
+ *
+ * Started by playwright.config.ts (webServer) when TEST_ENV=local, or manually:
+ *   node scripts/local-wp/server.js            # http://127.0.0.1:8889
+ *   LOCAL_WP_PORT=9000 node scripts/local-wp/server.js
+ */
+
+const http = require('http');
+const { Store, TermError } = require('./store');
+const { handleRest } = require('./rest');
+const templates = require('./templates');
+
+const PORT = Number(process.env.LOCAL_WP_PORT) || 8889;
+const HOST = process.env.LOCAL_WP_HOST || '127.0.0.1';
+const AUTH_COOKIE = 'wordpress_logged_in_local';
+
+const store = new Store();
+
+/**
+ * @typedef {{ req: http.IncomingMessage, res: http.ServerResponse, url: URL, form: URLSearchParams,
+ *   user: import('./store').User | undefined }} RequestContext
+ */
+
+// ===== HTTP HELPERS =====
+
+/**
+ * @param {http.IncomingMessage} req
+ * @returns {Promise<string>}
+ */
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    /** @type {Buffer[]} */
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * @param {string | undefined} header
+ */
+function parseCookies(header) {
+  /** @type {Record<string, string>} */
+  const cookies = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {number} status
+ * @param {string} html
+ */
+function sendHtml(res, status, html) {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=UTF-8', 'Cache-Control': 'no-store' });
+  res.end(html);
+}
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {string} location
+ * @param {Record<string, string | string[]>} [headers]
+ */
+function redirect(res, location, headers = {}) {
+  res.writeHead(302, { Location: location, ...headers });
+  res.end();
+}
+
+/**
+ * Send a wp_die() screen the way core does for missing capabilities
+ * @param {http.ServerResponse} res
+ * @param {string} message
+ */
+function forbidden(res, message) {
+  sendHtml(res, 403, templates.wpDiePage(message));
+}
+
+/**
+ * Render a screen inside the admin chrome
+ * @param {RequestContext} ctx
+ * @param {{ title: string, content: string, currentMenu?: string, bodyClass?: string, script?: string }} screen
+ */
+function renderAdmin(ctx, screen) {
+  const user = /** @type {import('./store').User} */ (ctx.user);
+  sendHtml(ctx.res, 200, templates.adminLayout({
+    ...screen,
+    user,
+    isAdmin: user.role === 'administrator',
+    canManageCategories: store.can(user, 'manage_categories')
+  }));
+}
+
+// ===== LOGIN =====
+
+/**
+ * @param {RequestContext} ctx
+ */
+function handleLogin(ctx) {
+  const { req, res, url, form } = ctx;
+  const redirectTo = form.get('redirect_to') || url.searchParams.get('redirect_to') || '/wp-admin/';
+
+  if (url.searchParams.get('action') === 'logout') {
+    redirect(res, '/wp-login.php?loggedout=true', { 'Set-Cookie': `${AUTH_COOKIE}=; Path=/; Max-Age=0; HttpOnly` });
+    return;
+  }
+
+  if (req.method === 'POST') {
+    const user = store.authenticate(form.get('log') || '', form.get('pwd') || '');
+    if (!user) {
+      sendHtml(res, 200, templates.loginPage({
+        redirectTo,
+        error: '<strong>Error:</strong> The username or password you entered is incorrect.'
+      }));
+      return;
+    }
+    redirect(res, redirectTo, { 'Set-Cookie': `${AUTH_COOKIE}=${encodeURIComponent(store.createSessionToken(user))}; Path=/; HttpOnly; SameSite=Lax` });
+    return;
+  }
+
+  sendHtml(res, 200, templates.loginPage({
+    redirectTo,
+    message: url.searchParams.get('loggedout') ? 'You are now logged out.' : undefined
+  }));
+}
+
+// ===== ADMIN SCREENS =====
+
+/**
+ * @param {RequestContext} ctx
+ */
+function handleDashboard(ctx) {
+  const counts = store.countPostsByStatus();
+  renderAdmin(ctx, {
+    title: 'Dashboard',
+    currentMenu: 'menu-dashboard',
+    bodyClass: 'index-php',
+    content: templates.dashboardContent({
+      counts: { posts: counts.publish || 0, drafts: counts.draft || 0, categories: store.listTerms('category').length },
+      recent: store.listPosts({ status: 'publish' }).slice(0, 5)
+    })
+  });
+}
+
+/**
+ * edit.php - list, search, status views and bulk trash/restore/delete
+ * @param {RequestContext} ctx
+ */
+function handlePostsList(ctx) {
+  const { url, res } = ctx;
+  const params = url.searchParams;
+
+  if (params.get('post_type') === 'page') {
+    renderAdmin(ctx, { title: 'Pages', currentMenu: 'menu-pages', content: templates.placeholderContent('Pages') });
+    return;
+  }
+
+  const bulkAction = params.get('action');
+  const selected = params.getAll('post[]').map(Number);
+  if (bulkAction && bulkAction !== '-1' && selected.length > 0) {
+    const applied = { trash: store.trashPost, untrash: store.untrashPost, delete: store.deletePost }[bulkAction];
+    if (applied) {
+      selected.forEach(id => applied.call(store, id));
+      const resultParam = { trash: 'trashed', untrash: 'untrashed', delete: 'deleted' }[bulkAction];
+      redirect(res, `edit.php?${resultParam}=${selected.length}${bulkAction === 'untrash' || bulkAction === 'delete' ? '&post_status=trash' : ''}`);
+      return;
+    }
+  }
+
+  const status = params.get('post_status');
+  const viewStatus = status && status !== 'all' ? status : undefined;
+  const category = Number(params.get('cat')) || undefined;
+  const search = params.get('s') || '';
+
+  renderAdmin(ctx, {
+    title: 'Posts',
+    currentMenu: 'menu-posts',
+    bodyClass: 'edit-php post-type-post',
+    content: templates.postsListContent({
+      posts: store.listPosts({ status: viewStatus, search, category }),
+      counts: store.countPostsByStatus(),
+      status: viewStatus,
+      search,
+      categories: store.listTerms('category'),
+      termName: id => store.getTerm(id)?.name || '',
+      userName: id => store.getUser(id)?.displayName || '',
+      notice: listNotice(params)
+    })
+  });
+}
+
+/**
+ * Notices edit.php shows after trash/restore/delete redirects
+ * @param {URLSearchParams} params
+ * @returns {{ type: 'success', text: string } | undefined}
+ */
+function listNotice(params) {
+  /** @type {Array<[string, string, string]>} */
+  const notices = [
+    ['trashed', 'post moved to the Trash.', 'posts moved to the Trash.'],
+    ['untrashed', 'post restored from the Trash.', 'posts restored from the Trash.'],
+    ['deleted', 'post permanently deleted.', 'posts permanently deleted.']
+  ];
+  for (const [param, singular, plural] of notices) {
+    const count = Number(params.get(param));
+    if (count > 0) {
+      return { type: 'success', text: `${count} ${count === 1 ? singular : plural}` };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * post-new.php - empty classic editor with a reserved post ID
+ * @param {RequestContext} ctx
+ */
+function handleNewPost(ctx) {
+  if (!store.can(ctx.user, 'edit_posts')) {
+    forbidden(ctx.res, 'Sorry, you are not allowed to create posts as this user.');
+    return;
+  }
+
+  renderAdmin(ctx, {
+    title: 'Add Post',
+    currentMenu: 'menu-posts',
+    bodyClass: 'post-new-php post-type-post',
+    script: templates.POST_EDITOR_SCRIPT,
+    content: templates.postEditorContent({
+      post: { id: store.reservePostId(), title: '', content: '', status: undefined },
+      isNew: true,
+      categories: store.listTerms('category'),
+      tagNames: []
+    })
+  });
+}
+
+/**
+ * post.php - edit screen (GET), save/publish (POST) and trash/untrash/delete links
+ * @param {RequestContext} ctx
+ */
+function handlePost(ctx) {
+  const { req, res, url, form, user } = ctx;
+
+  if (!store.can(user, 'edit_posts')) {
+    forbidden(res, 'Sorry, you are not allowed to edit posts as this user.');
+    return;
+  }
+
+  if (req.method === 'POST') {
+    const id = Number(form.get('post_ID'));
+    const existing = store.getPost(id);
+    const publishing = form.has('publish') || existing?.status === 'publish';
+    const categories = form.getAll('post_category[]').map(Number).filter(Boolean);
+
+    const post = store.savePost({
+      id,
+      title: form.get('post_title') || '',
+      content: form.get('content') || '',
+      excerpt: form.get('excerpt') || '',
+      status: publishing ? 'publish' : 'draft',
+      author: existing?.author || /** @type {import('./store').User} */ (user).id,
+      categories: categories.length ? categories : [store.getDefaultCategoryId()],
+      tags: store.resolveTagNames(form.get('tax_input[post_tag]') || '')
+    });
+
+    const message = post.status !== 'publish' ? 10 : existing?.status === 'publish' ? 1 : 6;
+    redirect(res, `post.php?post=${post.id}&action=edit&message=${message}`);
+    return;
+  }
+
+  const id = Number(url.searchParams.get('post'));
+  const action = url.searchParams.get('action');
+  const post = store.getPost(id);
+
+  if (!post) {
+    forbidden(res, 'You attempted to edit an item that does not exist. Perhaps it was deleted?');
+    return;
+  }
+
+  if (action === 'trash' || action === 'untrash' || action === 'delete') {
+    const result = { trash: 'trashed', untrash: 'untrashed', delete: 'deleted' }[action];
+    ({ trash: store.trashPost, untrash: store.untrashPost, delete: store.deletePost })[action].call(store, id);
+    redirect(res, `edit.php?${result}=1&ids=${id}`);
+    return;
+  }
+
+  const messageCode = Number(url.searchParams.get('message'));
+  const messageText = /** @type {Record<number, string>} */ (templates.POST_MESSAGES)[messageCode];
+
+  renderAdmin(ctx, {
+    title: 'Edit Post',
+    currentMenu: 'menu-posts',
+    bodyClass: 'post-php post-type-post',
+    script: templates.POST_EDITOR_SCRIPT,
+    content: templates.postEditorContent({
+      post,
+      isNew: false,
+      categories: store.listTerms('category'),
+      tagNames: post.tags.map(tagId => store.getTerm(tagId)?.name || '').filter(Boolean),
+      notice: messageText ? { type: 'success', text: messageText } : undefined
+    })
+  });
+}
+
+/**
+ * edit-tags.php - term list, add form submission, delete links and bulk delete
+ * @param {RequestContext} ctx
+ */
+function handleTerms(ctx) {
+  const { req, res, url, form, user } = ctx;
+  const taxonomy = /** @type {import('./store').Taxonomy} */ (form.get('taxonomy') || url.searchParams.get('taxonomy') || 'post_tag');
+  const labels = templates.TAXONOMY_LABELS[taxonomy];
+
+  if (!labels) {
+    forbidden(res, 'Invalid taxonomy.');
+    return;
+  }
+  if (!store.can(user, 'manage_categories')) {
+    forbidden(res, 'Sorry, you are not allowed to manage terms in this taxonomy.');
+    return;
+  }
+
+  const listUrl = `edit-tags.php?taxonomy=${taxonomy}`;
+  const action = req.method === 'POST' ? form.get('action') : url.searchParams.get('action');
+
+  try {
+    if (req.method === 'POST' && action === 'add-tag') {
+      store.createTerm(taxonomy, {
+        name: form.get('tag-name') || '',
+        slug: form.get('slug') || undefined,
+        description: form.get('description') || '',
+        parent: Number(form.get('parent')) || 0
+      });
+      redirect(res, `${listUrl}&message=1`);
+      return;
+    }
+
+    if (req.method === 'POST' && action === 'editedtag') {
+      const id = Number(form.get('tag_ID'));
+      store.updateTerm(id, {
+        name: form.get('name') ?? undefined,
+        slug: form.get('slug') ?? undefined,
+        description: form.get('description') ?? undefined,
+        parent: form.has('parent') ? Number(form.get('parent')) : undefined
+      });
+      redirect(res, `term.php?taxonomy=${taxonomy}&tag_ID=${id}&post_type=post&message=3`);
+      return;
+    }
+
+    if (action === 'delete' && req.method === 'GET') {
+      store.deleteTerm(Number(url.searchParams.get('tag_ID')));
+      redirect(res, `${listUrl}&message=2`);
+      return;
+    }
+
+    if (req.method === 'POST' && action === 'delete') {
+      const ids = form.getAll('delete_tags[]').map(Number);
+      ids.forEach(id => store.deleteTerm(id));
+      redirect(res, ids.length ? `${listUrl}&message=6` : listUrl);
+      return;
+    }
+  } catch (error) {
+    if (error instanceof TermError) {
+      renderTermsList(ctx, taxonomy, { type: 'error', text: error.message });
+      return;
+    }
+    throw error;
+  }
+
+  const messageCode = Number(url.searchParams.get('message'));
+  const messageTemplate = /** @type {Record<number, string>} */ (templates.TERM_MESSAGES)[messageCode];
+  renderTermsList(ctx, taxonomy, messageTemplate ? { type: 'success', text: messageTemplate.replace('%s', labels.singular) } : undefined);
+}
+
+/**
+ * @param {RequestContext} ctx
+ * @param {import('./store').Taxonomy} taxonomy
+ * @param {{ type: 'success' | 'error', text: string }} [notice]
+ */
+function renderTermsList(ctx, taxonomy, notice) {
+  const search = ctx.url.searchParams.get('s') || '';
+  renderAdmin(ctx, {
+    title: templates.TAXONOMY_LABELS[taxonomy].plural,
+    currentMenu: 'menu-posts',
+    bodyClass: `edit-tags-php taxonomy-${taxonomy}`,
+    content: templates.termsListContent({
+      taxonomy,
+      terms: store.listTerms(taxonomy, { search }),
+      allTerms: store.listTerms(taxonomy),
+      search,
+      countPosts: term => store.countTermPosts(term),
+      defaultTermId: store.getDefaultCategoryId(),
+      notice
+    })
+  });
+}
+
+/**
+ * term.php - edit form for a single term
+ * @param {RequestContext} ctx
+ */
+function handleTermEdit(ctx) {
+  const { res, url, user } = ctx;
+  if (!store.can(user, 'manage_categories')) {
+    forbidden(res, 'Sorry, you are not allowed to edit this item.');
+    return;
+  }
+
+  const term = store.getTerm(Number(url.searchParams.get('tag_ID')));
+  if (!term) {
+    forbidden(res, 'You attempted to edit an item that does not exist. Perhaps it was deleted?');
+    return;
+  }
+
+  const labels = templates.TAXONOMY_LABELS[term.taxonomy];
+  renderAdmin(ctx, {
+    title: `Edit ${labels.singular}`,
+    currentMenu: 'menu-posts',
+    bodyClass: `term-php taxonomy-${term.taxonomy}`,
+    content: templates.termEditContent({
+      term,
+      parents: store.listTerms(term.taxonomy),
+      notice: url.searchParams.get('message') === '3' ? { type: 'success', text: `${labels.singular} updated.` } : undefined
+    })
+  });
+}
+
+/**
+ * Admin screens that only need to exist so menu navigation lands somewhere: [heading, menu id, capability]
+ * @type {Record<string, [string, string, string]>}
+ */
+const PLACEHOLDER_SCREENS = {
+  'upload.php': ['Media Library', 'menu-media', 'read'],
+  'edit-comments.php': ['Comments', 'menu-comments', 'read'],
+  'themes.php': ['Themes', 'menu-appearance', 'activate_plugins'],
+  'plugins.php': ['Plugins', 'menu-plugins', 'activate_plugins'],
+  'users.php': ['Users', 'menu-users', 'list_users'],
+  'profile.php': ['Profile', 'menu-users', 'read'],
+  'tools.php': ['Tools', 'menu-tools', 'read'],
+  'options-general.php': ['General Settings', 'menu-settings', 'activate_plugins'],
+  'admin.php': ['Jetpack', 'toplevel_page_jetpack', 'read']
+};
+
+/** @type {Record<string, (ctx: RequestContext) => void>} */
+const ADMIN_ROUTES = {
+  '': handleDashboard,
+  'index.php': handleDashboard,
+  'edit.php': handlePostsList,
+  'post-new.php': handleNewPost,
+  'post.php': handlePost,
+  'edit-tags.php': handleTerms,
+  'term.php': handleTermEdit
+};
+
+// ===== REQUEST HANDLING =====
+
+/**
+ * @param {http.IncomingMessage} req
+ * @param {http.ServerResponse} res
+ */
+async function handleRequest(req, res) {
+  const url = new URL(req.url || '/', `http://${req.headers.host || `${HOST}:${PORT}`}`);
+  const rawBody = req.method === 'GET' || req.method === 'HEAD' ? '' : await readBody(req);
+  const isJson = (req.headers['content-type'] || '').includes('application/json');
+  const form = new URLSearchParams(isJson ? '' : rawBody);
+  const user = store.getUserBySessionToken(parseCookies(req.headers.cookie)[AUTH_COOKIE]);
+
+  /** @type {RequestContext} */
+  const ctx = { req, res, url, form, user };
+  const path = url.pathname.replace(/\/+$/, '');
+
+  // wp-json/... or ?rest_route=...
+  const restRoute = path.startsWith('/wp-json') ? path.slice('/wp-json'.length) : url.searchParams.get('rest_route');
+  if (restRoute !== null && (path.startsWith('/wp-json') || path === '')) {
+    const response = handleRest(store, {
+      method: req.method || 'GET',
+      route: restRoute,
+      query: url.searchParams,
+      body: isJson && rawBody ? JSON.parse(rawBody) : Object.fromEntries(form),
+      user,
+      nonce: /** @type {string | undefined} */ (req.headers['x-wp-nonce']) || url.searchParams.get('_wpnonce') || undefined,
+      origin: url.origin
+    });
+    res.writeHead(response.status, { 'Content-Type': 'application/json; charset=UTF-8', ...response.headers });
+    res.end(JSON.stringify(response.body));
+    return;
+  }
+
+  if (path === '/wp-login.php') {
+    handleLogin(ctx);
+    return;
+  }
+
+  if (path === '/wp-admin/admin-ajax.php') {
+    // Same answer core gives for action=rest-nonce: the nonce, or "0" when logged out
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=UTF-8' });
+    res.end(url.searchParams.get('action') === 'rest-nonce' && user ? store.createNonce(user) : '0');
+    return;
+  }
+
+  if (path === '/wp-admin' || path.startsWith('/wp-admin/')) {
+    if (!user) {
+      // auth_redirect(): bounce to the login screen and come back afterwards
+      const target = `${url.pathname}${url.search}`;
+      redirect(res, `/wp-login.php?redirect_to=${encodeURIComponent(target)}&reauth=1`);
+      return;
+    }
+
+    const screen = path.replace(/^\/wp-admin\/?/, '');
+    const route = ADMIN_ROUTES[screen];
+    if (route) {
+      route(ctx);
+      return;
+    }
+
+    const placeholder = PLACEHOLDER_SCREENS[screen];
+    if (placeholder) {
+      const [heading, currentMenu, capability] = placeholder;
+      if (!store.can(user, capability)) {
+        forbidden(res, 'Sorry, you are not allowed to access this page.');
+        return;
+      }
+      renderAdmin(ctx, { title: heading, currentMenu, content: templates.placeholderContent(heading) });
+      return;
+    }
+  }
+
+  if (path === '') {
+    sendHtml(res, 200, `<!DOCTYPE html><html><head><title>XWP Local</title></head><body class="home"><h1>XWP Local</h1><p><a href="/wp-admin/">Dashboard</a></p></body></html>`);
+    return;
+  }
+
+  sendHtml(res, 404, '<!DOCTYPE html><html><head><title>Page not found</title></head><body class="error404"><h1>Not Found</h1></body></html>');
+}
+
+const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch(error => {
+    console.error('[local-wp] request failed:', error);
+    if (!res.headersSent) {
+      sendHtml(res, 500, `<!DOCTYPE html><html><body id="error-page"><div class="wp-die-message">${templates.escapeHtml(error.message)}</div></body></html>`);
+    } else {
+      res.end();
+    }
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`[local-wp] WordPress stand-in listening on http://${HOST}:${PORT}`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
@@ -0,0 +1,473 @@
+// @ts-check
+/**
+ * In-memory WordPress data for the local stand-in server
+ * Holds users, posts and terms (category + post_tag) with the CRUD operations
+ * the admin screens and the REST subset need. State lives for the lifetime of the process.
+ */
+
+const crypto = require('crypto');
+
+/**
+ * @typedef {'administrator' | 'editor' | 'author' | 'subscriber'} WpRole
+ * @typedef {{ id: number, username: string, password: string, email: string, displayName: string, role: WpRole }} User
+ * @typedef {'publish' | 'draft' | 'pending' | 'private' | 'future' | 'trash'} PostStatus
+ * @typedef {{ id: number, title: string, content: string, excerpt: string, status: PostStatus, author: number,
+ *   date: Date, modified: Date, categories: number[], tags: number[], trashedFrom?: PostStatus }} Post
+ * @typedef {'category' | 'post_tag'} Taxonomy
+ * @typedef {{ id: number, taxonomy: Taxonomy, name: string, slug: string, description: string, parent: number }} Term
+ */
+
+/** Capabilities per role - only the ones the stand-in screens check */
+const ROLE_CAPABILITIES = {
+  administrator: ['read', 'edit_posts', 'publish_posts', 'manage_categories', 'list_users', 'activate_plugins'],
+  editor: ['read', 'edit_posts', 'publish_posts', 'manage_categories'],
+  author: ['read', 'edit_posts', 'publish_posts'],
+  subscriber: ['read']
+};
+
+/**
+ * Seed accounts mirror testUsers in fixtures/test-data.fixture.ts and honour the same
+ * <ROLE>_USERNAME / <ROLE>_PASSWORD overrides as AuthManager.getUserForRole()
+ */
+const SEED_USERS = [
+  { envPrefix: 'ADMIN', username: 'qa_administrator', password: 'qa_administrator', role: 'administrator', displayName: 'Admin User' },
+  { envPrefix: 'EDITOR', username: 'editor', password: 'editor123', role: 'editor', displayName: 'Editor User' },
+  { envPrefix: 'AUTHOR', username: 'author', password: 'author123', role: 'author', displayName: 'Author User' },
+  { envPrefix: 'SUBSCRIBER', username: 'subscriber', password: 'subscriber123', role: 'subscriber', displayName: 'Subscriber User' }
+];
+
+/**
+ * Turn a name into a WordPress-style slug
+ * @param {string} text
+ */
+function slugify(text) {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-');
+}
+
+class Store {
+  constructor() {
+    /** @type {User[]} */
+    this.users = [];
+    /** @type {Post[]} */
+    this.posts = [];
+    /** @type {Term[]} */
+    this.terms = [];
+    this.nextPostId = 1;
+    this.nextTermId = 1;
+    this.sessionSecret = crypto.randomBytes(16).toString('hex');
+    this.seed();
+  }
+
+  // ===== USERS =====
+
+  /**
+   * @param {string} username
+   * @param {string} password
+   * @returns {User | undefined}
+   */
+  authenticate(username, password) {
+    const user = this.users.find(candidate => candidate.username === username || candidate.email === username);
+    return user && user.password === password ? user : undefined;
+  }
+
+  /**
+   * @param {number} id
+   */
+  getUser(id) {
+    return this.users.find(user => user.id === id);
+  }
+
+  /**
+   * @param {User | undefined} user
+   * @param {string} capability
+   */
+  can(user, capability) {
+    return !!user && ROLE_CAPABILITIES[user.role].includes(capability);
+  }
+
+  /**
+   * Session cookie value for a user - signed so forged cookies are rejected
+   * @param {User} user
+   */
+  createSessionToken(user) {
+    return `${user.id}|${this.sign(String(user.id))}`;
+  }
+
+  /**
+   * @param {string | undefined} token
+   * @returns {User | undefined}
+   */
+  getUserBySessionToken(token) {
+    const [id, signature] = (token || '').split('|');
+    if (!id || signature !== this.sign(id)) {
+      return undefined;
+    }
+    return this.getUser(Number(id));
+  }
+
+  /**
+   * REST nonce for a logged-in user
+   * @param {User} user
+   */
+  createNonce(user) {
+    return this.sign(`wp_rest|${user.id}`).slice(0, 10);
+  }
+
+  /**
+   * @param {User} user
+   * @param {string | undefined} nonce
+   */
+  verifyNonce(user, nonce) {
+    return nonce === this.createNonce(user);
+  }
+
+  // ===== POSTS =====
+
+  /**
+   * Reserve an ID for a post that is not saved yet (post-new.php)
+   */
+  reservePostId() {
+    return this.nextPostId++;
+  }
+
+  /**
+   * @param {{ status?: string, search?: string, category?: number }} [filters]
+   * @returns {Post[]}
+   */
+  listPosts(filters = {}) {
+    const statuses = filters.status ? filters.status.split(',') : ['publish', 'draft', 'pending', 'private', 'future'];
+    const search = (filters.search || '').toLowerCase();
+
+    return this.posts
+      .filter(post => statuses.includes(post.status))
+      .filter(post => !search || post.title.toLowerCase().includes(search) || post.content.toLowerCase().includes(search))
+      .filter(post => !filters.category || post.categories.includes(filters.category))
+      .sort((a, b) => b.date.getTime() - a.date.getTime() || b.id - a.id);
+  }
+
+  /**
+   * Post counts per status for the .subsubsub views
+   */
+  countPostsByStatus() {
+    /** @type {Record<string, number>} */
+    const counts = {};
+    for (const post of this.posts) {
+      counts[post.status] = (counts[post.status] || 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * @param {number} id
+   */
+  getPost(id) {
+    return this.posts.find(post => post.id === id);
+  }
+
+  /**
+   * Create or update a post; new posts may reuse an ID handed out by reservePostId()
+   * @param {Partial<Post> & { id?: number, title: string }} data
+   * @returns {Post}
+   */
+  savePost(data) {
+    const now = new Date();
+    const existing = data.id ? this.getPost(data.id) : undefined;
+
+    if (existing) {
+      Object.assign(existing, data, { modified: now });
+      return existing;
+    }
+
+    /** @type {Post} */
+    const post = {
+      content: '',
+      excerpt: '',
+      status: 'draft',
+      author: 1,
+      categories: [this.getDefaultCategoryId()],
+      tags: [],
+      ...data,
+      id: data.id || this.reservePostId(),
+      date: data.date || now,
+      modified: now
+    };
+    this.nextPostId = Math.max(this.nextPostId, post.id + 1);
+    this.posts.push(post);
+    return post;
+  }
+
+  /**
+   * @param {number} id
+   */
+  trashPost(id) {
+    const post = this.getPost(id);
+    if (post && post.status !== 'trash') {
+      post.trashedFrom = post.status;
+      post.status = 'trash';
+    }
+    return post;
+  }
+
+  /**
+   * @param {number} id
+   */
+  untrashPost(id) {
+    const post = this.getPost(id);
+    if (post && post.status === 'trash') {
+      post.status = post.trashedFrom || 'draft';
+      delete post.trashedFrom;
+    }
+    return post;
+  }
+
+  /**
+   * @param {number} id
+   */
+  deletePost(id) {
+    const post = this.getPost(id);
+    this.posts = this.posts.filter(candidate => candidate.id !== id);
+    return post;
+  }
+
+  // ===== TERMS =====
+
+  /**
+   * Terms of a taxonomy; hierarchical taxonomies come back parent-first with a depth for indentation
+   * @param {Taxonomy} taxonomy
+   * @param {{ search?: string, parent?: number }} [filters]
+   * @returns {Array<Term & { depth: number }>}
+   */
+  listTerms(taxonomy, filters = {}) {
+    const search = (filters.search || '').toLowerCase();
+    const terms = this.terms
+      .filter(term => term.taxonomy === taxonomy)
+      .filter(term => filters.parent === undefined || term.parent === filters.parent);
+
+    if (search) {
+      return terms
+        .filter(term => term.name.toLowerCase().includes(search) || term.slug.includes(search))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(term => ({ ...term, depth: 0 }));
+    }
+
+    /** @type {Array<Term & { depth: number }>} */
+    const ordered = [];
+    /**
+     * @param {number} parent
+     * @param {number} depth
+     */
+    const walk = (parent, depth) => {
+      terms
+        .filter(term => term.parent === parent)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach(term => {
+          ordered.push({ ...term, depth });
+          walk(term.id, depth + 1);
+        });
+    };
+    walk(filters.parent ?? 0, 0);
+    return ordered;
+  }
+
+  /**
+   * @param {number} id
+   */
+  getTerm(id) {
+    return this.terms.find(term => term.id === id);
+  }
+
+  /**
+   * @param {Taxonomy} taxonomy
+   * @param {string} name
+   */
+  findTermByName(taxonomy, name) {
+    return this.terms.find(term => term.taxonomy === taxonomy && term.name.toLowerCase() === name.toLowerCase());
+  }
+
+  /**
+   * Number of non-trashed posts using a term
+   * @param {Term} term
+   */
+  countTermPosts(term) {
+    const key = term.taxonomy === 'category' ? 'categories' : 'tags';
+    return this.posts.filter(post => post.status !== 'trash' && post[key].includes(term.id)).length;
+  }
+
+  /**
+   * Create a term, enforcing WordPress' unique name-per-parent and unique slug rules
+   * @param {Taxonomy} taxonomy
+   * @param {{ name: string, slug?: string, description?: string, parent?: number }} data
+   * @returns {Term}
+   */
+  createTerm(taxonomy, data) {
+    const name = (data.name || '').trim();
+    if (!name) {
+      throw new TermError('empty_term_name', 'A name is required for this term.');
+    }
+
+    const parent = data.parent && data.parent > 0 ? data.parent : 0;
+    if (this.terms.some(term => term.taxonomy === taxonomy && term.parent === parent && term.name.toLowerCase() === name.toLowerCase())) {
+      throw new TermError('term_exists', 'A term with the name provided already exists with this parent.');
+    }
+
+    /** @type {Term} */
+    const term = {
+      id: this.nextTermId++,
+      taxonomy,
+      name,
+      slug: this.uniqueSlug(taxonomy, data.slug ? slugify(data.slug) : slugify(name)),
+      description: data.description || '',
+      parent
+    };
+    this.terms.push(term);
+    return term;
+  }
+
+  /**
+   * @param {number} id
+   * @param {{ name?: string, slug?: string, description?: string, parent?: number }} data
+   */
+  updateTerm(id, data) {
+    const term = this.getTerm(id);
+    if (!term) {
+      throw new TermError('invalid_term', 'Term does not exist.');
+    }
+
+    const name = data.name !== undefined ? data.name.trim() : term.name;
+    if (!name) {
+      throw new TermError('empty_term_name', 'A name is required for this term.');
+    }
+
+    const parent = data.parent !== undefined ? Math.max(data.parent, 0) : term.parent;
+    const duplicate = this.terms.some(candidate =>
+      candidate.id !== id && candidate.taxonomy === term.taxonomy && candidate.parent === parent &&
+      candidate.name.toLowerCase() === name.toLowerCase()
+    );
+    if (duplicate) {
+      throw new TermError('duplicate_term_slug', 'A term with the name provided already exists with this parent.');
+    }
+
+    term.name = name;
+    term.parent = parent;
+    if (data.slug !== undefined) {
+      term.slug = this.uniqueSlug(term.taxonomy, slugify(data.slug || name), id);
+    }
+    if (data.description !== undefined) {
+      term.description = data.description;
+    }
+    return term;
+  }
+
+  /**
+   * Delete a term; children move up to its parent and posts fall back to the default category
+   * @param {number} id
+   */
+  deleteTerm(id) {
+    const term = this.getTerm(id);
+    if (!term) {
+      return undefined;
+    }
+    if (term.taxonomy === 'category' && id === this.getDefaultCategoryId()) {
+      throw new TermError('cannot_delete', 'Sorry, you are not allowed to delete this term.');
+    }
+
+    this.terms = this.terms.filter(candidate => candidate.id !== id);
+    this.terms.filter(child => child.parent === id).forEach(child => { child.parent = term.parent; });
+
+    const key = term.taxonomy === 'category' ? 'categories' : 'tags';
+    for (const post of this.posts) {
+      post[key] = post[key].filter(termId => termId !== id);
+      if (key === 'categories' && post.categories.length === 0) {
+        post.categories = [this.getDefaultCategoryId()];
+      }
+    }
+    return term;
+  }
+
+  /**
+   * Resolve comma-separated tag names to tag IDs, creating missing tags
+   * @param {string} names
+   */
+  resolveTagNames(names) {
+    return names
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean)
+      .map(name => (this.findTermByName('post_tag', name) || this.createTerm('post_tag', { name })).id);
+  }
+
+  getDefaultCategoryId() {
+    return 1;
+  }
+
+  // ===== INTERNALS =====
+
+  /**
+   * @param {string} value
+   */
+  sign(value) {
+    return crypto.createHmac('sha256', this.sessionSecret).update(value).digest('hex');
+  }
+
+  /**
+   * @param {Taxonomy} taxonomy
+   * @param {string} slug
+   * @param {number} [ignoreId]
+   */
+  uniqueSlug(taxonomy, slug, ignoreId) {
+    let candidate = slug;
+    let suffix = 2;
+    while (this.terms.some(term => term.taxonomy === taxonomy && term.slug === candidate && term.id !== ignoreId)) {
+      candidate = `${slug}-${suffix++}`;
+    }
+    return candidate;
+  }
+
+  seed() {
+    SEED_USERS.forEach((seedUser, index) => {
+      this.users.push({
+        id: index + 1,
+        username: process.env[`${seedUser.envPrefix}_USERNAME`] || seedUser.username,
+        password: process.env[`${seedUser.envPrefix}_PASSWORD`] || seedUser.password,
+        email: `${seedUser.username}@xwp.test`,
+        displayName: seedUser.displayName,
+        role: /** @type {WpRole} */ (seedUser.role)
+      });
+    });
+
+    this.createTerm('category', { name: 'Uncategorized', slug: 'uncategorized' });
+    const news = this.createTerm('category', { name: 'News', description: 'Newsroom updates' });
+    this.createTerm('category', { name: 'Local', parent: news.id });
+    const events = this.createTerm('category', { name: 'Events' });
+    const release = this.createTerm('post_tag', { name: 'release' });
+
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    this.savePost({ title: 'Hello world!', content: 'Welcome to WordPress. This is your first post.', status: 'publish', date: new Date(now - 10 * day) });
+    this.savePost({ title: 'Neighborhood news roundup', content: 'A look at this week in the neighborhood.', status: 'publish', categories: [news.id], tags: [release.id], date: new Date(now - 5 * day) });
+    this.savePost({ title: 'Upcoming community events', content: 'Mark your calendars.', status: 'publish', categories: [events.id], date: new Date(now - 2 * day) });
+    this.savePost({ title: 'Editorial guidelines draft', content: 'Work in progress.', status: 'draft', date: new Date(now - day) });
+  }
+}
+
+/**
+ * Validation error raised by term operations - code matches the WordPress WP_Error code
+ */
+class TermError extends Error {
+  /**
+   * @param {string} code
+   * @param {string} message
+   */
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+module.exports = { Store, TermError, slugify };
@@ -0,0 +1,728 @@
+// @ts-check
+/**
+ * HTML for the local stand-in server
+ * Markup follows wp-admin's classic screens (ids, classes, form field names) closely enough
+ * for the page objects in pages/ to run unchanged. Styling is limited to the behaviour tests
+ * depend on: hover-revealed row actions and admin bar submenus.
+ */
+
+const SITE_NAME = 'XWP Local';
+
+/** Notices keyed by the ?message= codes WordPress redirects with */
+const POST_MESSAGES = {
+  1: 'Post updated.',
+  6: 'Post published.',
+  10: 'Post draft updated.'
+};
+
+const TERM_MESSAGES = {
+  1: '%s added.',
+  2: '%s deleted.',
+  3: '%s updated.',
+  6: '%ss deleted.'
+};
+
+const TAXONOMY_LABELS = {
+  category: { singular: 'Category', plural: 'Categories', hierarchical: true },
+  post_tag: { singular: 'Tag', plural: 'Tags', hierarchical: false }
+};
+
+/**
+ * @param {unknown} value
+ */
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * @param {Date} date
+ */
+function formatDate(date) {
+  const pad = (/** @type {number} */ value) => String(value).padStart(2, '0');
+  const hours = date.getHours() % 12 || 12;
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} at ${hours}:${pad(date.getMinutes())} ${date.getHours() < 12 ? 'am' : 'pm'}`;
+}
+
+const ADMIN_STYLES = `
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; font-size: 13px; background: #f0f0f1; }
+  #wpadminbar { position: fixed; top: 0; left: 0; right: 0; height: 32px; background: #1d2327; color: #f0f0f1; z-index: 99999; }
+  #wpadminbar ul { list-style: none; margin: 0; padding: 0; }
+  #wpadminbar .ab-top-menu > li { float: left; position: relative; }
+  #wpadminbar .ab-top-secondary { float: right; }
+  #wpadminbar a { color: #f0f0f1; display: block; line-height: 32px; padding: 0 10px; text-decoration: none; }
+  #wpadminbar .ab-sub-wrapper { display: none; position: absolute; background: #2c3338; min-width: 160px; }
+  #wpadminbar li:hover > .ab-sub-wrapper { display: block; }
+  #adminmenuwrap { position: fixed; top: 32px; bottom: 0; width: 160px; background: #1d2327; }
+  #adminmenu { list-style: none; margin: 12px 0 0; padding: 0; }
+  #adminmenu a { color: #f0f0f1; display: block; padding: 6px 12px; text-decoration: none; }
+  #adminmenu .wp-submenu { display: none; list-style: none; padding: 0 0 0 12px; }
+  #adminmenu li:hover > .wp-submenu, #adminmenu li.wp-has-current-submenu > .wp-submenu { display: block; }
+  #wpcontent { margin-left: 160px; padding: 32px 20px 40px; }
+  .notice { background: #fff; border-left: 4px solid #72aee6; margin: 5px 0 15px; padding: 1px 12px; }
+  .notice-success { border-left-color: #00a32a; }
+  .notice-error { border-left-color: #d63638; }
+  .row-actions { visibility: hidden; }
+  tr:hover .row-actions, tr:focus-within .row-actions { visibility: visible; }
+  .wp-list-table { width: 100%; background: #fff; border-collapse: collapse; }
+  .wp-list-table td, .wp-list-table th { padding: 8px 10px; text-align: left; vertical-align: top; }
+  #col-left { float: left; width: 35%; }
+  #col-right { float: right; width: 65%; }
+  .hidden { display: none; }
+  #post-body { display: flex; gap: 20px; }
+  #post-body-content { flex: 1; }
+  #postbox-container-1 { width: 280px; }
+  .postbox { background: #fff; border: 1px solid #c3c4c7; margin-bottom: 20px; padding: 0 12px 12px; }
+  #title { width: 100%; font-size: 1.7em; padding: 3px 8px; }
+  #content_ifr, #content { width: 100%; height: 300px; box-sizing: border-box; }
+  .html-active #content_ifr, .tmce-active #content { display: none; }
+`;
+
+/**
+ * Shared admin chrome (admin bar + admin menu) around a screen's content
+ * @param {{ title: string, bodyClass?: string, user: import('./store').User, canManageCategories: boolean,
+ *   isAdmin: boolean, currentMenu?: string, content: string, script?: string }} options
+ */
+function adminLayout(options) {
+  const { user, isAdmin } = options;
+  /**
+   * @param {string} id
+   * @param {string} href
+   * @param {string} label
+   * @param {Array<[string, string]>} [submenu]
+   */
+  const menuItem = (id, href, label, submenu = []) => {
+    const current = options.currentMenu === id ? ' wp-has-current-submenu' : '';
+    const items = submenu.map(([subHref, subLabel]) => `<li><a href="${subHref}">${subLabel}</a></li>`).join('');
+    return `<li id="${id}" class="wp-has-submenu menu-top${current}"><a href="${href}" class="menu-top"><div class="wp-menu-name">${label}</div></a>` +
+      (items ? `<ul class="wp-submenu wp-submenu-wrap">${items}</ul>` : '') + '</li>';
+  };
+
+  const postsSubmenu = /** @type {Array<[string, string]>} */ ([['edit.php', 'All Posts'], ['post-new.php', 'Add New Post']]);
+  if (options.canManageCategories) {
+    postsSubmenu.push(['edit-tags.php?taxonomy=category', 'Categories'], ['edit-tags.php?taxonomy=post_tag', 'Tags']);
+  }
+
+  const menu = [
+    menuItem('menu-dashboard', 'index.php', 'Dashboard'),
+    menuItem('toplevel_page_jetpack', 'admin.php?page=jetpack', 'Jetpack'),
+    menuItem('menu-posts', 'edit.php', 'Posts', postsSubmenu),
+    menuItem('menu-media', 'upload.php', 'Media'),
+    menuItem('menu-pages', 'edit.php?post_type=page', 'Pages'),
+    menuItem('menu-comments', 'edit-comments.php', 'Comments'),
+    isAdmin ? menuItem('menu-appearance', 'themes.php', 'Appearance') : '',
+    isAdmin ? menuItem('menu-plugins', 'plugins.php', 'Plugins') : '',
+    // Core uses the menu-users id for both Users and the Profile-only item lower roles get
+    isAdmin ? menuItem('menu-users', 'users.php', 'Users') : menuItem('menu-users', 'profile.php', 'Profile'),
+    menuItem('menu-tools', 'tools.php', 'Tools'),
+    isAdmin ? menuItem('menu-settings', 'options-general.php', 'Settings') : ''
+  ].join('');
+
+  return `<!DOCTYPE html>
+<html lang="en-US">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(options.title)} &lsaquo; ${SITE_NAME} &#8212; WordPress</title>
+<style>${ADMIN_STYLES}</style>
+</head>
+<body class="wp-admin wp-core-ui no-js ${options.bodyClass || ''}">
+<div id="wpwrap">
+<div id="wpadminbar" class="nojq">
+  <div class="quicklinks" id="wp-toolbar" role="navigation" aria-label="Toolbar">
+    <ul id="wp-admin-bar-root-default" class="ab-top-menu">
+      <li id="wp-admin-bar-site-name" class="menupop"><a class="ab-item" href="/">${SITE_NAME}</a></li>
+      <li id="wp-admin-bar-new-content" class="menupop"><a class="ab-item" href="post-new.php"><span class="ab-label">New</span></a>
+        <div class="ab-sub-wrapper"><ul id="wp-admin-bar-new-content-default" class="ab-submenu">
+          <li id="wp-admin-bar-new-post"><a class="ab-item" href="post-new.php">Post</a></li>
+          <li id="wp-admin-bar-new-media"><a class="ab-item" href="media-new.php">Media</a></li>
+          <li id="wp-admin-bar-new-page"><a class="ab-item" href="post-new.php?post_type=page">Page</a></li>
+        </ul></div>
+      </li>
+    </ul>
+    <ul id="wp-admin-bar-top-secondary" class="ab-top-secondary ab-top-menu">
+      <li id="wp-admin-bar-my-account" class="menupop with-avatar"><a class="ab-item" href="profile.php">Howdy, <span class="display-name">${escapeHtml(user.displayName)}</span></a>
+        <div class="ab-sub-wrapper"><ul id="wp-admin-bar-user-actions" class="ab-submenu">
+          <li id="wp-admin-bar-user-info"><a class="ab-item" href="profile.php"><span class="display-name">${escapeHtml(user.displayName)}</span><span class="username">${escapeHtml(user.username)}</span></a></li>
+          <li id="wp-admin-bar-logout"><a class="ab-item" href="/wp-login.php?action=logout">Log Out</a></li>
+        </ul></div>
+      </li>
+    </ul>
+  </div>
+</div>
+<div id="adminmenumain" role="navigation" aria-label="Main menu">
+  <div id="adminmenuwrap"><ul id="adminmenu">${menu}</ul></div>
+</div>
+<div id="wpcontent">
+  <div id="wpbody" role="main">
+    <div id="wpbody-content">
+${options.content}
+    </div>
+  </div>
+</div>
+</div>
+${options.script ? `<script>${options.script}</script>` : ''}
+</body>
+</html>`;
+}
+
+/**
+ * @param {{ error?: string, redirectTo: string, message?: string }} options
+ */
+function loginPage(options) {
+  return `<!DOCTYPE html>
+<html lang="en-US">
+<head><meta charset="UTF-8"><title>Log In &lsaquo; ${SITE_NAME} &#8212; WordPress</title></head>
+<body class="login no-js login-action-login wp-core-ui">
+<div id="login">
+  <h1><a href="/">${SITE_NAME}</a></h1>
+  ${options.error ? `<div id="login_error" class="notice notice-error"><p>${options.error}</p></div>` : ''}
+  ${options.message ? `<p class="message">${escapeHtml(options.message)}</p>` : ''}
+  <form name="loginform" id="loginform" action="/wp-login.php" method="post">
+    <p><label for="user_login">Username or Email Address</label>
+      <input type="text" name="log" id="user_login" class="input" value="" size="20" autocapitalize="off" autocomplete="username" required></p>
+    <div class="user-pass-wrap"><label for="user_pass">Password</label>
+      <input type="password" name="pwd" id="user_pass" class="input password-input" value="" size="20" autocomplete="current-password" required></div>
+    <p class="forgetmenot"><input name="rememberme" type="checkbox" id="rememberme" value="forever"> <label for="rememberme">Remember Me</label></p>
+    <p class="submit">
+      <input type="submit" name="wp-submit" id="wp-submit" class="button button-primary button-large" value="Log In">
+      <input type="hidden" name="redirect_to" value="${escapeHtml(options.redirectTo)}">
+      <input type="hidden" name="testcookie" value="1">
+    </p>
+  </form>
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * wp_die() screen shown when the current user lacks a capability
+ * @param {string} message
+ */
+function wpDiePage(message) {
+  return `<!DOCTYPE html>
+<html lang="en-US">
+<head><meta charset="UTF-8"><title>WordPress &rsaquo; Error</title></head>
+<body id="error-page">
+  <div class="wp-die-message"><h1>You need a higher level of permission.</h1><p>${escapeHtml(message)}</p></div>
+</body>
+</html>`;
+}
+
+/**
+ * @param {{ type: 'success' | 'error', text: string }} [notice]
+ */
+function renderNotice(notice) {
+  if (!notice) {
+    return '';
+  }
+  const className = notice.type === 'success' ? 'notice notice-success is-dismissible updated' : 'notice notice-error is-dismissible';
+  return `<div id="message" class="${className}"><p>${escapeHtml(notice.text)}</p></div>`;
+}
+
+/**
+ * @param {{ counts: { posts: number, drafts: number, categories: number }, recent: import('./store').Post[] }} data
+ */
+function dashboardContent(data) {
+  const recent = data.recent
+    .map(post => `<li><span>${formatDate(post.date)}</span> <a href="post.php?post=${post.id}&amp;action=edit">${escapeHtml(post.title)}</a></li>`)
+    .join('');
+
+  return `<div class="wrap">
+  <h1>Dashboard</h1>
+  <div id="dashboard-widgets-wrap">
+    <div id="dashboard-widgets" class="metabox-holder">
+      <div id="postbox-container-1" class="postbox-container">
+        <div id="dashboard_right_now" class="postbox"><h2 class="hndle">At a Glance</h2>
+          <div class="inside"><ul>
+            <li class="post-count"><a href="edit.php?post_type=post">${data.counts.posts} Posts</a></li>
+            <li class="draft-count"><a href="edit.php?post_status=draft&amp;post_type=post">${data.counts.drafts} Drafts</a></li>
+            <li class="category-count"><a href="edit-tags.php?taxonomy=category">${data.counts.categories} Categories</a></li>
+          </ul></div>
+        </div>
+        <div id="dashboard_activity" class="postbox"><h2 class="hndle">Activity</h2>
+          <div class="inside"><div id="published-posts" class="activity-block"><h3>Recently Published</h3><ul>${recent}</ul></div></div>
+        </div>
+      </div>
+    </div>
+  </div>
+</div>`;
+}
+
+/**
+ * edit.php - posts list table
+ * @param {{ posts: import('./store').Post[], counts: Record<string, number>, status?: string, search: string,
+ *   categories: import('./store').Term[], termName: (id: number) => string, userName: (id: number) => string,
+ *   notice?: { type: 'success' | 'error', text: string } }} data
+ */
+function postsListContent(data) {
+  const total = Object.entries(data.counts).filter(([status]) => status !== 'trash').reduce((sum, [, count]) => sum + count, 0);
+  /** @type {Array<[string, string, number]>} */
+  const views = [
+    ['publish', 'Published', data.counts.publish || 0],
+    ['draft', 'Drafts', data.counts.draft || 0],
+    ['pending', 'Pending', data.counts.pending || 0],
+    ['private', 'Private', data.counts.private || 0],
+    ['trash', 'Trash', data.counts.trash || 0]
+  ];
+
+  // Like core, only statuses that have posts get a view link
+  const viewLinks = [`<li class="all"><a href="edit.php?post_type=post"${data.status ? '' : ' class="current" aria-current="page"'}>All <span class="count">(${total})</span></a></li>`]
+    .concat(views.filter(([, , count]) => count > 0).map(([status, label, count]) =>
+      `<li class="${status}"><a href="edit.php?post_status=${status}&amp;post_type=post"${data.status === status ? ' class="current" aria-current="page"' : ''}>${label} <span class="count">(${count})</span></a></li>`
+    ))
+    .join(' | ');
+
+  const stateLabels = { draft: 'Draft', pending: 'Pending', private: 'Private', future: 'Scheduled' };
+  const rows = data.posts.map(post => {
+    const state = /** @type {Record<string, string>} */ (stateLabels)[post.status];
+    const actions = post.status === 'trash'
+      ? `<span class="untrash"><a href="post.php?post=${post.id}&amp;action=untrash">Restore</a> | </span>` +
+        `<span class="delete"><a class="submitdelete" href="post.php?post=${post.id}&amp;action=delete">Delete Permanently</a></span>`
+      : `<span class="edit"><a href="post.php?post=${post.id}&amp;action=edit" aria-label="Edit &#8220;${escapeHtml(post.title)}&#8221;">Edit</a> | </span>` +
+        `<span class="inline hide-if-no-js"><button type="button" class="button-link editinline">Quick&nbsp;Edit</button> | </span>` +
+        `<span class="trash"><a class="submitdelete" href="post.php?post=${post.id}&amp;action=trash">Trash</a> | </span>` +
+        `<span class="view"><a href="/?p=${post.id}" rel="bookmark">${post.status === 'publish' ? 'View' : 'Preview'}</a></span>`;
+    const dateLabel = post.status === 'publish' ? 'Published' : 'Last Modified';
+
+    return `<tr id="post-${post.id}" class="iedit author-self level-0 post-${post.id} type-post status-${post.status} format-standard hentry">
+  <th scope="row" class="check-column"><input id="cb-select-${post.id}" type="checkbox" name="post[]" value="${post.id}"></th>
+  <td class="title column-title has-row-actions column-primary page-title" data-colname="Title">
+    <strong><a class="row-title" href="post.php?post=${post.id}&amp;action=edit">${escapeHtml(post.title || '(no title)')}</a>${state ? ` &mdash; <span class="post-state">${state}</span>` : ''}</strong>
+    <div class="row-actions">${actions}</div>
+  </td>
+  <td class="author column-author" data-colname="Author">${escapeHtml(data.userName(post.author))}</td>
+  <td class="categories column-categories" data-colname="Categories">${post.categories.map(id => escapeHtml(data.termName(id))).join(', ')}</td>
+  <td class="tags column-tags" data-colname="Tags">${post.tags.length ? post.tags.map(id => escapeHtml(data.termName(id))).join(', ') : '<span aria-hidden="true">&#8212;</span>'}</td>
+  <td class="date column-date" data-colname="Date">${dateLabel}<br>${formatDate(post.date)}</td>
+</tr>`;
+  }).join('\n');
+
+  const categoryOptions = data.categories.map(term => `<option class="level-0" value="${term.id}">${escapeHtml(term.name)}</option>`).join('');
+  const itemCount = `<span class="displaying-num">${data.posts.length} ${data.posts.length === 1 ? 'item' : 'items'}</span>`;
+
+  return `<div class="wrap">
+  <h1 class="wp-heading-inline">Posts</h1>
+  <a href="post-new.php" class="page-title-action">Add New Post</a>
+  ${data.search ? `<span class="subtitle">Search results for: <strong>${escapeHtml(data.search)}</strong></span>` : ''}
+  <hr class="wp-header-end">
+  ${renderNotice(data.notice)}
+  <ul class="subsubsub">${viewLinks}</ul>
+  <form id="posts-filter" method="get" action="edit.php">
+    <p class="search-box">
+      <label class="screen-reader-text" for="post-search-input">Search Posts:</label>
+      <input type="search" id="post-search-input" name="s" value="${escapeHtml(data.search)}">
+      <input type="submit" id="search-submit" class="button" value="Search Posts">
+    </p>
+    <input type="hidden" name="post_status" value="${escapeHtml(data.status || 'all')}">
+    <input type="hidden" name="post_type" value="post">
+    <div class="tablenav top">
+      <div class="alignleft actions bulkactions">
+        <label for="bulk-action-selector-top" class="screen-reader-text">Select bulk action</label>
+        <select name="action" id="bulk-action-selector-top">
+          <option value="-1">Bulk actions</option>
+          ${data.status === 'trash' ? '<option value="untrash">Restore</option><option value="delete">Delete permanently</option>' : '<option value="edit" class="hide-if-no-js">Edit</option><option value="trash">Move to Trash</option>'}
+        </select>
+        <input type="submit" id="doaction" class="button action" value="Apply">
+      </div>
+      <div class="alignleft actions">
+        <label for="filter-by-date" class="screen-reader-text">Filter by date</label>
+        <select name="m" id="filter-by-date"><option selected value="0">All dates</option></select>
+        <label class="screen-reader-text" for="cat">Filter by category</label>
+        <select name="cat" id="cat" class="postform"><option value="0">All Categories</option>${categoryOptions}</select>
+        <input type="submit" name="filter_action" id="post-query-submit" class="button" value="Filter">
+      </div>
+      <div class="tablenav-pages one-page">${itemCount}</div>
+    </div>
+    <table class="wp-list-table widefat fixed striped table-view-list posts">
+      <thead><tr>
+        <td id="cb" class="manage-column column-cb check-column"><input id="cb-select-all-1" type="checkbox"></td>
+        <th scope="col" id="title" class="manage-column column-title column-primary sortable desc">Title</th>
+        <th scope="col" id="author" class="manage-column column-author">Author</th>
+        <th scope="col" id="categories" class="manage-column column-categories">Categories</th>
+        <th scope="col" id="tags" class="manage-column column-tags">Tags</th>
+        <th scope="col" id="date" class="manage-column column-date sortable asc">Date</th>
+      </tr></thead>
+      <tbody id="the-list">
+${rows || '<tr class="no-items"><td class="colspanchange" colspan="6">No posts found.</td></tr>'}
+      </tbody>
+    </table>
+  </form>
+</div>`;
+}
+
+/**
+ * post-new.php / post.php?action=edit - classic editor
+ * @param {{ post: Partial<import('./store').Post> & { id: number }, isNew: boolean, categories: Array<import('./store').Term & { depth: number }>,
+ *   tagNames: string[], notice?: { type: 'success' | 'error', text: string } }} data
+ */
+function postEditorContent(data) {
+  const { post } = data;
+  const isPublished = post.status === 'publish';
+  const selectedCategories = post.categories || [];
+  const categoryItems = data.categories.map(term =>
+    `<li id="category-${term.id}"${term.depth ? ` style="margin-left: ${term.depth * 18}px"` : ''}><label class="selectit"><input value="${term.id}" type="checkbox" name="post_category[]" id="in-category-${term.id}"${selectedCategories.includes(term.id) ? ' checked' : ''}> ${escapeHtml(term.name)}</label></li>`
+  ).join('');
+
+  return `<div class="wrap">
+  <h1 class="wp-heading-inline">${data.isNew ? 'Add New Post' : 'Edit Post'}</h1>
+  ${data.isNew ? '' : '<a href="post-new.php" class="page-title-action">Add New Post</a>'}
+  <hr class="wp-header-end">
+  ${renderNotice(data.notice)}
+  <form name="post" action="post.php" method="post" id="post">
+    <input type="hidden" id="post_ID" name="post_ID" value="${post.id}">
+    <input type="hidden" id="hiddenaction" name="action" value="${data.isNew ? 'post' : 'editpost'}">
+    <input type="hidden" id="original_post_status" name="original_post_status" value="${escapeHtml(post.status || 'auto-draft')}">
+    <div id="poststuff"><div id="post-body" class="metabox-holder columns-2">
+      <div id="post-body-content">
+        <div id="titlediv"><div id="titlewrap">
+          <label class="screen-reader-text" id="title-prompt-text" for="title">Add title</label>
+          <input type="text" name="post_title" size="30" value="${escapeHtml(post.title || '')}" id="title" spellcheck="true" autocomplete="off">
+        </div></div>
+        <div id="postdivrich" class="postarea wp-editor-expand">
+          <div id="wp-content-wrap" class="wp-core-ui wp-editor-wrap tmce-active">
+            <div id="wp-content-editor-tools" class="wp-editor-tools hide-if-no-js">
+              <div class="wp-editor-tabs">
+                <button type="button" id="content-tmce" class="wp-switch-editor switch-tmce" data-wp-editor-id="content">Visual</button>
+                <button type="button" id="content-html" class="wp-switch-editor switch-html" data-wp-editor-id="content">Text</button>
+              </div>
+            </div>
+            <div id="wp-content-editor-container" class="wp-editor-container">
+              <iframe id="content_ifr" title="Rich Text Area" srcdoc="${escapeHtml('<!DOCTYPE html><html><body id="tinymce" class="mce-content-body content post-type-post" contenteditable="true"></body></html>')}"></iframe>
+              <textarea class="wp-editor-area" autocomplete="off" cols="40" name="content" id="content">${escapeHtml(post.content || '')}</textarea>
+            </div>
+          </div>
+        </div>
+        <div id="postexcerpt" class="postbox"><h2 class="hndle">Excerpt</h2>
+          <div class="inside"><label class="screen-reader-text" for="excerpt">Excerpt</label><textarea rows="1" cols="40" name="excerpt" id="excerpt">${escapeHtml(post.excerpt || '')}</textarea></div>
+        </div>
+      </div>
+      <div id="postbox-container-1" class="postbox-container">
+        <div id="submitdiv" class="postbox"><h2 class="hndle">Publish</h2>
+          <div class="inside"><div class="submitbox" id="submitpost">
+            <div id="minor-publishing">
+              ${isPublished ? '' : '<div id="save-action"><input type="submit" name="save" id="save-post" value="Save Draft" class="button"></div>'}
+              <div class="misc-pub-section misc-pub-post-status">Status: <span id="post-status-display">${isPublished ? 'Published' : 'Draft'}</span>
+                <select name="_status" id="post_status"><option value="publish"${isPublished ? ' selected' : ''}>Published</option><option value="pending">Pending Review</option><option value="draft"${isPublished ? '' : ' selected'}>Draft</option></select>
+              </div>
+            </div>
+            <div id="major-publishing-actions">
+              ${data.isNew ? '' : `<div id="delete-action"><a class="submitdelete deletion" href="post.php?post=${post.id}&amp;action=trash">Move to Trash</a></div>`}
+              <div id="publishing-action">
+                <input type="submit" name="${isPublished ? 'save' : 'publish'}" id="publish" class="button button-primary button-large" value="${isPublished ? 'Update' : 'Publish'}">
+              </div>
+            </div>
+          </div></div>
+        </div>
+        <div id="categorydiv" class="postbox"><h2 class="hndle">Categories</h2>
+          <div class="inside"><div id="taxonomy-category" class="categorydiv">
+            <div id="category-all" class="tabs-panel"><ul id="categorychecklist" data-wp-lists="list:category" class="categorychecklist form-no-clear">${categoryItems}</ul></div>
+          </div></div>
+        </div>
+        <div id="tagsdiv-post_tag" class="postbox"><h2 class="hndle">Tags</h2>
+          <div class="inside"><div class="tagsdiv" id="post_tag">
+            <div class="jaxtag">
+              <textarea name="tax_input[post_tag]" rows="3" cols="20" class="the-tags" id="tax-input-post_tag" aria-describedby="new-tag-post_tag-desc" hidden>${escapeHtml(data.tagNames.join(','))}</textarea>
+              <div class="ajaxtag hide-if-no-js">
+                <label class="screen-reader-text" for="new-tag-post_tag">Add New Tag</label>
+                <input type="text" id="new-tag-post_tag" name="newtag[post_tag]" class="newtag form-input-tip" size="16" autocomplete="off" value="">
+                <input type="button" class="button tagadd" value="Add">
+              </div>
+              <p class="howto" id="new-tag-post_tag-desc">Separate tags with commas</p>
+            </div>
+            <ul class="tagchecklist" role="list"></ul>
+          </div></div>
+        </div>
+        <div id="postimagediv" class="postbox"><h2 class="hndle">Featured image</h2>
+          <div class="inside"><p class="hide-if-no-js"><a href="#" id="set-post-thumbnail">Set featured image</a></p></div>
+        </div>
+      </div>
+    </div></div>
+  </form>
+</div>`;
+}
+
+/**
+ * Editor behaviour: Visual/Text tabs kept in sync with the textarea, and the tag box
+ * turning "Enter"/"Add" input into removable tag chips backed by tax_input[post_tag]
+ */
+const POST_EDITOR_SCRIPT = `
+(function () {
+  var wrap = document.getElementById('wp-content-wrap');
+  var textarea = document.getElementById('content');
+  var iframe = document.getElementById('content_ifr');
+  var visualTab = document.getElementById('content-tmce');
+  var textTab = document.getElementById('content-html');
+
+  function editorBody() {
+    return iframe.contentDocument && iframe.contentDocument.getElementById('tinymce');
+  }
+  function isVisual() {
+    return wrap.classList.contains('tmce-active');
+  }
+  // Only content typed into the visual editor is written back, so switching tabs never re-serializes raw HTML
+  var visualDirty = false;
+
+  function syncToTextarea() {
+    var body = editorBody();
+    if (isVisual() && body && visualDirty) {
+      textarea.value = body.innerHTML === '<br>' ? '' : body.innerHTML;
+    }
+  }
+  function loadIntoVisual() {
+    var body = editorBody();
+    if (body) {
+      body.innerHTML = textarea.value;
+      visualDirty = false;
+      if (!body.dataset.listening) {
+        body.dataset.listening = '1';
+        body.addEventListener('input', function () { visualDirty = true; });
+      }
+    }
+  }
+
+  iframe.addEventListener('load', loadIntoVisual);
+  loadIntoVisual();
+  visualTab.addEventListener('click', function () {
+    if (!isVisual()) {
+      wrap.classList.remove('html-active');
+      wrap.classList.add('tmce-active');
+      loadIntoVisual();
+    }
+  });
+  textTab.addEventListener('click', function () {
+    if (isVisual()) {
+      syncToTextarea();
+      wrap.classList.remove('tmce-active');
+      wrap.classList.add('html-active');
+    }
+  });
+  document.getElementById('post').addEventListener('submit', syncToTextarea);
+
+  var tagInput = document.getElementById('new-tag-post_tag');
+  var tagStore = document.getElementById('tax-input-post_tag');
+  var tagList = document.querySelector('#tagsdiv-post_tag .tagchecklist');
+
+  function currentTags() {
+    return tagStore.value.split(',').map(function (tag) { return tag.trim(); }).filter(Boolean);
+  }
+  function renderTags() {
+    tagList.innerHTML = '';
+    currentTags().forEach(function (tag, index) {
+      var item = document.createElement('li');
+      var button = document.createElement('button');
+      button.type = 'button';
+      button.id = 'post_tag-check-num-' + index;
+      button.className = 'ntdelbutton';
+      button.innerHTML = '<span class="remove-tag-icon" aria-hidden="true"></span><span class="screen-reader-text"></span>';
+      button.lastChild.textContent = 'Remove term: ' + tag;
+      button.addEventListener('click', function () {
+        tagStore.value = currentTags().filter(function (candidate) { return candidate !== tag; }).join(',');
+        renderTags();
+      });
+      item.appendChild(button);
+      item.appendChild(document.createTextNode('\\u00a0' + tag));
+      tagList.appendChild(item);
+    });
+  }
+  function addTags() {
+    var tags = currentTags();
+    tagInput.value.split(',').map(function (tag) { return tag.trim(); }).filter(Boolean).forEach(function (tag) {
+      if (tags.indexOf(tag) === -1) {
+        tags.push(tag);
+      }
+    });
+    tagStore.value = tags.join(',');
+    tagInput.value = '';
+    renderTags();
+  }
+
+  tagInput.addEventListener('keydown', function (event) {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      addTags();
+    }
+  });
+  document.querySelector('#tagsdiv-post_tag .tagadd').addEventListener('click', addTags);
+  document.getElementById('post').addEventListener('submit', function () {
+    if (tagInput.value.trim()) {
+      addTags();
+    }
+  });
+  renderTags();
+})();
+`;
+
+/**
+ * edit-tags.php - term list with the "Add New" form
+ * @param {{ taxonomy: 'category' | 'post_tag', terms: Array<import('./store').Term & { depth: number }>, allTerms: Array<import('./store').Term & { depth: number }>,
+ *   search: string, countPosts: (term: import('./store').Term) => number, defaultTermId: number,
+ *   notice?: { type: 'success' | 'error', text: string } }} data
+ */
+function termsListContent(data) {
+  const labels = TAXONOMY_LABELS[data.taxonomy];
+  const base = `taxonomy=${data.taxonomy}`;
+
+  const rows = data.terms.map(term => {
+    const isDefault = data.taxonomy === 'category' && term.id === data.defaultTermId;
+    const editUrl = `term.php?${base}&amp;tag_ID=${term.id}&amp;post_type=post`;
+    const prefix = '&#8212; '.repeat(term.depth);
+    return `<tr id="tag-${term.id}" class="level-${term.depth}">
+  <th scope="row" class="check-column">${isDefault ? '&nbsp;' : `<label class="label-covers-full-cell" for="cb-select-${term.id}"><span class="screen-reader-text">Select ${escapeHtml(term.name)}</span></label><input type="checkbox" name="delete_tags[]" value="${term.id}" id="cb-select-${term.id}">`}</th>
+  <td class="name column-name has-row-actions column-primary" data-colname="Name">
+    <strong><a class="row-title" href="${editUrl}" aria-label="&#8220;${escapeHtml(term.name)}&#8221; (Edit)">${prefix}${escapeHtml(term.name)}</a></strong>
+    <div class="hidden" id="inline_${term.id}"><div class="name">${escapeHtml(term.name)}</div><div class="slug">${escapeHtml(term.slug)}</div><div class="parent">${term.parent}</div></div>
+    <div class="row-actions">
+      <span class="edit"><a href="${editUrl}" aria-label="Edit &#8220;${escapeHtml(term.name)}&#8221;">Edit</a> | </span>
+      <span class="inline hide-if-no-js"><button type="button" class="button-link editinline">Quick&nbsp;Edit</button>${isDefault ? '' : ' | '}</span>
+      ${isDefault ? '' : `<span class="delete"><a href="edit-tags.php?action=delete&amp;${base}&amp;tag_ID=${term.id}" class="delete-tag aria-button-if-js" aria-label="Delete &#8220;${escapeHtml(term.name)}&#8221;" role="button">Delete</a> | </span>`}
+      <span class="view"><a href="/${data.taxonomy === 'category' ? 'category' : 'tag'}/${term.slug}/">View</a></span>
+    </div>
+  </td>
+  <td class="description column-description" data-colname="Description">${escapeHtml(term.description)}</td>
+  <td class="slug column-slug" data-colname="Slug">${escapeHtml(term.slug)}</td>
+  <td class="posts column-posts" data-colname="Count"><a href="edit.php?${data.taxonomy === 'category' ? 'category_name' : 'tag'}=${term.slug}">${data.countPosts(term)}</a></td>
+</tr>`;
+  }).join('\n');
+
+  const parentOptions = data.allTerms
+    .map(term => `<option class="level-${term.depth}" value="${term.id}">${'&nbsp;&nbsp;&nbsp;'.repeat(term.depth)}${escapeHtml(term.name)}</option>`)
+    .join('');
+
+  return `<div class="wrap nosubsub">
+  <h1 class="wp-heading-inline">${labels.plural}</h1>
+  ${data.search ? `<span class="subtitle">Search results for: <strong>${escapeHtml(data.search)}</strong></span>` : ''}
+  <hr class="wp-header-end">
+  ${renderNotice(data.notice)}
+  <form class="search-form wp-clearfix" method="get">
+    <input type="hidden" name="taxonomy" value="${data.taxonomy}">
+    <p class="search-box">
+      <label class="screen-reader-text" for="tag-search-input">Search ${labels.plural}:</label>
+      <input type="search" id="tag-search-input" name="s" value="${escapeHtml(data.search)}">
+      <input type="submit" id="search-submit" class="button" value="Search ${labels.plural}">
+    </p>
+  </form>
+  <div id="col-container" class="wp-clearfix">
+    <div id="col-left"><div class="col-wrap"><div class="form-wrap">
+      <h2>Add New ${labels.singular}</h2>
+      <form id="addtag" method="post" action="edit-tags.php" class="validate">
+        <input type="hidden" name="action" value="add-tag">
+        <input type="hidden" name="taxonomy" value="${data.taxonomy}">
+        <div class="form-field form-required term-name-wrap">
+          <label for="tag-name">Name</label>
+          <input name="tag-name" id="tag-name" type="text" value="" size="40" aria-required="true">
+        </div>
+        <div class="form-field term-slug-wrap">
+          <label for="tag-slug">Slug</label>
+          <input name="slug" id="tag-slug" type="text" value="" size="40">
+        </div>
+        ${labels.hierarchical ? `<div class="form-field term-parent-wrap">
+          <label for="parent">Parent ${labels.singular}</label>
+          <select name="parent" id="parent" class="postform"><option value="-1">None</option>${parentOptions}</select>
+        </div>` : ''}
+        <div class="form-field term-description-wrap">
+          <label for="tag-description">Description</label>
+          <textarea name="description" id="tag-description" rows="5" cols="40"></textarea>
+        </div>
+        <p class="submit"><input type="submit" name="submit" id="submit" class="button button-primary" value="Add New ${labels.singular}"></p>
+      </form>
+    </div></div></div>
+    <div id="col-right"><div class="col-wrap">
+      <form id="posts-filter" method="post" action="edit-tags.php">
+        <input type="hidden" name="taxonomy" value="${data.taxonomy}">
+        <div class="tablenav top">
+          <div class="alignleft actions bulkactions">
+            <label for="bulk-action-selector-top" class="screen-reader-text">Select bulk action</label>
+            <select name="action" id="bulk-action-selector-top"><option value="-1">Bulk actions</option><option value="delete">Delete</option></select>
+            <input type="submit" id="doaction" class="button action" value="Apply">
+          </div>
+          <div class="tablenav-pages one-page"><span class="displaying-num">${data.terms.length} ${data.terms.length === 1 ? 'item' : 'items'}</span></div>
+        </div>
+        <table class="wp-list-table widefat fixed striped table-view-list tags">
+          <thead><tr>
+            <td id="cb" class="manage-column column-cb check-column"><input id="cb-select-all-1" type="checkbox"></td>
+            <th scope="col" id="name" class="manage-column column-name column-primary sortable desc">Name</th>
+            <th scope="col" id="description" class="manage-column column-description">Description</th>
+            <th scope="col" id="slug" class="manage-column column-slug sortable desc">Slug</th>
+            <th scope="col" id="posts" class="manage-column column-posts num sortable desc">Count</th>
+          </tr></thead>
+          <tbody id="the-list" data-wp-lists="list:tag">
+${rows || `<tr class="no-items"><td class="colspanchange" colspan="5">No ${labels.plural.toLowerCase()} found.</td></tr>`}
+          </tbody>
+        </table>
+      </form>
+    </div></div>
+  </div>
+</div>`;
+}
+
+/**
+ * term.php - single term edit form
+ * @param {{ term: import('./store').Term, parents: Array<import('./store').Term & { depth: number }>,
+ *   notice?: { type: 'success' | 'error', text: string } }} data
+ */
+function termEditContent(data) {
+  const { term } = data;
+  const labels = TAXONOMY_LABELS[term.taxonomy];
+  const parentOptions = data.parents
+    .filter(candidate => candidate.id !== term.id)
+    .map(candidate => `<option class="level-${candidate.depth}" value="${candidate.id}"${candidate.id === term.parent ? ' selected' : ''}>${'&nbsp;&nbsp;&nbsp;'.repeat(candidate.depth)}${escapeHtml(candidate.name)}</option>`)
+    .join('');
+
+  return `<div class="wrap">
+  <h1>Edit ${labels.singular}</h1>
+  ${data.notice ? `${renderNotice(data.notice)}<p><a href="edit-tags.php?taxonomy=${term.taxonomy}">&larr; Go to ${labels.plural}</a></p>` : ''}
+  <div id="ajax-response"></div>
+  <form name="edittag" id="edittag" method="post" action="edit-tags.php" class="validate">
+    <input type="hidden" name="action" value="editedtag">
+    <input type="hidden" name="tag_ID" value="${term.id}">
+    <input type="hidden" name="taxonomy" value="${term.taxonomy}">
+    <table class="form-table" role="presentation">
+      <tr class="form-field form-required term-name-wrap"><th scope="row"><label for="name">Name</label></th>
+        <td><input name="name" id="name" type="text" value="${escapeHtml(term.name)}" size="40" aria-required="true"></td></tr>
+      <tr class="form-field term-slug-wrap"><th scope="row"><label for="slug">Slug</label></th>
+        <td><input name="slug" id="slug" type="text" value="${escapeHtml(term.slug)}" size="40"></td></tr>
+      ${labels.hierarchical ? `<tr class="form-field term-parent-wrap"><th scope="row"><label for="parent">Parent ${labels.singular}</label></th>
+        <td><select name="parent" id="parent" class="postform"><option value="-1">None</option>${parentOptions}</select></td></tr>` : ''}
+      <tr class="form-field term-description-wrap"><th scope="row"><label for="description">Description</label></th>
+        <td><textarea name="description" id="description" rows="5" cols="50" class="large-text">${escapeHtml(term.description)}</textarea></td></tr>
+    </table>
+    <div class="edit-tag-actions">
+      <input type="submit" class="button button-primary" value="Update">
+      <span id="delete-link"><a class="delete" href="edit-tags.php?action=delete&amp;taxonomy=${term.taxonomy}&amp;tag_ID=${term.id}">Delete</a></span>
+    </div>
+  </form>
+</div>`;
+}
+
+/**
+ * Placeholder for admin screens the stand-in does not implement (media, pages, comments, ...)
+ * @param {string} heading
+ */
+function placeholderContent(heading) {
+  return `<div class="wrap">
+  <h1 class="wp-heading-inline">${escapeHtml(heading)}</h1>
+  <hr class="wp-header-end">
+  <p class="local-wp-placeholder">This screen is not implemented by the local stand-in server.</p>
+</div>`;
+}
+
+module.exports = {
+  POST_MESSAGES,
+  TERM_MESSAGES,
+  TAXONOMY_LABELS,
+  POST_EDITOR_SCRIPT,
+  escapeHtml,
+  adminLayout,
+  loginPage,
+  wpDiePage,
+  dashboardContent,
+  postsListContent,
+  postEditorContent,
+  termsListContent,
+  termEditContent,
+  placeholderContent
+};
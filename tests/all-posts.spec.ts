@@ -12,7 +12,7 @@
  * @author XWP Platform Team
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '@fixtures/test-data-registry.fixture';
 import PageFactory from '@pages/page.factory';
 import { TestTags, TagCombinations } from '@fixtures/test-tags.fixture';
 import { testTimeouts } from '@fixtures/test-data.fixture';
@@ -20,7 +20,7 @@ import { TestUtils } from '@utils/test.utils';
 import { SmartLogger } from '../utils/smart-logger.utils';
 
 test.describe('All Posts Page Tests', {
-  tag: [TestTags.STAGING_ONLY, TestTags.CORE]
+  tag: [TestTags.STAGING_ONLY, TestTags.LOCAL_STAND_IN, TestTags.CORE]
 }, () => {
   let pageFactory: PageFactory;
 
@@ -206,7 +206,7 @@ test.describe('All Posts Page Tests', {
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
     const allPostsPage = contextPageFactory.allPostsPage;
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Integration Test Post ${TestUtils.generateRandomString(8)}`;
     const testContent = 'This post was created in an integration test to verify all posts page functionality.';
@@ -243,7 +243,7 @@ test.describe('All Posts Page Tests', {
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
     const allPostsPage = contextPageFactory.allPostsPage;
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const originalTitle = `Edit Flow Test ${TestUtils.generateRandomString(8)}`;
     const originalContent = 'Original content for edit flow test.';
@@ -295,7 +295,7 @@ test.describe('All Posts Page Tests', {
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
     const allPostsPage = contextPageFactory.allPostsPage;
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Publish Flow Test ${TestUtils.generateRandomString(8)}`;
     const testContent = 'This post will be published to test the workflow integration.';
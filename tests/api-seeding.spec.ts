@@ -0,0 +1,107 @@
+/**
+ * REST API Seeding Tests for staging.go.ione.nyc
+ * Tests that data seeded through WordPressApiClient shows up in the admin UI and vice versa
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: category seeding, draft post seeding, UI-created data verified through the API, teardown tracking
+ *
+ * Note: Uses saved session from playwright/.auth/staging-ione.json - the API client reuses it via cookie + nonce auth
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { categoryTestData } from '@fixtures/categories-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { TestUtils } from '@utils/test.utils';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+test.describe('REST API Seeding Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.API, TestTags.INTEGRATION]
+}, () => {
+  let pageFactory: PageFactory;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+
+    SmartLogger.initializeTest(testInfo.title);
+  });
+
+  test('should show API-seeded category on categories page @api-seeding @categories', {
+    tag: [TestTags.API, TestTags.HIGH]
+  }, async () => {
+    const categoryData = categoryTestData.dynamicCategory();
+    const category = await api.createCategory(categoryData);
+
+    try {
+      expect(category.slug).toBe(categoryData.slug);
+
+      const categoriesPage = pageFactory.categoriesPage;
+      await categoriesPage.navigate();
+      await categoriesPage.searchCategories(categoryData.name);
+
+      expect(await categoriesPage.categoryExists(categoryData.name)).toBe(true);
+    } finally {
+      await api.deleteCategory(category.id);
+    }
+  });
+
+  test('should show API-seeded draft in all posts list @api-seeding @all-posts', {
+    tag: [TestTags.API, TestTags.HIGH]
+  }, async () => {
+    const title = `Draft Post ${TestUtils.generateRandomString(8)}`;
+    const post = await api.createPost({ title, content: 'Seeded through the REST API.', status: 'draft' });
+
+    try {
+      const allPostsPage = pageFactory.allPostsPage;
+      await allPostsPage.navigate();
+      await allPostsPage.searchPosts(title);
+
+      expect(await allPostsPage.verifyPostExists(title)).toBe(true);
+      expect(await allPostsPage.getPostStatus(title)).toBe('draft');
+      expect(await allPostsPage.getPostIdByTitle(title)).toBe(String(post.id));
+    } finally {
+      await api.deletePost(post.id);
+    }
+  });
+
+  test('should verify UI-created category through the API @api-seeding @categories', {
+    tag: [TestTags.API, TestTags.MEDIUM]
+  }, async () => {
+    const categoryData = categoryTestData.dynamicCategory();
+
+    const categoriesPage = pageFactory.categoriesPage;
+    await categoriesPage.navigate();
+    const created = await categoriesPage.createCategory(categoryData.name, categoryData.slug, categoryData.description);
+    expect(created).toBe(true);
+
+    const category = await api.findCategoryByName(categoryData.name);
+    try {
+      expect(category).toBeDefined();
+      expect(category!.slug).toBe(categoryData.slug);
+      expect(category!.description).toBe(categoryData.description);
+    } finally {
+      if (category) await api.deleteCategory(category.id);
+    }
+  });
+
+  test('should register created content for teardown @api-seeding @cleanup', {
+    tag: [TestTags.API, TestTags.MEDIUM]
+  }, async ({ testDataRegistry }, testInfo) => {
+    const categoryData = categoryTestData.dynamicCategory();
+    const category = await api.createCategory(categoryData);
+
+    // Anything left pending here is removed by the registry fixture after the test
+    const pending = testDataRegistry.getPending(testInfo.testId);
+    expect(pending).toContainEqual(expect.objectContaining({ type: 'category', id: category.id, name: categoryData.name }));
+
+    // Deleting it ourselves takes it off the teardown list
+    await api.deleteCategory(category.id);
+    expect(testDataRegistry.getPending(testInfo.testId)).toHaveLength(0);
+  });
+});
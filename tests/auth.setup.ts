@@ -0,0 +1,65 @@
+/**
+ * Authentication Setup for staging.go.ione.nyc
+ * Logs in through the LoginPage object once per UserRole and saves each session under playwright/.auth/
+ * Runs as the "setup" project - every browser project depends on it, so a clean checkout
+ * can run the whole suite without a manually created session file
+ *
+ * Admin (playwright/.auth/staging-ione.json) is mandatory; other roles are skipped when
+ * their account is not available on the target site
+ *
+ * Between the admin login and the other roles, the admin session provisions the testUsers accounts:
+ * missing ones are created when their <ROLE>_PASSWORD is set (never on protected targets) and wrong roles are reported
+ *
+ * @author XWP Platform Team
+ */
+
+import { test as setup, expect } from '@playwright/test';
+import { UserRole } from '../types/base.types';
+import { AuthManager } from '@utils/auth.utils';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { UserProvisioner } from '@utils/user-provisioning.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+// In order, one after another: the admin session provisions the accounts the other roles log in with
+setup.describe.configure({ mode: 'default' });
+
+/**
+ * Log in as a role and save its session
+ */
+function authenticate(role: UserRole): void {
+  setup(`authenticate as ${role}`, async ({ page }) => {
+    SmartLogger.initializeTest(`authenticate as ${role}`);
+
+    try {
+      const authenticated = await AuthManager.authenticateRole(page, role);
+
+      if (role === UserRole.ADMIN) {
+        expect(authenticated).toBe(true);
+      } else {
+        setup.skip(!authenticated, `No working ${role} account on the target site - role-based tests will be skipped`);
+      }
+    } catch (error) {
+      await SmartLogger.logError(error as Error, page);
+      throw error;
+    }
+  });
+}
+
+authenticate(UserRole.ADMIN);
+
+setup('provision test users', async ({ browser }) => {
+  SmartLogger.initializeTest('provision test users');
+
+  const context = await browser.newContext({ storageState: AuthManager.getStorageStatePath(UserRole.ADMIN) });
+  try {
+    const api = await WordPressApiClient.fromBrowserContext(context);
+    // Missing and mismatched accounts are logged; their roles' logins below skip rather than fail
+    await UserProvisioner.provisionTestUsers(api);
+  } finally {
+    await context.close();
+  }
+});
+
+for (const role of Object.values(UserRole).filter(candidate => candidate !== UserRole.ADMIN)) {
+  authenticate(role);
+}
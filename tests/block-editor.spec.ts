@@ -0,0 +1,143 @@
+/**
+ * Block Editor Tests for staging.go.ione.nyc
+ * Tests the block editor (Gutenberg) features the classic editor does not have
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: editor load, paragraph/heading/list/image blocks, reordering and removing blocks,
+ * the document sidebar (categories, tags, excerpt) and the pre-publish panel
+ *
+ * Note: Skipped on sites serving the classic editor (see pageFactory.getEditorMode());
+ * title, content, draft and publish flows shared with the classic editor live in post-creation.spec.ts
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import BlockEditorPage from '@pages/block-editor.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { blockEditorTestData, blockEditorTestScenarios } from '@fixtures/block-editor-data.fixture';
+import { categoryTestData } from '@fixtures/categories-data.fixture';
+import { mediaTestData } from '@fixtures/media-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+test.describe('Block Editor Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let blockEditor: BlockEditorPage;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    test.skip(await pageFactory.getEditorMode() !== 'block', 'Site serves the classic editor');
+    blockEditor = pageFactory.getBlockEditorPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+  });
+
+  test('should load the block editor @block-editor @post-editor @load', async () => {
+    await blockEditor.navigateToNewPostDirectly();
+
+    expect(await blockEditor.verifyPostEditorLoaded()).toBe(true);
+    expect(await blockEditor.verifyAllPostEditorElementsVisible()).toBe(true);
+  });
+
+  test('should save paragraph, heading and list blocks @block-editor @create @draft', async () => {
+    const { blockNames } = blockEditorTestScenarios;
+
+    await blockEditor.navigateToNewPostDirectly();
+    await blockEditor.fillPostTitle(blockEditorTestData.dynamicTitle());
+    await blockEditor.addParagraphBlock(blockEditorTestData.paragraphs[0]);
+    await blockEditor.addHeadingBlock(blockEditorTestData.heading.text, blockEditorTestData.heading.level);
+    await blockEditor.addListBlock(blockEditorTestData.listItems);
+    await blockEditor.saveDraft();
+
+    const postId = await blockEditor.getCurrentPostId();
+    await blockEditor.navigateToEditPost(postId!);
+    const blocks = await blockEditor.getBlocks();
+    expect(blocks.map(block => block.name)).toEqual([blockNames.paragraph, blockNames.heading, blockNames.list]);
+    expect(blocks[1].text).toBe(blockEditorTestData.heading.text);
+    for (const item of blockEditorTestData.listItems) {
+      expect(blocks[2].text).toContain(item);
+    }
+
+    const post = await api.getPost(Number(postId));
+    expect(post.content.raw).toContain(`<!-- wp:heading {"level":${blockEditorTestData.heading.level}} -->`);
+    expect(post.content.raw).toContain('<!-- wp:list -->');
+  });
+
+  test('should reorder and remove blocks @block-editor @edit', async () => {
+    const [first, second, third] = blockEditorTestData.paragraphs;
+
+    await blockEditor.navigateToNewPostDirectly();
+    await blockEditor.fillPostTitle(blockEditorTestData.dynamicTitle());
+    for (const paragraph of blockEditorTestData.paragraphs) {
+      await blockEditor.addParagraphBlock(paragraph);
+    }
+
+    expect(await blockEditor.moveBlock(2, 'up')).toBe(true);
+    expect((await blockEditor.getBlocks()).map(block => block.text)).toEqual([first, third, second]);
+
+    expect(await blockEditor.removeBlock(0)).toBe(true);
+    expect((await blockEditor.getBlocks()).map(block => block.text)).toEqual([third, second]);
+
+    await blockEditor.saveDraft();
+    const post = await api.getPost(Number(await blockEditor.getCurrentPostId()));
+    expect(post.content.raw).not.toContain(first);
+    expect(post.content.raw!.indexOf(third)).toBeLessThan(post.content.raw!.indexOf(second));
+  });
+
+  test('should upload an image block @block-editor @media @create', async () => {
+    test.setTimeout(blockEditorTestScenarios.timeouts.upload * 2);
+    const { filePath } = mediaTestData.uniqueFile('image');
+
+    await blockEditor.navigateToNewPostDirectly();
+    await blockEditor.fillPostTitle(blockEditorTestData.dynamicTitle());
+    const attachmentId = await blockEditor.addImageBlock({ filePath });
+    expect(attachmentId).not.toBeNull();
+    await blockEditor.saveDraft();
+
+    const post = await api.getPost(Number(await blockEditor.getCurrentPostId()));
+    expect(post.content.raw).toContain(`wp-image-${attachmentId}`);
+  });
+
+  test('should save categories, tags and excerpt from the document sidebar @block-editor @categories @tags', async () => {
+    const category = await api.createCategory(categoryTestData.dynamicCategory());
+
+    await blockEditor.navigateToNewPostDirectly();
+    await blockEditor.fillPostTitle(blockEditorTestData.dynamicTitle());
+    await blockEditor.selectCategory(category.name);
+    await blockEditor.addTags(blockEditorTestData.tags);
+    await blockEditor.fillExcerpt(blockEditorTestData.excerpt);
+    await blockEditor.saveDraft();
+
+    expect(await blockEditor.verifySuccessMessageVisible()).toBe(true);
+    const post = await api.getPost(Number(await blockEditor.getCurrentPostId()));
+    expect(post.categories).toContain(category.id);
+    expect(post.tags).toHaveLength(blockEditorTestData.tags.split(',').length);
+    expect(post.excerpt.raw).toBe(blockEditorTestData.excerpt);
+  });
+
+  test('should publish through the pre-publish panel @block-editor @publish', async () => {
+    await blockEditor.navigateToNewPostDirectly();
+    await blockEditor.fillPostTitle(blockEditorTestData.dynamicTitle());
+    await blockEditor.addParagraphBlock(blockEditorTestData.paragraphs[0]);
+
+    test.skip(!await blockEditor.openPrePublishPanel(), 'Pre-publish checks are turned off for this user');
+    const checks = await blockEditor.getPrePublishChecks();
+    for (const label of blockEditorTestScenarios.prePublishChecks) {
+      expect(checks.some(check => check.startsWith(label))).toBe(true);
+    }
+    await blockEditor.closePublishPanel();
+
+    await blockEditor.publishPost();
+    expect(await blockEditor.verifyPostStatus('Published')).toBe(true);
+
+    const post = await api.getPost(Number(await blockEditor.getCurrentPostId()));
+    expect(post.status).toBe('publish');
+  });
+});
@@ -6,14 +6,14 @@
  * @author XWP Platform Team
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../fixtures/test-data-registry.fixture';
 import PageFactory from '../pages/page.factory';
 import { categoryTestData } from '../fixtures/categories-data.fixture';
 import { SmartLogger } from '../utils/smart-logger.utils';
 import { TestTags } from '../fixtures/test-tags.fixture';
 
 test.describe('Category Management Tests', {
-  tag: [TestTags.STAGING_ONLY, TestTags.CORE]
+  tag: [TestTags.STAGING_ONLY, TestTags.LOCAL_STAND_IN, TestTags.CORE]
 }, () => {
 
   test('should load categories page directly @categories @load', {
@@ -0,0 +1,80 @@
+/**
+ * Change Impact Tests
+ * Tests the change-driven test selection behind `npm run select-tests` and `npm run pipeline:info`
+ *
+ * Tests cover: change classification, import graph resolution through PageFactory,
+ * smoke and targeted selection with reasons
+ *
+ * Note: No browser or WordPress session needed - reads the repository's own sources
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/environment-guard.fixture';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { ImportGraph, SelectableTest, classifyChange, selectTests } from '@utils/change-impact.utils';
+
+test.describe('Change Impact Tests', {
+  tag: [TestTags.UNIT, TestTags.FAST, TestTags.NO_DATA_REQUIRED, TestTags.PROD_SAFE, TestTags.MEDIUM]
+}, () => {
+  let graph: ImportGraph;
+
+  test.beforeAll(() => {
+    graph = ImportGraph.build();
+  });
+
+  test('should classify changes by how much of the suite they affect', async () => {
+    const strategyOf = (file: string, exists = true) => classifyChange(file, graph, exists).strategy;
+
+    expect(strategyOf('README.md')).toBe('skip');
+    expect(strategyOf('docs/ai-instructions/04-test-structure.md')).toBe('skip');
+    expect(strategyOf('tests/categories.spec.ts')).toBe('direct');
+    expect(strategyOf('tests/removed.spec.ts', false)).toBe('skip');
+    expect(strategyOf('pages/categories.page.ts')).toBe('targeted');
+    expect(strategyOf('utils/smart-logger.utils.ts')).toBe('smoke');
+    expect(strategyOf('playwright.config.ts')).toBe('smoke');
+    expect(strategyOf('config/environments/staging.json')).toBe('smoke');
+    expect(strategyOf('tests/auth.setup.ts')).toBe('smoke');
+    expect(strategyOf('utils/element.helper.ts')).toBe('full');
+    expect(strategyOf('Dockerfile')).toBe('full');
+  });
+
+  test('should resolve page objects to the specs that use them through PageFactory', async () => {
+    const specs = graph.findDependentSpecs('pages/categories.page.ts');
+    const categories = specs.find(entry => entry.spec === 'tests/categories.spec.ts');
+
+    expect(categories?.chain).toEqual(['tests/categories.spec.ts', 'pages/page.factory.ts#categoriesPage', 'pages/categories.page.ts']);
+    expect(specs.map(entry => entry.spec)).not.toContain('tests/dashboard.spec.ts');
+
+    // Every page object extends BasePage
+    expect(graph.findDependentSpecs('pages/base.page.ts').map(entry => entry.spec)).toEqual(
+      expect.arrayContaining(['tests/categories.spec.ts', 'tests/dashboard.spec.ts', 'tests/post-creation.spec.ts'])
+    );
+  });
+
+  test('should select tests with the reason each was picked', async () => {
+    const tests: SelectableTest[] = [
+      { file: 'tests/categories.spec.ts', line: 19, titlePath: ['Category Management Tests', 'loads'], tags: [TestTags.CATEGORIES] },
+      { file: 'tests/dashboard.spec.ts', line: 27, titlePath: ['Dashboard Tests', 'loads'], tags: [TestTags.DASHBOARD] },
+      { file: 'tests/all-posts.spec.ts', line: 34, titlePath: ['All Posts Page Tests', 'loads'], tags: [TestTags.CRITICAL] },
+      { file: 'tests/post-creation.spec.ts', line: 33, titlePath: ['Post Creation Tests', 'loads'], tags: [TestTags.HIGH] }
+    ];
+
+    const docsOnly = selectTests('main', ['README.md'], tests, graph);
+    expect(docsOnly.strategy).toBe('skip');
+    expect(docsOnly.tests).toEqual([]);
+
+    const targeted = selectTests('main', ['pages/categories.page.ts', 'README.md'], tests, graph);
+    expect(targeted.strategy).toBe('targeted');
+    expect(targeted.specs).toEqual(['tests/categories.spec.ts']);
+    expect(targeted.tests[0].reasons).toEqual([
+      'tests/categories.spec.ts depends on pages/categories.page.ts via pages/page.factory.ts#categoriesPage'
+    ]);
+
+    const smoke = selectTests('main', ['playwright.config.ts'], tests, graph);
+    expect(smoke.strategy).toBe('smoke');
+    expect(smoke.specs).toEqual(['tests/all-posts.spec.ts', 'tests/dashboard.spec.ts']);
+    expect(smoke.grep).toBe(`${TestTags.SMOKE}|${TestTags.CRITICAL}`);
+
+    expect(selectTests('main', ['utils/element.helper.ts'], tests, graph).tests).toHaveLength(tests.length);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Comments Tests for staging.go.ione.nyc
+ * Tests commenting on the front end and moderating on edit-comments.php
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: a visitor's comment waiting for moderation and showing once approved, replying to and
+ * quick editing a comment, unapprove / spam / restore / trash row actions, bulk approve, trash and
+ * permanent deletion, and the duplicate comment error
+ *
+ * Note: Posts and seeded comments are created through the REST API and removed by the test data registry;
+ * visitors comment from a logged-out (guest) context with a random name and email
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/roles.fixture';
+import PageFactory from '@pages/page.factory';
+import CommentsPage from '@pages/comments.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { commentsTestData, commentsTestScenarios } from '@fixtures/comments-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+import { WpPost } from '../types/wordpress.types';
+import { UserRole } from '../types/base.types';
+
+test.describe('Comments Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.COMMENTS, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let commentsPage: CommentsPage;
+  let api: WordPressApiClient;
+  let post: WpPost;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    commentsPage = pageFactory.getCommentsPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+    post = await api.createPost({ title: commentsTestData.dynamicPostTitle(), status: 'publish', comment_status: 'open' });
+  });
+
+  /**
+   * Seed visitor comments on the test post, held for moderation or approved
+   */
+  async function seedComments(count: number, status: 'hold' | 'approved'): Promise<number[]> {
+    const ids: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const visitor = commentsTestData.visitor();
+      const comment = await api.createComment({
+        post: post.id,
+        content: visitor.content,
+        author_name: visitor.author,
+        author_email: visitor.email,
+        status
+      });
+      ids.push(comment.id);
+    }
+    return ids;
+  }
+
+  test('should hold a visitor comment for moderation and show it once approved @comments @create @moderation', {
+    tag: [TestTags.MODERATION]
+  }, async ({ asRole }) => {
+    const visitor = commentsTestData.visitor();
+    const visitorPage = (await asRole(UserRole.GUEST)).getSinglePostPage();
+
+    await visitorPage.navigateToPost(post.id);
+    expect(await visitorPage.areCommentsOpen()).toBe(true);
+    const commentId = await visitorPage.submitComment(visitor);
+    expect(commentId).not.toBeNull();
+    expect(await visitorPage.isCommentAwaitingModeration(commentId!)).toBe(true);
+    expect((await api.getComment(commentId!)).status).toBe('hold');
+
+    await commentsPage.navigate();
+    await commentsPage.filterByStatus('pending');
+    const row = (await commentsPage.getRows()).find(listed => listed.id === commentId);
+    expect(row).toMatchObject({
+      author: visitor.author,
+      authorEmail: visitor.email,
+      content: visitor.content,
+      status: 'pending',
+      postTitle: post.title.rendered
+    });
+    expect(await commentsPage.approveComment(commentId!)).toBe(true);
+    expect((await api.getComment(commentId!)).status).toBe('approved');
+
+    // A new visitor sees the approved comment without the moderation note
+    const otherVisitorPage = (await asRole(UserRole.GUEST)).getSinglePostPage();
+    await otherVisitorPage.navigateToPost(post.id);
+    expect(await otherVisitorPage.getComments()).toContainEqual({
+      id: commentId,
+      author: visitor.author,
+      content: visitor.content,
+      awaitingModeration: false
+    });
+  });
+
+  test('should reply to a pending comment and quick edit it @comments @edit @moderation', {
+    tag: [TestTags.MODERATION]
+  }, async () => {
+    const [commentId] = await seedComments(1, 'hold');
+    const reply = commentsTestData.dynamicComment();
+
+    await commentsPage.navigate();
+    // "Approve and Reply" approves the comment it answers
+    const replyId = await commentsPage.replyToComment(commentId, reply);
+    expect(replyId).not.toBeNull();
+    expect(await commentsPage.getCommentStatus(commentId)).toBe('approved');
+    expect((await api.getComment(replyId!)).parent).toBe(commentId);
+
+    const content = commentsTestData.dynamicComment();
+    const { author, authorUrl } = commentsTestData.quickEdit;
+    expect(await commentsPage.quickEditComment(commentId, { content, author, authorUrl })).toBe(true);
+
+    const edited = await api.getComment(commentId);
+    expect(edited.author_name).toBe(author);
+    expect(edited.author_url).toBe(authorUrl);
+    // The reply row names the parent's author as it was when the list loaded
+    await commentsPage.navigate();
+    expect((await commentsPage.getRows()).find(row => row.id === replyId)?.inReplyTo).toBe(author);
+  });
+
+  test('should unapprove, spam, restore and trash a comment @comments @moderation', {
+    tag: [TestTags.MODERATION]
+  }, async () => {
+    const [commentId] = await seedComments(1, 'approved');
+
+    await commentsPage.navigate();
+    expect(await commentsPage.unapproveComment(commentId)).toBe(true);
+    expect((await api.getComment(commentId)).status).toBe('hold');
+
+    expect(await commentsPage.spamComment(commentId)).toBe(true);
+    expect((await api.getComment(commentId)).status).toBe('spam');
+
+    await commentsPage.filterByStatus('spam');
+    expect(await commentsPage.commentExists(commentId)).toBe(true);
+    expect(await commentsPage.restoreComment(commentId)).toBe(true);
+    // Not Spam returns the comment to where it was before
+    expect((await api.getComment(commentId)).status).toBe('hold');
+
+    await commentsPage.filterByStatus('pending');
+    expect(await commentsPage.trashComment(commentId)).toBe(true);
+    expect((await api.getComment(commentId)).status).toBe('trash');
+  });
+
+  test('should approve, trash and permanently delete comments in bulk @comments @bulk @delete', async () => {
+    const ids = await seedComments(2, 'hold');
+
+    await commentsPage.navigate();
+    await commentsPage.filterByStatus('pending');
+    expect(await commentsPage.bulkAction(ids, 'approve')).toBe(true);
+    for (const id of ids) {
+      expect((await api.getComment(id)).status).toBe('approved');
+    }
+
+    await commentsPage.filterByStatus('approved');
+    expect(await commentsPage.bulkAction(ids, 'trash')).toBe(true);
+    await commentsPage.filterByStatus('trash');
+    expect(await commentsPage.bulkAction(ids, 'delete')).toBe(true);
+
+    const remaining = await api.listComments({ post: post.id, status: 'all' });
+    expect(remaining.filter(comment => ids.includes(comment.id))).toEqual([]);
+  });
+
+  test('should refuse a duplicate comment @comments @create @validation', {
+    tag: [TestTags.NEGATIVE]
+  }, async ({ asRole }) => {
+    const visitor = commentsTestData.visitor();
+    const visitorPage = (await asRole(UserRole.GUEST)).getSinglePostPage();
+
+    await visitorPage.navigateToPost(post.id);
+    expect(await visitorPage.submitComment(visitor)).not.toBeNull();
+
+    await visitorPage.navigateToPost(post.id);
+    expect(await visitorPage.submitComment(visitor)).toBeNull();
+    expect(await visitorPage.getErrorMessage()).toContain(commentsTestScenarios.duplicateCommentError);
+  });
+});
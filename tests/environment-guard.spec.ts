@@ -0,0 +1,85 @@
+/**
+ * Environment Guard Tests
+ * Tests that environment tags gate execution against the active TEST_ENV profile and that
+ * destructive interactions are recognised for @prod-safe tests
+ *
+ * Tests cover: tag policy decisions, @prod-safe tracking, destructive element and bulk action detection,
+ * required plugin checks
+ *
+ * Note: No browser or WordPress session needed - exercises EnvironmentGuard directly
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/environment-guard.fixture';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { EnvironmentManager } from '@utils/environment.utils';
+import { ElementFacts, ENVIRONMENT_ONLY_TAGS } from '@utils/environment-guard.utils';
+import { WpPlugin } from '../types/wordpress.types';
+
+function facts(overrides: Partial<ElementFacts>): ElementFacts {
+  return { tagName: 'a', id: '', name: '', className: '', href: '', label: '', ...overrides };
+}
+
+function plugin(file: string, name: string, status: WpPlugin['status']): WpPlugin {
+  return {
+    plugin: file, status, name, plugin_uri: '', author: '', author_uri: '', description: { raw: '', rendered: '' },
+    version: '1.0', network_only: false, requires_wp: '', requires_php: '', textdomain: file.split('/')[0]
+  };
+}
+
+test.describe('Environment Guard Tests', {
+  tag: [TestTags.UNIT, TestTags.FAST, TestTags.NO_DATA_REQUIRED, TestTags.PROD_SAFE, TestTags.MEDIUM]
+}, () => {
+  test('should only admit environment tags the active profile satisfies @environment', async ({ environmentGuard }) => {
+    const policy = EnvironmentManager.getInstance().getTagPolicy();
+
+    for (const tag of ENVIRONMENT_ONLY_TAGS) {
+      const decision = environmentGuard.evaluate([tag, TestTags.PROD_SAFE]);
+      expect(decision.allowed, `${tag} against ${EnvironmentManager.getInstance().getTestEnvironment()}`)
+        .toBe(policy.satisfies.includes(tag));
+    }
+
+    expect(environmentGuard.evaluate([TestTags.PROD_SAFE]).allowed).toBe(true);
+    expect(environmentGuard.evaluate([TestTags.CORE]).allowed).toBe(!policy.requireProdSafe);
+  });
+
+  test('should treat the running test as prod-safe @environment', async ({ environmentGuard }) => {
+    expect(environmentGuard.isProdSafeTest()).toBe(true);
+
+    expect(() => environmentGuard.assertSafeInteraction('click', '#publish', facts({ tagName: 'input', id: 'publish', label: 'Publish' })))
+      .toThrow(/Refused click on #publish .*@prod-safe/);
+    expect(() => environmentGuard.assertSafeInteraction('click', '.subsubsub a', facts({ href: 'edit.php?post_status=publish', label: 'Published (3)' })))
+      .not.toThrow();
+  });
+
+  test('should recognise trash, delete and publish interactions @environment', async ({ environmentGuard }) => {
+    expect(environmentGuard.findDestructiveIntent(facts({ className: 'submitdelete', href: 'post.php?post=7&action=trash', label: 'Trash' })))
+      .toBe('label "Trash"');
+    expect(environmentGuard.findDestructiveIntent(facts({ className: 'delete-tag aria-button-if-js', label: 'Remove category' })))
+      .toBe('label "Remove category"');
+    expect(environmentGuard.findDestructiveIntent(facts({ href: 'edit-tags.php?action=delete&taxonomy=category&tag_ID=4' })))
+      .toBe('link action=delete');
+    expect(environmentGuard.findDestructiveIntent(facts({ tagName: 'input', name: 'delete_all', label: 'Empty Trash' })))
+      .toBe('label "Empty Trash"');
+    expect(environmentGuard.findDestructiveIntent(undefined, ['trash'])).toBe('option "trash"');
+    expect(environmentGuard.findDestructiveIntent(undefined, ['Move to Trash'])).toBe('option "Move to Trash"');
+
+    expect(environmentGuard.findDestructiveIntent(facts({ id: 'save-post', label: 'Save Draft' }))).toBeUndefined();
+    expect(environmentGuard.findDestructiveIntent(facts({ href: 'edit.php?post_status=trash', label: 'Trash (2)' }))).toBeUndefined();
+    expect(environmentGuard.findDestructiveIntent(undefined, ['edit'])).toBeUndefined();
+  });
+
+  test('should only admit plugin-dependent tests where their plugins are active @environment', async ({ environmentGuard }) => {
+    const installed = [
+      plugin('jetpack/jetpack', 'Jetpack', 'active'),
+      plugin('akismet/akismet', 'Akismet Anti-spam', 'inactive'),
+      plugin('hello', 'Hello Dolly', 'network-active')
+    ];
+
+    expect(environmentGuard.evaluatePlugins(['jetpack', 'hello'], installed)).toEqual({ allowed: true });
+    expect(environmentGuard.evaluatePlugins(['jetpack', 'akismet', 'woocommerce'], installed)).toEqual({
+      allowed: false,
+      reason: expect.stringMatching(/Akismet Anti-spam \(akismet\) is installed but inactive; woocommerce is not installed$/)
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Environment Profile Tests
+ * Tests that every profile in config/environments passes the schema and that the Playwright
+ * config resolves URLs, timeouts and retries from the profile selected by TEST_ENV
+ *
+ * Tests cover: shipped profiles validate, schema rejects malformed profiles, config matches EnvironmentManager
+ *
+ * Note: No browser or WordPress session needed - reads the profile files directly
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/environment-guard.fixture';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { EnvironmentManager } from '@utils/environment.utils';
+import { validateEnvironmentProfile } from '@config/environment-profile.schema';
+
+const PROFILES_DIR = path.resolve(__dirname, '../config/environments');
+
+function readProfile(name: string): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(path.join(PROFILES_DIR, `${name}.json`), 'utf8'));
+}
+
+test.describe('Environment Profile Tests', {
+  tag: [TestTags.UNIT, TestTags.FAST, TestTags.NO_DATA_REQUIRED, TestTags.PROD_SAFE, TestTags.MEDIUM]
+}, () => {
+  test('should ship valid local, dev, staging and prod profiles @environment', async () => {
+    const profiles = EnvironmentManager.getAvailableProfiles();
+    expect(profiles).toEqual(expect.arrayContaining(['local', 'dev', 'staging', 'prod']));
+
+    for (const name of profiles) {
+      const profile = readProfile(name);
+      expect(validateEnvironmentProfile(profile), `${name}.json schema problems`).toEqual([]);
+      expect(profile.name, `${name}.json name field`).toBe(name);
+    }
+  });
+
+  test('should report every schema problem in a malformed profile @environment @negative', async () => {
+    const profile = readProfile('staging');
+    const broken = {
+      ...profile,
+      baseURL: profile.baseUrl,
+      baseUrl: 'staging.go.ione.nyc',
+      loginPath: 'wp-login.php',
+      timeouts: { element: 500, action: 30000 },
+      retries: { element: 0, test: 1, testOnCi: '2' },
+      editor: 'gutenberg',
+      tagPolicy: { satisfies: ['@prod-safe'], requireProdSafe: false, onViolation: 'warn' }
+    };
+
+    expect(validateEnvironmentProfile(broken)).toEqual(expect.arrayContaining([
+      'baseURL is not a known profile field',
+      'baseUrl must be an absolute http(s) URL, got "staging.go.ione.nyc"',
+      'loginPath must start with "/", got "wp-login.php"',
+      'timeouts.element must be between 1000 and 300000, got 500',
+      'timeouts.navigation is required',
+      'retries.element must be between 1 and 10, got 0',
+      'retries.testOnCi must be an integer, got 2',
+      'editor must be one of auto, classic, block, got "gutenberg"',
+      'tagPolicy.satisfies entries must be one of @local-only, @dev-only, @staging-only, got "@prod-safe"',
+      'tagPolicy.onViolation must be one of skip, fail, got "warn"'
+    ]));
+    expect(validateEnvironmentProfile({ name: 'empty' })).toEqual([
+      'baseUrl is required',
+      'timeouts is required',
+      'retries is required',
+      'tagPolicy is required'
+    ]);
+  });
+
+  test('should drive the Playwright config from the selected profile @environment', async ({}, testInfo) => {
+    const envManager = EnvironmentManager.getInstance();
+    const projectUse = testInfo.project.use;
+
+    expect(projectUse.baseURL).toBe(envManager.getBaseUrl());
+    expect(projectUse.actionTimeout).toBe(envManager.getActionTimeout());
+    expect(projectUse.navigationTimeout).toBe(envManager.getNavigationTimeout());
+    expect(testInfo.project.retries).toBe(envManager.getTestRetries());
+  });
+});
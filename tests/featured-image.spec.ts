@@ -0,0 +1,93 @@
+/**
+ * Featured Image Tests for staging.go.ione.nyc
+ * Tests setting, replacing and removing a post's featured image from the post editor (classic or block)
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: uploading a new image through the media modal, picking an existing attachment,
+ * persistence after publish and reload, and removal
+ *
+ * Note: Images are copies of fixtures/media under unique names; existing attachments are seeded through the REST API
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { mediaTestData, mediaTestScenarios } from '@fixtures/media-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { TestUtils } from '@utils/test.utils';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+test.describe('Featured Image Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+
+    SmartLogger.initializeTest(testInfo.title);
+  });
+
+  test('should keep an uploaded featured image after publishing @media @post-editor @publish', async ({ page }) => {
+    test.setTimeout(mediaTestScenarios.timeouts.upload * 2);
+    const postPage = await pageFactory.getPostEditor();
+    const { filePath } = mediaTestData.uniqueFile('image');
+
+    await postPage.navigateToNewPostDirectly();
+    await postPage.fillPostTitle(`Published Post ${TestUtils.generateRandomString(8)}`);
+    const attachmentId = await postPage.setFeaturedImage({ filePath });
+    expect(attachmentId).not.toBeNull();
+
+    await postPage.publishPost();
+    await page.reload();
+    expect(await postPage.verifyFeaturedImage(attachmentId!)).toBe(true);
+
+    const postId = Number(await postPage.getCurrentPostId());
+    expect((await api.getPost(postId)).featured_media).toBe(attachmentId);
+  });
+
+  test('should pick an existing attachment as featured image @media @post-editor @draft', async ({ page }) => {
+    const postPage = await pageFactory.getPostEditor();
+    const { filePath, title } = mediaTestData.uniqueFile('image');
+    const media = await api.uploadMedia(filePath);
+
+    await postPage.navigateToNewPostDirectly();
+    await postPage.fillPostTitle(`Draft Post ${TestUtils.generateRandomString(8)}`);
+    expect(await postPage.setFeaturedImage({ attachmentId: media.id, title })).toBe(media.id);
+
+    await postPage.saveDraft();
+    await page.reload();
+    expect(await postPage.verifyFeaturedImage(media.id)).toBe(true);
+  });
+
+  test('should replace and remove the featured image of a published post @media @post-editor @edit', async ({ page }) => {
+    const postPage = await pageFactory.getPostEditor();
+    const original = await api.uploadMedia(mediaTestData.uniqueFile('image').filePath);
+    const replacement = mediaTestData.uniqueFile('image');
+    const replacementMedia = await api.uploadMedia(replacement.filePath);
+    const post = await api.createPost({
+      title: `Published Post ${TestUtils.generateRandomString(8)}`,
+      status: 'publish',
+      featured_media: original.id
+    });
+
+    await postPage.navigateToEditPost(String(post.id));
+    expect(await postPage.verifyFeaturedImage(original.id)).toBe(true);
+
+    expect(await postPage.setFeaturedImage({ attachmentId: replacementMedia.id, title: replacement.title })).toBe(replacementMedia.id);
+    await postPage.publishPost();
+    await page.reload();
+    expect(await postPage.verifyFeaturedImage(replacementMedia.id)).toBe(true);
+
+    expect(await postPage.removeFeaturedImage()).toBe(true);
+    await postPage.publishPost();
+    await page.reload();
+    expect(await postPage.getFeaturedImageId()).toBeNull();
+    expect((await api.getPost(post.id)).featured_media).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * List Table Tests for staging.go.ione.nyc
+ * Tests pagination, sorting and Screen Options of the posts list (edit.php) and the categories list (edit-tags.php)
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: walking every page into typed rows, sorting by the title, date and comments headers,
+ * hiding and showing columns, and the same row abstraction on the categories list
+ *
+ * Note: Posts and categories are created through the REST API with a shared marker and listed through a
+ * search for it; items per page is lowered so they span two pages. Screen Options are saved per user,
+ * so every change is undone after the test.
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import AllPostsPage from '@pages/all-posts.page';
+import CategoriesPage from '@pages/categories.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { listTableTestData, listTableTestScenarios } from '@fixtures/list-table-data.fixture';
+import { categoryTestData } from '@fixtures/categories-data.fixture';
+import { tagsTestData } from '@fixtures/tags-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+import { WpPost } from '../types/wordpress.types';
+
+test.describe('List Table Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let allPostsPage: AllPostsPage;
+  let categoriesPage: CategoriesPage;
+  let api: WordPressApiClient;
+  let undoScreenOptions: Array<() => Promise<void>>;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    allPostsPage = pageFactory.getAllPostsPage();
+    categoriesPage = pageFactory.getCategoriesPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+    undoScreenOptions = [];
+  });
+
+  test.afterEach(async () => {
+    for (const undo of undoScreenOptions.reverse()) {
+      await undo();
+    }
+  });
+
+  /**
+   * Create one post per fixture date, oldest first, all carrying the marker in their content
+   */
+  async function createMarkedPosts(marker: string, status: 'draft' | 'publish' = 'publish'): Promise<WpPost[]> {
+    const posts: WpPost[] = [];
+    for (const date of listTableTestData.postDates) {
+      posts.push(await api.createPost({ title: listTableTestData.dynamicTitle(), content: marker, status, date }));
+    }
+    return posts;
+  }
+
+  /**
+   * Lower items per page on the open list and put the default back after the test
+   */
+  async function setItemsPerPage(list: AllPostsPage | CategoriesPage, count: number): Promise<void> {
+    undoScreenOptions.push(async () => {
+      await list.navigate();
+      await list.setItemsPerPage(listTableTestScenarios.defaultItemsPerPage);
+    });
+    expect(await list.setItemsPerPage(count)).toBe(true);
+  }
+
+  test('should read every page of the posts list as typed rows @all-posts @list-table', async () => {
+    const marker = listTableTestData.dynamicMarker();
+    const category = await api.createCategory(categoryTestData.dynamicCategory());
+    const tag = await api.createTag(tagsTestData.dynamicTag());
+    const author = await api.getCurrentUser();
+    const posts = await createMarkedPosts(marker);
+    await api.updatePost(posts[0].id, { status: 'draft', categories: [category.id], tags: [tag.id] });
+
+    await allPostsPage.navigate();
+    await setItemsPerPage(allPostsPage, listTableTestScenarios.itemsPerPage);
+    await allPostsPage.searchPosts(marker);
+
+    expect(await allPostsPage.getTotalItems()).toBe(posts.length);
+    expect(await allPostsPage.getPageCount()).toBe(listTableTestScenarios.expectedPages);
+    expect(await allPostsPage.getRows()).toHaveLength(listTableTestScenarios.itemsPerPage);
+
+    const rows = await allPostsPage.getAllRows();
+    expect(await allPostsPage.getCurrentPageNumber()).toBe(listTableTestScenarios.expectedPages);
+    expect(rows.map(row => row.id).sort((a, b) => a - b)).toEqual(posts.map(post => post.id).sort((a, b) => a - b));
+
+    const [edited, ...others] = posts;
+    expect(rows.find(row => row.id === edited.id)).toMatchObject({
+      title: edited.title.raw,
+      author: author.name,
+      categories: [category.name],
+      tags: [tag.name],
+      status: 'draft'
+    });
+    for (const post of others) {
+      const row = rows.find(candidate => candidate.id === post.id)!;
+      expect(row.title).toBe(post.title.raw);
+      expect(row.status).toBe('published');
+      expect(row.date).toContain('Published');
+    }
+  });
+
+  test('should sort the posts list by title, date and comments @all-posts @list-table', async () => {
+    const marker = listTableTestData.dynamicMarker();
+    const posts = await createMarkedPosts(marker);
+    const oldestFirst = posts.map(post => post.id);
+
+    await allPostsPage.navigate();
+    await allPostsPage.searchPosts(marker);
+
+    await allPostsPage.sortBy('title', 'asc');
+    const titles = posts.map(post => post.title.raw!).sort((a, b) => a.localeCompare(b));
+    expect((await allPostsPage.getAllRows()).map(row => row.title)).toEqual(titles);
+
+    await allPostsPage.sortBy('title', 'desc');
+    expect((await allPostsPage.getAllRows()).map(row => row.title)).toEqual([...titles].reverse());
+
+    await allPostsPage.sortBy('date', 'asc');
+    expect((await allPostsPage.getAllRows()).map(row => row.id)).toEqual(oldestFirst);
+
+    await allPostsPage.sortBy('date', 'desc');
+    expect((await allPostsPage.getAllRows()).map(row => row.id)).toEqual([...oldestFirst].reverse());
+
+    await allPostsPage.sortBy('comments', 'desc');
+    expect(await allPostsPage.getSortState()).toEqual({ column: 'comments', order: 'desc' });
+    expect(await allPostsPage.getAllRows()).toHaveLength(posts.length);
+  });
+
+  test('should hide and show a column from Screen Options @all-posts @list-table', async ({ page }) => {
+    const marker = listTableTestData.dynamicMarker();
+    const tag = await api.createTag(tagsTestData.dynamicTag());
+    const [post] = await createMarkedPosts(marker);
+    await api.updatePost(post.id, { tags: [tag.id] });
+
+    await allPostsPage.navigate();
+    await allPostsPage.searchPosts(marker);
+    undoScreenOptions.push(async () => {
+      await allPostsPage.navigate();
+      await allPostsPage.setColumnVisible('tags', true);
+    });
+    expect(await allPostsPage.setColumnVisible('tags', false)).toBe(true);
+
+    // The choice is saved for the user, and hidden columns are still read into the rows
+    await page.reload();
+    expect(await allPostsPage.isColumnVisible('tags')).toBe(false);
+    expect((await allPostsPage.getRows()).find(row => row.id === post.id)?.tags).toEqual([tag.name]);
+
+    expect(await allPostsPage.setColumnVisible('tags', true)).toBe(true);
+    await page.reload();
+    expect(await allPostsPage.isColumnVisible('tags')).toBe(true);
+  });
+
+  test('should read and sort every page of the categories list @categories @list-table', async () => {
+    const marker = listTableTestData.dynamicMarker();
+    const categories = [];
+    for (let index = 1; index <= listTableTestData.postDates.length; index++) {
+      categories.push(await api.createCategory(listTableTestData.dynamicCategory(marker, index)));
+    }
+
+    await categoriesPage.navigate();
+    await setItemsPerPage(categoriesPage, listTableTestScenarios.itemsPerPage);
+    await categoriesPage.searchTerms(marker);
+
+    expect(await categoriesPage.getTotalItems()).toBe(categories.length);
+    expect(await categoriesPage.getPageCount()).toBe(listTableTestScenarios.expectedPages);
+
+    const rows = await categoriesPage.getAllRows();
+    expect(rows).toHaveLength(categories.length);
+    for (const category of categories) {
+      expect(rows.find(row => row.id === category.id)).toMatchObject({
+        name: category.name,
+        slug: category.slug,
+        description: category.description,
+        count: 0,
+        parent: 0
+      });
+    }
+
+    await categoriesPage.sortBy('name', 'desc');
+    const names = categories.map(category => category.name).sort((a, b) => b.localeCompare(a));
+    expect((await categoriesPage.getAllRows()).map(row => row.name)).toEqual(names);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Media Library Tests for staging.go.ione.nyc
+ * Tests the WordPress media library (upload.php) in grid and list mode
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: page load and mode switch, uploads, rejected file types, attachment details,
+ * search, type and date filters, and permanent deletion from both modes
+ *
+ * Note: Upload files are copies of fixtures/media under unique names
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { mediaTestData, mediaTestScenarios } from '@fixtures/media-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+test.describe('Media Library Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+
+    SmartLogger.initializeTest(testInfo.title);
+  });
+
+  test('should load the media library and switch modes @media @load', async () => {
+    const mediaLibraryPage = pageFactory.getMediaLibraryPage();
+
+    await mediaLibraryPage.navigate('grid');
+    expect(await mediaLibraryPage.isMediaLibraryLoaded()).toBe(true);
+    expect(await mediaLibraryPage.getCurrentMode()).toBe('grid');
+
+    await mediaLibraryPage.switchToMode('list');
+    expect(await mediaLibraryPage.getCurrentMode()).toBe('list');
+
+    await mediaLibraryPage.switchToMode('grid');
+    expect(await mediaLibraryPage.getCurrentMode()).toBe('grid');
+  });
+
+  test('should upload an image from the grid @media @create', async () => {
+    test.setTimeout(mediaTestScenarios.timeouts.upload * 2);
+    const mediaLibraryPage = pageFactory.getMediaLibraryPage();
+    const { filePath, title } = mediaTestData.uniqueFile('image');
+
+    await mediaLibraryPage.navigate('grid');
+    const attachmentId = await mediaLibraryPage.uploadFile(filePath);
+    expect(attachmentId).not.toBeNull();
+    expect(await mediaLibraryPage.attachmentExists(attachmentId!)).toBe(true);
+
+    const media = await api.getMedia(attachmentId!);
+    expect(media.title.raw).toBe(title);
+    expect(media.mime_type).toBe(mediaTestData.files.image.mimeType);
+  });
+
+  test('should reject an unsupported file type @media @validation', {
+    tag: [TestTags.NEGATIVE]
+  }, async () => {
+    const mediaLibraryPage = pageFactory.getMediaLibraryPage();
+    const { filePath, title } = mediaTestData.uniqueFile('unsupported');
+
+    await mediaLibraryPage.navigate('grid');
+    expect(await mediaLibraryPage.uploadFile(filePath)).toBeNull();
+    expect(await mediaLibraryPage.getUploadErrorText()).toContain(mediaTestScenarios.errorScenarios.unsupportedType);
+
+    expect(await api.listMedia({ search: title })).toHaveLength(0);
+  });
+
+  test('should edit attachment details @media @edit', async () => {
+    const mediaLibraryPage = pageFactory.getMediaLibraryPage();
+    const media = await api.uploadMedia(mediaTestData.uniqueFile('image').filePath);
+    const details = mediaTestData.details();
+
+    expect(await mediaLibraryPage.updateAttachmentDetails(media.id, details)).toBe(true);
+
+    // Saved fields survive a reload of the modal
+    const reloaded = await mediaLibraryPage.getAttachmentDetails(media.id);
+    expect(reloaded.altText).toBe(details.altText);
+    expect(reloaded.caption).toBe(details.caption);
+    expect(reloaded.description).toBe(details.description);
+
+    const updated = await api.getMedia(media.id);
+    expect(updated.alt_text).toBe(details.altText);
+    expect(updated.caption.raw).toBe(details.caption);
+    expect(updated.description.raw).toBe(details.description);
+  });
+
+  test('should search the library in both modes @media @search', async () => {
+    const mediaLibraryPage = pageFactory.getMediaLibraryPage();
+    const { filePath, title } = mediaTestData.uniqueFile('image');
+    const media = await api.uploadMedia(filePath);
+
+    await mediaLibraryPage.navigate('grid');
+    await mediaLibraryPage.searchMedia(title);
+    expect(await mediaLibraryPage.getVisibleAttachmentIds()).toEqual([media.id]);
+
+    await mediaLibraryPage.searchMedia(mediaTestData.searchTerms.nonExisting);
+    expect(await mediaLibraryPage.getAttachmentCount()).toBe(0);
+
+    await mediaLibraryPage.navigate('list');
+    await mediaLibraryPage.searchMedia(title);
+    expect(await mediaLibraryPage.getVisibleAttachmentIds()).toEqual([media.id]);
+  });
+
+  test('should filter the library by type and date @media @filter', async () => {
+    const mediaLibraryPage = pageFactory.getMediaLibraryPage();
+    const image = await api.uploadMedia(mediaTestData.uniqueFile('image').filePath);
+    const document = await api.uploadMedia(mediaTestData.uniqueFile('document').filePath);
+
+    await mediaLibraryPage.navigate('grid');
+    await mediaLibraryPage.filterByType('Images');
+    expect(await mediaLibraryPage.attachmentExists(image.id)).toBe(true);
+    expect(await mediaLibraryPage.attachmentExists(document.id)).toBe(false);
+
+    await mediaLibraryPage.navigate('list');
+    await mediaLibraryPage.filterByType('Documents');
+    expect(await mediaLibraryPage.attachmentExists(document.id)).toBe(true);
+    expect(await mediaLibraryPage.attachmentExists(image.id)).toBe(false);
+
+    await mediaLibraryPage.filterByType('All media items');
+    await mediaLibraryPage.filterByDate(mediaTestData.monthLabel(image.date));
+    expect(await mediaLibraryPage.attachmentExists(image.id)).toBe(true);
+    expect(await mediaLibraryPage.attachmentExists(document.id)).toBe(true);
+  });
+
+  test('should delete an attachment permanently from the grid @media @delete', async () => {
+    const mediaLibraryPage = pageFactory.getMediaLibraryPage();
+    const media = await api.uploadMedia(mediaTestData.uniqueFile('image').filePath);
+
+    await mediaLibraryPage.navigate('grid');
+    expect(await mediaLibraryPage.deleteAttachmentPermanently(media.id)).toBe(true);
+
+    await expect(api.getMedia(media.id)).rejects.toThrow();
+  });
+
+  test('should delete an attachment permanently from the list @media @delete', async () => {
+    const mediaLibraryPage = pageFactory.getMediaLibraryPage();
+    const media = await api.uploadMedia(mediaTestData.uniqueFile('document').filePath);
+
+    await mediaLibraryPage.navigate('list');
+    expect(await mediaLibraryPage.deleteAttachmentPermanently(media.id)).toBe(true);
+
+    await expect(api.getMedia(media.id)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Menus Tests for staging.go.ione.nyc
+ * Tests building navigation menus on Appearance > Menus (nav-menus.php) and how the theme renders them
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: adding a page, a post, a category and a custom link, reordering and nesting them by drag
+ * and drop, assigning the menu to a theme location and reading it on the front page, removing a
+ * parent item, deleting a menu and the duplicate menu name error
+ *
+ * Note: The linked content and the menus created through the API are removed by the test data registry.
+ * The location is the first one the active theme registers (skipped when it has none). A location shows
+ * one menu, so the menu the site had there is assigned back after each test.
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import MenusPage, { MenuLocation } from '@pages/menus.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { menusTestData, menusTestScenarios } from '@fixtures/menus-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+test.describe('Menus Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.MENUS, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let menusPage: MenusPage;
+  let api: WordPressApiClient;
+  let content: ReturnType<typeof menusTestData.content>;
+  let location: MenuLocation | undefined;
+  let previousMenu: number;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    menusPage = pageFactory.getMenusPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+    content = menusTestData.content();
+    const locations = await api.listMenuLocations();
+    location = Object.keys(locations)[0];
+    previousMenu = location ? locations[location].menu : 0;
+  });
+
+  test.afterEach(async () => {
+    if (location && previousMenu) {
+      const previous = await api.getMenu(previousMenu);
+      if (!previous.locations.includes(location)) {
+        await api.updateMenuLocations(previousMenu, [...previous.locations, location]);
+      }
+    }
+  });
+
+  test('should build a nested menu and show it in a theme location @menus @create @edit', async () => {
+    test.skip(!location, 'The active theme registers no menu locations');
+    const menuName = menusTestData.dynamicMenuName();
+    const { url, label } = menusTestData.customLink;
+    await api.createPage({ title: content.pageTitle, status: 'publish' });
+    await api.createPost({ title: content.postTitle, status: 'publish' });
+    await api.createCategory({ name: content.categoryName });
+
+    const menuId = await menusPage.createMenu(menuName);
+    expect(menuId).not.toBeNull();
+    expect(await menusPage.getNoticeText()).toContain(menusTestScenarios.created(menuName));
+
+    expect(await menusPage.addPages([content.pageTitle])).toBe(true);
+    expect(await menusPage.addPosts([content.postTitle])).toBe(true);
+    expect(await menusPage.addCategories([content.categoryName])).toBe(true);
+    expect(await menusPage.addCustomLink(url, label)).toBe(true);
+
+    expect(await menusPage.moveMenuItem(label, content.pageTitle, 'before')).toBe(true);
+    expect(await menusPage.nestMenuItem(content.postTitle, content.pageTitle)).toBe(true);
+    const structure = await menusPage.getMenuStructure();
+    expect(structure.map(({ title, depth }) => ({ title, depth }))).toEqual([
+      { title: label, depth: 0 },
+      { title: content.pageTitle, depth: 0 },
+      { title: content.postTitle, depth: 1 },
+      { title: content.categoryName, depth: 0 }
+    ]);
+
+    // Saving with the location ticked stores the items as arranged
+    expect(await menusPage.setMenuLocations([location!])).toBe(true);
+    expect(await menusPage.getMenuLocations()).toEqual([location]);
+    const items = await api.listMenuItems(menuId!);
+    expect(items.map(item => ({ id: item.id, parent: item.parent }))).toEqual(
+      structure.map(item => ({ id: item.id, parent: item.parentId })));
+    expect((await api.getMenu(menuId!)).locations).toEqual([location]);
+
+    expect(await menusPage.getRenderedMenu(structure[0].id)).toEqual([
+      { title: label, url, children: [] },
+      {
+        title: content.pageTitle,
+        url: expect.any(String),
+        children: [{ title: content.postTitle, url: expect.any(String), children: [] }]
+      },
+      { title: content.categoryName, url: expect.any(String), children: [] }
+    ]);
+  });
+
+  test('should move sub-items up a level when their parent is removed @menus @edit @delete', async () => {
+    const menuName = menusTestData.dynamicMenuName();
+    await api.createPage({ title: content.pageTitle, status: 'publish' });
+    await api.createPost({ title: content.postTitle, status: 'publish' });
+
+    const menuId = await menusPage.createMenu(menuName);
+    expect(menuId).not.toBeNull();
+    expect(await menusPage.addPages([content.pageTitle])).toBe(true);
+    expect(await menusPage.addPosts([content.postTitle])).toBe(true);
+    expect(await menusPage.nestMenuItem(content.postTitle, content.pageTitle)).toBe(true);
+    expect(await menusPage.saveMenu()).toBe(true);
+
+    expect(await menusPage.removeMenuItem(content.pageTitle)).toBe(true);
+    expect(await menusPage.saveMenu()).toBe(true);
+    expect(await menusPage.getMenuStructure()).toMatchObject([{ title: content.postTitle, depth: 0, parentId: 0 }]);
+    expect((await api.listMenuItems(menuId!)).map(item => item.parent)).toEqual([0]);
+  });
+
+  test('should delete a menu @menus @delete', {
+    tag: [TestTags.CLEANUP]
+  }, async () => {
+    const menuName = menusTestData.dynamicMenuName();
+    await api.createMenu(menuName);
+
+    expect(await menusPage.deleteMenu(menuName)).toBe(true);
+    expect(await menusPage.getNoticeText()).toContain(menusTestScenarios.deleted);
+    expect(await api.findMenuByName(menuName)).toBeUndefined();
+  });
+
+  test('should refuse a duplicate menu name @menus @create @validation', {
+    tag: [TestTags.NEGATIVE]
+  }, async () => {
+    const menuName = menusTestData.dynamicMenuName();
+    await api.createMenu(menuName);
+
+    expect(await menusPage.createMenu(menuName)).toBeNull();
+    expect(await menusPage.getNoticeText()).toContain(menusTestScenarios.duplicateNameError(menuName));
+    expect((await api.listMenus({ search: menuName })).filter(menu => menu.name === menuName)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Page Management Tests for staging.go.ione.nyc
+ * Tests the WordPress pages list (edit.php?post_type=page) and the page editor
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: page load, create with parent and menu order, page templates,
+ * search, status filter and hierarchy indentation in the list table
+ *
+ * Note: Parent pages are seeded through the REST API; the template test skips on themes without templates
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { pagesTestData, pageTestScenarios } from '@fixtures/pages-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+test.describe('Page Management Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+
+    SmartLogger.initializeTest(testInfo.title);
+  });
+
+  test('should load pages list and open the page editor @pages @load', async () => {
+    const pagesPage = pageFactory.getPagesPage();
+    const pageEditorPage = pageFactory.getPageEditorPage();
+
+    await pagesPage.navigate();
+    expect(await pagesPage.isPagesPageLoaded()).toBe(true);
+
+    await pagesPage.navigateToAddNew();
+    expect(await pageEditorPage.verifyAllPageEditorElementsVisible()).toBe(true);
+  });
+
+  test('should create a child page with parent and menu order @pages @create @publish', async ({ page }) => {
+    const pagesPage = pageFactory.getPagesPage();
+    const pageEditorPage = pageFactory.getPageEditorPage();
+    const parentData = pagesTestData.dynamicPage();
+    const parent = await api.createPage({ ...parentData, status: 'publish' });
+    const childData = pagesTestData.dynamicPage();
+
+    await pageEditorPage.navigateToNewPageDirectly();
+    await pageEditorPage.fillPostTitle(childData.title);
+    await pageEditorPage.fillPostContentInTextEditor(childData.content);
+    await pageEditorPage.selectParentPage(parentData.title);
+    await pageEditorPage.setMenuOrder(pagesTestData.menuOrder);
+    await pageEditorPage.publishPost();
+    await expect(page.locator('#message')).toContainText(pageTestScenarios.successMessages.published);
+
+    const attributes = await pageEditorPage.getPageAttributes();
+    expect(attributes.parent).toBe(parentData.title);
+    expect(attributes.menuOrder).toBe(pagesTestData.menuOrder);
+
+    const child = await api.getPage(Number(await pageEditorPage.getCurrentPostId()));
+    expect(child.parent).toBe(parent.id);
+    expect(child.menu_order).toBe(pagesTestData.menuOrder);
+
+    await pagesPage.navigate();
+    expect(await pagesPage.getPageDepth(childData.title)).toBe(await pagesPage.getPageDepth(parentData.title) + 1);
+    expect(await pagesPage.isDisplayedUnder(childData.title, parentData.title)).toBe(true);
+  });
+
+  test('should keep the selected page template @pages @edit', {
+    tag: [TestTags.THEME_DEPENDENT]
+  }, async ({ page }) => {
+    const pageEditorPage = pageFactory.getPageEditorPage();
+    const pageData = pagesTestData.dynamicPage();
+
+    await pageEditorPage.navigateToNewPageDirectly();
+    const templates = await pageEditorPage.getAvailableTemplates();
+    test.skip(templates.length < 2, 'Active theme offers no page templates');
+
+    const template = templates.find(label => label !== pagesTestData.defaultTemplate)!;
+    await pageEditorPage.fillPostTitle(pageData.title);
+    await pageEditorPage.selectTemplate(template);
+    await pageEditorPage.saveDraft();
+
+    await page.reload();
+    expect((await pageEditorPage.getPageAttributes()).template).toBe(template);
+
+    const saved = await api.getPage(Number(await pageEditorPage.getCurrentPostId()));
+    expect(saved.template).not.toBe('');
+  });
+
+  test('should search pages @pages @search', async () => {
+    const pagesPage = pageFactory.getPagesPage();
+    const seededData = pagesTestData.dynamicPage();
+    await api.createPage({ ...seededData, status: 'publish' });
+
+    await pagesPage.navigate();
+    await pagesPage.searchPages(seededData.title);
+    expect(await pagesPage.getAllPageTitles()).toEqual([seededData.title]);
+
+    await pagesPage.searchPages(pagesTestData.searchTerms.nonExisting);
+    expect(await pagesPage.getAllPageTitles()).toHaveLength(0);
+  });
+
+  test('should filter pages by draft status @pages @filter @draft', async () => {
+    const pagesPage = pageFactory.getPagesPage();
+    const draftData = pagesTestData.dynamicPage();
+    await api.createPage({ ...draftData, status: 'draft' });
+    const publishedData = pagesTestData.dynamicPage();
+    await api.createPage({ ...publishedData, status: 'publish' });
+
+    await pagesPage.navigate();
+    await pagesPage.filterByStatus('draft');
+
+    expect(await pagesPage.pageExists(draftData.title)).toBe(true);
+    expect(await pagesPage.pageExists(publishedData.title)).toBe(false);
+    expect(await pagesPage.getPostStatus(draftData.title)).toBe('draft');
+  });
+
+  test('should indent nested pages under their parents @pages @create', async () => {
+    const pagesPage = pageFactory.getPagesPage();
+    const parentData = pagesTestData.dynamicPage();
+    const parent = await api.createPage({ ...parentData, status: 'publish' });
+    const childData = pagesTestData.dynamicPage();
+    const child = await api.createPage({ ...childData, status: 'publish', parent: parent.id });
+    const grandchildData = pagesTestData.dynamicPage();
+    await api.createPage({ ...grandchildData, status: 'publish', parent: child.id });
+
+    await pagesPage.navigate();
+
+    expect(await pagesPage.getPageDepth(parentData.title)).toBe(0);
+    expect(await pagesPage.getPageDepth(childData.title)).toBe(1);
+    expect(await pagesPage.getPageDepth(grandchildData.title)).toBe(2);
+    expect(await pagesPage.isDisplayedUnder(childData.title, parentData.title)).toBe(true);
+    expect(await pagesPage.isDisplayedUnder(grandchildData.title, childData.title)).toBe(true);
+    expect(await pagesPage.isDisplayedUnder(grandchildData.title, parentData.title)).toBe(false);
+  });
+});
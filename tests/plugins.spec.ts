@@ -0,0 +1,91 @@
+/**
+ * Plugins Tests for staging.go.ione.nyc
+ * Tests the plugins list (plugins.php) through PluginsPage
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: installed plugins with their version and active state against wp/v2/plugins, the Active and
+ * Inactive views, and activating and deactivating a plugin
+ *
+ * Note: Only plugins listed in pluginsTestData.toggleCandidates are switched, and each one is put back in its
+ * original state after the test through the REST API
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/plugin-requirements.fixture';
+import PageFactory from '@pages/page.factory';
+import PluginsPage from '@pages/plugins.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { pluginsTestData } from '@fixtures/plugins-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+import { WpPlugin } from '../types/wordpress.types';
+
+test.describe('Plugins Tests', {
+  tag: [TestTags.PLUGINS, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let pluginsPage: PluginsPage;
+  let api: WordPressApiClient;
+  let restorePlugins: WpPlugin[];
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    pluginsPage = pageFactory.getPluginsPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+    restorePlugins = [];
+  });
+
+  test.afterEach(async () => {
+    for (const plugin of restorePlugins) {
+      await api.updatePluginStatus(plugin.plugin, plugin.status === 'inactive' ? 'inactive' : 'active');
+    }
+  });
+
+  test('should list installed plugins with their version and active state @plugins @load', {
+    tag: [TestTags.PROD_SAFE]
+  }, async () => {
+    const installed = await api.listPlugins();
+
+    await pluginsPage.navigate();
+    expect(await pluginsPage.isPluginsPageLoaded()).toBe(true);
+    const listed = await pluginsPage.getPlugins();
+    expect(listed).toHaveLength(installed.length);
+    for (const plugin of installed) {
+      expect(listed.find(entry => entry.slug === plugin.plugin.split('/')[0]), plugin.plugin).toMatchObject({
+        version: plugin.version,
+        active: plugin.status !== 'inactive'
+      });
+    }
+
+    await pluginsPage.navigate('active');
+    expect((await pluginsPage.getPlugins()).every(plugin => plugin.active)).toBe(true);
+    await pluginsPage.navigate('inactive');
+    expect((await pluginsPage.getPlugins()).some(plugin => plugin.active)).toBe(false);
+  });
+
+  test('should deactivate and reactivate a plugin @plugins @edit', {
+    tag: [TestTags.STAGING_ONLY]
+  }, async () => {
+    const installed = await api.listPlugins();
+    const plugin = pluginsTestData.toggleCandidates
+      .map(slug => installed.find(candidate => candidate.plugin.split('/')[0] === slug))
+      .find(candidate => candidate !== undefined);
+    test.skip(!plugin, `None of ${pluginsTestData.toggleCandidates.join(', ')} is installed on this site`);
+    const slug = plugin!.plugin.split('/')[0];
+    const wasActive = plugin!.status !== 'inactive';
+    restorePlugins.push(plugin!);
+
+    // Switch it to the other state first, then back
+    expect(wasActive ? await pluginsPage.deactivatePlugin(slug) : await pluginsPage.activatePlugin(slug)).toBe(true);
+    expect(await pluginsPage.isPluginActive(slug)).toBe(!wasActive);
+    expect((await api.listPlugins(wasActive ? 'inactive' : 'active')).map(entry => entry.plugin)).toContain(plugin!.plugin);
+
+    expect(wasActive ? await pluginsPage.activatePlugin(slug) : await pluginsPage.deactivatePlugin(slug)).toBe(true);
+    expect(await pluginsPage.isPluginActive(slug)).toBe(wasActive);
+    expect(await pluginsPage.isPluginInstalled(slug)).toBe(true);
+  });
+});
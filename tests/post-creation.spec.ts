@@ -10,15 +10,16 @@
  * @author XWP Platform Team
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '@fixtures/test-data-registry.fixture';
 import PageFactory from '@pages/page.factory';
 import { TestTags, TagCombinations } from '@fixtures/test-tags.fixture';
 import { testTimeouts, testData } from '@fixtures/test-data.fixture';
 import { TestUtils } from '@utils/test.utils';
 import { SmartLogger } from '../utils/smart-logger.utils';
+import { EnvironmentManager } from '@utils/environment.utils';
 
 test.describe('Post Creation Tests', {
-  tag: [TestTags.STAGING_ONLY, TestTags.CORE]
+  tag: [TestTags.STAGING_ONLY, TestTags.LOCAL_STAND_IN, TestTags.CORE]
 }, () => {
   let pageFactory: PageFactory;
 
@@ -35,7 +36,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     // Navigate directly to post editor
     await postPage.navigateToNewPostDirectly();
@@ -52,7 +53,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Draft Post ${TestUtils.generateRandomString(8)}`;
     const testContent = '<p>This is <strong>test content</strong> created in the text editor.</p>';
@@ -80,7 +81,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Draft Post ${TestUtils.generateRandomString(8)}`;
     const testContent = 'This post should be saved as a draft.';
@@ -105,7 +106,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Tagged Post ${TestUtils.generateRandomString(8)}`;
     const testContent = 'This post has tags.';
@@ -149,7 +150,7 @@ test.describe('Post Creation Tests', {
     await expect(page).toHaveTitle(/Add Post/);
 
     // Verify post editor loaded
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
     expect(await postPage.verifyAllPostEditorElementsVisible()).toBe(true);
 
     await context.close();
@@ -160,7 +161,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Published Post ${TestUtils.generateRandomString(8)}`;
     const testContent = 'This post should be published successfully.';
@@ -188,7 +189,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Verification Draft ${TestUtils.generateRandomString(8)}`;
     const testContent = 'This draft content should be verified correctly.';
@@ -217,7 +218,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Verification Published ${TestUtils.generateRandomString(8)}`;
     const testContent = '<p>This published content should be <strong>verified correctly</strong>.</p>';
@@ -250,7 +251,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const originalTitle = `Original Title ${TestUtils.generateRandomString(8)}`;
     const originalContent = 'Original content before editing.';
@@ -300,7 +301,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Empty Content Test ${TestUtils.generateRandomString(8)}`;
     // Intentionally leave content empty
@@ -329,7 +330,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
 
     const testTitle = `Special Chars Test ${TestUtils.generateRandomString(8)}`;
     const testContent = '<p>Testing special characters: &amp; &lt; &gt; &quot; &#39; àáâãäå</p>';
@@ -371,7 +372,7 @@ test.describe('Post Creation Tests', {
     const context = await browser.newContext();
     const page = await context.newPage();
     const contextPageFactory = new PageFactory(page);
-    const postPage = contextPageFactory.postPage;
+    const postPage = await contextPageFactory.getPostEditor();
     const allPostsPage = contextPageFactory.allPostsPage;
 
     const testTitle = `All Posts Integration Test ${TestUtils.generateRandomString(8)}`;
@@ -414,7 +415,7 @@ test.describe('Post Creation Tests', {
       // If edit link fails, navigate directly to ensure test continues
       const postId = await allPostsPage.getPostIdByTitle(testTitle);
       if (postId) {
-        const baseUrl = process.env.BASE_URL || 'https://staging.go.ione.nyc';
+        const baseUrl = EnvironmentManager.getInstance().getBaseUrl();
         await page.goto(`${baseUrl}/wp-admin/post.php?post=${postId}&action=edit`);
       } else {
         throw error;
@@ -0,0 +1,151 @@
+/**
+ * Post List Actions Tests for staging.go.ione.nyc
+ * Tests Quick Edit, Bulk Edit and the Trash bulk actions of the posts list (edit.php)
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: Quick Edit of title, slug, date, status, categories and tags; Bulk Edit of status,
+ * categories, author and comments; moving to the Trash, restoring and deleting permanently
+ *
+ * Note: Posts are created through the REST API; every change is made and confirmed on the list table,
+ * then read back through the REST API - the editor is never opened
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import AllPostsPage from '@pages/all-posts.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { postListActionsTestData, postListActionsTestScenarios } from '@fixtures/post-list-actions-data.fixture';
+import { categoryTestData } from '@fixtures/categories-data.fixture';
+import { tagsTestData } from '@fixtures/tags-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+import { WpPost, WpTag } from '../types/wordpress.types';
+
+test.describe('Post List Actions Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let allPostsPage: AllPostsPage;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    allPostsPage = pageFactory.getAllPostsPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+  });
+
+  /**
+   * Create posts through the API, then open the list - newest first, so they are on its first page
+   */
+  async function createListedPosts(count: number, status: 'draft' | 'publish' = 'draft'): Promise<WpPost[]> {
+    const posts: WpPost[] = [];
+    for (let index = 0; index < count; index++) {
+      posts.push(await api.createPost({ title: postListActionsTestData.dynamicTitle(), content: postListActionsTestData.content, status }));
+    }
+    await allPostsPage.navigate();
+    await allPostsPage.waitForPostsTableLoad();
+    return posts;
+  }
+
+  test('should quick edit title, slug, date, status, categories and tags @all-posts @edit', async () => {
+    const category = await api.createCategory(categoryTestData.dynamicCategory());
+    // Created up front so the registry tracks them - Quick Edit assigns existing tags by name
+    const tags: WpTag[] = [];
+    for (const tag of tagsTestData.bulkTags()) {
+      tags.push(await api.createTag(tag));
+    }
+    const tagNames = tags.map(tag => tag.name);
+    const [post] = await createListedPosts(1);
+    const newTitle = postListActionsTestData.dynamicTitle();
+    const slug = postListActionsTestData.quickEdit.slug();
+
+    expect(await allPostsPage.quickEditPost(post.title.raw!, {
+      title: newTitle,
+      slug,
+      date: postListActionsTestData.quickEdit.date,
+      status: 'pending',
+      categories: [category.name],
+      tags: tagNames.join(', ')
+    })).toBe(true);
+
+    expect(await allPostsPage.verifyPostExists(post.title.raw!)).toBe(false);
+    expect(await allPostsPage.getPostStatus(newTitle)).toBe('pending');
+    expect(await allPostsPage.getPostColumnText(newTitle, 'categories')).toBe(category.name);
+    const tagsColumn = await allPostsPage.getPostColumnText(newTitle, 'tags');
+    for (const name of tagNames) {
+      expect(tagsColumn).toContain(name);
+    }
+
+    const saved = await api.getPost(post.id);
+    expect(saved.title.raw).toBe(newTitle);
+    expect(saved.slug).toBe(slug);
+    expect(saved.date.startsWith(postListActionsTestScenarios.restDate)).toBe(true);
+    expect(saved.status).toBe('pending');
+    expect(saved.categories).toEqual([category.id]);
+    expect([...saved.tags].sort((a, b) => a - b)).toEqual(tags.map(tag => tag.id).sort((a, b) => a - b));
+  });
+
+  test('should make a published post private with Quick Edit @all-posts @edit', async () => {
+    const [post] = await createListedPosts(1, 'publish');
+
+    expect(await allPostsPage.quickEditPost(post.title.raw!, { status: 'private' })).toBe(true);
+
+    expect(await allPostsPage.getPostStatus(post.title.raw!)).toBe('private');
+    expect((await api.getPost(post.id)).status).toBe('private');
+  });
+
+  test('should bulk edit status, categories, author and comments @all-posts @bulk @edit', async () => {
+    const category = await api.createCategory(categoryTestData.dynamicCategory());
+    const author = await api.findUserByUsername(postListActionsTestData.bulkAuthor);
+    test.skip(!author, `No "${postListActionsTestData.bulkAuthor}" account on this site`);
+    const posts = await createListedPosts(postListActionsTestScenarios.bulkSize);
+    const titles = posts.map(post => post.title.raw!);
+
+    expect(await allPostsPage.bulkEdit(titles, {
+      status: 'pending',
+      categories: [category.name],
+      author: postListActionsTestData.bulkAuthor,
+      comments: 'closed'
+    })).toBe(true);
+
+    for (const post of posts) {
+      expect(await allPostsPage.getPostStatus(post.title.raw!)).toBe('pending');
+      expect(await allPostsPage.getPostColumnText(post.title.raw!, 'author')).toBe(author!.name);
+      expect(await allPostsPage.getPostColumnText(post.title.raw!, 'categories')).toContain(category.name);
+
+      const saved = await api.getPost(post.id);
+      expect(saved.status).toBe('pending');
+      expect(saved.author).toBe(author!.id);
+      expect(saved.comment_status).toBe('closed');
+      // Bulk Edit adds categories to the ones a post already has
+      expect(saved.categories).toEqual(expect.arrayContaining([...post.categories, category.id]));
+    }
+  });
+
+  test('should trash, restore and permanently delete posts @all-posts @bulk @delete', async () => {
+    const posts = await createListedPosts(postListActionsTestScenarios.bulkSize);
+    const titles = posts.map(post => post.title.raw!);
+
+    expect(await allPostsPage.bulkTrash(titles)).toBe(true);
+    for (const post of posts) {
+      expect((await api.getPost(post.id)).status).toBe('trash');
+    }
+
+    expect(await allPostsPage.restoreFromTrash(titles)).toBe(true);
+    for (const post of posts) {
+      expect((await api.getPost(post.id)).status).toBe('draft');
+    }
+
+    await allPostsPage.filterByStatus('all');
+    expect(await allPostsPage.bulkTrash(titles)).toBe(true);
+    expect(await allPostsPage.deletePermanently(titles)).toBe(true);
+    for (const post of posts) {
+      await expect(api.getPost(post.id)).rejects.toThrow();
+    }
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Post Status Tests for staging.go.ione.nyc
+ * Tests the classic editor's Publish box beyond draft and immediate publish
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: scheduling for a future date, private and password-protected visibility,
+ * sticky posts and Pending Review, each confirmed in the editor, the All Posts list and the REST API
+ *
+ * Note: Skipped on sites serving the block editor (see pageFactory.getEditorMode())
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import PostPage from '@pages/post.page';
+import AllPostsPage from '@pages/all-posts.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { postStatusTestData, postStatusTestScenarios } from '@fixtures/post-status-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+test.describe('Post Status Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let postPage: PostPage;
+  let allPostsPage: AllPostsPage;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    test.skip(await pageFactory.getEditorMode() !== 'classic', 'Site serves the block editor');
+    postPage = pageFactory.getPostPage();
+    allPostsPage = pageFactory.getAllPostsPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+
+    await postPage.navigateToNewPostDirectly();
+  });
+
+  test('should schedule a post for a future date @post-status @post-editor @publish', async ({ page }) => {
+    const title = postStatusTestData.dynamicTitle();
+    const scheduledDate = postStatusTestData.scheduledDate();
+
+    await postPage.fillPostTitle(title);
+    await postPage.fillPostContentInTextEditor(postStatusTestData.content);
+    await postPage.schedulePost(scheduledDate);
+
+    await expect(page.locator('#message')).toContainText(postStatusTestScenarios.successMessages.scheduled);
+    expect(await postPage.verifyPostStatus('Scheduled')).toBe(true);
+    const post = await api.getPost(Number(await postPage.getCurrentPostId()));
+    expect(post.status).toBe(postStatusTestScenarios.restStatuses.scheduled);
+
+    await allPostsPage.navigate();
+    await allPostsPage.filterByStatus('scheduled');
+    expect(await allPostsPage.getPostStatus(title)).toBe('scheduled');
+  });
+
+  test('should publish a post privately @post-status @post-editor @publish', async () => {
+    const title = postStatusTestData.dynamicTitle();
+
+    await postPage.fillPostTitle(title);
+    await postPage.setVisibility('private');
+    await postPage.publishPost();
+
+    expect(await postPage.verifyPostStatus('Private')).toBe(true);
+    expect(await postPage.verifyVisibility('private')).toBe(true);
+    const post = await api.getPost(Number(await postPage.getCurrentPostId()));
+    expect(post.status).toBe(postStatusTestScenarios.restStatuses.private);
+
+    await allPostsPage.navigate();
+    await allPostsPage.filterByStatus('private');
+    expect(await allPostsPage.getPostStatus(title)).toBe('private');
+  });
+
+  test('should password-protect a published post @post-status @post-editor @publish', async () => {
+    await postPage.fillPostTitle(postStatusTestData.dynamicTitle());
+    await postPage.fillPostContentInTextEditor(postStatusTestData.content);
+    await postPage.setVisibility('password', postStatusTestData.password);
+    await postPage.publishPost();
+
+    expect(await postPage.verifyPostStatus('Published')).toBe(true);
+    expect(await postPage.verifyVisibility('password')).toBe(true);
+    expect(await postPage.getVisibility()).toBe('password');
+    const post = await api.getPost(Number(await postPage.getCurrentPostId()));
+    expect(post.status).toBe(postStatusTestScenarios.restStatuses.published);
+    expect(post.password).toBe(postStatusTestData.password);
+    expect(post.content.protected).toBe(true);
+  });
+
+  test('should stick and unstick a published post @post-status @post-editor @edit', async ({ page }) => {
+    await postPage.fillPostTitle(postStatusTestData.dynamicTitle());
+    await postPage.setSticky(true);
+    await postPage.publishPost();
+
+    expect(await postPage.verifyVisibility('public', true)).toBe(true);
+    const postId = Number(await postPage.getCurrentPostId());
+    expect((await api.getPost(postId)).sticky).toBe(true);
+
+    await postPage.setSticky(false);
+    await postPage.publishPost();
+    // The edit URL does not change on Update, so wait for the new notice before reading the post back
+    await expect(page.locator('#message')).toContainText(postStatusTestScenarios.successMessages.updated);
+    expect(await postPage.verifyVisibility('public')).toBe(true);
+    expect((await api.getPost(postId)).sticky).toBe(false);
+  });
+
+  test('should submit a post for review @post-status @post-editor @draft', async () => {
+    const title = postStatusTestData.dynamicTitle();
+
+    await postPage.fillPostTitle(title);
+    await postPage.saveAsPending();
+
+    expect(await postPage.verifyPostStatus('Pending')).toBe(true);
+    const post = await api.getPost(Number(await postPage.getCurrentPostId()));
+    expect(post.status).toBe(postStatusTestScenarios.restStatuses.pending);
+
+    await allPostsPage.navigate();
+    await allPostsPage.filterByStatus('pending');
+    expect(await allPostsPage.getPostStatus(title)).toBe('pending');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Revisions Tests for staging.go.ione.nyc
+ * Tests browsing, comparing and restoring post revisions from the post editor (classic or block)
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: the editor's Revisions link, the revisions list, compare-two mode with the slider,
+ * and restoring an earlier revision back into the editor
+ *
+ * Note: Each post is created through the REST API and then edited twice in the editor - one revision per version
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import RevisionsPage from '@pages/revisions.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { revisionsTestData, revisionsTestScenarios } from '@fixtures/revisions-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+import { PostEditor } from '../types/editor.types';
+import { WpPost } from '../types/wordpress.types';
+
+test.describe('Revisions Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let postEditor: PostEditor;
+  let revisionsPage: RevisionsPage;
+  let api: WordPressApiClient;
+  let post: WpPost;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    postEditor = await pageFactory.getPostEditor();
+    revisionsPage = pageFactory.getRevisionsPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+
+    const [first, ...edits] = revisionsTestData.versions;
+    post = await api.createPost({ title: revisionsTestData.dynamicTitle(), content: first, status: 'publish' });
+    for (const content of edits) {
+      await postEditor.navigateToEditPost(String(post.id));
+      await postEditor.fillPostContentInTextEditor(content);
+      await postEditor.publishPost();
+      expect(await postEditor.verifySuccessMessageVisible()).toBe(true);
+    }
+    await postEditor.navigateToEditPost(String(post.id));
+  });
+
+  test('should open revisions from the editor and list every version @revisions @post-editor @load', async () => {
+    expect(await postEditor.getRevisionsCount()).toBe(revisionsTestScenarios.expectedRevisions);
+
+    await postEditor.openRevisions();
+    await revisionsPage.waitForLoad();
+    expect(await revisionsPage.isRevisionsPageLoaded()).toBe(true);
+
+    const revisions = await revisionsPage.getRevisions();
+    expect(revisions).toHaveLength(revisionsTestScenarios.expectedRevisions);
+    expect(revisions.map(revision => revision.current)).toEqual([false, false, true]);
+    // The link opens the newest revision against the one before it
+    expect(await revisionsPage.getSelectedRevisions()).toEqual({ from: revisions[1].id, to: revisions[2].id });
+  });
+
+  test('should compare the first and last revisions @revisions @post-editor', async () => {
+    const [first, , last] = revisionsTestData.versions;
+
+    await postEditor.openRevisions();
+    await revisionsPage.waitForLoad();
+    const revisions = await revisionsPage.getRevisions();
+    await revisionsPage.compareRevisions(revisions[0].id, revisions[2].id);
+
+    expect(await revisionsPage.isCompareTwoMode()).toBe(true);
+    expect(await revisionsPage.getSelectedRevisions()).toEqual({ from: revisions[0].id, to: revisions[2].id });
+    const diff = await revisionsPage.getDiff();
+    expect(diff.deleted).toContain(first);
+    expect(diff.added).toContain(last);
+  });
+
+  test('should restore the first revision @revisions @post-editor @edit', async () => {
+    const [first] = revisionsTestData.versions;
+
+    await postEditor.openRevisions();
+    await revisionsPage.waitForLoad();
+    const [firstRevision] = await revisionsPage.getRevisions();
+    await revisionsPage.selectRevision(firstRevision.id);
+    expect(await revisionsPage.restoreRevision()).toBe(true);
+
+    await postEditor.navigateToEditPost(String(post.id));
+    expect((await postEditor.getPostContentFromTextEditor()).trim()).toBe(first);
+    expect(await postEditor.getRevisionsCount()).toBe(revisionsTestScenarios.expectedRevisionsAfterRestore);
+    expect((await api.getPost(post.id)).content.raw).toBe(first);
+  });
+});
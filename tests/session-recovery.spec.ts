@@ -0,0 +1,57 @@
+/**
+ * Session Recovery Tests for the local stand-in
+ * Tests that BasePage navigation logs in again when the saved session has expired
+ *
+ * Tests cover: re-login and retry after the session cookie is gone, a single retry when the
+ * target keeps redirecting to wp-login.php
+ *
+ * Note: Runs against the local stand-in only - expiring the session on a shared site would also
+ * rewrite the admin storage state other workers use
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import { BasePage } from '@pages/base.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { EnvironmentManager } from '@utils/environment.utils';
+import { SmartLogger } from '@utils/smart-logger.utils';
+
+const POSTS_LIST = '/wp-admin/edit.php';
+
+test.describe('Session Recovery Tests', {
+  tag: [TestTags.LOCAL_ONLY, TestTags.AUTHENTICATION, TestTags.HIGH]
+}, () => {
+  let basePage: BasePage;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    SmartLogger.initializeTest(testInfo.title);
+    basePage = new BasePage(page, '#wpbody-content');
+  });
+
+  test('should log in again and open the target when the session expired @authentication @navigation', async ({ page }) => {
+    await page.context().clearCookies();
+
+    await basePage.navigate(POSTS_LIST);
+
+    expect(new URL(page.url()).pathname).toBe(POSTS_LIST);
+    expect((await page.context().cookies()).length).toBeGreaterThan(0);
+  });
+
+  test('should retry the navigation only once @authentication @navigation', {
+    tag: [TestTags.NEGATIVE]
+  }, async ({ page }) => {
+    const loginUrl = EnvironmentManager.getInstance().getLoginUrl();
+    let targetRequests = 0;
+    // The target keeps bouncing to wp-login.php even with a fresh session
+    await page.route(`**${POSTS_LIST}`, route => {
+      targetRequests++;
+      return route.fulfill({ status: 302, headers: { location: `${loginUrl}?redirect_to=${encodeURIComponent(POSTS_LIST)}` } });
+    });
+    await page.context().clearCookies();
+
+    await basePage.navigate(POSTS_LIST);
+
+    expect(targetRequests).toBe(2);
+    expect(page.url()).toContain('wp-login.php');
+  });
+});
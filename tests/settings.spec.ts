@@ -0,0 +1,145 @@
+/**
+ * Settings Tests for staging.go.ione.nyc
+ * Tests the Settings screens (options-general.php, options-writing.php, options-reading.php,
+ * options-discussion.php, options-media.php and options-permalink.php)
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: saving general settings (custom date format included), the default category new posts get,
+ * posts per page, comment moderation holding a returning commenter, permalink presets, custom structures and
+ * the missing structure tag error, and restoring a snapshot
+ *
+ * Note: Settings are site-wide - every test snapshots the screens it saves through the settings fixture,
+ * which writes the originals back afterwards
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/settings.fixture';
+import PageFactory from '@pages/page.factory';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { settingsTestData, settingsTestScenarios } from '@fixtures/settings-data.fixture';
+import { commentsTestData } from '@fixtures/comments-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+import { UserRole } from '../types/base.types';
+
+test.describe('Settings Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.SETTINGS, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+  });
+
+  test('should save general settings and show the new site title @settings @edit', async ({ snapshotSettings }) => {
+    const generalSettingsPage = pageFactory.getGeneralSettingsPage();
+    await snapshotSettings(generalSettingsPage);
+    const general = settingsTestData.general();
+
+    expect(await generalSettingsPage.updateSettings(general)).toBe(true);
+    expect(await generalSettingsPage.getSettings()).toMatchObject(general);
+    expect(await generalSettingsPage.getDateFormat()).toBe(general.dateFormat);
+
+    const saved = await api.getSettings();
+    expect(saved).toMatchObject({
+      title: general.siteTitle,
+      description: general.tagline,
+      timezone: general.timezone,
+      date_format: general.dateFormat,
+      time_format: general.timeFormat
+    });
+    await pageFactory.dashboardPage.navigate();
+    expect(await pageFactory.dashboardPage.getSiteName()).toBe(general.siteTitle);
+  });
+
+  test('should give new posts the default category @settings @edit', async ({ snapshotSettings }) => {
+    const writingSettingsPage = pageFactory.getWritingSettingsPage();
+    await snapshotSettings(writingSettingsPage);
+    const category = await api.createCategory({ name: settingsTestData.dynamicCategoryName() });
+
+    expect(await writingSettingsPage.setDefaultCategory(category.id)).toBe(true);
+    expect(await writingSettingsPage.getDefaultCategory()).toBe(category.id);
+
+    const post = await api.createPost({ title: settingsTestData.dynamicPostTitle(), status: 'draft' });
+    expect(post.categories).toEqual([category.id]);
+  });
+
+  test('should save reading and media settings @settings @edit', async ({ snapshotSettings }) => {
+    const readingSettingsPage = pageFactory.getReadingSettingsPage();
+    const mediaSettingsPage = pageFactory.getMediaSettingsPage();
+    await snapshotSettings(readingSettingsPage);
+    await snapshotSettings(mediaSettingsPage);
+
+    await readingSettingsPage.navigate();
+    expect(await readingSettingsPage.setPostsPerPage(settingsTestData.postsPerPage)).toBe(true);
+    expect(await readingSettingsPage.getPostsPerPage()).toBe(settingsTestData.postsPerPage);
+    expect((await api.getSettings()).posts_per_page).toBe(settingsTestData.postsPerPage);
+
+    await mediaSettingsPage.navigate();
+    expect(await mediaSettingsPage.updateSettings(settingsTestData.media)).toBe(true);
+    expect(await mediaSettingsPage.getSettings()).toMatchObject(settingsTestData.media);
+  });
+
+  test('should hold a returning commenter for moderation when manual approval is on @settings @comments @moderation', {
+    tag: [TestTags.COMMENTS, TestTags.MODERATION]
+  }, async ({ snapshotSettings, asRole }) => {
+    const discussionSettingsPage = pageFactory.getDiscussionSettingsPage();
+    await snapshotSettings(discussionSettingsPage);
+
+    // An approved earlier comment would let the visitor through with the default settings
+    const post = await api.createPost({ title: settingsTestData.dynamicPostTitle(), status: 'publish', comment_status: 'open' });
+    const visitor = commentsTestData.visitor();
+    await api.createComment({ post: post.id, content: commentsTestData.dynamicComment(), author_name: visitor.author, author_email: visitor.email, status: 'approved' });
+
+    expect(await discussionSettingsPage.updateSettings({ commentModeration: true, previouslyApproved: true })).toBe(true);
+    expect(await discussionSettingsPage.isCommentModerationEnabled()).toBe(true);
+
+    const visitorPage = (await asRole(UserRole.GUEST)).getSinglePostPage();
+    await visitorPage.navigateToPost(post.id);
+    const commentId = await visitorPage.submitComment(visitor);
+    expect(commentId).not.toBeNull();
+    expect(await visitorPage.isCommentAwaitingModeration(commentId!)).toBe(true);
+    expect((await api.getComment(commentId!)).status).toBe('hold');
+  });
+
+  test('should save preset and custom permalink structures @settings @edit', async ({ snapshotSettings }) => {
+    const permalinkSettingsPage = pageFactory.getPermalinkSettingsPage();
+    await snapshotSettings(permalinkSettingsPage);
+    const { preset, custom } = settingsTestData.permalinks;
+
+    expect(await permalinkSettingsPage.setPermalinkStructure(preset)).toBe(true);
+    expect(await permalinkSettingsPage.getPermalinkStructure()).toBe(preset);
+
+    expect(await permalinkSettingsPage.setPermalinkStructure(custom)).toBe(true);
+    expect(await permalinkSettingsPage.getPermalinkStructure()).toBe(custom);
+  });
+
+  test('should refuse a custom permalink structure without a structure tag @settings @validation', {
+    tag: [TestTags.NEGATIVE]
+  }, async ({ snapshotSettings }) => {
+    const permalinkSettingsPage = pageFactory.getPermalinkSettingsPage();
+    const original = await snapshotSettings(permalinkSettingsPage);
+
+    expect(await permalinkSettingsPage.setPermalinkStructure(settingsTestData.permalinks.invalid)).toBe(false);
+    expect(await permalinkSettingsPage.getErrors()).toContain(settingsTestScenarios.structureTagRequired);
+    expect(await permalinkSettingsPage.getPermalinkStructure()).toBe(original.structure);
+  });
+
+  test('should put a settings snapshot back @settings @cleanup', {
+    tag: [TestTags.CLEANUP]
+  }, async ({ snapshotSettings }) => {
+    const generalSettingsPage = pageFactory.getGeneralSettingsPage();
+    // The fixture's own snapshot puts the site back should the restore under test fail
+    const original = await snapshotSettings(generalSettingsPage);
+
+    expect(await generalSettingsPage.updateSettings(settingsTestData.general())).toBe(true);
+    expect(await generalSettingsPage.restore(original)).toBe(true);
+    expect(await generalSettingsPage.getSettings()).toEqual(original);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tag Lint Tests
+ * Tests the tag taxonomy linter behind `npm run validate-tags`
+ *
+ * Tests cover: unknown tags, missing and multiple priorities, contradictory combinations,
+ * reading describe/test tag options from spec sources
+ *
+ * Note: No browser or WordPress session needed - exercises the linter directly
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/environment-guard.fixture';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { TagLintTest, TagSourceIndex, buildTagLintReport, lintTestTags } from '@utils/tag-lint.utils';
+
+function lintEntry(tags: string[]): TagLintTest {
+  return { file: 'tests/example.spec.ts', line: 1, title: 'example', describeTags: [], testTags: tags, titleTags: [], tags };
+}
+
+test.describe('Tag Lint Tests', {
+  tag: [TestTags.UNIT, TestTags.FAST, TestTags.NO_DATA_REQUIRED, TestTags.PROD_SAFE, TestTags.MEDIUM]
+}, () => {
+  test('should accept a test with known tags and one priority', async () => {
+    expect(lintTestTags(lintEntry([TestTags.STAGING_ONLY, TestTags.CATEGORIES, TestTags.HIGH]))).toEqual([]);
+  });
+
+  test('should report unknown tags, priority problems and contradictions', async () => {
+    const rules = (tags: string[]) => lintTestTags(lintEntry(tags)).map(issue => issue.rule);
+
+    expect(rules(['@made-up', TestTags.LOW])).toEqual(['unknown-tag']);
+    expect(rules([TestTags.CORE])).toEqual(['missing-priority']);
+    expect(rules([TestTags.HIGH, TestTags.LOW])).toEqual(['multiple-priorities']);
+    expect(rules([TestTags.PROD_SAFE, TestTags.REQUIRES_CLEANUP, TestTags.HIGH])).toEqual(['contradictory-tags']);
+    expect(rules([TestTags.STAGING_ONLY, TestTags.DEV_ONLY, TestTags.HIGH])).toEqual(['contradictory-tags']);
+
+    const report = buildTagLintReport([
+      { test: lintEntry([TestTags.HIGH]), unresolved: ['sharedTags'] },
+      { test: lintEntry([TestTags.CORE]), unresolved: [] }
+    ]);
+    expect(report.summary).toEqual({ tests: 2, errors: 1, warnings: 1, passed: false });
+  });
+
+  test('should read describe and test tag options from the spec source', async ({}, testInfo) => {
+    const located = new TagSourceIndex().locate(testInfo.file, testInfo.line, testInfo.title);
+
+    expect(located?.describe.map(call => call.title)).toEqual(['Tag Lint Tests']);
+    expect(located?.describe[0].tags).toEqual(testInfo.tags);
+    expect(located?.test.tags).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tag Management Tests for staging.go.ione.nyc
+ * Tests WordPress tag (post_tag) CRUD operations and how tags show up on posts
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: page load, create, edit, quick edit, delete, search, bulk delete,
+ * duplicate name errors, post counts and tags added from the post editor
+ *
+ * Note: Uses saved session from playwright/.auth/staging-ione.json - login handled separately
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { tagsTestData, tagTestScenarios } from '@fixtures/tags-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { TestUtils } from '@utils/test.utils';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+
+test.describe('Tag Management Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+
+    SmartLogger.initializeTest(testInfo.title);
+  });
+
+  test('should load tags page directly @tags @load', async () => {
+    const tagsPage = pageFactory.getTagsPage();
+
+    await tagsPage.navigate();
+
+    expect(await tagsPage.isTagsPageLoaded()).toBe(true);
+    expect(await tagsPage.verifyAllTagFormElementsVisible()).toBe(true);
+  });
+
+  test('should create a new tag @tags @create', async () => {
+    const tagsPage = pageFactory.getTagsPage();
+    const tagData = tagsTestData.dynamicTag();
+
+    await tagsPage.navigate();
+    expect(await tagsPage.createTag(tagData.name, tagData.slug, tagData.description)).toBe(true);
+    expect(await tagsPage.getNoticeText()).toContain(tagTestScenarios.successMessages.created);
+
+    // The REST API sees the same term
+    const tag = await api.findTagByName(tagData.name);
+    expect(tag?.slug).toBe(tagData.slug);
+  });
+
+  test('should edit an existing tag @tags @edit', async () => {
+    const tagsPage = pageFactory.getTagsPage();
+    const tagData = tagsTestData.dynamicTag();
+    const updates = tagsTestData.updateData();
+    await api.createTag(tagData);
+
+    await tagsPage.navigate();
+    await tagsPage.searchTags(tagData.name);
+    expect(await tagsPage.editTag(tagData.name, updates.newName, updates.newSlug, updates.newDescription)).toBe(true);
+    expect(await tagsPage.getNoticeText()).toContain(tagTestScenarios.successMessages.updated);
+
+    const tag = await api.findTagByName(updates.newName);
+    expect(tag?.slug).toBe(updates.newSlug);
+    expect(tag?.description).toBe(updates.newDescription);
+  });
+
+  test('should rename a tag with quick edit @tags @edit', async () => {
+    const tagsPage = pageFactory.getTagsPage();
+    const tagData = tagsTestData.dynamicTag();
+    const updates = tagsTestData.updateData();
+    await api.createTag(tagData);
+
+    await tagsPage.navigate();
+    await tagsPage.searchTags(tagData.name);
+    expect(await tagsPage.quickEditTag(tagData.name, updates.newName, updates.newSlug)).toBe(true);
+
+    // Quick edit updates the row in place
+    expect(await tagsPage.tagExists(tagData.name)).toBe(false);
+    expect(await tagsPage.getTagSlug(updates.newName)).toBe(updates.newSlug);
+  });
+
+  test('should delete a tag @tags @delete', async () => {
+    const tagsPage = pageFactory.getTagsPage();
+    const tagData = tagsTestData.dynamicTag();
+    await api.createTag(tagData);
+
+    await tagsPage.navigate();
+    await tagsPage.searchTags(tagData.name);
+    expect(await tagsPage.deleteTag(tagData.name)).toBe(true);
+
+    expect(await api.findTagByName(tagData.name)).toBeUndefined();
+  });
+
+  test('should search for tags @tags @search', async () => {
+    const tagsPage = pageFactory.getTagsPage();
+    const tagData = tagsTestData.dynamicTag();
+    await api.createTag(tagData);
+
+    await tagsPage.navigate();
+    await tagsPage.searchTags(tagData.name);
+    expect(await tagsPage.getAllTagNames()).toEqual([tagData.name]);
+
+    await tagsPage.searchTags(tagsTestData.searchTerms.nonExisting);
+    expect(await tagsPage.getTagCount()).toBe(0);
+  });
+
+  test('should bulk delete tags @tags @bulk', async () => {
+    const tagsPage = pageFactory.getTagsPage();
+    const bulkTags = tagsTestData.bulkTags();
+    for (const tagData of bulkTags) {
+      await api.createTag(tagData);
+    }
+
+    await tagsPage.navigate();
+    await tagsPage.searchTags(tagsTestData.searchTerms.partial);
+    const names = bulkTags.map(tagData => tagData.name);
+    expect(await tagsPage.performBulkAction('delete', names)).toBe(true);
+    expect(await tagsPage.getNoticeText()).toContain(tagTestScenarios.successMessages.bulkDeleted);
+
+    for (const name of names) {
+      expect(await tagsPage.tagExists(name)).toBe(false);
+    }
+  });
+
+  test('should reject a duplicate tag name @tags @validation', {
+    tag: [TestTags.NEGATIVE]
+  }, async () => {
+    const tagsPage = pageFactory.getTagsPage();
+    const tagData = tagsTestData.dynamicTag();
+    await api.createTag(tagData);
+
+    await tagsPage.navigate();
+    expect(await tagsPage.createTag(tagData.name)).toBe(false);
+    expect(await tagsPage.isErrorMessageVisible()).toBe(true);
+    expect(await tagsPage.getNoticeText()).toContain(tagTestScenarios.errorScenarios.duplicateName);
+  });
+
+  test('should count published posts and list them from the tag @tags @posts', {
+    tag: [TestTags.INTEGRATION]
+  }, async () => {
+    const tagsPage = pageFactory.getTagsPage();
+    const tagData = tagsTestData.dynamicTag();
+    const tag = await api.createTag(tagData);
+    const title = `Tagged Post ${TestUtils.generateRandomString(8)}`;
+    // Only published posts are counted, so this post must not outlive the test
+    const post = await api.createPost({ title, content: 'Seeded with a tag through the REST API.', status: 'publish', tags: [tag.id] });
+
+    try {
+      await tagsPage.navigate();
+      await tagsPage.searchTags(tagData.name);
+      expect(await tagsPage.getTagPostCount(tagData.name)).toBe(1);
+
+      await tagsPage.openTaggedPosts(tagData.name);
+      const allPostsPage = pageFactory.getAllPostsPage();
+      expect(await allPostsPage.getAllPostTitles()).toEqual([title]);
+    } finally {
+      await api.deletePost(post.id);
+    }
+  });
+
+  test('should create tags added in the post editor @tags @post-editor', {
+    tag: [TestTags.INTEGRATION]
+  }, async ({ testDataRegistry }) => {
+    const postPage = await pageFactory.getPostEditor();
+    const tagName = tagsTestData.dynamicTag().name;
+    const title = `Draft Post ${TestUtils.generateRandomString(8)}`;
+
+    await postPage.navigateToNewPostDirectly();
+    await postPage.fillPostTitle(title);
+    await postPage.addTags(tagName);
+    await postPage.saveDraft();
+    // WordPress creates the term on save; track it so teardown removes it
+    testDataRegistry.register('tag', tagName, 'ui');
+
+    const tag = await api.findTagByName(tagName);
+    expect(tag).toBeDefined();
+
+    const postId = Number(await postPage.getCurrentPostId());
+    expect((await api.getPost(postId)).tags).toContain(tag?.id);
+
+    // Drafts do not count towards the tag's post count
+    const tagsPage = pageFactory.getTagsPage();
+    await tagsPage.navigate();
+    await tagsPage.searchTags(tagName);
+    expect(await tagsPage.getTagPostCount(tagName)).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Taxonomy Tests for staging.go.ione.nyc
+ * Tests the shared term screens through TaxonomyPage, including taxonomies registered by the site's plugins
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: form layout per hierarchical flag, term lifecycle and parent terms on a plugin taxonomy
+ *
+ * Note: Plugin taxonomies are discovered through wp/v2/taxonomies - tests skip when the site has none
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import TaxonomyPage from '@pages/taxonomy.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { taxonomyTestData } from '@fixtures/taxonomy-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+import { WpTaxonomy } from '../types/wordpress.types';
+
+test.describe('Taxonomy Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.CORE, TestTags.MEDIUM]
+}, () => {
+  let pageFactory: PageFactory;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+
+    SmartLogger.initializeTest(testInfo.title);
+  });
+
+  /**
+   * First taxonomy registered outside core, as a page object
+   */
+  async function findPluginTaxonomy(): Promise<{ taxonomy: WpTaxonomy; taxonomyPage: TaxonomyPage } | undefined> {
+    const taxonomy = (await api.listTaxonomies()).find(candidate =>
+      !taxonomyTestData.builtInTaxonomies.includes(candidate.slug) &&
+      !candidate.slug.startsWith(taxonomyTestData.internalTaxonomyPrefix)
+    );
+    if (!taxonomy) {
+      return undefined;
+    }
+
+    SmartLogger.log('INFO', `Using plugin taxonomy ${taxonomy.slug}`, { hierarchical: taxonomy.hierarchical });
+    const postType = taxonomy.types.includes('post') ? undefined : taxonomy.types[0];
+    return {
+      taxonomy,
+      taxonomyPage: pageFactory.getTaxonomyPage(taxonomy.slug, { hierarchical: taxonomy.hierarchical, label: taxonomy.slug, postType })
+    };
+  }
+
+  test('should show the parent field only for hierarchical taxonomies @taxonomies @load', async () => {
+    const categoriesPage = pageFactory.getCategoriesPage();
+    await categoriesPage.navigate();
+    expect(categoriesPage.hierarchical).toBe(true);
+    expect(await categoriesPage.verifyAllFormElementsVisible()).toBe(true);
+
+    const tagsPage = pageFactory.getTagsPage();
+    await tagsPage.navigate();
+    expect(tagsPage.hierarchical).toBe(false);
+    expect(await tagsPage.verifyAllFormElementsVisible()).toBe(true);
+  });
+
+  test('should manage terms of a plugin taxonomy @taxonomies @create', async () => {
+    const plugin = await findPluginTaxonomy();
+    test.skip(!plugin, 'No plugin-registered taxonomy on this site');
+    const { taxonomy, taxonomyPage } = plugin!;
+
+    const termData = taxonomyTestData.dynamicTerm();
+    const renamed = taxonomyTestData.renamedTerm();
+
+    await taxonomyPage.navigate();
+    expect(await taxonomyPage.verifyAllFormElementsVisible()).toBe(true);
+
+    expect(await taxonomyPage.createTerm(termData.name, termData.slug, termData.description)).toBe(true);
+    expect((await api.findTermByName(taxonomy.slug, termData.name))?.slug).toBe(termData.slug);
+
+    expect(await taxonomyPage.quickEditTerm(termData.name, renamed.name, renamed.slug)).toBe(true);
+    expect(await taxonomyPage.getTermSlug(renamed.name)).toBe(renamed.slug);
+
+    expect(await taxonomyPage.deleteTerm(renamed.name)).toBe(true);
+    expect(await api.findTermByName(taxonomy.slug, renamed.name)).toBeUndefined();
+  });
+
+  test('should nest terms of a hierarchical plugin taxonomy @taxonomies @edit', async () => {
+    const plugin = await findPluginTaxonomy();
+    test.skip(!plugin?.taxonomy.hierarchical, 'No hierarchical plugin-registered taxonomy on this site');
+    const { taxonomy, taxonomyPage } = plugin!;
+
+    const parent = await api.createTerm(taxonomy.slug, taxonomyTestData.dynamicTerm());
+    const childData = taxonomyTestData.dynamicTerm();
+
+    await taxonomyPage.navigate();
+    expect(await taxonomyPage.createTerm(childData.name, childData.slug, childData.description, String(parent.id))).toBe(true);
+
+    const child = await api.findTermByName(taxonomy.slug, childData.name);
+    expect(child?.parent).toBe(parent.id);
+  });
+});
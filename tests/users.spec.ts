@@ -0,0 +1,152 @@
+/**
+ * Users Tests for staging.go.ione.nyc
+ * Tests the user lifecycle on users.php, user-new.php and user-edit.php
+ * Following AI_AGENT_INSTRUCTIONS patterns with PageFactory and page objects
+ *
+ * Tests cover: adding a user with a role, the duplicate username error, editing profile fields,
+ * setting a password and logging in with it, bulk role changes and password resets,
+ * and deleting a user with their content attributed to another one
+ *
+ * Note: Users are created through the REST API (or the Add New User form) with random logins and
+ * removed by the test data registry; the accounts from testUsers are never touched
+ * @author XWP Platform Team
+ */
+
+import { test, expect } from '@fixtures/test-data-registry.fixture';
+import PageFactory from '@pages/page.factory';
+import UsersPage from '@pages/users.page';
+import UserEditPage from '@pages/user-edit.page';
+import { TestTags } from '@fixtures/test-tags.fixture';
+import { usersTestData, usersTestScenarios } from '@fixtures/users-data.fixture';
+import { testTimeouts } from '@fixtures/test-data.fixture';
+import { AuthManager } from '@utils/auth.utils';
+import { SmartLogger } from '@utils/smart-logger.utils';
+import { WordPressApiClient } from '@utils/wordpress-api.helper';
+import { UserRole } from '../types/base.types';
+
+test.describe('Users Tests', {
+  tag: [TestTags.STAGING_ONLY, TestTags.USER_MANAGEMENT, TestTags.HIGH]
+}, () => {
+  let pageFactory: PageFactory;
+  let usersPage: UsersPage;
+  let userEditPage: UserEditPage;
+  let api: WordPressApiClient;
+
+  test.beforeEach(async ({ page }, testInfo) => {
+    pageFactory = new PageFactory(page);
+    page.setDefaultTimeout(testTimeouts.long);
+    SmartLogger.initializeTest(testInfo.title);
+
+    usersPage = pageFactory.getUsersPage();
+    userEditPage = pageFactory.getUserEditPage();
+    api = await WordPressApiClient.fromBrowserContext(page.context());
+  });
+
+  test('should add a user with a role and list it @users @create', async () => {
+    const user = usersTestData.dynamicUser(UserRole.EDITOR);
+
+    expect(await usersPage.addUser(user)).toBe(true);
+    expect(await usersPage.isUsersPageLoaded()).toBe(true);
+
+    await usersPage.searchUsers(user.username);
+    const [row] = await usersPage.getRows();
+    expect(row).toMatchObject({
+      username: user.username,
+      name: `${user.firstName} ${user.lastName}`,
+      email: user.email,
+      role: 'Editor',
+      posts: 0
+    });
+
+    const created = await api.getUser(row.id);
+    expect(created.roles).toEqual(['editor']);
+    expect(created.url).toBe(user.website);
+  });
+
+  test('should refuse a username that is already registered @users @create @validation', {
+    tag: [TestTags.NEGATIVE]
+  }, async () => {
+    const existing = usersTestData.dynamicUser();
+    await api.createUser(existing);
+
+    const duplicate = { ...usersTestData.dynamicUser(), username: existing.username };
+    expect(await usersPage.addUser(duplicate)).toBe(false);
+    expect(await usersPage.getNoticeText()).toContain(usersTestScenarios.duplicateUsernameError);
+  });
+
+  test('should edit profile fields and log in with a new password @users @edit', async ({ browser }) => {
+    const user = usersTestData.dynamicUser(UserRole.AUTHOR);
+    const created = await api.createUser(user);
+
+    await userEditPage.navigateToUser(created.id);
+    expect(await userEditPage.isUserEditPageLoaded()).toBe(true);
+    expect(await userEditPage.isProfileScreen()).toBe(false);
+
+    const { profile } = usersTestData;
+    expect(await userEditPage.updateProfile(profile)).toBe(true);
+    expect(await userEditPage.getProfile()).toMatchObject({
+      username: user.username,
+      role: 'author',
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      nickname: profile.nickname,
+      website: profile.website,
+      bio: profile.bio
+    });
+
+    // The new name combination is only offered once the names are saved
+    expect(await userEditPage.updateProfile({ displayName: usersTestScenarios.expectedDisplayName })).toBe(true);
+    expect((await api.getUser(created.id)).name).toBe(usersTestScenarios.expectedDisplayName);
+
+    const password = usersTestData.strongPassword();
+    expect(await userEditPage.setNewPassword(password)).toBe(true);
+
+    const context = await browser.newContext({ storageState: { cookies: [], origins: [] } });
+    try {
+      const page = await context.newPage();
+      expect(await AuthManager.login(page, { ...user, password })).toBe(true);
+    } finally {
+      await context.close();
+    }
+  });
+
+  test('should change roles and send password resets in bulk @users @bulk', async () => {
+    const users = [usersTestData.dynamicUser(), usersTestData.dynamicUser()];
+    const created = [];
+    for (const user of users) {
+      created.push(await api.createUser(user));
+    }
+    const usernames = users.map(user => user.username);
+
+    await usersPage.navigate();
+    await usersPage.searchUsers('automation_user_');
+    expect(await usersPage.changeRole(usernames, UserRole.AUTHOR)).toBe(true);
+    for (const user of created) {
+      expect((await api.getUser(user.id)).roles).toEqual(['author']);
+    }
+
+    await usersPage.filterByRole(UserRole.AUTHOR);
+    for (const username of usernames) {
+      expect(await usersPage.userExists(username)).toBe(true);
+    }
+    expect(await usersPage.sendPasswordReset(usernames)).toBe(true);
+
+    await usersPage.editUser(usernames[0]);
+    expect(await userEditPage.sendResetLink()).toContain(usersTestScenarios.resetLinkNotice);
+  });
+
+  test('should delete a user and attribute their posts to another user @users @delete', async () => {
+    const user = usersTestData.dynamicUser(UserRole.AUTHOR);
+    const created = await api.createUser(user);
+    const post = await api.createPost({ title: usersTestData.dynamicPostTitle(), status: 'publish', author: created.id });
+    const currentUser = await api.getCurrentUser();
+
+    await usersPage.navigate();
+    await usersPage.searchUsers(user.username);
+    expect((await usersPage.getRows()).find(row => row.username === user.username)?.posts).toBe(1);
+
+    expect(await usersPage.deleteUsers([user.username], currentUser.username)).toBe(true);
+    expect((await api.getPost(post.id)).author).toBe(currentUser.id);
+    expect(await api.findUserByUsername(user.username)).toBeUndefined();
+  });
+});
@@ -1,3 +1,5 @@
+import { EditorMode } from './editor.types';
+
 /**
  * Base page interface for all page object models
  */
@@ -41,15 +43,66 @@ export interface TestData {
   timeouts: Record<string, number>;
 }
 
+/**
+ * Environment profile as stored in config/environments/<name>.json
+ */
+export interface EnvironmentProfile {
+  name: string;
+  description?: string;
+  baseUrl: string;
+  apiUrl?: string;
+  loginPath?: string;
+  timeouts: {
+    /** Default wait for elements (ElementHelper, page object waits) */
+    element: number;
+    /** Playwright actionTimeout */
+    action: number;
+    /** Playwright navigationTimeout and URL/load-state waits */
+    navigation: number;
+  };
+  retries: {
+    /** Attempts ElementHelper makes per interaction */
+    element: number;
+    /** Playwright test retries outside CI */
+    test: number;
+    /** Playwright test retries on CI */
+    testOnCi: number;
+  };
+  headless?: boolean;
+  /** Post editor the site serves; 'auto' (default) detects it on post-new.php */
+  editor?: EditorMode | 'auto';
+  tagPolicy: EnvironmentTagPolicy;
+}
+
+/**
+ * Which environment tags may run against a profile (enforced by EnvironmentGuard)
+ */
+export interface EnvironmentTagPolicy {
+  /** *-only tags this target satisfies, e.g. ['@staging-only'] */
+  satisfies: string[];
+  /** Only tests tagged @prod-safe may run */
+  requireProdSafe: boolean;
+  /** What to do with a test whose tags don't allow this target */
+  onViolation: 'skip' | 'fail';
+}
+
 /**
  * Environment configuration interface
+ * Resolved from the TEST_ENV profile plus environment variable overrides
  */
 export interface EnvironmentConfig {
+  name: string;
   baseUrl: string;
   apiUrl: string;
+  loginUrl: string;
   timeout: number;
+  actionTimeout: number;
+  navigationTimeout: number;
   retries: number;
+  testRetries: number;
   headless: boolean;
+  editor: EditorMode | 'auto';
+  tagPolicy: EnvironmentTagPolicy;
 }
 
 /**
@@ -0,0 +1,81 @@
+/**
+ * Post editor contract shared by the classic editor (PostPage) and the block editor (BlockEditorPage)
+ * Specs that only need this contract get the right page object from pageFactory.getPostEditor()
+ */
+
+/**
+ * Which editor post-new.php/post.php serve
+ */
+export type EditorMode = 'classic' | 'block';
+
+/**
+ * Where an image comes from: a file uploaded through the media modal, or an attachment
+ * already in the library (its title is searched for, since the modal only loads recent items)
+ */
+export type FeaturedImageSource = { filePath: string } | { attachmentId: number; title: string };
+
+/**
+ * Block types BlockEditorPage can insert
+ */
+export type BlockType = 'paragraph' | 'heading' | 'image' | 'list';
+
+/**
+ * Top-level block as shown in the block editor canvas
+ */
+export interface EditorBlock {
+  /** Block name, e.g. core/paragraph */
+  name: string;
+  /** Visible text of the block */
+  text: string;
+}
+
+/**
+ * Post statuses the editors can confirm
+ */
+export type EditorPostStatus = 'Published' | 'Draft' | 'Pending' | 'Scheduled' | 'Private';
+
+/**
+ * Visibility choices of the classic editor's Publish box
+ */
+export type PostVisibility = 'public' | 'private' | 'password';
+
+/**
+ * What every post editor page object offers - method names follow PostPage, which came first.
+ * "Text editor" is the classic Text tab or the block editor's code editor: raw post content either way.
+ */
+export interface PostEditor {
+  readonly editorMode: EditorMode;
+
+  navigateToNewPostDirectly(): Promise<void>;
+  navigateToEditPost(postId: string): Promise<void>;
+  getCurrentPostId(): Promise<string | null>;
+
+  fillPostTitle(title: string): Promise<void>;
+  getPostTitle(): Promise<string>;
+  fillPostContentInTextEditor(content: string): Promise<void>;
+  getPostContentFromTextEditor(): Promise<string>;
+
+  addTags(tags: string): Promise<void>;
+  clearAllTags(): Promise<void>;
+  getTagsValue(): Promise<string>;
+  selectCategory(categoryName: string): Promise<void>;
+  fillExcerpt(excerpt: string): Promise<void>;
+
+  setFeaturedImage(source: FeaturedImageSource): Promise<number | null>;
+  removeFeaturedImage(): Promise<boolean>;
+  getFeaturedImageId(): Promise<number | null>;
+  verifyFeaturedImage(expectedId: number): Promise<boolean>;
+
+  publishPost(): Promise<void>;
+  saveDraft(): Promise<void>;
+
+  getRevisionsCount(): Promise<number>;
+  openRevisions(): Promise<void>;
+
+  verifyPostEditorLoaded(): Promise<boolean>;
+  verifyAllPostEditorElementsVisible(): Promise<boolean>;
+  verifyTitleValue(expectedValue: string): Promise<boolean>;
+  verifySuccessMessageVisible(): Promise<boolean>;
+  verifyPostDetails(expectedTitle: string, expectedContent?: string, expectedTags?: string): Promise<boolean>;
+  verifyPostStatus(expectedStatus: EditorPostStatus): Promise<boolean>;
+}
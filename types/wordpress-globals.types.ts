@@ -0,0 +1,58 @@
+/**
+ * Browser globals of WordPress admin screens
+ * Typed for code that runs in the page through page.evaluate / page.waitForFunction
+ */
+
+/**
+ * Selectors of the block editor's core/editor data store that the suite reads
+ */
+export interface CoreEditorSelectors {
+  getCurrentPostId(): number;
+  getCurrentPostAttribute(name: string): unknown;
+  getEditedPostAttribute(name: string): unknown;
+  getCurrentPostRevisionsCount(): number;
+  /** ID of the newest revision, null before the first one exists */
+  getCurrentPostLastRevisionId(): number | null;
+  isCurrentPostPublished(): boolean;
+  isSavingPost(): boolean;
+  isEditedPostDirty(): boolean;
+  didPostSaveRequestSucceed(): boolean;
+}
+
+/**
+ * The wp global of screens that load the block editor scripts
+ */
+export interface WpGlobal {
+  data: {
+    select(store: 'core/editor'): CoreEditorSelectors;
+  };
+}
+
+/**
+ * A revision as listed in _wpRevisionsSettings.revisionData (wp_prepare_revisions_for_js())
+ */
+export interface WpRevisionData {
+  id: number;
+  author: { name: string } | false;
+  dateShort: string;
+  timeAgo: string;
+  current: boolean;
+  autosave: boolean;
+}
+
+/**
+ * Settings revision.php hands to its revisions app
+ */
+export interface WpRevisionsSettings {
+  /** Revisions of the post, oldest first */
+  revisionData: WpRevisionData[];
+}
+
+declare global {
+  interface Window {
+    /** Defined on post-new.php / post.php when the block editor is active */
+    wp: WpGlobal;
+    /** Defined on revision.php */
+    _wpRevisionsSettings: WpRevisionsSettings;
+  }
+}
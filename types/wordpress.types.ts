@@ -0,0 +1,305 @@
+/**
+ * WordPress REST API (wp/v2) models
+ * Response shapes are trimmed to the fields the suite reads; input shapes
+ * accept the same data our fixtures produce (e.g. categoryTestData, testUsers)
+ */
+
+/**
+ * Rendered/raw text field as returned by the REST API
+ */
+export interface WpRenderedField {
+  rendered: string;
+  raw?: string;
+  protected?: boolean;
+}
+
+/**
+ * Post statuses understood by wp/v2/posts
+ */
+export type WpPostStatus = 'publish' | 'future' | 'draft' | 'pending' | 'private' | 'trash';
+
+/**
+ * Post as returned by wp/v2/posts
+ */
+export interface WpPost {
+  id: number;
+  date: string;
+  date_gmt: string;
+  modified: string;
+  modified_gmt: string;
+  slug: string;
+  status: WpPostStatus;
+  type: string;
+  link: string;
+  title: WpRenderedField;
+  content: WpRenderedField;
+  excerpt: WpRenderedField;
+  author: number;
+  featured_media: number;
+  comment_status: 'open' | 'closed';
+  sticky: boolean;
+  /** Only returned in the edit context */
+  password?: string;
+  categories: number[];
+  tags: number[];
+}
+
+/**
+ * Post fields accepted when creating or updating
+ */
+export interface WpPostInput {
+  title: string;
+  content?: string;
+  excerpt?: string;
+  status?: WpPostStatus;
+  slug?: string;
+  date?: string;
+  password?: string;
+  sticky?: boolean;
+  author?: number;
+  featured_media?: number;
+  comment_status?: 'open' | 'closed';
+  categories?: number[];
+  tags?: number[];
+}
+
+/**
+ * Page as returned by wp/v2/pages - pages have no taxonomies or sticky flag
+ */
+export interface WpPage extends Omit<WpPost, 'sticky' | 'categories' | 'tags'> {
+  parent: number;
+  menu_order: number;
+  /** Template file, '' for the default template */
+  template: string;
+}
+
+/**
+ * Page fields accepted when creating or updating
+ */
+export interface WpPageInput extends Omit<WpPostInput, 'sticky' | 'categories' | 'tags'> {
+  parent?: number;
+  menu_order?: number;
+  template?: string;
+}
+
+/**
+ * Term as returned by wp/v2/categories and wp/v2/tags
+ */
+export interface WpTerm {
+  id: number;
+  count: number;
+  description: string;
+  link: string;
+  name: string;
+  slug: string;
+  taxonomy: string;
+  parent?: number;
+}
+
+export type WpCategory = WpTerm & { parent: number };
+export type WpTag = WpTerm;
+
+/**
+ * Term fields accepted when creating or updating - matches categoryTestData entries.
+ * A string parent is resolved by name to a term of the same taxonomy.
+ */
+export interface WpTermInput {
+  name: string;
+  slug?: string;
+  description?: string;
+  parent?: number | string;
+}
+
+/**
+ * Taxonomy as returned by wp/v2/taxonomies - plugin taxonomies are listed when registered with show_in_rest
+ */
+export interface WpTaxonomy {
+  name: string;
+  slug: string;
+  description: string;
+  types: string[];
+  hierarchical: boolean;
+  rest_base: string;
+  rest_namespace?: string;
+}
+
+/**
+ * Attachment as returned by wp/v2/media
+ */
+export interface WpMedia {
+  id: number;
+  date: string;
+  date_gmt: string;
+  slug: string;
+  link: string;
+  title: WpRenderedField;
+  caption: WpRenderedField;
+  description: WpRenderedField;
+  alt_text: string;
+  media_type: 'image' | 'file';
+  mime_type: string;
+  source_url: string;
+  post: number | null;
+}
+
+/**
+ * Attachment fields accepted when updating
+ */
+export interface WpMediaInput {
+  title?: string;
+  caption?: string;
+  description?: string;
+  alt_text?: string;
+  post?: number;
+}
+
+/**
+ * User as returned by wp/v2/users (context=edit)
+ */
+export interface WpUser {
+  id: number;
+  username?: string;
+  name: string;
+  first_name?: string;
+  last_name?: string;
+  nickname?: string;
+  email?: string;
+  url?: string;
+  description?: string;
+  slug: string;
+  roles?: string[];
+  link: string;
+}
+
+/**
+ * Comment statuses as wp/v2/comments names them; 'hold' is a comment awaiting moderation
+ */
+export type WpCommentStatus = 'approved' | 'hold' | 'spam' | 'trash';
+
+/**
+ * Comment as returned by wp/v2/comments (context=edit)
+ */
+export interface WpComment {
+  id: number;
+  post: number;
+  parent: number;
+  /** ID of the commenting user; 0 for visitors */
+  author: number;
+  author_name: string;
+  author_email?: string;
+  author_url: string;
+  date: string;
+  date_gmt: string;
+  content: WpRenderedField;
+  link: string;
+  status: WpCommentStatus;
+  type: string;
+}
+
+/**
+ * Payload for creating or updating a comment; without author_name/author_email the comment is the current user's
+ */
+export interface WpCommentInput {
+  post: number;
+  content: string;
+  parent?: number;
+  author_name?: string;
+  author_email?: string;
+  author_url?: string;
+  status?: WpCommentStatus;
+}
+
+/**
+ * Site settings as returned by wp/v2/settings
+ */
+export interface WpSettings {
+  title: string;
+  description: string;
+  url: string;
+  email: string;
+  timezone: string;
+  date_format: string;
+  time_format: string;
+  start_of_week: number;
+  language: string;
+  use_smilies: boolean;
+  default_category: number;
+  default_post_format: string;
+  posts_per_page: number;
+  show_on_front: 'posts' | 'page';
+  page_on_front: number;
+  page_for_posts: number;
+  default_ping_status: 'open' | 'closed';
+  default_comment_status: 'open' | 'closed';
+}
+
+/**
+ * Navigation menu as returned by wp/v2/menus; locations lists the theme locations it is assigned to
+ */
+export interface WpMenu {
+  id: number;
+  name: string;
+  slug: string;
+  description: string;
+  locations: string[];
+  auto_add: boolean;
+}
+
+/**
+ * Menu item as returned by wp/v2/menu-items; parent is the ID of the item it is nested under, 0 at the top level
+ */
+export interface WpMenuItem {
+  id: number;
+  title: WpRenderedField;
+  status: 'publish' | 'draft';
+  url: string;
+  type: 'post_type' | 'taxonomy' | 'custom';
+  type_label: string;
+  object: string;
+  object_id: number;
+  parent: number;
+  menu_order: number;
+  menus: number;
+}
+
+/**
+ * Theme location as returned by wp/v2/menu-locations; menu is 0 while none is assigned
+ */
+export interface WpMenuLocation {
+  name: string;
+  description: string;
+  menu: number;
+}
+
+/**
+ * Installed plugin as returned by wp/v2/plugins; plugin is the plugin file without .php, e.g. 'akismet/akismet',
+ * and its directory is the slug plugins are known by
+ */
+export interface WpPlugin {
+  plugin: string;
+  status: 'active' | 'inactive' | 'network-active';
+  name: string;
+  plugin_uri: string;
+  author: string;
+  author_uri: string;
+  description: { raw: string; rendered: string };
+  version: string;
+  network_only: boolean;
+  requires_wp: string;
+  requires_php: string;
+  textdomain: string;
+}
+
+/**
+ * Common list query parameters
+ */
+export interface WpListParams {
+  page?: number;
+  per_page?: number;
+  search?: string;
+  include?: number[];
+  exclude?: number[];
+  order?: 'asc' | 'desc';
+  orderby?: string;
+  [key: string]: string | number | boolean | number[] | string[] | undefined;
+}
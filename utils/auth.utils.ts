@@ -0,0 +1,182 @@
+import { Page, BrowserContext } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { TestUser, UserRole } from '../types/base.types';
+import { testUsers } from '../fixtures/test-data.fixture';
+import LoginPage from '../pages/login.page';
+import DashboardPage from '../pages/dashboard.page';
+import { SmartLogger } from './smart-logger.utils';
+import { SessionRecovery } from './session-recovery.utils';
+
+/**
+ * Authentication utility for per-role sessions
+ * Resolves credentials for every UserRole, drives the LoginPage flow and
+ * reads/writes the storage state file that belongs to each role
+ */
+export class AuthManager {
+  /** Directory holding all saved sessions (git-ignored) */
+  static readonly AUTH_DIR = 'playwright/.auth';
+
+  /** Role each browser context is logged in as (contexts not registered here use the admin session) */
+  private static contextRoles = new WeakMap<BrowserContext, UserRole>();
+
+  /**
+   * Get the storage state path for a role.
+   * Admin keeps the historical staging-ione.json name so existing configs keep working.
+   */
+  static getStorageStatePath(role: UserRole): string {
+    const fileName = role === UserRole.ADMIN ? 'staging-ione.json' : `staging-ione-${role}.json`;
+    return path.resolve(this.AUTH_DIR, fileName);
+  }
+
+  /**
+   * Check if a saved session exists for a role
+   */
+  static hasStorageState(role: UserRole): boolean {
+    return fs.existsSync(this.getStorageStatePath(role));
+  }
+
+  /**
+   * Get the test user for a role.
+   * <ROLE>_USERNAME / <ROLE>_PASSWORD environment variables override the fixture values.
+   */
+  static getUserForRole(role: UserRole): TestUser {
+    const user = Object.values(testUsers).find(candidate => candidate.role === role);
+    if (!user) {
+      throw new Error(`No test user defined for role "${role}" in testUsers`);
+    }
+
+    const envPrefix = role.toUpperCase();
+    return {
+      ...user,
+      username: process.env[`${envPrefix}_USERNAME`] || user.username,
+      password: process.env[`${envPrefix}_PASSWORD`] || user.password
+    };
+  }
+
+  /**
+   * Record which role a browser context is logged in as
+   */
+  static setContextRole(context: BrowserContext, role: UserRole): void {
+    this.contextRoles.set(context, role);
+  }
+
+  /**
+   * Get the role a browser context is logged in as.
+   * Defaults to admin, matching the storageState configured for the browser projects.
+   */
+  static getContextRole(context: BrowserContext): UserRole {
+    return this.contextRoles.get(context) ?? UserRole.ADMIN;
+  }
+
+  /**
+   * Check if a role signs in at all (guests browse anonymously)
+   */
+  static requiresLogin(role: UserRole): boolean {
+    return role !== UserRole.GUEST;
+  }
+
+  /**
+   * Log in as the given user through the LoginPage object
+   * @returns Promise<boolean> - True if the admin bar is present after login
+   */
+  static async login(page: Page, user: TestUser): Promise<boolean> {
+    const loginPage = new LoginPage(page);
+    const dashboardPage = new DashboardPage(page);
+
+    SmartLogger.logUserAction('logging in', 'wp-login.php', user.username);
+
+    await loginPage.navigateToLoginPage();
+
+    // SSO-enabled sites hide the username form behind a "login with username" link
+    await loginPage.clickLoginWithUsername();
+    await loginPage.enterUsername(user.username);
+    await loginPage.enterPassword(user.password);
+    await loginPage.clickLogin();
+
+    try {
+      await page.waitForURL('**/wp-admin**', { timeout: 30000 });
+    } catch {
+      SmartLogger.log('WARN', `Login as ${user.username} did not reach wp-admin`, { url: page.url() });
+      return false;
+    }
+
+    const isLoggedIn = await dashboardPage.isLoggedIn();
+    SmartLogger.logAssertion(`Session for ${user.role} should be active after login`, true, isLoggedIn, isLoggedIn);
+    return isLoggedIn;
+  }
+
+  /**
+   * Log in again after a navigation to targetUrl ended on wp-login.php, as the role the context belongs to,
+   * and refresh that role's storage state
+   * @returns Promise<boolean> - True if a re-login happened and the navigation should be retried
+   * @throws Error if the re-login fails
+   */
+  static async reauthenticate(page: Page, targetUrl: string): Promise<boolean> {
+    const context = page.context();
+    const role = this.getContextRole(context);
+
+    if (!this.requiresLogin(role)) {
+      return false;
+    }
+
+    SmartLogger.log('WARN', `Session expired - redirected to login while opening ${targetUrl}`, {
+      role,
+      redirectedTo: page.url()
+    });
+
+    const loggedIn = await this.login(page, this.getUserForRole(role));
+    if (!loggedIn) {
+      throw new Error(`Session expired and re-login as ${role} failed while opening ${targetUrl}`);
+    }
+
+    await this.saveStorageState(context, role);
+    SmartLogger.log('INFO', `Re-authenticated as ${role}, retrying navigation`, { targetUrl });
+    return true;
+  }
+
+  /**
+   * Save the context's current session as the storage state for a role
+   */
+  static async saveStorageState(context: BrowserContext, role: UserRole): Promise<string> {
+    const statePath = this.getStorageStatePath(role);
+    await context.storageState({ path: statePath });
+    SmartLogger.log('INFO', `Authentication state saved for ${role}`, { statePath });
+    return statePath;
+  }
+
+  /**
+   * Delete the saved session of a role, if there is one
+   */
+  static clearStorageState(role: UserRole): void {
+    const statePath = this.getStorageStatePath(role);
+    if (fs.existsSync(statePath)) {
+      fs.unlinkSync(statePath);
+      SmartLogger.log('INFO', `Authentication state removed for ${role}`, { statePath });
+    }
+  }
+
+  /**
+   * Log in as a role and save its storage state
+   * Guests get an empty session file so every role resolves to a state path.
+   * A failed login removes the role's previous state, so tests for that role skip instead of running on a stale session.
+   * @returns Promise<boolean> - True if the session was created
+   */
+  static async authenticateRole(page: Page, role: UserRole): Promise<boolean> {
+    if (this.requiresLogin(role)) {
+      const loggedIn = await this.login(page, this.getUserForRole(role)).catch(error => {
+        this.clearStorageState(role);
+        throw error;
+      });
+      if (!loggedIn) {
+        this.clearStorageState(role);
+        return false;
+      }
+    }
+
+    await this.saveStorageState(page.context(), role);
+    return true;
+  }
+}
+
+SessionRecovery.register((page, targetUrl) => AuthManager.reauthenticate(page, targetUrl));
@@ -0,0 +1,388 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { TestTags } from '../fixtures/test-tags.fixture';
+
+/**
+ * How much of the suite a change calls for, weakest first
+ * - skip: nothing to run (docs, removed specs, files no spec imports)
+ * - direct: the changed spec itself
+ * - targeted: specs that import the changed file, directly or transitively
+ * - smoke: the critical path (config, CI, logging utilities)
+ * - full: every test (core utilities, unmapped files)
+ */
+export type SelectionStrategy = 'skip' | 'direct' | 'targeted' | 'smoke' | 'full';
+
+const STRATEGY_ORDER: SelectionStrategy[] = ['skip', 'direct', 'targeted', 'smoke', 'full'];
+
+/**
+ * Impact of one changed file
+ */
+export interface ChangeImpact {
+  file: string;
+  strategy: SelectionStrategy;
+  reason: string;
+  /** Specs reached through the import graph, with the import chain that links them */
+  specs: Array<{ spec: string; chain: string[] }>;
+}
+
+/**
+ * A collected test, as the selection needs it
+ */
+export interface SelectableTest {
+  /** Repo-relative spec path */
+  file: string;
+  line: number;
+  /** Describe titles and test title */
+  titlePath: string[];
+  tags: string[];
+}
+
+export interface SelectedTest extends SelectableTest {
+  /** Why the test was picked, one entry per matching change */
+  reasons: string[];
+}
+
+/**
+ * Machine-readable selection
+ */
+export interface ChangeSelection {
+  base: string;
+  strategy: SelectionStrategy;
+  changes: ChangeImpact[];
+  /** Spec files with at least one selected test */
+  specs: string[];
+  /** Tags that select tests outright (smoke strategy) */
+  tags: string[];
+  /** --grep pattern for the tag-selected part, null when no tags apply */
+  grep: string | null;
+  tests: SelectedTest[];
+}
+
+const REPO_ROOT = path.resolve(__dirname, '..');
+
+/** Used by every page object - a change here can break anything */
+const CORE_FILES = ['utils/element.helper.ts', 'utils/test.utils.ts', 'utils/environment.utils.ts'];
+/** Logging and failure analysis - only worth a smoke run */
+const SUPPORT_FILES = ['utils/smart-logger.utils.ts', 'utils/error-inspector.utils.ts', 'utils/ai-context.utils.ts'];
+/** Runner, build and environment configuration that the import graph can't see */
+const CONFIG_FILES = /^(playwright\.config\.ts|tsconfig\.json|package(-lock)?\.json|\.env\.example|config\/environments\/.*\.json|\.github\/.*|scripts\/.*)$/;
+/** Authentication setup runs before every browser test */
+const SETUP_FILES = /^(tests\/.*\.setup\.ts|tests-excluded\/.*)$/;
+const DOC_FILES = /(\.(md|txt|png|jpe?g|gif|svg)$|^docs\/|^LICENSE$)/i;
+
+/** Critical path run by the smoke strategy: tagged tests plus the CI smoke spec */
+export const SMOKE_TAGS: readonly string[] = [TestTags.SMOKE, TestTags.CRITICAL];
+export const SMOKE_SPECS: readonly string[] = ['tests/dashboard.spec.ts'];
+
+/**
+ * Files that import every page object to hand them out (PageFactory). An edge through a hub
+ * would tie every page to every spec, so a spec only depends on the pages it actually uses
+ * through the hub: the class name, the factory property (categoriesPage) or getter (getCategoriesPage).
+ */
+const HUB_FILES = ['pages/page.factory.ts'];
+
+/**
+ * Import graph of the TypeScript project (tests, pages, fixtures, utils, types, config)
+ * Built from tsconfig.json, so path aliases such as @pages/* resolve the way the runner resolves them.
+ */
+export class ImportGraph {
+  /** file -> files that import it */
+  private importers = new Map<string, Set<string>>();
+  /** importer|imported -> hub usage that links them, e.g. pages/page.factory.ts#categoriesPage */
+  private viaHub = new Map<string, string>();
+  private files = new Set<string>();
+
+  private constructor(private rootDir: string) {}
+
+  /**
+   * Parse every file in the tsconfig project and record its local imports
+   */
+  static build(rootDir: string = REPO_ROOT): ImportGraph {
+    const graph = new ImportGraph(rootDir);
+    const configPath = path.join(rootDir, 'tsconfig.json');
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      throw new Error(`Cannot read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    }
+    const project = ts.parseJsonConfigFileContent(config, ts.sys, rootDir);
+    const sources = new Map<string, string>();
+
+    for (const fileName of project.fileNames) {
+      const file = graph.relative(fileName);
+      graph.files.add(file);
+      sources.set(file, fs.readFileSync(fileName, 'utf8'));
+    }
+
+    const hubImports = new Map<string, Map<string, string>>();
+    for (const fileName of project.fileNames) {
+      const importer = graph.relative(fileName);
+      const source = ts.createSourceFile(fileName, sources.get(importer)!, ts.ScriptTarget.ES2022, true);
+
+      for (const { fileName: specifier } of ts.preProcessFile(source.text, true, true).importedFiles) {
+        const { resolvedModule } = ts.resolveModuleName(specifier, fileName, project.options, ts.sys);
+        if (!resolvedModule || resolvedModule.isExternalLibraryImport) {
+          continue;
+        }
+        const imported = graph.relative(resolvedModule.resolvedFileName);
+        if (!graph.files.has(imported) || imported === importer) {
+          continue;
+        }
+        if (HUB_FILES.includes(importer)) {
+          // Linked to the hub's users below instead
+          const binding = readDefaultImportName(source, specifier);
+          if (!hubImports.has(importer)) {
+            hubImports.set(importer, new Map());
+          }
+          hubImports.get(importer)!.set(imported, binding || path.basename(imported, '.ts'));
+          continue;
+        }
+        graph.addEdge(imported, importer);
+      }
+    }
+
+    for (const [hub, pages] of hubImports) {
+      for (const user of graph.collectImporters(hub)) {
+        for (const [page, className] of pages) {
+          const accessor = [className, `${className[0].toLowerCase()}${className.slice(1)}`, `get${className}`]
+            .find(name => new RegExp(`\\b${name}\\b`).test(sources.get(user)!));
+          if (accessor) {
+            graph.addEdge(page, user, `${hub}#${accessor}`);
+          }
+        }
+      }
+    }
+
+    return graph;
+  }
+
+  /**
+   * Check if a repo-relative file is part of the project
+   */
+  has(file: string): boolean {
+    return this.files.has(file);
+  }
+
+  /**
+   * Files that import this one
+   */
+  getImporters(file: string): string[] {
+    return [...(this.importers.get(file) || [])].sort();
+  }
+
+  /**
+   * Specs that depend on a file, each with the shortest import chain from the spec to the file
+   */
+  findDependentSpecs(file: string): Array<{ spec: string; chain: string[] }> {
+    const previous = new Map<string, string | undefined>([[file, undefined]]);
+    const queue = [file];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const importer of this.getImporters(current)) {
+        if (!previous.has(importer)) {
+          previous.set(importer, current);
+          queue.push(importer);
+        }
+      }
+    }
+
+    return [...previous.keys()]
+      .filter(candidate => isSpecFile(candidate))
+      .sort()
+      .map(spec => {
+        const chain: string[] = [];
+        for (let node: string | undefined = spec; node; node = previous.get(node)) {
+          chain.push(node);
+          const next = previous.get(node);
+          if (next && this.viaHub.has(`${node}|${next}`)) {
+            chain.push(this.viaHub.get(`${node}|${next}`)!);
+          }
+        }
+        return { spec, chain };
+      });
+  }
+
+  private addEdge(imported: string, importer: string, hubUsage?: string): void {
+    if (!this.importers.has(imported)) {
+      this.importers.set(imported, new Set());
+    }
+    this.importers.get(imported)!.add(importer);
+    if (hubUsage) {
+      this.viaHub.set(`${importer}|${imported}`, hubUsage);
+    }
+  }
+
+  /**
+   * Every file that imports this one, directly or transitively
+   */
+  private collectImporters(file: string): Set<string> {
+    const found = new Set<string>();
+    const queue = [file];
+    while (queue.length > 0) {
+      for (const importer of this.getImporters(queue.shift()!)) {
+        if (!found.has(importer)) {
+          found.add(importer);
+          queue.push(importer);
+        }
+      }
+    }
+    return found;
+  }
+
+  private relative(file: string): string {
+    return path.relative(this.rootDir, file).split(path.sep).join('/');
+  }
+}
+
+/**
+ * Local name of a default import, e.g. CategoriesPage for `import CategoriesPage from './categories.page'`
+ */
+function readDefaultImportName(source: ts.SourceFile, specifier: string): string | undefined {
+  for (const statement of source.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)
+      && statement.moduleSpecifier.text === specifier) {
+      return statement.importClause?.name?.text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check if a repo-relative path is a browser-project spec
+ */
+export function isSpecFile(file: string): boolean {
+  return /^tests\/.*\.spec\.ts$/.test(file);
+}
+
+/**
+ * Decide what one changed file calls for
+ * @param exists - Whether the file is still in the tree (deleted files come through the diff too)
+ */
+export function classifyChange(file: string, graph: ImportGraph, exists: boolean): ChangeImpact {
+  const impact = (strategy: SelectionStrategy, reason: string, specs: ChangeImpact['specs'] = []): ChangeImpact =>
+    ({ file, strategy, reason, specs });
+
+  if (isSpecFile(file)) {
+    return exists
+      ? impact('direct', 'spec changed', [{ spec: file, chain: [file] }])
+      : impact('skip', 'spec removed');
+  }
+  if (DOC_FILES.test(file)) {
+    return impact('skip', 'documentation only');
+  }
+  if (CORE_FILES.includes(file)) {
+    return impact('full', 'core utility used by every page object');
+  }
+  if (SUPPORT_FILES.includes(file)) {
+    return impact('smoke', 'logging and failure analysis utility');
+  }
+  if (SETUP_FILES.test(file)) {
+    return impact('smoke', 'authentication setup runs before every test');
+  }
+  if (CONFIG_FILES.test(file)) {
+    return impact('smoke', 'runner, build or environment configuration');
+  }
+  if (graph.has(file)) {
+    const specs = graph.findDependentSpecs(file);
+    return specs.length > 0
+      ? impact('targeted', `imported by ${specs.length} spec${specs.length === 1 ? '' : 's'}`, specs)
+      : impact('skip', 'not imported by any spec');
+  }
+  if (!exists && /^(pages|fixtures|utils|types|config)\/.*\.ts$/.test(file)) {
+    return impact('skip', 'source file removed - the files that imported it changed too');
+  }
+  return impact('full', 'not mapped to any tests - running everything to be safe');
+}
+
+/**
+ * Pick the tests a set of changes calls for
+ * @param changedFiles - Repo-relative paths, e.g. from getChangedFiles()
+ * @param tests - Every test the runner collects
+ */
+export function selectTests(base: string, changedFiles: string[], tests: SelectableTest[], graph: ImportGraph): ChangeSelection {
+  const changes = [...new Set(changedFiles)].sort()
+    .map(file => classifyChange(file, graph, fs.existsSync(path.join(REPO_ROOT, file))));
+  const strategy = changes.reduce<SelectionStrategy>(
+    (strongest, change) => STRATEGY_ORDER.indexOf(change.strategy) > STRATEGY_ORDER.indexOf(strongest) ? change.strategy : strongest,
+    'skip'
+  );
+
+  const reasons = new Map<SelectableTest, string[]>();
+  const pick = (test: SelectableTest, reason: string): void => {
+    reasons.set(test, [...(reasons.get(test) || []), reason]);
+  };
+
+  for (const change of changes) {
+    if (change.strategy === 'full') {
+      tests.forEach(test => pick(test, `${change.file}: ${change.reason}`));
+    }
+    if (change.strategy === 'smoke') {
+      for (const test of tests) {
+        const smokeTag = test.tags.find(tag => SMOKE_TAGS.includes(tag));
+        if (smokeTag || SMOKE_SPECS.includes(test.file)) {
+          pick(test, `${change.file}: ${change.reason} - smoke (${smokeTag || test.file})`);
+        }
+      }
+    }
+    for (const { spec, chain } of change.specs) {
+      const via = chain.length > 2 ? ` via ${chain.slice(1, -1).join(' -> ')}` : '';
+      const reason = change.strategy === 'direct' ? `${spec}: spec changed` : `${spec} depends on ${change.file}${via}`;
+      tests.filter(test => test.file === spec).forEach(test => pick(test, reason));
+    }
+  }
+
+  const selected = tests.filter(test => reasons.has(test)).map(test => ({ ...test, reasons: reasons.get(test)! }));
+  const tags = strategy === 'smoke' ? [...SMOKE_TAGS] : [];
+
+  return {
+    base,
+    strategy,
+    changes,
+    specs: [...new Set(selected.map(test => test.file))].sort(),
+    tags,
+    grep: tags.length > 0 ? tags.join('|') : null,
+    tests: selected
+  };
+}
+
+/**
+ * Files changed since the merge base with `base`, including uncommitted and untracked files
+ * @param base - Git ref to compare against, e.g. origin/main or a PR base SHA
+ */
+export function getChangedFiles(base: string): string[] {
+  const git = (...args: string[]): string[] =>
+    execFileSync('git', args, { cwd: REPO_ROOT, encoding: 'utf8' }).split('\n').map(line => line.trim()).filter(Boolean);
+
+  const [mergeBase] = git('merge-base', base, 'HEAD');
+  return [...new Set([
+    ...git('diff', '--name-only', mergeBase),
+    ...git('ls-files', '--others', '--exclude-standard')
+  ])].sort();
+}
+
+/**
+ * Human-readable account of the selection, for `npm run pipeline:info`
+ */
+export function formatSelection(selection: ChangeSelection): string {
+  const lines = [
+    `Strategy: ${selection.strategy} (${selection.changes.length} changed files since ${selection.base})`,
+    ''
+  ];
+
+  for (const change of selection.changes) {
+    lines.push(`  [${change.strategy}] ${change.file} - ${change.reason}`);
+  }
+
+  lines.push('', `Selected ${selection.tests.length} tests in ${selection.specs.length} specs:`);
+  for (const test of selection.tests) {
+    lines.push(`  ${test.file}:${test.line} ${test.titlePath.join(' > ')}`);
+    test.reasons.forEach(reason => lines.push(`      <- ${reason}`));
+  }
+
+  if (selection.grep) {
+    lines.push('', `Tag selection: --grep "${selection.grep}"`);
+  }
+  return `${lines.join('\n')}\n`;
+}
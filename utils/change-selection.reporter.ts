@@ -0,0 +1,80 @@
+import type { FullConfig, FullResult, Reporter, Suite } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportGraph, SelectableTest, formatSelection, getChangedFiles, selectTests } from './change-impact.utils';
+import { toRepoPath } from './tag-lint.utils';
+
+/**
+ * Change-driven test selection
+ * Runs as a Playwright reporter over `playwright test --list`: maps the files changed since
+ * CHANGE_BASE (default HEAD~1) to the tests they impact through the import graph.
+ *
+ *   npm run select-tests                          JSON ChangeSelection on stdout
+ *   npm run pipeline:info                         explain mode: why each test was picked
+ *   CHANGE_BASE=origin/main npm run test:changed  run only the selected tests
+ *
+ * CHANGED_FILES (whitespace separated) replaces the git diff, e.g. with a CI-provided file list.
+ * CHANGE_SELECTION_TEST_LIST writes a file for `playwright test --test-list`; it is empty when
+ * nothing needs to run, so pair it with --pass-with-no-tests.
+ *
+ * @author XWP Platform Team
+ */
+class ChangeSelectionReporter implements Reporter {
+  private config: FullConfig | undefined;
+  private suite: Suite | undefined;
+
+  printsToStdio(): boolean {
+    return true;
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    this.config = config;
+    this.suite = suite;
+  }
+
+  async onEnd(_result: FullResult): Promise<void> {
+    const base = process.env.CHANGE_BASE || 'HEAD~1';
+    const changedFiles = process.env.CHANGED_FILES
+      ? process.env.CHANGED_FILES.split(/\s+/).filter(Boolean)
+      : getChangedFiles(base);
+
+    const tests = this.collectTests();
+    const selection = selectTests(process.env.CHANGED_FILES ? 'CHANGED_FILES' : base, changedFiles, tests, ImportGraph.build());
+
+    if (process.env.CHANGE_SELECTION_TEST_LIST) {
+      const rootDir = this.config?.rootDir || process.cwd();
+      const lines = selection.tests.map(test => {
+        const file = path.relative(rootDir, path.resolve(__dirname, '..', test.file)).split(path.sep).join('/');
+        return [file, ...test.titlePath].join(' › ');
+      });
+      fs.writeFileSync(process.env.CHANGE_SELECTION_TEST_LIST, `# ${selection.strategy} since ${selection.base}\n${lines.join('\n')}\n`);
+    }
+
+    process.stdout.write(process.env.CHANGE_SELECTION_OUTPUT === 'explain'
+      ? formatSelection(selection)
+      : `${JSON.stringify(selection, null, 2)}\n`);
+  }
+
+  /**
+   * One entry per test, not per project; setup tests run as dependencies and are never selected
+   */
+  private collectTests(): SelectableTest[] {
+    const tests = new Map<string, SelectableTest>();
+
+    for (const test of this.suite?.allTests() || []) {
+      const file = toRepoPath(test.location.file);
+      if (file.endsWith('.setup.ts')) {
+        continue;
+      }
+      // titlePath(): root, project, file, ...describes, title
+      const titlePath = test.titlePath().slice(3);
+      const key = `${file} › ${titlePath.join(' › ')}`;
+      if (!tests.has(key)) {
+        tests.set(key, { file, line: test.location.line, titlePath, tags: [...new Set(test.tags)] });
+      }
+    }
+    return [...tests.values()];
+  }
+}
+
+export default ChangeSelectionReporter;
@@ -2,6 +2,7 @@ import { Page, Locator, expect } from '@playwright/test';
 import { SmartLogger } from './smart-logger.utils';
 import { ErrorInspector } from './error-inspector.utils';
 import { EnvironmentManager } from './environment.utils';
+import { EnvironmentGuard, ElementFacts } from './environment-guard.utils';
 
 /**
  * ElementHelper - AI-Optimized utility class for Playwright element interactions
@@ -30,8 +31,8 @@ class ElementHelper {
   /** Environment manager instance */
   private static readonly envManager = EnvironmentManager.getInstance();
   
-  /** Default timeout for most operations */
-  private static readonly DEFAULT_TIMEOUT = ElementHelper.envManager.getConfig().timeout || 10000;
+  /** Default timeout for most operations (profile timeouts.element) */
+  private static readonly DEFAULT_TIMEOUT = ElementHelper.envManager.getTimeout();
   /** Short timeout for quick checks */
   private static readonly SHORT_TIMEOUT = Math.floor(ElementHelper.DEFAULT_TIMEOUT / 2);
   /** Long timeout for complex operations */
@@ -40,8 +41,8 @@ class ElementHelper {
   private static readonly ANIMATION_DELAY = 100;
   /** Polling interval for custom waits */
   private static readonly POLLING_INTERVAL = 100;
-  /** Maximum retry attempts for operations */
-  private static readonly MAX_RETRIES = ElementHelper.envManager.getConfig().retries || 3;
+  /** Maximum retry attempts for operations (profile retries.element) */
+  private static readonly MAX_RETRIES = ElementHelper.envManager.getRetries();
   /** Base delay for exponential backoff */
   private static readonly BASE_RETRY_DELAY = 500;
   /** Enable detailed health checks (disable for speed) */
@@ -100,6 +101,40 @@ class ElementHelper {
     return `${operation} failed for ${elementDesc}${error ? `: ${error}` : ''}`;
   }
 
+  /**
+   * Refuse destructive interactions (trash, delete, publish) while a @prod-safe test runs
+   * Element facts are only read when the guard is active, so other tests pay nothing
+   * @private
+   */
+  private async guardDestructiveAction(
+    page: Page,
+    element: string | Locator,
+    index: number,
+    action: string,
+    optionValues: string[] = []
+  ): Promise<void> {
+    const guard = EnvironmentGuard.getInstance();
+    if (!guard.isProdSafeTest()) {
+      return;
+    }
+
+    const facts: ElementFacts | undefined = await this.createLocator(page, element, index)
+      .evaluate(el => ({
+        tagName: el.tagName.toLowerCase(),
+        id: el.id,
+        name: el.getAttribute('name') || '',
+        className: el.getAttribute('class') || '',
+        href: el.getAttribute('href') || '',
+        label: el instanceof HTMLSelectElement
+          ? ''
+          : (el instanceof HTMLInputElement && ['submit', 'button'].includes(el.type) ? el.value : el.textContent || '').trim()
+      }), undefined, { timeout: ElementHelper.SHORT_TIMEOUT })
+      .catch(() => undefined);
+
+    const elementSelector = typeof element === 'string' ? element : element.toString();
+    guard.assertSafeInteraction(action, elementSelector, facts, optionValues);
+  }
+
   /**
    * Fast-first retry operation with optional performance monitoring
    * @private
@@ -427,6 +462,7 @@ class ElementHelper {
     this.validateParams({ page, element, index, timeout });
     
     const elementSelector = typeof element === 'string' ? element : element.toString();
+    await this.guardDestructiveAction(page, element, index, 'click');
     SmartLogger.logUserAction('click', elementSelector);
     
     try {
@@ -464,6 +500,7 @@ class ElementHelper {
     timeout: number = ElementHelper.DEFAULT_TIMEOUT
   ): Promise<void> {
     this.validateParams({ page, element, index, timeout });
+    await this.guardDestructiveAction(page, element, index, 'force click');
     
     try {
       const elementLocator = this.createLocator(page, element, index);
@@ -495,6 +532,7 @@ class ElementHelper {
     timeout: number = ElementHelper.DEFAULT_TIMEOUT
   ): Promise<void> {
     this.validateParams({ page, element, index, timeout });
+    await this.guardDestructiveAction(page, element, index, 'double click');
     
     try {
       const locator = this.createLocator(page, element, index);
@@ -758,6 +796,7 @@ class ElementHelper {
     timeout: number = ElementHelper.DEFAULT_TIMEOUT
   ): Promise<void> {
     this.validateParams({ page, element, value, index, timeout });
+    await this.guardDestructiveAction(page, element, index, 'select option', [value]);
     
     try {
       const elementLocator = this.createLocator(page, element, index);
@@ -791,6 +830,7 @@ class ElementHelper {
     timeout: number = ElementHelper.DEFAULT_TIMEOUT
   ): Promise<void> {
     this.validateParams({ page, element, values, index, timeout });
+    await this.guardDestructiveAction(page, element, index, 'select options', values);
     
     try {
       const elementLocator = this.createLocator(page, element, index);
@@ -1089,20 +1129,24 @@ class ElementHelper {
   /**
    * Wait for element to be removed from DOM
    * @param page - Playwright Page object
-   * @param element - Element selector
+   * @param element - Element selector or Locator
    * @param timeout - Timeout in milliseconds
    * @returns Promise<boolean> - True if element is removed, false if still present after timeout
    * @throws Never throws - returns false on timeout or error
    */
   async waitForElementRemoved(
     page: Page,
-    element: string,
+    element: string | Locator,
     timeout: number = ElementHelper.LONG_TIMEOUT
   ): Promise<boolean> {
     this.validateParams({ page, element, timeout });
     
     try {
-      await page.waitForSelector(element, { state: 'hidden', timeout });
+      if (typeof element === 'string') {
+        await page.waitForSelector(element, { state: 'hidden', timeout });
+      } else {
+        await element.waitFor({ state: 'hidden', timeout });
+      }
       return true;
     } catch (error) {
       console.debug(`waitForElementRemoved: Element still present after ${timeout}ms: ${(error as Error).message}`);
@@ -1379,6 +1423,8 @@ class ElementHelper {
    * @param sourceIndex - Index of source element if multiple matches
    * @param targetIndex - Index of target element if multiple matches
    * @param timeout - Timeout in milliseconds
+   * @param positions - Points to grab the source at and drop it on, relative to each element's top-left corner
+   *   (default: their centres) - for sortables that read where an item lands, like nested menu items
    * @throws Error if drag and drop operation fails
    */
   async dragAndDrop(
@@ -1387,7 +1433,8 @@ class ElementHelper {
     target: string | Locator,
     sourceIndex: number = 0,
     targetIndex: number = 0,
-    timeout: number = ElementHelper.DEFAULT_TIMEOUT
+    timeout: number = ElementHelper.DEFAULT_TIMEOUT,
+    positions: { source?: { x: number; y: number }; target?: { x: number; y: number } } = {}
   ): Promise<void> {
     this.validateParams({ page, source, target, sourceIndex, targetIndex, timeout });
     
@@ -1398,7 +1445,7 @@ class ElementHelper {
       await sourceLocator.waitFor({ state: 'visible', timeout });
       await targetLocator.waitFor({ state: 'visible', timeout });
       
-      await sourceLocator.dragTo(targetLocator);
+      await sourceLocator.dragTo(targetLocator, { sourcePosition: positions.source, targetPosition: positions.target });
     } catch (error) {
       const sourceDesc = typeof source === 'string' ? source : 'source Locator';
       const targetDesc = typeof target === 'string' ? target : 'target Locator';
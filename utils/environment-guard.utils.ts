@@ -0,0 +1,198 @@
+import { TestTags } from '../fixtures/test-tags.fixture';
+import { EnvironmentManager } from './environment.utils';
+import { SmartLogger } from './smart-logger.utils';
+import { WpPlugin } from '../types/wordpress.types';
+
+/**
+ * Environment tags that restrict a test to specific targets - a test runs where the profile
+ * satisfies any one of its environment tags
+ */
+export const ENVIRONMENT_ONLY_TAGS: readonly string[] = [
+  TestTags.LOCAL_ONLY, TestTags.DEV_ONLY, TestTags.STAGING_ONLY, TestTags.LOCAL_STAND_IN
+];
+
+/**
+ * Outcome of checking a test's tags against the active profile
+ */
+export type GuardDecision = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * What ElementHelper reads from an element before a mutating interaction
+ */
+export interface ElementFacts {
+  tagName: string;
+  id: string;
+  name: string;
+  className: string;
+  href: string;
+  /** Visible text, or the value of submit/button inputs */
+  label: string;
+}
+
+/** Button and link labels that trash, delete, publish or otherwise change live content (not view links such as "Trash (2)") */
+const DESTRUCTIVE_LABEL = /^(publish|schedule|update|move to trash|trash|delete|delete permanently|empty trash|remove)\b(?!\s*\(\d)/i;
+/** Submit buttons identified by id or name (publish box, Empty Trash) */
+const DESTRUCTIVE_IDS = ['publish', 'delete_all', 'delete_all2'];
+/** Row-action and term-delete link classes */
+const DESTRUCTIVE_CLASS = /\b(submitdelete|delete-tag|deletion)\b/;
+/** Admin links that act immediately, e.g. post.php?post=1&action=trash */
+const DESTRUCTIVE_HREF = /[?&]action=(trash|delete|spam|deactivate|delete-selected)\b/;
+/** Bulk action values that destroy content once applied */
+const DESTRUCTIVE_OPTIONS = ['trash', 'delete', 'delete_all', 'spam', 'delete-selected', 'deactivate-selected'];
+
+/**
+ * Environment guard
+ * Enforces the active profile's tagPolicy: @local-only, @dev-only and @staging-only tests only run
+ * against targets that satisfy them, and protected targets (prod) only run @prod-safe tests.
+ * @plugin-dependent tests only run where the plugins they declare are installed and active.
+ * While a @prod-safe test runs, ElementHelper asks the guard before every click or selection and
+ * destructive interactions (trash, delete, publish) are refused.
+ */
+export class EnvironmentGuard {
+  private static instance: EnvironmentGuard;
+  private envManager = EnvironmentManager.getInstance();
+  private currentTest: { title: string; tags: string[] } | undefined;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance (one per worker process)
+   */
+  static getInstance(): EnvironmentGuard {
+    if (!EnvironmentGuard.instance) {
+      EnvironmentGuard.instance = new EnvironmentGuard();
+    }
+    return EnvironmentGuard.instance;
+  }
+
+  /**
+   * Decide whether a test with these tags may run against the active profile
+   * @param tags - Test tags (testInfo.tags: describe, test and title tags)
+   */
+  evaluate(tags: string[]): GuardDecision {
+    const policy = this.envManager.getTagPolicy();
+    const target = this.envManager.getTestEnvironment();
+
+    const onlyTags = [...new Set(tags.filter(tag => ENVIRONMENT_ONLY_TAGS.includes(tag)))];
+    if (onlyTags.length > 0 && !onlyTags.some(tag => policy.satisfies.includes(tag))) {
+      return {
+        allowed: false,
+        reason: `Tagged ${onlyTags.join(', ')} - not allowed against the "${target}" environment`
+      };
+    }
+
+    if (policy.requireProdSafe && !tags.includes(TestTags.PROD_SAFE)) {
+      return {
+        allowed: false,
+        reason: `The "${target}" environment only runs ${TestTags.PROD_SAFE} tests`
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Decide whether a test that requires plugins may run: each one must be installed and active
+   * @param required - Plugin slugs, i.e. their directory names (e.g. 'jetpack')
+   * @param installed - Plugins as listed by wp/v2/plugins
+   */
+  evaluatePlugins(required: string[], installed: WpPlugin[]): GuardDecision {
+    const problems = required.flatMap(slug => {
+      const plugin = installed.find(candidate => candidate.plugin.split('/')[0] === slug);
+      if (!plugin) {
+        return [`${slug} is not installed`];
+      }
+      return plugin.status === 'inactive' ? [`${plugin.name} (${slug}) is installed but inactive`] : [];
+    });
+
+    if (problems.length > 0) {
+      return {
+        allowed: false,
+        reason: `Requires plugins the "${this.envManager.getTestEnvironment()}" environment lacks: ${problems.join('; ')}`
+      };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Start guarding interactions for a test
+   */
+  beginTest(title: string, tags: string[]): void {
+    this.currentTest = { title, tags };
+  }
+
+  /**
+   * Stop guarding interactions (between tests and in hooks outside a test)
+   */
+  endTest(): void {
+    this.currentTest = undefined;
+  }
+
+  /**
+   * Check if the running test is tagged @prod-safe
+   */
+  isProdSafeTest(): boolean {
+    return !!this.currentTest?.tags.includes(TestTags.PROD_SAFE);
+  }
+
+  /**
+   * Check if the active profile only admits @prod-safe tests
+   */
+  isProtectedTarget(): boolean {
+    return this.envManager.getTagPolicy().requireProdSafe;
+  }
+
+  /**
+   * Explain why an interaction is destructive
+   * @param facts - Element about to be clicked; undefined if it could not be read
+   * @param optionValues - Values (or labels) about to be selected in a <select>
+   * @returns A short reason, or undefined when the interaction looks safe
+   */
+  findDestructiveIntent(facts: ElementFacts | undefined, optionValues: string[] = []): string | undefined {
+    // selectOptionValue() falls back to matching labels, so check both forms
+    const option = optionValues.find(value => DESTRUCTIVE_OPTIONS.includes(value) || DESTRUCTIVE_LABEL.test(value));
+    if (option) {
+      return `option "${option}"`;
+    }
+    if (!facts) {
+      return undefined;
+    }
+    if (DESTRUCTIVE_LABEL.test(facts.label)) {
+      return `label "${facts.label}"`;
+    }
+    if (DESTRUCTIVE_IDS.includes(facts.id) || DESTRUCTIVE_IDS.includes(facts.name)) {
+      return `#${facts.id || facts.name}`;
+    }
+    const destructiveClass = facts.className.match(DESTRUCTIVE_CLASS);
+    if (destructiveClass) {
+      return `.${destructiveClass[1]}`;
+    }
+    const destructiveHref = facts.href.match(DESTRUCTIVE_HREF);
+    if (destructiveHref) {
+      return `link action=${destructiveHref[1]}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Throw if a @prod-safe test is about to perform a destructive interaction
+   * @param action - Interaction name for the message, e.g. 'click'
+   * @param target - Selector or locator description
+   * @throws Error naming the test, the element and why it counts as destructive
+   */
+  assertSafeInteraction(action: string, target: string, facts: ElementFacts | undefined, optionValues: string[] = []): void {
+    if (!this.currentTest || !this.isProdSafeTest()) {
+      return;
+    }
+
+    const intent = this.findDestructiveIntent(facts, optionValues);
+    if (!intent) {
+      return;
+    }
+
+    const message = `Refused ${action} on ${target} (${intent}): "${this.currentTest.title}" is tagged ${TestTags.PROD_SAFE} ` +
+      `and must not trash, delete or publish content on "${this.envManager.getTestEnvironment()}"`;
+    SmartLogger.log('ERROR', message, { action, target, intent });
+    throw new Error(message);
+  }
+}
@@ -1,7 +1,19 @@
-import { EnvironmentConfig } from '../types/base.types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvironmentConfig, EnvironmentProfile, EnvironmentTagPolicy } from '../types/base.types';
+import { EditorMode } from '../types/editor.types';
+import { isHttpUrl, validateEnvironmentProfile } from '../config/environment-profile.schema';
+
+/** Versioned profiles, one <name>.json per target site */
+const PROFILES_DIR = path.resolve(__dirname, '../config/environments');
+/** Profile used when TEST_ENV is not set */
+const DEFAULT_PROFILE = 'staging';
 
 /**
  * Environment configuration utility
+ * Resolves the profile named by TEST_ENV (local, dev, staging, prod) from config/environments.
+ * Per-site URLs can be overridden with <PROFILE>_BASE_URL, <PROFILE>_API_URL and <PROFILE>_LOGIN_URL
+ * (e.g. STAGING_LOGIN_URL); TEST_TIMEOUT, TEST_RETRIES and HEADLESS override the profile defaults.
  */
 export class EnvironmentManager {
   private static instance: EnvironmentManager;
@@ -22,15 +34,88 @@ export class EnvironmentManager {
   }
 
   /**
-   * Load configuration from environment variables
+   * List the profile names available in config/environments
+   */
+  static getAvailableProfiles(): string[] {
+    return fs.readdirSync(PROFILES_DIR)
+      .filter(file => file.endsWith('.json'))
+      .map(file => path.basename(file, '.json'))
+      .sort();
+  }
+
+  /**
+   * Load and validate the selected profile, then apply environment variable overrides
+   * @throws Error listing every problem if TEST_ENV is unknown or the profile fails validation
    */
   private loadConfiguration(): EnvironmentConfig {
+    const name = process.env.TEST_ENV || DEFAULT_PROFILE;
+    const available = EnvironmentManager.getAvailableProfiles();
+    if (!available.includes(name)) {
+      throw new Error(`Unknown TEST_ENV "${name}". Available profiles: ${available.join(', ')}`);
+    }
+
+    const file = path.join(PROFILES_DIR, `${name}.json`);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`Environment profile ${file} is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const profile = this.applyOverrides(name, parsed as EnvironmentProfile);
+    const problems = validateEnvironmentProfile(profile);
+    if (profile.name !== name) {
+      problems.push(`name must match the file name "${name}", got "${profile.name}"`);
+    }
+
+    const baseUrl = profile.baseUrl.replace(/\/+$/, '');
+    const loginOverride = process.env[`${name.toUpperCase()}_LOGIN_URL`];
+    if (loginOverride && !isHttpUrl(loginOverride)) {
+      problems.push(`${name.toUpperCase()}_LOGIN_URL must be an absolute http(s) URL, got "${loginOverride}"`);
+    }
+    const loginUrl = loginOverride || `${baseUrl}${profile.loginPath || '/wp-login.php'}`;
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid environment profile "${name}" (${file}, including overrides):\n  - ${problems.join('\n  - ')}`);
+    }
+
+    return {
+      name,
+      baseUrl,
+      apiUrl: (profile.apiUrl || `${baseUrl}/wp-json`).replace(/\/+$/, ''),
+      loginUrl,
+      timeout: profile.timeouts.element,
+      actionTimeout: profile.timeouts.action,
+      navigationTimeout: profile.timeouts.navigation,
+      retries: profile.retries.element,
+      testRetries: this.isCI() ? profile.retries.testOnCi : profile.retries.test,
+      headless: profile.headless ?? true,
+      editor: profile.editor ?? 'auto',
+      tagPolicy: profile.tagPolicy
+    };
+  }
+
+  /**
+   * Layer environment variables over a profile read from disk
+   * Overrides go through the same schema validation as the file itself
+   */
+  private applyOverrides(name: string, profile: EnvironmentProfile): EnvironmentProfile {
+    const prefix = name.toUpperCase();
+    const env = process.env;
     return {
-      baseUrl: process.env.STAGING_BASE_URL || 'https://staging.go.ione.nyc',
-      apiUrl: process.env.STAGING_API_URL || 'https://staging.go.ione.nyc/api',
-      timeout: parseInt(process.env.TEST_TIMEOUT || '30000'),
-      retries: parseInt(process.env.TEST_RETRIES || '1'),
-      headless: process.env.HEADLESS !== 'false'
+      ...profile,
+      ...(env[`${prefix}_BASE_URL`] ? { baseUrl: env[`${prefix}_BASE_URL`] as string } : {}),
+      ...(env[`${prefix}_API_URL`] ? { apiUrl: env[`${prefix}_API_URL`] as string } : {}),
+      ...(env.HEADLESS ? { headless: env.HEADLESS !== 'false' } : {}),
+      ...(env.EDITOR_MODE ? { editor: env.EDITOR_MODE as EnvironmentProfile['editor'] } : {}),
+      timeouts: {
+        ...profile.timeouts,
+        ...(env.TEST_TIMEOUT ? { element: Number(env.TEST_TIMEOUT) } : {})
+      },
+      retries: {
+        ...profile.retries,
+        ...(env.TEST_RETRIES ? { element: Number(env.TEST_RETRIES) } : {})
+      }
     };
   }
 
@@ -48,6 +133,13 @@ export class EnvironmentManager {
     return this.config.baseUrl;
   }
 
+  /**
+   * Get the wp-login.php URL (may carry ?skip_sso, depending on the profile)
+   */
+  getLoginUrl(): string {
+    return this.config.loginUrl;
+  }
+
   /**
    * Get API URL
    */
@@ -63,12 +155,47 @@ export class EnvironmentManager {
   }
 
   /**
-   * Get retries
+   * Get Playwright's per-action timeout
+   */
+  getActionTimeout(): number {
+    return this.config.actionTimeout;
+  }
+
+  /**
+   * Get Playwright's navigation timeout (also used for URL and load-state waits)
+   */
+  getNavigationTimeout(): number {
+    return this.config.navigationTimeout;
+  }
+
+  /**
+   * Get retries (attempts per ElementHelper interaction)
    */
   getRetries(): number {
     return this.config.retries;
   }
 
+  /**
+   * Get Playwright test retries for this run (CI-aware)
+   */
+  getTestRetries(): number {
+    return this.config.testRetries;
+  }
+
+  /**
+   * Get the environment-tag policy EnvironmentGuard enforces for this target
+   */
+  getTagPolicy(): EnvironmentTagPolicy {
+    return this.config.tagPolicy;
+  }
+
+  /**
+   * Get the post editor the profile declares ('auto' when it has to be detected)
+   */
+  getEditorMode(): EditorMode | 'auto' {
+    return this.config.editor;
+  }
+
   /**
    * Check if running in headless mode
    */
@@ -83,6 +210,20 @@ export class EnvironmentManager {
     return process.env.NODE_ENV || 'development';
   }
 
+  /**
+   * Get the profile selected through TEST_ENV (defaults to staging)
+   */
+  getTestEnvironment(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Check if tests run against the local stand-in server
+   */
+  isLocal(): boolean {
+    return this.getTestEnvironment() === 'local';
+  }
+
   /**
    * Check if running in CI
    */
@@ -306,7 +306,7 @@ export class ErrorInspector {
 
     // URL-based suggestions
     if (report.url.includes('wp-login.php')) {
-      suggestions.push('🔐 Login page detected - check credentials and form submission');
+      suggestions.push('🔐 Login page detected - check credentials and form submission, or refresh the saved session with `npx playwright test --project=setup`');
     }
     if (report.url.includes('404') || report.title.toLowerCase().includes('not found')) {
       suggestions.push('🔍 404 error detected - verify URL and routing');
@@ -0,0 +1,36 @@
+import { Page } from '@playwright/test';
+import { SmartLogger } from './smart-logger.utils';
+
+/**
+ * Logs a page back in after its session expired
+ * @returns Promise<boolean> - True if a re-login happened and the navigation should be retried
+ */
+export type ReloginHandler = (page: Page, targetUrl: string) => Promise<boolean>;
+
+/**
+ * Session recovery hook for BasePage navigation
+ * BasePage cannot import AuthManager: auth.utils drives LoginPage and DashboardPage, which extend BasePage.
+ * AuthManager registers its re-login here instead when auth.utils loads (the test fixtures and auth.setup import it).
+ */
+export class SessionRecovery {
+  private static handler: ReloginHandler | undefined;
+
+  /**
+   * Set the re-login used when a navigation lands on wp-login.php
+   */
+  static register(handler: ReloginHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Log the page in again through the registered handler
+   * @returns Promise<boolean> - True if a re-login happened and the navigation should be retried
+   */
+  static async recover(page: Page, targetUrl: string): Promise<boolean> {
+    if (!this.handler) {
+      SmartLogger.log('WARN', 'Session expired but no re-login is registered - import utils/auth.utils', { targetUrl });
+      return false;
+    }
+    return this.handler(page, targetUrl);
+  }
+}
@@ -0,0 +1,81 @@
+import type { FullConfig, FullResult, Reporter, Suite, TestCase } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import { TagLintTest, TagSourceIndex, buildTagLintReport, extractTitleTags, toRepoPath } from './tag-lint.utils';
+
+/**
+ * Tag taxonomy linter
+ * Runs as a Playwright reporter over `playwright test --list`, so it sees exactly the tests the
+ * config collects. Prints a JSON TagLintReport to stdout (or TAG_LINT_OUTPUT) and fails the
+ * command when any error-level issue is found.
+ *
+ *   npm run validate-tags
+ *   npm run validate-tags -- tests/categories.spec.ts
+ *
+ * @author XWP Platform Team
+ */
+class TagLintReporter implements Reporter {
+  private suite: Suite | undefined;
+
+  printsToStdio(): boolean {
+    return true;
+  }
+
+  onBegin(_config: FullConfig, suite: Suite): void {
+    this.suite = suite;
+  }
+
+  async onEnd(_result: FullResult): Promise<{ status?: FullResult['status'] } | undefined> {
+    const index = new TagSourceIndex();
+    const seen = new Set<string>();
+    const entries: Array<{ test: TagLintTest; unresolved: string[] }> = [];
+
+    for (const test of this.suite?.allTests() || []) {
+      const key = `${test.location.file}:${test.location.line}:${test.title}`;
+      // Setup projects are not part of the tagged suite; browser projects repeat the same tests
+      if (test.location.file.endsWith('.setup.ts') || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      entries.push(this.describeTest(index, test));
+    }
+
+    const report = buildTagLintReport(entries);
+    const json = JSON.stringify(report, null, 2);
+
+    if (process.env.TAG_LINT_OUTPUT) {
+      fs.writeFileSync(process.env.TAG_LINT_OUTPUT, `${json}\n`);
+    } else {
+      process.stdout.write(`${json}\n`);
+    }
+    process.stderr.write(
+      `Tag lint: ${report.summary.tests} tests, ${report.summary.errors} errors, ${report.summary.warnings} warnings\n`
+    );
+
+    return report.summary.passed ? undefined : { status: 'failed' };
+  }
+
+  private describeTest(index: TagSourceIndex, test: TestCase): { test: TagLintTest; unresolved: string[] } {
+    const located = index.locate(test.location.file, test.location.line, test.title);
+    const describeTitles = located?.describe.map(call => call.title) || [];
+
+    const entry: TagLintTest = {
+      file: toRepoPath(test.location.file),
+      line: test.location.line,
+      title: [...describeTitles, test.title].join(' > '),
+      describeTags: located
+        ? [...new Set(located.describe.flatMap(call => [...call.tags, ...extractTitleTags(call.title)]))]
+        : [],
+      testTags: located ? [...new Set(located.test.tags)] : [],
+      titleTags: [...new Set(extractTitleTags(test.title))],
+      tags: [...new Set(test.tags)]
+    };
+
+    const unresolved = located
+      ? [...located.describe.flatMap(call => call.unresolved), ...located.test.unresolved]
+      : ['test() call not found in source'];
+
+    return { test: entry, unresolved };
+  }
+}
+
+export default TagLintReporter;
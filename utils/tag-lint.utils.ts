@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { TestTags, TagCombinations, PriorityTags, TagConflicts, findUnknownTags } from '../fixtures/test-tags.fixture';
+
+/**
+ * Tags of one test, split by where they were declared
+ */
+export interface TagLintTest {
+  file: string;
+  line: number;
+  /** Describe titles and test title, joined with " > " */
+  title: string;
+  /** From test.describe() tag options and @tokens in describe titles */
+  describeTags: string[];
+  /** From the test() tag option */
+  testTags: string[];
+  /** @tokens in the test title */
+  titleTags: string[];
+  /** Every tag that applies, as Playwright sees it */
+  tags: string[];
+}
+
+export type TagLintRule = 'unknown-tag' | 'missing-priority' | 'multiple-priorities' | 'contradictory-tags' | 'unresolved-tag';
+
+export interface TagLintIssue {
+  severity: 'error' | 'warning';
+  rule: TagLintRule;
+  file: string;
+  line: number;
+  title: string;
+  message: string;
+  tags: string[];
+}
+
+export interface TagLintReport {
+  summary: {
+    tests: number;
+    errors: number;
+    warnings: number;
+    passed: boolean;
+  };
+  tests: TagLintTest[];
+  issues: TagLintIssue[];
+}
+
+/** Named tag collections that tag options may reference */
+const TAG_SOURCES: Record<string, Record<string, string | readonly string[]>> = {
+  TestTags,
+  TagCombinations
+};
+
+const INLINE_TAG = /@[\S]+/g;
+
+/**
+ * Extract @tokens from a title the way Playwright does
+ */
+export function extractTitleTags(title: string): string[] {
+  return title.match(INLINE_TAG) || [];
+}
+
+/**
+ * Declared tags of a test() or test.describe() call, read from the spec source
+ */
+interface CallTags {
+  title: string;
+  tags: string[];
+  unresolved: string[];
+}
+
+/**
+ * Reads tag options from spec sources with the TypeScript compiler API
+ * Playwright's reporter API only exposes the merged tag list, so the declaring level
+ * (describe option, test option or title) comes from the syntax tree.
+ */
+export class TagSourceIndex {
+  private sources = new Map<string, ts.SourceFile>();
+
+  /**
+   * Find the tags declared for the test at file:line and for its enclosing describes
+   * @returns undefined when no matching test() call is found (e.g. generated tests)
+   */
+  locate(file: string, line: number, title: string): { describe: CallTags[]; test: CallTags } | undefined {
+    const source = this.getSource(file);
+    let match: ts.CallExpression | undefined;
+
+    const visit = (node: ts.Node): void => {
+      if (match) {
+        return;
+      }
+      if (ts.isCallExpression(node) && this.isTestCall(node) && this.readTitle(node) === title
+        && source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1 === line) {
+        match = node;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    if (!match) {
+      return undefined;
+    }
+
+    const describe: CallTags[] = [];
+    for (let node: ts.Node | undefined = match.parent; node; node = node.parent) {
+      if (ts.isCallExpression(node) && this.isDescribeCall(node)) {
+        describe.unshift(this.readCallTags(node, source));
+      }
+    }
+
+    return { describe, test: this.readCallTags(match, source) };
+  }
+
+  private getSource(file: string): ts.SourceFile {
+    let source = this.sources.get(file);
+    if (!source) {
+      source = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.ES2022, true);
+      this.sources.set(file, source);
+    }
+    return source;
+  }
+
+  /**
+   * test(...), test.only/skip/fixme/fail(...) with a title - also the `setup` alias used by auth.setup.ts
+   */
+  private isTestCall(node: ts.CallExpression): boolean {
+    const callee = node.expression;
+    if (ts.isIdentifier(callee)) {
+      return callee.text === 'test' || callee.text === 'setup';
+    }
+    return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression)
+      && ['test', 'setup'].includes(callee.expression.text)
+      && ['only', 'skip', 'fixme', 'fail', 'slow'].includes(callee.name.text)
+      && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0]);
+  }
+
+  /**
+   * test.describe(...) and its .only/.serial/.parallel/.skip/.fixme variants
+   */
+  private isDescribeCall(node: ts.CallExpression): boolean {
+    return node.expression.getText().replace(/\s/g, '').match(/^test\.describe(\.\w+)*$/) !== null;
+  }
+
+  private readTitle(node: ts.CallExpression): string | undefined {
+    const [first] = node.arguments;
+    return first && ts.isStringLiteralLike(first) ? first.text : undefined;
+  }
+
+  private readCallTags(node: ts.CallExpression, source: ts.SourceFile): CallTags {
+    const options = node.arguments.find(ts.isObjectLiteralExpression);
+    const result: CallTags = { title: this.readTitle(node) || '', tags: [], unresolved: [] };
+
+    const tagProperty = options?.properties.find(
+      (property): property is ts.PropertyAssignment => ts.isPropertyAssignment(property) && property.name.getText(source) === 'tag'
+    );
+    if (tagProperty) {
+      this.resolveTagExpression(tagProperty.initializer, source, result);
+    }
+    return result;
+  }
+
+  private resolveTagExpression(expression: ts.Expression, source: ts.SourceFile, result: CallTags): void {
+    if (ts.isArrayLiteralExpression(expression)) {
+      expression.elements.forEach(element => this.resolveTagExpression(
+        ts.isSpreadElement(element) ? element.expression : element, source, result
+      ));
+      return;
+    }
+    if (ts.isStringLiteralLike(expression)) {
+      result.tags.push(expression.text);
+      return;
+    }
+    if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression)) {
+      const value = TAG_SOURCES[expression.expression.text]?.[expression.name.text];
+      if (typeof value === 'string') {
+        result.tags.push(value);
+        return;
+      }
+      if (Array.isArray(value)) {
+        result.tags.push(...value);
+        return;
+      }
+    }
+    result.unresolved.push(expression.getText(source));
+  }
+}
+
+/**
+ * Check one test's tags against the TestTags taxonomy
+ */
+export function lintTestTags(test: TagLintTest, unresolved: string[] = []): TagLintIssue[] {
+  const issues: TagLintIssue[] = [];
+  const issue = (severity: TagLintIssue['severity'], rule: TagLintRule, message: string, tags: string[]): void => {
+    issues.push({ severity, rule, file: test.file, line: test.line, title: test.title, message, tags });
+  };
+
+  const unknown = findUnknownTags(test.tags);
+  if (unknown.length > 0) {
+    issue('error', 'unknown-tag', `Tags not defined in TestTags: ${unknown.join(', ')}`, unknown);
+  }
+
+  const priorities = PriorityTags.filter(tag => test.tags.includes(tag));
+  if (priorities.length === 0) {
+    issue('error', 'missing-priority', `No priority tag - add one of ${PriorityTags.join(', ')}`, []);
+  } else if (priorities.length > 1) {
+    issue('error', 'multiple-priorities', `More than one priority tag: ${priorities.join(', ')}`, [...priorities]);
+  }
+
+  for (const [first, second, reason] of TagConflicts) {
+    if (test.tags.includes(first) && test.tags.includes(second)) {
+      issue('error', 'contradictory-tags', `${first} with ${second}: ${reason}`, [first, second]);
+    }
+  }
+
+  if (unresolved.length > 0) {
+    issue('warning', 'unresolved-tag', `Tag expressions the linter could not evaluate: ${unresolved.join(', ')}`, []);
+  }
+
+  return issues;
+}
+
+/**
+ * Assemble the machine-readable report
+ */
+export function buildTagLintReport(entries: Array<{ test: TagLintTest; unresolved: string[] }>): TagLintReport {
+  const issues = entries.flatMap(entry => lintTestTags(entry.test, entry.unresolved));
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+
+  return {
+    summary: {
+      tests: entries.length,
+      errors,
+      warnings: issues.length - errors,
+      passed: errors === 0
+    },
+    tests: entries.map(entry => entry.test),
+    issues
+  };
+}
+
+/**
+ * Path relative to the repository root, for stable output across machines
+ */
+export function toRepoPath(file: string): string {
+  return path.relative(path.resolve(__dirname, '..'), file).split(path.sep).join('/');
+}
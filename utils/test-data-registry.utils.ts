@@ -0,0 +1,344 @@
+import { SmartLogger } from './smart-logger.utils';
+import type { WordPressApiClient } from './wordpress-api.helper';
+
+/**
+ * Kinds of content the suite creates on the target site.
+ * Terms of taxonomies other than category and post_tag are tracked as `term:<taxonomy>`.
+ */
+export type TrackedEntityType = 'post' | 'page' | 'category' | 'tag' | 'media' | 'user' | 'comment' | 'menu' | `term:${string}`;
+
+/**
+ * Registry type for a term of the given taxonomy
+ */
+export function termEntityType(taxonomy: string): TrackedEntityType {
+  if (taxonomy === 'category') return 'category';
+  if (taxonomy === 'post_tag') return 'tag';
+  return `term:${taxonomy}`;
+}
+
+/**
+ * A piece of content created by a test
+ */
+export interface TrackedEntity {
+  type: TrackedEntityType;
+  /** WordPress ID when known (API-created); UI-created entities are resolved by name at cleanup */
+  id?: number;
+  /** Title for posts/pages/media, name for terms and menus, username for users, text for comments */
+  name: string;
+  source: 'ui' | 'api';
+  /** Test that created the entity */
+  owner: string;
+  deleted: boolean;
+}
+
+/**
+ * Title prefixes of the posts the specs and fixtures create, each followed by a random suffix
+ * (menusTestData shares a 6-character suffix with its page and category, the others use 8)
+ */
+export const LEFTOVER_POST_PREFIXES = [
+  'Draft Post',
+  'Published Post',
+  'Tagged Post',
+  'Comments Post',
+  'Settings Post',
+  'Menu Post',
+  'Integration Test Post'
+] as const;
+
+/**
+ * Naming patterns produced by our fixtures - anything matching them and older than
+ * the sweep threshold is a leftover from a crashed run
+ */
+export const LEFTOVER_PATTERNS = {
+  // categoryTestData.dynamicCategory(): `Automation Category ${random6}`, description ends with an ISO timestamp
+  category: /^Automation Category [A-Za-z0-9]{6}$/,
+  // tagsTestData.dynamicTag(): `Automation Tag ${random6}`, same timestamped description
+  tag: /^Automation Tag [A-Za-z0-9]{6}$/,
+  // post specs: `${LEFTOVER_POST_PREFIXES[n]} ${random}`, whatever status the post ends up in
+  post: new RegExp(`^(?:${LEFTOVER_POST_PREFIXES.join('|')}) [A-Za-z0-9]{6,8}$`),
+  // pagesTestData.dynamicPage(): `Automation Page ${random6}`
+  page: /^Automation Page [A-Za-z0-9]{6}$/,
+  // mediaTestData.uniqueFile(): uploads named `automation-media-${random6}`, titled after the file
+  media: /^automation-media-[a-z0-9]{6}$/
+} as const;
+
+/**
+ * Test data registry
+ * Records every entity created through the page objects or WordPressApiClient in this worker,
+ * so fixtures can delete whatever a test did not clean up itself - even when the test fails
+ */
+export class TestDataRegistry {
+  private static instance: TestDataRegistry;
+  private entities: TrackedEntity[] = [];
+  private currentOwner: string = 'worker';
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance (one per worker process)
+   */
+  static getInstance(): TestDataRegistry {
+    if (!TestDataRegistry.instance) {
+      TestDataRegistry.instance = new TestDataRegistry();
+    }
+    return TestDataRegistry.instance;
+  }
+
+  /**
+   * Attribute entities registered from now on to the given test
+   */
+  beginTest(testId: string): void {
+    this.currentOwner = testId;
+  }
+
+  /**
+   * Record a newly created entity
+   */
+  register(type: TrackedEntityType, name: string, source: 'ui' | 'api', id?: number): void {
+    const existing = this.find(type, id ?? name);
+    if (existing) {
+      // UI flows may save the same post several times - keep the first record and fill in the ID
+      existing.id = existing.id ?? id;
+      existing.deleted = false;
+      return;
+    }
+
+    this.entities.push({ type, id, name, source, owner: this.currentOwner, deleted: false });
+    SmartLogger.log('INFO', `Tracking created ${type}: ${name}`, { id, source });
+  }
+
+  /**
+   * Record a rename (e.g. CategoriesPage.editCategory) so cleanup still finds the entity
+   */
+  rename(type: TrackedEntityType, oldName: string, newName: string): void {
+    const entity = this.find(type, oldName);
+    if (entity) {
+      entity.name = newName;
+    }
+  }
+
+  /**
+   * Record that a test deleted an entity itself
+   * @param idOrName - WordPress ID or name/title
+   */
+  markDeleted(type: TrackedEntityType, idOrName: number | string): void {
+    const entity = this.find(type, idOrName);
+    if (entity) {
+      entity.deleted = true;
+    }
+  }
+
+  /**
+   * Entities still present on the site, optionally limited to one test
+   */
+  getPending(owner?: string): TrackedEntity[] {
+    return this.entities.filter(entity => !entity.deleted && (!owner || entity.owner === owner));
+  }
+
+  /**
+   * Delete every pending entity (newest first, so child categories go before parents)
+   * Failures are logged and do not stop the remaining deletions.
+   * @param owner - Only clean up entities created by this test
+   * @returns Promise<number> - Number of entities deleted
+   */
+  async cleanup(api: WordPressApiClient, owner?: string): Promise<number> {
+    const pending = this.getPending(owner).reverse();
+    let deleted = 0;
+
+    for (const entity of pending) {
+      try {
+        const id = entity.id ?? await this.resolveId(api, entity);
+        if (id !== undefined) {
+          await this.deleteEntity(api, entity.type, id);
+          deleted++;
+        }
+        entity.deleted = true;
+      } catch (error) {
+        SmartLogger.log('WARN', `Cleanup failed for ${entity.type} "${entity.name}": ${(error as Error).message}`);
+      }
+    }
+
+    if (pending.length > 0) {
+      SmartLogger.log('INFO', `Test data cleanup removed ${deleted}/${pending.length} entities`, { owner });
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete leftovers from crashed runs, matched by the fixtures' random-suffix naming.
+   * Only entities older than maxAgeMinutes are touched so parallel runs keep their data.
+   * @returns Promise<number> - Number of leftovers deleted
+   */
+  async sweepLeftovers(api: WordPressApiClient, maxAgeMinutes: number = 60): Promise<number> {
+    const cutoff = Date.now() - maxAgeMinutes * 60 * 1000;
+    let swept = 0;
+
+    try {
+      const categories = await api.listCategories({ search: 'Automation Category' });
+      for (const category of categories) {
+        const createdAt = this.parseTimestamp(category.description);
+        if (LEFTOVER_PATTERNS.category.test(category.name) && createdAt !== undefined && createdAt < cutoff) {
+          await api.deleteCategory(category.id);
+          swept++;
+        }
+      }
+
+      const tags = await api.listTags({ search: 'Automation Tag' });
+      for (const tag of tags) {
+        const createdAt = this.parseTimestamp(tag.description);
+        if (LEFTOVER_PATTERNS.tag.test(tag.name) && createdAt !== undefined && createdAt < cutoff) {
+          await api.deleteTag(tag.id);
+          swept++;
+        }
+      }
+
+      // Post specs also schedule, publish, make private, submit for review and trash their posts.
+      // One search per prefix; a post two searches return is deleted once.
+      const sweptPosts = new Set<number>();
+      for (const prefix of LEFTOVER_POST_PREFIXES) {
+        const posts = await api.listPosts({ search: prefix, status: 'publish,future,draft,pending,private,trash', per_page: 100 });
+        for (const post of posts) {
+          const modifiedAt = Date.parse(`${post.modified_gmt}Z`);
+          if (!sweptPosts.has(post.id) && LEFTOVER_PATTERNS.post.test(post.title.raw ?? post.title.rendered) && modifiedAt < cutoff) {
+            await api.deletePost(post.id);
+            sweptPosts.add(post.id);
+            swept++;
+          }
+        }
+      }
+
+      // Same statuses as the posts - a page moved to another status or the trash through the UI is still a leftover
+      const pages = await api.listPages({ search: 'Automation Page', status: 'publish,future,draft,pending,private,trash', per_page: 100 });
+      for (const page of pages) {
+        const modifiedAt = Date.parse(`${page.modified_gmt}Z`);
+        if (LEFTOVER_PATTERNS.page.test(page.title.raw ?? page.title.rendered) && modifiedAt < cutoff) {
+          await api.deletePage(page.id);
+          swept++;
+        }
+      }
+
+      const media = await api.listMedia({ search: 'automation-media', per_page: 100 });
+      for (const item of media) {
+        const uploadedAt = Date.parse(`${item.date_gmt}Z`);
+        if (LEFTOVER_PATTERNS.media.test(item.title.raw ?? item.title.rendered) && uploadedAt < cutoff) {
+          await api.deleteMedia(item.id);
+          swept++;
+        }
+      }
+    } catch (error) {
+      SmartLogger.log('WARN', `Leftover sweep stopped early: ${(error as Error).message}`);
+    }
+
+    if (swept > 0) {
+      SmartLogger.log('INFO', `Swept ${swept} leftover entities from earlier runs`, { maxAgeMinutes });
+    }
+    return swept;
+  }
+
+  /**
+   * Forget all records (used after worker teardown)
+   */
+  clear(): void {
+    this.entities = [];
+    this.currentOwner = 'worker';
+  }
+
+  /**
+   * Find the most recent record matching an ID or name
+   * @private
+   */
+  private find(type: TrackedEntityType, idOrName: number | string): TrackedEntity | undefined {
+    return [...this.entities].reverse().find(entity =>
+      entity.type === type &&
+      (typeof idOrName === 'number' ? entity.id === idOrName : entity.name === idOrName)
+    );
+  }
+
+  /**
+   * Look up the WordPress ID of a UI-created entity by its name
+   * @private
+   */
+  private async resolveId(api: WordPressApiClient, entity: TrackedEntity): Promise<number | undefined> {
+    switch (entity.type) {
+      case 'category':
+        return (await api.findCategoryByName(entity.name))?.id;
+      case 'tag':
+        return (await api.findTagByName(entity.name))?.id;
+      case 'user':
+        return (await api.findUserByUsername(entity.name))?.id;
+      case 'menu':
+        return (await api.findMenuByName(entity.name))?.id;
+      case 'post': {
+        const posts = await api.listPosts({ search: entity.name, status: 'publish,future,draft,pending,private,trash' });
+        return posts.find(post => (post.title.raw ?? post.title.rendered) === entity.name)?.id;
+      }
+      case 'page': {
+        const pages = await api.listPages({ search: entity.name, status: 'publish,future,draft,pending,private,trash' });
+        return pages.find(page => (page.title.raw ?? page.title.rendered) === entity.name)?.id;
+      }
+      case 'media': {
+        const media = await api.listMedia({ search: entity.name });
+        return media.find(item => (item.title.raw ?? item.title.rendered) === entity.name)?.id;
+      }
+      case 'comment': {
+        // 'all' covers approved and pending comments; a test may have left it in the spam or the trash
+        for (const status of ['all', 'spam', 'trash']) {
+          const comments = await api.listComments({ search: entity.name, status });
+          const match = comments.find(comment => (comment.content.raw ?? comment.content.rendered) === entity.name);
+          if (match) {
+            return match.id;
+          }
+        }
+        return undefined;
+      }
+      default:
+        return (await api.findTermByName(this.taxonomyOf(entity.type), entity.name))?.id;
+    }
+  }
+
+  /**
+   * Delete an entity by type and ID
+   * @private
+   */
+  private async deleteEntity(api: WordPressApiClient, type: TrackedEntityType, id: number): Promise<void> {
+    switch (type) {
+      case 'post':
+        return api.deletePost(id, true);
+      case 'page':
+        return api.deletePage(id, true);
+      case 'category':
+        return api.deleteCategory(id);
+      case 'tag':
+        return api.deleteTag(id);
+      case 'media':
+        return api.deleteMedia(id);
+      case 'comment':
+        return api.deleteComment(id, true);
+      case 'menu':
+        return api.deleteMenu(id);
+      case 'user': {
+        const currentUser = await api.getCurrentUser();
+        return api.deleteUser(id, currentUser.id);
+      }
+      default:
+        return api.deleteTerm(this.taxonomyOf(type), id);
+    }
+  }
+
+  /**
+   * Taxonomy slug of a `term:<taxonomy>` type
+   * @private
+   */
+  private taxonomyOf(type: TrackedEntityType): string {
+    return type.replace(/^term:/, '');
+  }
+
+  /**
+   * Extract the ISO timestamp dynamicCategory() writes into descriptions
+   * @private
+   */
+  private parseTimestamp(text: string): number | undefined {
+    const match = text.match(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/);
+    return match ? Date.parse(match[0]) : undefined;
+  }
+}
@@ -0,0 +1,96 @@
+import { UserRole } from '../types/base.types';
+import { AuthManager } from './auth.utils';
+import { EnvironmentGuard } from './environment-guard.utils';
+import { SmartLogger } from './smart-logger.utils';
+import { WordPressApiClient, WP_ROLE_SLUGS } from './wordpress-api.helper';
+
+/**
+ * What provisioning found or did for one testUsers account
+ * - existing: the account is there with the expected role
+ * - created: the account was missing and has been created
+ * - role-mismatch: the account is there but holds other roles - left as it is
+ * - missing: the account is missing and was not created (protected target, no password override, or creation failed)
+ */
+export type ProvisioningStatus = 'existing' | 'created' | 'role-mismatch' | 'missing';
+
+export interface ProvisioningResult {
+  role: UserRole;
+  username: string;
+  status: ProvisioningStatus;
+  /** WordPress roles of the account, when it exists */
+  roles?: string[];
+  /** Why the account is missing or mismatched */
+  reason?: string;
+}
+
+/**
+ * Test user provisioning
+ * Makes sure every testUsers account (with its <ROLE>_USERNAME / <ROLE>_PASSWORD overrides) exists on the
+ * target before the suite runs. Missing accounts are created through the REST API - only when their
+ * <ROLE>_PASSWORD override is set, so no account gets the password committed in testUsers - and are not
+ * tracked by TestDataRegistry, so cleanup never deletes them. Existing accounts are never changed: a password cannot
+ * be read back, and a wrong role is only reported. Protected targets (prod) are checked but not written to.
+ */
+export class UserProvisioner {
+  /**
+   * Check every role that signs in and create the accounts that are missing
+   * @param api - Client logged in as a user with create_users (the admin session)
+   */
+  static async provisionTestUsers(api: WordPressApiClient): Promise<ProvisioningResult[]> {
+    const canCreate = !EnvironmentGuard.getInstance().isProtectedTarget();
+    const results: ProvisioningResult[] = [];
+
+    for (const role of Object.values(UserRole).filter(candidate => AuthManager.requiresLogin(candidate))) {
+      results.push(await this.provisionRole(api, role, canCreate));
+    }
+
+    const summary = results.map(result => `${result.role}: ${result.status}`).join(', ');
+    SmartLogger.log('INFO', `Test user provisioning finished - ${summary}`);
+    return results;
+  }
+
+  /**
+   * Check one role's account and create it when allowed
+   * @private
+   */
+  private static async provisionRole(api: WordPressApiClient, role: UserRole, canCreate: boolean): Promise<ProvisioningResult> {
+    const user = AuthManager.getUserForRole(role);
+    const expectedRole = WP_ROLE_SLUGS[role];
+
+    try {
+      const existing = await api.findUserByUsername(user.username);
+      if (existing) {
+        const roles = existing.roles || [];
+        if (expectedRole && !roles.includes(expectedRole)) {
+          const reason = `expected ${expectedRole}, found ${roles.join(', ') || 'no role'}`;
+          SmartLogger.log('WARN', `Test user ${user.username} has the wrong role - ${reason}`, { role });
+          return { role, username: user.username, status: 'role-mismatch', roles, reason };
+        }
+        return { role, username: user.username, status: 'existing', roles };
+      }
+
+      if (!canCreate) {
+        const reason = 'not created on a protected target';
+        SmartLogger.log('WARN', `Test user ${user.username} does not exist - ${reason}`, { role });
+        return { role, username: user.username, status: 'missing', reason };
+      }
+
+      const passwordVariable = `${role.toUpperCase()}_PASSWORD`;
+      if (!process.env[passwordVariable]) {
+        const reason = `not created without ${passwordVariable}`;
+        SmartLogger.log('WARN', `Test user ${user.username} does not exist - ${reason}`, { role });
+        return { role, username: user.username, status: 'missing', reason };
+      }
+
+      const created = await api.createUser(user, false);
+      SmartLogger.log('INFO', `Created test user ${user.username}`, { role, id: created.id });
+      return { role, username: user.username, status: 'created', roles: created.roles };
+    } catch (error) {
+      const reason = (error as Error).message;
+      SmartLogger.log('WARN', `Could not provision test user ${user.username}: ${reason}`, { role });
+      return { role, username: user.username, status: 'missing', reason };
+    }
+  }
+}
+
+export default UserProvisioner;
@@ -0,0 +1,653 @@
+/**
+ * WordPress REST API client for seeding and verifying test data
+ * Wraps /wp-json/wp/v2 endpoints for posts, pages, categories, tags, other taxonomies' terms, media, users, comments, settings, menus
+ * and plugins, and returns the typed models from types/wordpress.types.ts
+ */
+
+import { APIRequestContext, APIResponse, BrowserContext } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { EnvironmentManager } from './environment.utils';
+import { SmartLogger } from './smart-logger.utils';
+import { TestDataRegistry, termEntityType } from './test-data-registry.utils';
+import { TestUser, UserRole } from '../types/base.types';
+import {
+  WpCategory,
+  WpComment,
+  WpCommentInput,
+  WpListParams,
+  WpMedia,
+  WpMediaInput,
+  WpMenu,
+  WpMenuItem,
+  WpMenuLocation,
+  WpPage,
+  WpPageInput,
+  WpPlugin,
+  WpPost,
+  WpPostInput,
+  WpSettings,
+  WpTag,
+  WpTaxonomy,
+  WpTerm,
+  WpTermInput,
+  WpUser
+} from '../types/wordpress.types';
+
+/**
+ * Supported authentication modes
+ * - cookie: reuses a logged-in browser session and sends the REST nonce
+ * - application-password: HTTP Basic auth with a WordPress Application Password
+ */
+export type WordPressApiAuth =
+  | { type: 'cookie'; nonce: string }
+  | { type: 'application-password'; username: string; password: string };
+
+export interface WordPressApiConfig {
+  request: APIRequestContext;
+  auth: WordPressApiAuth;
+  /** REST root (…/wp-json); defaults to EnvironmentManager.getApiUrl() */
+  apiUrl?: string;
+  timeout?: number;
+}
+
+interface RequestOptions {
+  params?: WpListParams | Record<string, string | number | boolean | undefined>;
+  data?: unknown;
+  body?: Buffer;
+  headers?: Record<string, string>;
+}
+
+/** WordPress role slugs for our UserRole values (guests have no account) */
+export const WP_ROLE_SLUGS: Record<UserRole, string | null> = {
+  [UserRole.ADMIN]: 'administrator',
+  [UserRole.EDITOR]: 'editor',
+  [UserRole.AUTHOR]: 'author',
+  [UserRole.SUBSCRIBER]: 'subscriber',
+  [UserRole.GUEST]: null
+};
+
+/** Content types for media uploads, by file extension */
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4'
+};
+
+export class WordPressApiClient {
+  private request: APIRequestContext;
+  private auth: WordPressApiAuth;
+  private baseUrl: string;
+  private timeout: number;
+  private registry = TestDataRegistry.getInstance();
+  /** Term routes by taxonomy slug; other taxonomies are looked up through wp/v2/taxonomies */
+  private termRoutes = new Map<string, string>([['category', '/categories'], ['post_tag', '/tags']]);
+
+  constructor(config: WordPressApiConfig) {
+    const apiUrl = (config.apiUrl || EnvironmentManager.getInstance().getApiUrl()).replace(/\/+$/, '');
+    this.request = config.request;
+    this.auth = config.auth;
+    this.baseUrl = `${apiUrl}/wp/v2`;
+    this.timeout = config.timeout || 30000;
+  }
+
+  /**
+   * Create a client that rides on a logged-in browser context (cookie + nonce auth)
+   * @param context - Browser context holding a WordPress session (e.g. from storageState)
+   */
+  static async fromBrowserContext(context: BrowserContext, apiUrl?: string): Promise<WordPressApiClient> {
+    const siteUrl = EnvironmentManager.getInstance().getBaseUrl();
+    const response = await context.request.get(`${siteUrl}/wp-admin/admin-ajax.php?action=rest-nonce`);
+    const nonce = (await response.text()).trim();
+
+    // admin-ajax answers "0" when the session is not logged in
+    if (!response.ok() || !nonce || nonce === '0') {
+      throw new Error(`Unable to obtain REST nonce - is the browser context logged in? (status ${response.status()})`);
+    }
+
+    return new WordPressApiClient({ request: context.request, auth: { type: 'cookie', nonce }, apiUrl });
+  }
+
+  /**
+   * Create a client authenticated with an Application Password.
+   * Falls back to WP_APP_USERNAME / WP_APP_PASSWORD when credentials are not passed.
+   */
+  static withApplicationPassword(
+    request: APIRequestContext,
+    username: string = process.env.WP_APP_USERNAME || '',
+    password: string = process.env.WP_APP_PASSWORD || '',
+    apiUrl?: string
+  ): WordPressApiClient {
+    if (!username || !password) {
+      throw new Error('Application Password credentials are not set (WP_APP_USERNAME / WP_APP_PASSWORD)');
+    }
+    return new WordPressApiClient({ request, auth: { type: 'application-password', username, password }, apiUrl });
+  }
+
+  // ===== POSTS =====
+
+  async listPosts(params: WpListParams = {}): Promise<WpPost[]> {
+    return this.get<WpPost[]>('/posts', { params: { context: 'edit', ...params } });
+  }
+
+  async getPost(id: number): Promise<WpPost> {
+    return this.get<WpPost>(`/posts/${id}`, { params: { context: 'edit' } });
+  }
+
+  async createPost(post: WpPostInput): Promise<WpPost> {
+    const created = await this.post<WpPost>('/posts', { data: post });
+    this.registry.register('post', post.title, 'api', created.id);
+    return created;
+  }
+
+  async updatePost(id: number, updates: Partial<WpPostInput>): Promise<WpPost> {
+    return this.post<WpPost>(`/posts/${id}`, { data: updates });
+  }
+
+  /**
+   * Delete a post
+   * @param force - Skip the trash and delete permanently
+   */
+  async deletePost(id: number, force: boolean = true): Promise<void> {
+    await this.delete(`/posts/${id}`, { params: { force } });
+    this.registry.markDeleted('post', id);
+  }
+
+  // ===== PAGES =====
+
+  async listPages(params: WpListParams = {}): Promise<WpPage[]> {
+    return this.get<WpPage[]>('/pages', { params: { context: 'edit', ...params } });
+  }
+
+  async getPage(id: number): Promise<WpPage> {
+    return this.get<WpPage>(`/pages/${id}`, { params: { context: 'edit' } });
+  }
+
+  async createPage(page: WpPageInput): Promise<WpPage> {
+    const created = await this.post<WpPage>('/pages', { data: page });
+    this.registry.register('page', page.title, 'api', created.id);
+    return created;
+  }
+
+  async updatePage(id: number, updates: Partial<WpPageInput>): Promise<WpPage> {
+    return this.post<WpPage>(`/pages/${id}`, { data: updates });
+  }
+
+  /**
+   * Delete a page; like core, its child pages move up to its parent
+   * @param force - Skip the trash and delete permanently
+   */
+  async deletePage(id: number, force: boolean = true): Promise<void> {
+    await this.delete(`/pages/${id}`, { params: { force } });
+    this.registry.markDeleted('page', id);
+  }
+
+  // ===== CATEGORIES =====
+
+  async listCategories(params: WpListParams = {}): Promise<WpCategory[]> {
+    return this.get<WpCategory[]>('/categories', { params: { per_page: 100, ...params } });
+  }
+
+  async getCategory(id: number): Promise<WpCategory> {
+    return this.get<WpCategory>(`/categories/${id}`);
+  }
+
+  /**
+   * Find a category by its exact name
+   */
+  async findCategoryByName(name: string): Promise<WpCategory | undefined> {
+    const matches = await this.listCategories({ search: name });
+    return matches.find(category => this.decodeEntities(category.name) === name);
+  }
+
+  /**
+   * Create a category - accepts categoryTestData entries directly
+   */
+  async createCategory(category: WpTermInput): Promise<WpCategory> {
+    const created = await this.post<WpCategory>('/categories', { data: await this.toTermPayload(category, 'category') });
+    this.registry.register('category', category.name, 'api', created.id);
+    return created;
+  }
+
+  async updateCategory(id: number, updates: Partial<WpTermInput>): Promise<WpCategory> {
+    return this.post<WpCategory>(`/categories/${id}`, { data: await this.toTermPayload(updates, 'category') });
+  }
+
+  async deleteCategory(id: number): Promise<void> {
+    // Terms do not support trashing - force is required
+    await this.delete(`/categories/${id}`, { params: { force: true } });
+    this.registry.markDeleted('category', id);
+  }
+
+  // ===== TAGS =====
+
+  async listTags(params: WpListParams = {}): Promise<WpTag[]> {
+    return this.get<WpTag[]>('/tags', { params: { per_page: 100, ...params } });
+  }
+
+  async getTag(id: number): Promise<WpTag> {
+    return this.get<WpTag>(`/tags/${id}`);
+  }
+
+  /**
+   * Find a tag by its exact name
+   */
+  async findTagByName(name: string): Promise<WpTag | undefined> {
+    const matches = await this.listTags({ search: name });
+    return matches.find(tag => this.decodeEntities(tag.name) === name);
+  }
+
+  async createTag(tag: Omit<WpTermInput, 'parent'>): Promise<WpTag> {
+    const created = await this.post<WpTag>('/tags', { data: tag });
+    this.registry.register('tag', tag.name, 'api', created.id);
+    return created;
+  }
+
+  async updateTag(id: number, updates: Partial<Omit<WpTermInput, 'parent'>>): Promise<WpTag> {
+    return this.post<WpTag>(`/tags/${id}`, { data: updates });
+  }
+
+  async deleteTag(id: number): Promise<void> {
+    await this.delete(`/tags/${id}`, { params: { force: true } });
+    this.registry.markDeleted('tag', id);
+  }
+
+  // ===== TAXONOMIES =====
+
+  async listTaxonomies(): Promise<WpTaxonomy[]> {
+    // Keyed by slug in the response
+    return Object.values(await this.get<Record<string, WpTaxonomy>>('/taxonomies'));
+  }
+
+  async getTaxonomy(taxonomy: string): Promise<WpTaxonomy> {
+    return this.get<WpTaxonomy>(`/taxonomies/${taxonomy}`);
+  }
+
+  /**
+   * Terms of any taxonomy, including ones registered by plugins
+   */
+  async listTerms(taxonomy: string, params: WpListParams = {}): Promise<WpTerm[]> {
+    return this.get<WpTerm[]>(await this.termRoute(taxonomy), { params: { per_page: 100, ...params } });
+  }
+
+  /**
+   * Find a term by its exact name
+   */
+  async findTermByName(taxonomy: string, name: string): Promise<WpTerm | undefined> {
+    const matches = await this.listTerms(taxonomy, { search: name });
+    return matches.find(term => this.decodeEntities(term.name) === name);
+  }
+
+  async createTerm(taxonomy: string, term: WpTermInput): Promise<WpTerm> {
+    const created = await this.post<WpTerm>(await this.termRoute(taxonomy), { data: await this.toTermPayload(term, taxonomy) });
+    this.registry.register(termEntityType(taxonomy), term.name, 'api', created.id);
+    return created;
+  }
+
+  async updateTerm(taxonomy: string, id: number, updates: Partial<WpTermInput>): Promise<WpTerm> {
+    return this.post<WpTerm>(`${await this.termRoute(taxonomy)}/${id}`, { data: await this.toTermPayload(updates, taxonomy) });
+  }
+
+  async deleteTerm(taxonomy: string, id: number): Promise<void> {
+    await this.delete(`${await this.termRoute(taxonomy)}/${id}`, { params: { force: true } });
+    this.registry.markDeleted(termEntityType(taxonomy), id);
+  }
+
+  // ===== MEDIA =====
+
+  async listMedia(params: WpListParams = {}): Promise<WpMedia[]> {
+    return this.get<WpMedia[]>('/media', { params: { context: 'edit', ...params } });
+  }
+
+  async getMedia(id: number): Promise<WpMedia> {
+    return this.get<WpMedia>(`/media/${id}`, { params: { context: 'edit' } });
+  }
+
+  /**
+   * Upload a file to the media library
+   * @param filePath - Path to the file on disk
+   * @param details - Optional title/alt text/caption to set after upload
+   */
+  async uploadMedia(filePath: string, details: WpMediaInput = {}): Promise<WpMedia> {
+    const fileName = path.basename(filePath);
+    const contentType = MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+
+    const media = await this.post<WpMedia>('/media', {
+      body: fs.readFileSync(filePath),
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+
+    this.registry.register('media', media.title.raw ?? media.title.rendered, 'api', media.id);
+
+    return Object.keys(details).length > 0 ? this.updateMedia(media.id, details) : media;
+  }
+
+  async updateMedia(id: number, updates: WpMediaInput): Promise<WpMedia> {
+    return this.post<WpMedia>(`/media/${id}`, { data: updates });
+  }
+
+  async deleteMedia(id: number): Promise<void> {
+    // Attachments do not support trashing - force is required
+    await this.delete(`/media/${id}`, { params: { force: true } });
+    this.registry.markDeleted('media', id);
+  }
+
+  // ===== USERS =====
+
+  async listUsers(params: WpListParams = {}): Promise<WpUser[]> {
+    return this.get<WpUser[]>('/users', { params: { context: 'edit', ...params } });
+  }
+
+  async getUser(id: number): Promise<WpUser> {
+    return this.get<WpUser>(`/users/${id}`, { params: { context: 'edit' } });
+  }
+
+  async getCurrentUser(): Promise<WpUser> {
+    return this.get<WpUser>('/users/me', { params: { context: 'edit' } });
+  }
+
+  /**
+   * Find a user by login name
+   */
+  async findUserByUsername(username: string): Promise<WpUser | undefined> {
+    const matches = await this.listUsers({ search: username });
+    return matches.find(user => user.username === username);
+  }
+
+  /**
+   * Create a user - accepts testUsers entries directly
+   * @param track - False for accounts that must outlive the run (provisioned testUsers), so cleanup leaves them alone
+   */
+  async createUser(user: TestUser, track: boolean = true): Promise<WpUser> {
+    const roleSlug = WP_ROLE_SLUGS[user.role];
+    if (!roleSlug) {
+      throw new Error(`Role "${user.role}" has no WordPress account to create`);
+    }
+
+    const created = await this.post<WpUser>('/users', {
+      data: {
+        username: user.username,
+        password: user.password,
+        email: user.email,
+        first_name: user.firstName,
+        last_name: user.lastName,
+        roles: [roleSlug]
+      }
+    });
+    if (track) {
+      this.registry.register('user', user.username, 'api', created.id);
+    }
+    return created;
+  }
+
+  async updateUser(id: number, updates: Record<string, unknown>): Promise<WpUser> {
+    return this.post<WpUser>(`/users/${id}`, { data: updates });
+  }
+
+  /**
+   * Delete a user, reassigning their content
+   * @param reassignTo - User ID that receives the deleted user's posts
+   */
+  async deleteUser(id: number, reassignTo: number): Promise<void> {
+    await this.delete(`/users/${id}`, { params: { force: true, reassign: reassignTo } });
+    this.registry.markDeleted('user', id);
+  }
+
+  // ===== COMMENTS =====
+
+  /**
+   * List comments - approved ones unless params.status asks for 'hold', 'spam', 'trash' or 'all'
+   */
+  async listComments(params: WpListParams = {}): Promise<WpComment[]> {
+    return this.get<WpComment[]>('/comments', { params: { context: 'edit', ...params } });
+  }
+
+  async getComment(id: number): Promise<WpComment> {
+    return this.get<WpComment>(`/comments/${id}`, { params: { context: 'edit' } });
+  }
+
+  async createComment(comment: WpCommentInput): Promise<WpComment> {
+    const created = await this.post<WpComment>('/comments', { data: comment });
+    this.registry.register('comment', comment.content, 'api', created.id);
+    return created;
+  }
+
+  async updateComment(id: number, updates: Partial<WpCommentInput>): Promise<WpComment> {
+    return this.post<WpComment>(`/comments/${id}`, { data: updates });
+  }
+
+  /**
+   * Delete a comment
+   * @param force - Skip the trash and delete permanently
+   */
+  async deleteComment(id: number, force: boolean = true): Promise<void> {
+    await this.delete(`/comments/${id}`, { params: { force } });
+    this.registry.markDeleted('comment', id);
+  }
+
+  // ===== SETTINGS =====
+
+  async getSettings(): Promise<WpSettings> {
+    return this.get<WpSettings>('/settings');
+  }
+
+  async updateSettings(updates: Partial<WpSettings>): Promise<WpSettings> {
+    return this.post<WpSettings>('/settings', { data: updates });
+  }
+
+  // ===== MENUS =====
+
+  async listMenus(params: WpListParams = {}): Promise<WpMenu[]> {
+    return this.get<WpMenu[]>('/menus', { params: { context: 'edit', ...params } });
+  }
+
+  async getMenu(id: number): Promise<WpMenu> {
+    return this.get<WpMenu>(`/menus/${id}`, { params: { context: 'edit' } });
+  }
+
+  /**
+   * Find a menu by exact name (menu names are unique)
+   */
+  async findMenuByName(name: string): Promise<WpMenu | undefined> {
+    const menus = await this.listMenus({ search: name, per_page: 100 });
+    return menus.find(menu => menu.name === name);
+  }
+
+  /**
+   * Create a menu, optionally assigned to theme locations
+   */
+  async createMenu(name: string, locations: string[] = []): Promise<WpMenu> {
+    const created = await this.post<WpMenu>('/menus', { data: { name, locations } });
+    this.registry.register('menu', name, 'api', created.id);
+    return created;
+  }
+
+  /**
+   * Assign a menu to exactly these theme locations, replacing the menus they showed before
+   */
+  async updateMenuLocations(id: number, locations: string[]): Promise<WpMenu> {
+    return this.post<WpMenu>(`/menus/${id}`, { data: { locations } });
+  }
+
+  /**
+   * Delete a menu with its items - menus cannot be trashed
+   */
+  async deleteMenu(id: number): Promise<void> {
+    await this.delete(`/menus/${id}`, { params: { force: true } });
+    this.registry.markDeleted('menu', id);
+  }
+
+  /**
+   * Published items of a menu in menu order
+   */
+  async listMenuItems(menuId: number): Promise<WpMenuItem[]> {
+    return this.get<WpMenuItem[]>('/menu-items', { params: { context: 'edit', menus: menuId, per_page: 100 } });
+  }
+
+  /**
+   * Theme locations by name, with the menu assigned to each
+   */
+  async listMenuLocations(): Promise<Record<string, WpMenuLocation>> {
+    return this.get<Record<string, WpMenuLocation>>('/menu-locations', { params: { context: 'edit' } });
+  }
+
+  // ===== PLUGINS =====
+
+  /**
+   * Installed plugins, optionally only active or inactive ones - needs the activate_plugins capability
+   */
+  async listPlugins(status?: 'active' | 'inactive'): Promise<WpPlugin[]> {
+    return this.get<WpPlugin[]>('/plugins', { params: { context: 'edit', status } });
+  }
+
+  /**
+   * Activate or deactivate a plugin
+   * @param plugin - Plugin file without .php, as listed (e.g. 'akismet/akismet')
+   */
+  async updatePluginStatus(plugin: string, status: 'active' | 'inactive'): Promise<WpPlugin> {
+    return this.post<WpPlugin>(`/plugins/${plugin}`, { data: { status } });
+  }
+
+  // ===== TRANSPORT =====
+
+  private async get<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    return this.send<T>('GET', endpoint, options);
+  }
+
+  private async post<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    return this.send<T>('POST', endpoint, options);
+  }
+
+  private async delete(endpoint: string, options: RequestOptions = {}): Promise<void> {
+    await this.send<unknown>('DELETE', endpoint, options);
+  }
+
+  /**
+   * Send a request, log it through SmartLogger and parse the JSON body
+   * @private
+   */
+  private async send<T>(method: 'GET' | 'POST' | 'DELETE', endpoint: string, options: RequestOptions): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}${this.buildQuery(options.params)}`;
+    const startTime = Date.now();
+
+    const response = await this.request.fetch(url, {
+      method,
+      headers: { ...this.authHeaders(), ...options.headers },
+      data: options.body ?? options.data,
+      timeout: this.timeout
+    });
+
+    SmartLogger.logApiCall(method, url, response.status(), Date.now() - startTime);
+
+    if (!response.ok()) {
+      throw new Error(await this.describeError(method, endpoint, response));
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Authentication headers for the configured mode
+   * @private
+   */
+  private authHeaders(): Record<string, string> {
+    if (this.auth.type === 'cookie') {
+      return { 'X-WP-Nonce': this.auth.nonce };
+    }
+    const token = Buffer.from(`${this.auth.username}:${this.auth.password}`).toString('base64');
+    return { Authorization: `Basic ${token}` };
+  }
+
+  /**
+   * Build a query string; arrays become comma-separated lists as WordPress expects
+   * @private
+   */
+  private buildQuery(params?: RequestOptions['params']): string {
+    if (!params) return '';
+
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+      query.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+
+    const queryString = query.toString();
+    return queryString ? `?${queryString}` : '';
+  }
+
+  /**
+   * Turn a WordPress error response ({ code, message }) into a readable message
+   * @private
+   */
+  private async describeError(method: string, endpoint: string, response: APIResponse): Promise<string> {
+    let detail = response.statusText();
+    try {
+      const body = await response.json();
+      detail = `${body.code}: ${body.message}`;
+    } catch {
+      // Non-JSON error body (e.g. HTML from a proxy) - keep the status text
+    }
+    return `WordPress API Error: ${method} ${endpoint} - ${response.status()} ${detail}`;
+  }
+
+  /**
+   * REST route for a taxonomy's terms, from its rest_base (e.g. post_tag -> /tags)
+   * @private
+   */
+  private async termRoute(taxonomy: string): Promise<string> {
+    let route = this.termRoutes.get(taxonomy);
+    if (!route) {
+      route = `/${(await this.getTaxonomy(taxonomy)).rest_base}`;
+      this.termRoutes.set(taxonomy, route);
+    }
+    return route;
+  }
+
+  /**
+   * Resolve a string parent (term name in the same taxonomy) to its ID
+   * @private
+   */
+  private async toTermPayload(term: Partial<WpTermInput>, taxonomy: string): Promise<Record<string, unknown>> {
+    const { parent, ...rest } = term;
+    const payload: Record<string, unknown> = { ...rest };
+
+    // Empty slugs/descriptions (e.g. minimalCategory) are left for WordPress to generate
+    if (!payload.slug) delete payload.slug;
+    if (!payload.description) delete payload.description;
+
+    if (typeof parent === 'string') {
+      const parentTerm = await this.findTermByName(taxonomy, parent);
+      if (!parentTerm) {
+        throw new Error(`Parent ${taxonomy} "${parent}" not found`);
+      }
+      payload.parent = parentTerm.id;
+    } else if (typeof parent === 'number') {
+      payload.parent = parent;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Decode the HTML entities WordPress applies to term names (e.g. &amp;)
+   * @private
+   */
+  private decodeEntities(value: string): string {
+    return value
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#0*39;/g, "'");
+  }
+}